@@ -0,0 +1,97 @@
+// ---------------------------------------------------------------------------------
+// Local stand-in for the field log sync server. Stores entries per project in a
+// JSON file so the offline outbox and sync can be tested without a backend.
+//
+//   node server/fieldSyncServer.mjs            (port 8787, or PORT)
+//
+//   GET  /api/health
+//   GET  /api/projects/:id/field-log          every entry for the project
+//   POST /api/projects/:id/field-log          upsert one entry, returns it with syncedAt
+
+import { createServer } from "node:http";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const PORT = Number(process.env.PORT) || 8787;
+const DATA_FILE = process.env.FIELD_LOG_FILE || join(dirname(fileURLToPath(import.meta.url)), "data", "field-log.json");
+const MAX_BODY_BYTES = 25 * 1024 * 1024; // entries carry their photos as data URLs
+
+async function load() {
+  try {
+    return JSON.parse(await readFile(DATA_FILE, "utf8"));
+  } catch {
+    return {};
+  }
+}
+
+async function save(store) {
+  await mkdir(dirname(DATA_FILE), { recursive: true });
+  await writeFile(DATA_FILE, JSON.stringify(store, null, 2));
+}
+
+// Every load-modify-save runs after the previous one, so two devices syncing at
+// once both keep their entries and a read never sees a half-written file
+let queue = Promise.resolve();
+
+function withStore(task) {
+  const run = queue.then(async () => task(await load()));
+  queue = run.catch(() => {});
+  return run;
+}
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type",
+  });
+  res.end(body === undefined ? "" : JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks = [];
+    req.on("data", (chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error("Entry too large"));
+        req.destroy();
+      } else chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    req.on("error", reject);
+  });
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? "/", `http://${req.headers.host}`);
+  if (req.method === "OPTIONS") return send(res, 204);
+  if (url.pathname === "/api/health") return send(res, 200, { ok: true });
+
+  const match = url.pathname.match(/^\/api\/projects\/([^/]+)\/field-log$/);
+  if (!match) return send(res, 404, { error: "Not found" });
+  const projectId = decodeURIComponent(match[1]);
+
+  try {
+    if (req.method === "GET") return send(res, 200, await withStore((store) => store[projectId] ?? []));
+    if (req.method !== "POST") return send(res, 405, { error: "Method not allowed" });
+
+    const entry = JSON.parse(await readBody(req));
+    if (typeof entry?.id !== "string" || entry.projectId !== projectId) return send(res, 400, { error: "Entry needs an id and this project's id" });
+    const accepted = await withStore(async (store) => {
+      const stored = { ...entry, syncedAt: new Date().toISOString() };
+      store[projectId] = [...(store[projectId] ?? []).filter((e) => e.id !== entry.id), stored];
+      await save(store);
+      return stored;
+    });
+    console.log(`${accepted.syncedAt} ${projectId}: ${entry.id}${entry.stopWork ? " (STOP WORK)" : ""}`);
+    return send(res, 200, accepted);
+  } catch (e) {
+    return send(res, 400, { error: e instanceof Error ? e.message : String(e) });
+  }
+});
+
+server.listen(PORT, () => console.log(`Field log sync server on http://localhost:${PORT} (data: ${DATA_FILE})`));
@@ -1,94 +1,260 @@
-import React, { useMemo, useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import { motion } from "framer-motion";
-import { FileText, Upload, Wand2, CheckCircle2, Info, Play, Image as ImageIcon, FileDown } from "lucide-react";
-import { Document as DocxDocument, Packer, Paragraph, HeadingLevel, Table, TableRow, TableCell, WidthType, ImageRun } from "docx";
+import { FileText, Wand2, CheckCircle2, Info, Play, FileDown, Layers } from "lucide-react";
+import { Document as DocxDocument, Packer, Paragraph, HeadingLevel, Table, TableRow, TableCell, WidthType } from "docx";
+import DocumentUploadPanel from "./components/DocumentUploadPanel";
+import TopicDictionaryPanel from "./components/TopicDictionaryPanel";
+import FigureGalleryPanel from "./components/FigureGalleryPanel";
+import FindingsEditor from "./components/FindingsEditor";
+import ProjectSwitcher from "./components/ProjectSwitcher";
+import SiteLocationPanel from "./components/SiteLocationPanel";
+import SiteLayersPanel from "./components/SiteLayersPanel";
+import ExceedancePanel from "./components/ExceedancePanel";
+import MonitoringDashboard from "./components/MonitoringDashboard";
+import FieldLogPanel from "./components/FieldLogPanel";
+import IncidentPanel from "./components/IncidentPanel";
+import ConditionLibraryPanel from "./components/ConditionLibraryPanel";
+import PolicyCrosswalkPanel from "./components/PolicyCrosswalkPanel";
+import NarrativeTemplatePanel, { TemplateIssueList } from "./components/NarrativeTemplatePanel";
+import MonitoringCalendarPanel from "./components/MonitoringCalendarPanel";
+import ProgrammePanel from "./components/ProgrammePanel";
+import CostingPanel from "./components/CostingPanel";
+import RegistersPanel from "./components/RegistersPanel";
+import SourceRefs from "./components/SourceRefs";
+import MonitoringReportPanel from "./components/MonitoringReportPanel";
+import { ingestFiles, type IngestedDocument } from "./lib/ingest";
+import { analyseDocuments } from "./lib/analysis";
+import { CATEGORIES, type MonitoringRow } from "./lib/model";
+import { CULTURAL_MONITOR_DUTIES, deriveMonitoringRows } from "./lib/monitoring";
+import { buildMonitoringCalendar } from "./lib/monitoringCalendar";
+import { estimateCosts } from "./lib/costing";
+import { fundingScheduleAppendix } from "./lib/costingExport";
+import { classifyWork } from "./lib/programme";
+import { inferIcmpSpatial, type SpatialIcmpResult } from "./lib/icmpSpatial";
+import { evaluateExceedances } from "./lib/exceedance";
+import { mergeFieldEntries, type FieldLogEntry } from "./lib/fieldLog";
+import { conditionContext, fillTemplate, orderedConditions } from "./lib/conditions";
+import { applicableProvisions, provisionById, provisionLabel } from "./lib/policyCatalogue";
+import { analyseProximity, flagDistanceClaims, proximityFindings, replaceProximityFindings } from "./lib/proximity";
+import { COUNCIL_PROFILES, councilProfile, defaultFrameworks, inferICMP, inferICMPMatches, policyInstruments, workingDayOptions } from "./lib/councils";
+import { figureFromExtract, type FigureItem } from "./lib/figures";
+import { buildNarrativeDocument } from "./lib/docxRender";
+import { NARRATIVE_DEPTHS, buildCouncilNarrative, buildManaWhenuaNarrative, checkNarrativeTemplate, depthLabel, renderNarrative, type NarrativeInput } from "./lib/narrative";
+import { DEFAULT_NARRATIVE_TEMPLATES } from "./lib/narrativeDefaults";
+import type { Organisation } from "./lib/organisations";
+import { buildMonitoringPdf, buildNarrativePdf, type PdfMeta } from "./lib/pdfExport";
+import { DEFAULT_TOPICS, RULES_LIBRARY } from "./lib/rules";
+import { createProject, duplicateProject, summariseProject, withSummary, type CiaProject, type ProjectSummary } from "./lib/project";
+import { deleteOrganisation, deleteProject, listOrganisations, listProjects, loadProject, saveOrganisation, saveProject } from "./lib/storage";
+import { ProjectFileError, parseProjectFile, projectFileName, projectFromFile, toProjectFile } from "./lib/projectFile";
+import { downloadBlob } from "./lib/download";
+import { sampleFindings } from "./lib/sampleFindings";
+import { validateFindings } from "./lib/validation";
+import { fieldSources, itemSources } from "./lib/citations";
 
 /**
- * Unicode safety: use explicit escapes for macron characters (e.g., \u0101 for ā)
+ * Unicode safety: use explicit escapes for macron characters (e.g., \u0101 for \u0101)
  * and avoid smart quotes/emdashes. This prevents toolchains from throwing
  * "Expecting Unicode escape sequence \\uXXXX".
  */
 
-// ---------------------------------------------------------------------------------
-// Hoisted ICMP dictionaries (to avoid re-allocating on every render)
-const HCC_ICMPS: { name: string; patterns: RegExp[] }[] = [
-  { name: "Peacocke ICMP", patterns: [/\bpeacocke\b|\bpeacocks\b/] },
-  { name: "Rotokauri ICMP", patterns: [/\brotokauri\b/] },
-  { name: "Te Rapa ICMP", patterns: [/te\s?rapa|\bpukete\b|\bnorthgate\b/] },
-  { name: "Rototuna ICMP", patterns: [/\brototuna\b|\bflagstaff\b|\bchartwell\b/] },
-  { name: "Ruakura ICMP", patterns: [/\bruakura\b|\bhillcrest\b|\bsilverdale\b|\buniversity\b/] },
-  { name: "Waitawhiriwhiri ICMP", patterns: [/waitawhiriwhiri|beerescourt|forest\s*lakes?|frankton|clarkin|bryant/] },
-  { name: "Mangakotukutuku ICMP", patterns: [/mangakotukutuku|glenview|melville|fitzroy|bader|kahikatea|ohaupo/] },
-];
-
-const WDC_ICMPS: { name: string; patterns: RegExp[] }[] = [
-  { name: "Ng\u0101ruaw\u0101hia ICMP", patterns: [/ngaruawahia|ng\u0101ruaw\u0101hia|hopuhopu/] },
-  { name: "Huntly ICMP", patterns: [/\bhuntly\b|\brahuipokeka\b/] },
-  { name: "Te Kauwhata ICMP", patterns: [/te\s*kauwhata|waerenga|meremere/] },
-];
-
-function normalizeForMatch(input: string): string {
-  // strip diacritics and lower-case for robust matching
-  return (input || "")
-    .toLowerCase()
-    .normalize("NFD")
-    .replace(/\p{Diacritic}/gu, "");
-}
-
-function inferICMP(location: string, councilName: string): string {
-  const loc = normalizeForMatch(location);
-  if (councilName === "Hamilton City Council") {
-    const hit = HCC_ICMPS.find((area) => area.patterns.some((p) => p.test(loc)));
-    return hit ? hit.name : "Hamilton City ICMP (area to confirm)";
-  } else {
-    const hit = WDC_ICMPS.find((area) => area.patterns.some((p) => p.test(loc)));
-    return hit ? hit.name : "Waikato District ICMP (area to confirm)";
-  }
-}
-
-function inferICMPMatches(location: string, councilName: string): string[] {
-  const loc = normalizeForMatch(location);
-  const dict = councilName === "Hamilton City Council" ? HCC_ICMPS : WDC_ICMPS;
-  const matches = dict.filter((area) => area.patterns.some((p) => p.test(loc))).map((a) => a.name);
-  if (matches.length === 0) {
-    return [councilName === "Hamilton City Council" ? "Hamilton City ICMP (area to confirm)" : "Waikato District ICMP (area to confirm)"];
-  }
-  return matches;
-}
-
 export default function CIAPrototype() {
   // ---------------------------------------------------------------------------------
   // State
-  const [council, setCouncil] = useState("Hamilton City Council");
-  const [includeHPMO, setIncludeHPMO] = useState(true);
-  const [projectName, setProjectName] = useState("Te Awa Industrial Upgrade - Stage 2");
-  const [projectLocation, setProjectLocation] = useState("");
-  const [inferredICMP, setInferredICMP] = useState<string>("(not set)");
+  const [project, setProject] = useState<CiaProject>(() => createProject("Te Awa Industrial Upgrade - Stage 2", true));
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [organisations, setOrganisations] = useState<Organisation[]>([]);
+  const [storageReady, setStorageReady] = useState(false);
+  const [saveState, setSaveState] = useState<"saved" | "saving" | "error">("saved");
   const [icmpOptions, setIcmpOptions] = useState<string[]>([]);
   const [showIcmpModal, setShowIcmpModal] = useState(false);
   const [icmpTemp, setIcmpTemp] = useState<string>("(not set)");
-  const [status] = useState("Ready to analyse");
+  const [icmpSpatial, setIcmpSpatial] = useState<SpatialIcmpResult | null>(null);
+  const [status, setStatus] = useState("Ready to analyse");
+  const [ingesting, setIngesting] = useState(false);
   const [testResult, setTestResult] = useState<string | null>(null);
-  const [figureGallery, setFigureGallery] = useState(
-    // placeholder gallery; real build will parse uploads for figures
-    Array.from({ length: 8 }).map((_, i) => ({
-      id: `fig-${i + 1}`,
-      caption: `Figure ${i + 1}: Placeholder diagram/map`,
-      // tiny transparent png
-      dataUrl:
-        "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAoAAAAKCAYAAACNMs+9AAAAFElEQVQYV2NkYGBgYGBg+M9ABQAKCAIBz1b5AwAAAABJRU5ErkJggg==",
-      selected: i < 3,
-    }))
-  );
+  const [importError, setImportError] = useState<{ message: string; issues: string[] } | null>(null);
+  const {
+    name: projectName,
+    location: projectLocation,
+    council,
+    frameworks: enabledFrameworks,
+    site,
+    icmpBoundaries,
+    heritageSites,
+    siteBufferM,
+    monitoringData,
+    fieldLog,
+    incidents,
+    conditionsSchedule,
+    narrativeDepth,
+    organisationId,
+    constructionDates,
+    programme,
+    restrictions,
+    costRates,
+    inferredICMP,
+    documents,
+    findings,
+    topics,
+    topicMatches,
+    figures: figureGallery,
+  } = project;
+  const profile = councilProfile(council);
+  const provisions = useMemo(() => applicableProvisions(councilProfile(council), enabledFrameworks), [council, enabledFrameworks]);
+
+  function updateProject(patch: Partial<CiaProject> | ((prev: CiaProject) => Partial<CiaProject>)) {
+    setProject((prev) => ({ ...prev, ...(typeof patch === "function" ? patch(prev) : patch), updatedAt: new Date().toISOString() }));
+  }
+
+  // ---------------------------------------------------------------------------------
+  // Persistence: reopen the most recently modified project, then autosave on change
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const [list, orgs] = await Promise.all([listProjects(), listOrganisations()]);
+        const recent = list.find((p) => !p.archived) ?? list[0];
+        const stored = recent ? await loadProject(recent.id) : undefined;
+        if (cancelled) return;
+        if (stored) setProject(stored);
+        setProjects(list);
+        setOrganisations(orgs);
+      } catch (e) {
+        console.error(e);
+        setSaveState("error");
+      } finally {
+        if (!cancelled) setStorageReady(true);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!storageReady) return;
+    setSaveState("saving");
+    const timer = setTimeout(() => {
+      saveProject(project)
+        .then(() => {
+          setProjects((list) => withSummary(list, summariseProject(project)));
+          setSaveState("saved");
+        })
+        .catch((e) => {
+          console.error(e);
+          setSaveState("error");
+        });
+    }, 600);
+    return () => clearTimeout(timer);
+  }, [project, storageReady]);
+
+  // Storage failures in the switcher show as the save state, like the autosave's
+  function storageFailed(e: unknown) {
+    console.error(e);
+    setSaveState("error");
+  }
+
+  // false when the current project could not be saved first; it stays open
+  async function switchTo(next: CiaProject): Promise<boolean> {
+    try {
+      // flush the pending autosave so edits made just before switching are kept
+      await saveProject(project);
+    } catch (e) {
+      storageFailed(e);
+      return false;
+    }
+    setProject(next);
+    setIcmpSpatial(null);
+    setTestResult(null);
+    setStatus("Ready to analyse");
+    return true;
+  }
+
+  async function handleOpenProject(id: string) {
+    try {
+      const stored = await loadProject(id);
+      if (stored) await switchTo(stored);
+    } catch (e) {
+      storageFailed(e);
+    }
+  }
+
+  async function handleDuplicateProject(id: string) {
+    try {
+      const source = id === project.id ? project : await loadProject(id);
+      if (!source) return;
+      await saveProject(duplicateProject(source));
+      setProjects(await listProjects());
+    } catch (e) {
+      storageFailed(e);
+    }
+  }
+
+  async function handleArchiveProject(id: string, archived: boolean) {
+    if (id === project.id) {
+      updateProject({ archived });
+      return;
+    }
+    try {
+      const stored = await loadProject(id);
+      if (!stored) return;
+      await saveProject({ ...stored, archived, updatedAt: new Date().toISOString() });
+      setProjects(await listProjects());
+    } catch (e) {
+      storageFailed(e);
+    }
+  }
+
+  function handleExportProject() {
+    const file = toProjectFile(project);
+    downloadBlob(new Blob([JSON.stringify(file, null, 2)], { type: "application/json" }), projectFileName(project));
+  }
+
+  async function handleImportProject(upload: File) {
+    try {
+      const file = parseProjectFile(await upload.text());
+      const existing = file.project.id ? await loadProject(file.project.id) : undefined;
+      // same id: the sender's updated copy of a project we already hold
+      const keepId = existing ? confirm(`"${existing.name}" already exists. OK to replace it with the imported file, Cancel to import as a copy.`) : true;
+      const imported = projectFromFile(file, { keepId });
+      if (!(await switchTo(imported))) return;
+      await saveProject(imported);
+      setImportError(null);
+      setStatus(`Imported ${upload.name}`);
+    } catch (e) {
+      console.error(e);
+      setImportError(
+        e instanceof ProjectFileError ? { message: e.message, issues: e.issues } : { message: e instanceof Error ? e.message : String(e), issues: [] }
+      );
+    }
+  }
+
+  async function handleDeleteProject(id: string) {
+    try {
+      await deleteProject(id);
+      const list = await listProjects();
+      setProjects(list);
+      if (id !== project.id) return;
+      const recent = list.find((p) => !p.archived);
+      const stored = recent ? await loadProject(recent.id) : undefined;
+      setProject(stored ?? createProject("New CIA project"));
+    } catch (e) {
+      storageFailed(e);
+    }
+  }
 
   // ---------------------------------------------------------------------------------
   // Handlers
+  // Spatial inference first (point or footprint against loaded boundaries), the
+  // location-text matcher when no boundary covers the site
   function handleAutoDetectICMP() {
-    const matches = inferICMPMatches(projectLocation, council);
+    const spatial = inferIcmpSpatial(site, icmpBoundaries);
+    setIcmpSpatial(spatial);
+    const matches = spatial?.matches.length ? spatial.matches : inferICMPMatches(projectLocation, profile);
+    if (spatial?.matches.length) setStatus(`ICMP from ${spatial.method}: ${spatial.matches.join(", ")} (${spatial.confidence} confidence)`);
     if (matches.length <= 1) {
-      setInferredICMP(
-        matches[0] || (council === "Hamilton City Council" ? "Hamilton City ICMP (area to confirm)" : "Waikato District ICMP (area to confirm)")
-      );
+      updateProject({ inferredICMP: matches[0] });
       setIcmpOptions([]);
       setShowIcmpModal(false);
     } else {
@@ -98,371 +264,89 @@ export default function CIAPrototype() {
     }
   }
 
-  // ---------------------------------------------------------------------------------
-  // Data model
-  type TriggerSpec = {
-    metrics: string[];
-    baselines: string;
-    thresholds: string[];
-    actions: string[];
-    reporting: string;
-  };
-
-  type Effects = {
-    cultural: string[];
-    social: string[];
-    environmental: string[];
-    spiritual: string[];
-  };
-
-  type Finding = {
-    category: string; // wai, whenua, whakapapa, wh\u0101nau, mauri, wairua
-    issue: string;
-    effects: Effects;
-    mitigations: string[];
-    recommendations: string[];
-    triggers: TriggerSpec;
-    policyLinks: string[];
-    consentClauses: string[];
-  };
-
-  const sampleFindings: Finding[] = [
-    {
-      category: "wai",
-      issue:
-        "Potential degradation of mauri and clarity in tributary due to earthworks sediment discharges",
-      effects: {
-        cultural: [
-          "Mauri of the awa diminished; disruption to mahinga kai practices",
-          "Reduced ability for wh\u0101nau to gather kai safely",
-        ],
-        social: ["Community concern over river health; trust impacts"],
-        environmental: [
-          "Elevated NTU and TSS; smothering of habitat; fish passage stress",
-        ],
-        spiritual: [
-          "Tapu/noa balance affected where discharges occur near w\u0101hi tapu",
-        ],
-      },
-      mitigations: [
-        "Install staged sediment retention ponds sized to Hamilton District Plan GD05 guidance; monitor turbidity (NTU) daily.",
-        "No instream works during tuna migration periods; implement 25 m riparian buffer in sensitive reaches.",
-      ],
-      recommendations: [
-        "Co-design mahinga kai monitoring with mana whenua; quarterly w\u0101nanga to review data and adaptive actions.",
-        "Embed Te Ture Whaimana vision-objectives as assessment criteria in contractor EMS (Environmental Management System).",
-      ],
-      triggers: {
-        metrics: [
-          "NTU (turbidity)",
-          "TSS (mg/L)",
-          "E. coli (cfu/100 mL)",
-          "Visual clarity (m)",
-          "Mahinga kai presence/abundance (tuna/\u012Bnanga)",
-        ],
-        baselines:
-          "Establish 4-week pre-works baseline for NTU/clarity and cultural health index (CHI) with mana whenua.",
-        thresholds: [
-          "NTU > baseline + 25% for >24h",
-          "Clarity < 1.6 m during fine weather",
-          "Any exceedance at mahinga kai sites",
-        ],
-        actions: [
-          "Stop high-risk works; inspect ESCP; deploy additional treatment within 24h",
-          "Notify mana whenua and Council within 1 working day",
-          "Hold hui within 5 working days to agree corrective actions",
-        ],
-        reporting:
-          "Quarterly report + dashboard; immediate incident reports when thresholds tripped.",
-      },
-      policyLinks: [
-        "Te Ture Whaimana - Vision and Objective 1 (health and wellbeing of the Waikato River)",
-        "Tai Tumu, Tai Pari, Tai Ao EMP - Wai: water quality, mahinga kai protection",
-        "Hamilton District Plan - 25.14 Infrastructure; erosion/sediment control standards",
-      ],
-      consentClauses: [
-        "Prior to works, the consent holder must submit an Erosion and Sediment Control Plan (ESCP) prepared by a suitably qualified person, demonstrating compliance with GD05 and avoiding instream works during identified migration windows for tuna/\u012Bnanga.",
-        "Establish a Mauri Monitoring Programme co-developed with mana whenua that sets baseline and trigger levels (including NTU and clarity), provides for mahinga kai assessments, and requires adaptive responses within 10 working days if triggers are exceeded.",
-      ],
-    },
-    {
-      category: "whenua",
-      issue:
-        "Loss of topsoil and disturbance of known urup\u0101 risk area within 200 m of works",
-      effects: {
-        cultural: [
-          "Risk to w\u0101hi tapu/w\u0101hi t\u016Bpuna; mamae if disturbance occurs",
-        ],
-        social: ["Project delays and conflict if discovery process unclear"],
-        environmental: ["Erosion risk; reduced soil productivity if not salvaged"],
-        spiritual: ["Tapu breach potential requiring tikanga responses"],
-      },
-      mitigations: [
-        "Cultural discovery protocol with immediate stop-work and notification process.",
-        "Topsoil salvage and reuse plan to support revegetation with taonga species.",
-      ],
-      recommendations: [
-        "Archaeological Authority (HNZPT) pre-works; mana whenua monitors present during initial ground-breaking.",
-        "GIS mapping layer for w\u0101hi tapu/w\u0101hi t\u016Bpuna integrated into contractor inductions.",
-      ],
-      triggers: {
-        metrics: ["Protocol drills completed", "Monitor hours on-site", "Incidents recorded"],
-        baselines: "Zero harm baseline (no unauthorised ground disturbance).",
-        thresholds: ["Any suspected k\u014Diwi or taonga triggers stop-work"],
-        actions: [
-          "Immediate stop-work; protect area; notify mana whenua, HNZPT, Police (if k\u014Diwi)",
-          "Undertake tikanga-led process; update methodology before resuming",
-        ],
-        reporting:
-          "Incident log shared within 24h; monthly summary including training and inductions.",
-      },
-      policyLinks: [
-        "Tai Tumu, Tai Pari, Tai Ao EMP - Whenua: protection of w\u0101hi tapu, soils, and landscapes",
-        "Hamilton/Waikato District Plan - Heritage and Archaeology provisions",
-      ],
-      consentClauses: [
-        "Implement a Cultural Discovery Protocol approved by mana whenua prior to commencement; all staff to be inducted and protocol kept onsite at all times.",
-        "Require mana whenua cultural monitors to be present during initial stripping; consent holder to fund participation and reporting.",
-      ],
-    },
-    {
-      category: "whakapapa",
-      issue:
-        "Fragmentation of ecological corridors reducing connectivity for taonga species",
-      effects: {
-        cultural: [
-          "Disruption to whakapapa relationships among species and habitats",
-        ],
-        social: [
-          "Loss of local amenity and learning opportunities for rangatahi",
-        ],
-        environmental: [
-          "Barrier to fish passage; edge effects increase predators/weeds",
-        ],
-        spiritual: ["Diminished wairua of place if connections severed"],
-      },
-      mitigations: [
-        "Design wildlife-friendly culverts and fish passage; stage works to maintain connectivity.",
-      ],
-      recommendations: [
-        "Planting palette guided by whakapapa of place (locally-sourced eco-sourced taonga species); 3-year establishment and pest control.",
-      ],
-      triggers: {
-        metrics: [
-          "Fish passage scores (NIWA tool)",
-          "Survival of plantings (%)",
-          "Predator trap-catch",
-        ],
-        baselines: "Pre-works fish passage survey and habitat mapping.",
-        thresholds: ["Fish passage score < baseline", "Plant survival <85%"],
-        actions: [
-          "Remediate culverts; replace failed plantings; intensify pest control",
-        ],
-        reporting: "Six-monthly ecological report + w\u0101nanga walkthrough.",
-      },
-      policyLinks: [
-        "Te Ture Whaimana - enhancement of ecological integrity",
-        "Tai Tumu, Tai Pari, Tai Ao EMP - Whakapapa: intergenerational stewardship",
-      ],
-      consentClauses: [
-        "Fish passage to meet NIWA fish passage assessment tool thresholds; as-built certification prior to operation.",
-      ],
-    },
-    {
-      category: "wh\u0101nau",
-      issue:
-        "Construction traffic and noise affecting marae access, tangihanga, and daily wh\u0101nau life",
-      effects: {
-        cultural: [
-          "Disruption to marae protocols and ability to host kaupapa including tangihanga",
-        ],
-        social: [
-          "Increased stress; reduced community cohesion if engagement is weak",
-        ],
-        environmental: ["Dust and vibration affecting nearby sensitive receivers"],
-        spiritual: ["Disturbance to wairua during significant wh\u0101nau events"],
-      },
-      mitigations: [
-        "Traffic Management Plan (TMP) with marae input; avoid peak event times",
-        "Construction Noise and Vibration Management Plan; onsite dust suppression",
-      ],
-      recommendations: [
-        "Co-design communications plan with mana whenua; 2-week lookahead notices",
-        "Identify protected access windows around known marae events/tangihanga",
-      ],
-      triggers: {
-        metrics: ["LAeq dB", "Number of complaints", "Access block incidents"],
-        baselines: "Pre-works ambient noise survey and access mapping with wh\u0101nau.",
-        thresholds: [">2 substantiated access incidents/month", "Noise exceeds plan limits"],
-        actions: [
-          "Adjust work hours/routing; deploy additional acoustic barriers",
-          "H\u016Btu w\u0101nanga within 5 working days to agree changes",
-        ],
-        reporting: "Monthly community report; real-time hotline with log shared to mana whenua.",
-      },
-      policyLinks: [
-        "Tai Tumu, Tai Pari, Tai Ao EMP - Wh\u0101nau and participation",
-        "Applicable District Plan - Noise/traffic rules and engagement requirements",
-      ],
-      consentClauses: [
-        "Prepare and implement a TMP and Communications Plan co-designed with mana whenua, including protected access windows for marae and mechanisms for event-time pauses.",
-        "Maintain a dedicated contact line and incident log accessible to mana whenua; implement corrective actions within 5 working days.",
-      ],
-    },
-    {
-      category: "mauri",
-      issue: "Residual effects risk during storm events despite controls",
-      effects: {
-        cultural: ["Perceived degradation of mauri during heavy rain events"],
-        social: ["Community anxiety following spill/overflow rumours"],
-        environmental: ["Pulse loads of sediments and contaminants"],
-        spiritual: ["Loss of balance (tapu/noa) when incidents occur"],
-      },
-      mitigations: [
-        "Adaptive management triggers linked to rainfall intensity thresholds",
-        "Contingency spill kits and overflow prevention measures",
-      ],
-      recommendations: [
-        "Integrate mauri indicators in dashboard with traffic-light triggers",
-        "Run post-event w\u0101nanga to agree remediation and learning",
-      ],
-      triggers: {
-        metrics: ["Rainfall (mm/hr)", "NTU spikes", "Incident count"],
-        baselines: "Event-based baseline using first-flush data",
-        thresholds: [">20 mm/hr with NTU > baseline + 40%", "Any overflow"],
-        actions: ["Suspend exposed works; stand-up response team; notify within 24h"],
-        reporting: "Event summary within 5 days; quarterly trend analysis with mana whenua.",
-      },
-      policyLinks: [
-        "Te Ture Whaimana - maintaining and enhancing the mauri of the Waikato River",
-        "Tai Tumu, Tai Pari, Tai Ao EMP - Mauri",
-      ],
-      consentClauses: [
-        "Adopt an Adaptive Management Plan with rainfall-linked triggers and defined corrective actions; co-develop with mana whenua and submit prior to works.",
-      ],
-    },
-    {
-      category: "wairua",
-      issue:
-        "Loss of sense of place at w\u0101hi t\u016Bpuna vista and culturally sensitive viewshafts",
-      effects: {
-        cultural: ["Erosion of identity where viewshafts are compromised"],
-        social: ["Reduced pride and connection to place"],
-        environmental: ["Visual amenity effects; vegetation structure changes"],
-        spiritual: ["Disruption to wairua associated with the site"],
-      },
-      mitigations: [
-        "Cultural design review panel with mana whenua; protect key sightlines",
-      ],
-      recommendations: [
-        "Develop a viewshaft protection plan and culturally anchored design palette",
-      ],
-      triggers: {
-        metrics: ["Design gate approvals", "Non-conformance count"],
-        baselines: "Pre-works photo-simulations agreed with mana whenua",
-        thresholds: ["Any deviation from agreed sightline envelope"],
-        actions: ["Iterate design to restore sightlines; additional planting/screening"],
-        reporting: "Design review minutes; pre/post photo-comparisons filed with CIA updates.",
-      },
-      policyLinks: [
-        "Tai Tumu, Tai Pari, Tai Ao EMP - Wairua and landscapes",
-        "District Plan - Landscape/amenity objectives and policies",
-      ],
-      consentClauses: [
-        "Establish a Cultural Design Review Panel with decision checkpoints at concept, developed, and pre-construction stages; implement agreed viewshaft protection measures.",
-      ],
-    },
-  ];
+  async function handleUpload(files: File[]) {
+    setIngesting(true);
+    setStatus(`Parsing ${files.length} document(s)...`);
+    const docs = await ingestFiles(files);
+    const failed = docs.filter((d) => d.errors.length > 0).length;
+    updateProject((prev) => ({
+      documents: [...prev.documents, ...docs],
+      figures: [...prev.figures, ...docs.flatMap((d) => d.figures.map((f, i) => figureFromExtract(f, d, i)))],
+    }));
+    setIngesting(false);
+    setStatus(failed ? `Ingested ${docs.length} document(s), ${failed} with parse errors` : `Ingested ${docs.length} document(s)`);
+  }
 
-  // ---------------------------------------------------------------------------------
-  // Narrative builders (Standard depth A1)
-  function buildStandardManaWhenua(findings: Finding[]): string {
-    const sections = [
-      "Executive Summary",
-      "Background and Whakapapa",
-      "Methodology (Kaupapa M\u0101ori, W\u0101nanga)",
-      "Categories Assessment",
-      "ICMP and Policy Alignment",
-      "Cultural Monitoring Programme",
-      "Consent Conditions and Next Steps",
-    ];
-    const intro = `# CIA - Mana Whenua Narrative (Standard)\n\n## Project\n${projectName}\n\n## Whakatau\u0101k\u012B / Context\nKo te mana o te awa me te whenua te t\u016B\u0101papa. This kaupapa recognises our relationship to wai, whenua, and all living systems. We have assessed the technical reports and translated key matters into plain language for wh\u0101nau.`;
-
-    const cats = findings
-      .map(
-        (f, i) => `\n### ${i + 1}. ${f.category.toUpperCase()}\n**Ng\u0101 take / Issue:** ${f.issue}\n\n**Ng\u0101 whakatika / Mitigations:**\n- ${f.mitigations.join("\n- ")}\n\n**Ng\u0101 t\u016Btohunga / Recommendations:**\n- ${f.recommendations.join("\n- ")}\n\n**Monitoring triggers (plain):** ${f.triggers.metrics.join(", ")}\n`
-      )
-      .join("\n");
-
-    const align = `\n## Te Ture Whaimana and Tai Tumu, Tai Pari, Tai Ao alignment\nWe checked the mahi against the Vision and Objectives of Te Ture Whaimana, the Waikato-Tainui EMP (Tai Tumu, Tai Pari, Tai Ao), and the relevant District Plan. The project is connected to: **${inferredICMP}**.`;
-
-    const outro = `\n## Tikanga and Participation\n- Mana whenua monitors present at ground-break.\n- W\u0101nanga-a-rohe, quarterly, to review monitoring and adapt.\n- Cultural discovery protocol: stop-work, karakia, k\u014Drero, record.\n\n## Ask to Council / Developer\nAdopt the consent conditions listed and fund the co-governed monitoring programme. Partner early on planting design and mahinga kai.`;
-
-    return [intro, `\n## Sections\n- ${sections.join("\n- ")}`, `\n## Categories - Issues, Mitigations, Recommendations\n${cats}`, align, outro].join("\n\n");
+  function handleAnalyse() {
+    if (documents.length === 0) {
+      setStatus("Upload documents before running the analysis");
+      return;
+    }
+    const result = analyseDocuments(documents, { topics });
+    updateProject({ findings: result.findings, topicMatches: result.matches });
+    setStatus(`Drafted ${result.findings.length} finding(s) from ${result.matches.length} topic(s) in ${documents.length} document(s)`);
   }
 
-  function buildStandardCouncil(findings: Finding[]): string {
-    const scope = `## Assessment Scope\n- Technical reports reviewed: EMPs, CMPs, ESCPs, ecology/archaeology/hydrology.\n- Policy instruments: Te Ture Whaimana; Tai Tumu, Tai Pari, Tai Ao EMP; ${
-      council === "Hamilton City Council"
-        ? "He Pou Manawa Ora; Hamilton District Plan"
-        : "Waikato District Plan"
-    }.\n- ICMP area: **${inferredICMP}**.`;
+  function handleProximityFindings() {
+    const generated = proximityFindings(siteProximity, siteBufferM);
+    updateProject((prev) => ({ findings: replaceProximityFindings(prev.findings, generated) }));
+    setStatus(generated.length ? `Updated ${generated.length} finding(s) from ${siteProximity.length} recorded site(s)` : `No recorded sites within ${siteBufferM} m of the works`);
+  }
 
-    const matrix = findings
-      .map(
-        (f, i) => `${i + 1}. ${f.category} | ${f.issue}\n   - Mitigation: ${f.mitigations.join("; ")}\n   - Recommendation: ${f.recommendations.join("; ")}\n   - Policy: ${f.policyLinks.join("; ")}`
-      )
-      .join("\n\n");
+  // Organisation templates are saved as they are edited; IndexedDB keeps the writes in order
+  function handleSaveOrganisation(org: Organisation) {
+    setOrganisations((prev) => [...prev.filter((o) => o.id !== org.id), org].sort((a, b) => a.name.localeCompare(b.name)));
+    saveOrganisation(org).catch((e) => {
+      console.error(e);
+      setSaveState("error");
+    });
+  }
 
-    const conditions = findings.flatMap((f) => f.consentClauses).map((c, i) => `${i + 1}. ${c}`).join("\n");
+  async function handleDeleteOrganisation(id: string) {
+    try {
+      await deleteOrganisation(id);
+      setOrganisations((prev) => prev.filter((o) => o.id !== id));
+      if (organisationId === id) updateProject({ organisationId: null });
+    } catch (e) {
+      console.error(e);
+      setSaveState("error");
+    }
+  }
 
-    return `# CIA - Council/Developer Narrative (Standard)\n\n## Project\n${projectName}\n\n${scope}\n\n## Category Matrix (Issues -> Mitigation -> Recommendation -> Policy Link)\n${matrix}\n\n## Proposed Consent Conditions (extract)\n${conditions}\n\n## Monitoring and Adaptive Management\n- Baseline: clarity/NTU, macroinvertebrates, mahinga kai presence.\n- Triggers: set per-site with mana whenua; actions within 10 working days.\n- Reporting: quarterly hui plus written report for Council and mana whenua.`;
+  // Sync can finish after the user switched project; only merge into the one it ran for
+  function handleFieldEntries(projectId: string, entries: FieldLogEntry[]) {
+    setProject((prev) => (prev.id === projectId ? { ...prev, fieldLog: mergeFieldEntries(entries, prev.fieldLog), updatedAt: new Date().toISOString() } : prev));
   }
 
-  const manaWhenuaNarrative = useMemo(() => buildStandardManaWhenua(sampleFindings), [projectName, inferredICMP]);
-  const councilNarrative = useMemo(() => buildStandardCouncil(sampleFindings), [projectName, council, inferredICMP]);
+  // rebuilt on any project change: the filled conditions read several project fields
+  const narrativeInput = useMemo<NarrativeInput>(
+    () => ({
+      projectName: project.name,
+      profile: councilProfile(project.council),
+      frameworks: project.frameworks,
+      icmp: project.inferredICMP,
+      findings: project.findings,
+      provisions,
+      conditions: orderedConditions(project.conditionsSchedule).map((c) => fillTemplate(c.text, conditionContext(project))),
+      documents: project.documents,
+    }),
+    [project, provisions]
+  );
+  // an organisation missing on this device (e.g. an imported project) falls back to the built-in templates
+  const templates = organisations.find((o) => o.id === organisationId)?.templates ?? DEFAULT_NARRATIVE_TEMPLATES;
+  const manaWhenuaNarrative = useMemo(() => renderNarrative(templates.manaWhenua, narrativeInput, narrativeDepth), [templates, narrativeInput, narrativeDepth]);
+  const councilNarrative = useMemo(() => renderNarrative(templates.council, narrativeInput, narrativeDepth), [templates, narrativeInput, narrativeDepth]);
   const selectedFigures = useMemo(() => figureGallery.filter((g) => g.selected), [figureGallery]);
-
-  // ---------------------------------------------------------------------------------
-  // Monitoring helpers
-  type MonitoringRow = { phase: string; focus: string; role: string; frequency: string };
-
-  const baseMonitoringPlanRows: MonitoringRow[] = [
-    { phase: "Pre-construction", focus: "Baseline mauri / mudfish / habitat surveys", role: "Attend site walkover; confirm w\u0101hi tapu avoidance; record baseline (photos/notes)", frequency: "One-off" },
-    { phase: "During earthworks", focus: "Sediment discharge (NTU/TSS), discovery protocol readiness", role: "Onsite checks; hold stop-work if tikanga/cultural risk; verify ESCP field controls", frequency: "Daily / storm-event" },
-    { phase: "Ecology", focus: "Mudfish / fish passage; planting survival", role: "Guide methods using tikanga; co-observe with ecologist; confirm safe handling/release", frequency: "Monthly / seasonal" },
-    { phase: "Close-out", focus: "Verify consent conditions delivered; cultural outcomes", role: "Final site check; sign-off report to Council and mana whenua", frequency: "One-off" },
-  ];
-
-  function deriveMonitoringRows(findings: Finding[], councilName: string, includeHPMOFlag: boolean): MonitoringRow[] {
-    const rows = [...baseMonitoringPlanRows];
-    const text = findings.map((f) => (f.issue + " " + f.recommendations.join(" ")).toLowerCase()).join(" ");
-    const hasMudfish = /mudfish|\u012Bnanga/.test(text);
-    if (hasMudfish && !rows.find((r) => r.focus.toLowerCase().includes("mudfish"))) {
-      rows.splice(1, 0, {
-        phase: "Pre-construction",
-        focus: "Targeted mudfish presence/absence at drains/wetlands",
-        role: "Assist ecologist; apply tikanga for handling; confirm relocation plan if needed",
-        frequency: "One-off",
-      });
-    }
-    if (councilName === "Hamilton City Council") {
-      rows.push({
-        phase: "During earthworks",
-        focus: "He Pou Manawa Ora engagement checkpoint",
-        role: "Attend engagement checkpoint; confirm cultural measures are active",
-        frequency: includeHPMOFlag ? "At each stage-gate" : "(disabled)",
-      });
-    } else {
-      rows.push({
-        phase: "During earthworks",
-        focus: "Waikato District Plan noise/access checks near marae",
-        role: "Check access windows and noise limits with wh\u0101nau",
-        frequency: "Weekly",
-      });
-    }
-    return rows;
-  }
+  const siteProximity = useMemo(() => analyseProximity(heritageSites, site.footprint, siteBufferM), [heritageSites, site.footprint, siteBufferM]);
+  const distanceFlags = useMemo(() => flagDistanceClaims(findings, siteProximity), [findings, siteProximity]);
+  const exceedances = useMemo(() => evaluateExceedances(findings, monitoringData), [findings, monitoringData]);
+  const monitoringRows = useMemo(() => deriveMonitoringRows(findings, councilProfile(council), enabledFrameworks), [findings, council, enabledFrameworks]);
+  const workingDays = useMemo(() => workingDayOptions(councilProfile(council)), [council]);
+  const monitoringCalendar = useMemo(
+    () => buildMonitoringCalendar(monitoringRows, constructionDates, findings, monitoringData, workingDays),
+    [monitoringRows, constructionDates, findings, monitoringData, workingDays]
+  );
+  const costEstimate = useMemo(() => estimateCosts(monitoringCalendar, constructionDates, costRates), [monitoringCalendar, constructionDates, costRates]);
 
   // ---------------------------------------------------------------------------------
   // Exports (C1: separate reports)
@@ -501,11 +385,9 @@ export default function CIAPrototype() {
                 ],
               }),
               new Paragraph({ text: "Job Description", heading: HeadingLevel.HEADING_2 }),
-              new Paragraph({ text: "• Represent mana whenua onsite and act as kaitiaki of w\u0101hi tapu, wai and whenua." }),
-              new Paragraph({ text: "• Hold stop-work authority when tikanga or cultural risk is observed." }),
-              new Paragraph({ text: "• Record observations (photos + narrative) into the CIA dashboard." }),
-              new Paragraph({ text: "• Attend toolbox talks and ensure contractors understand cultural protocols." }),
-              new Paragraph({ text: "• Escalate incident triggers to Project Manager and Council." }),
+              ...CULTURAL_MONITOR_DUTIES.map((d) => new Paragraph({ text: `\u2022 ${d}` })),
+              // an estimate with no lines yet (no dates or visits) would be a schedule of zeros
+              ...(costEstimate.lines.length ? fundingScheduleAppendix(costEstimate, costRates) : []),
             ],
           },
         ],
@@ -526,76 +408,112 @@ export default function CIAPrototype() {
     }
   }
 
-  async function exportNarrativeDocx(title: string, body: string, figures: { caption: string; dataUrl: string }[]) {
+  async function exportNarrativeDocx(fileTitle: string, body: string, figures: FigureItem[]) {
     try {
-      const figureBlocks = figures.map((f) => {
-        const base64 = f.dataUrl.split(",")[1] || "";
-        const buf = Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
-        return [
-          new Paragraph({ text: f.caption, heading: HeadingLevel.HEADING_3 }),
-          new Paragraph({ children: [new ImageRun({ data: buf, transformation: { width: 360, height: 240 } })] }),
-        ];
-      });
-
-      const doc = new DocxDocument({
-        sections: [
-          {
-            properties: {},
-            children: [
-              new Paragraph({ text: title, heading: HeadingLevel.TITLE }),
-              ...body.split("\n").map((line) => new Paragraph({ text: line })),
-              new Paragraph({ text: "Selected Figures (Inline)", heading: HeadingLevel.HEADING_2 }),
-              ...figureBlocks.flat(),
-            ],
-          },
-        ],
-      });
+      // a brief summary goes straight to the text; the contents page would be a third of it
+      const doc = buildNarrativeDocument({ title: fileTitle.replace(/_/g, " "), projectName, subtitle: projectLocation, body, figures, contents: narrativeDepth !== "brief" });
       const blob = await Packer.toBlob(doc);
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = `${title.replace(/\s+/g, "_")}.docx`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      downloadBlob(blob, `${fileTitle.replace(/\s+/g, "_")}_${depthLabel(narrativeDepth)}_${projectName.replace(/\s+/g, "_")}.docx`);
     } catch (e) {
       console.error(e);
       alert("DOCX export failed. Check console for details.");
     }
   }
 
+  function pdfMeta(title: string): PdfMeta {
+    return { title, projectName, location: projectLocation, council, icmp: inferredICMP, revision: project.updatedAt };
+  }
+
+  async function exportNarrativePdf(fileTitle: string, body: string, figures: FigureItem[]) {
+    try {
+      const bytes = await buildNarrativePdf(pdfMeta(fileTitle.replace(/_/g, " ")), body, figures);
+      downloadBlob(new Blob([bytes as BlobPart], { type: "application/pdf" }), `${fileTitle}_${depthLabel(narrativeDepth)}_${projectName.replace(/\s+/g, "_")}.pdf`);
+    } catch (e) {
+      console.error(e);
+      alert("PDF export failed. Check console for details.");
+    }
+  }
+
+  async function exportMonitoringPdf(rows: MonitoringRow[]) {
+    try {
+      const bytes = await buildMonitoringPdf(pdfMeta("Cultural Monitoring Programme"), rows, CULTURAL_MONITOR_DUTIES);
+      downloadBlob(new Blob([bytes as BlobPart], { type: "application/pdf" }), `Cultural_Monitoring_Programme_${projectName.replace(/\s+/g, "_")}.pdf`);
+    } catch (e) {
+      console.error(e);
+      alert("PDF export failed. Check console for details.");
+    }
+  }
+
   // ---------------------------------------------------------------------------------
   // Self-checks (acts like lightweight test cases you can run in UI)
   function runSelfChecks(): string {
     try {
-      // required fields
-      for (const f of sampleFindings) {
-        if (!f.category || !f.issue) throw new Error("Missing category or issue");
-        ["effects", "mitigations", "recommendations", "triggers", "policyLinks", "consentClauses"].forEach((k) => {
-          // @ts-ignore
-          if (f[k] == null) throw new Error(`Missing field: ${k}`);
-        });
+      // required fields (schema validation, errors only; warnings are shown in the editor)
+      for (const { index, issues } of validateFindings(findings)) {
+        const err = issues.find((i) => i.severity === "error");
+        if (err) throw new Error(`Finding ${index + 1} (${findings[index].category}): ${err.path} - ${err.message}`);
+      }
+      // the built-in templates must only use known fields
+      for (const [voice, template] of Object.entries(DEFAULT_NARRATIVE_TEMPLATES)) {
+        const issue = checkNarrativeTemplate(template)[0];
+        if (issue) throw new Error(`Built-in ${voice} template: ${issue.where}, line ${issue.line}: ${issue.message}`);
+      }
+      for (const { id, label } of NARRATIVE_DEPTHS) {
+        // unicode spot-checks
+        const mw = buildManaWhenuaNarrative(narrativeInput, id);
+        if (!/Whakatau\u0101k\u012B/.test(mw)) throw new Error(`Unicode escape missing (${label})`);
+        // council branch
+        const cn = buildCouncilNarrative(narrativeInput, id);
+        for (const instrument of policyInstruments(profile, enabledFrameworks)) {
+          if (!cn.includes(instrument)) throw new Error(`Council branch failed: ${instrument} missing (${label})`);
+        }
+      }
+      // categories present: the demo findings, re-read as a corpus, must map to every category
+      const corpus: IngestedDocument = {
+        id: "self-check",
+        fileName: "self-check",
+        kind: "docx",
+        sizeBytes: 0,
+        ingestedAt: "",
+        pageCount: 1,
+        blocks: sampleFindings.map((f, i) => ({ kind: "paragraph", text: JSON.stringify(f), page: 1, paragraph: i + 1 })),
+        figures: [],
+        errors: [],
+      };
+      const analysed = analyseDocuments([corpus], { topics });
+      const categories = new Set(analysed.findings.map((f) => f.category));
+      for (const c of CATEGORIES) if (!categories.has(c)) throw new Error(`Missing category: ${c}`);
+      // analysis must be reproducible
+      if (JSON.stringify(analysed) !== JSON.stringify(analyseDocuments([corpus], { topics }))) throw new Error("Analysis is not deterministic");
+      // figures usable: selected figures must be embeddable images with real dimensions
+      for (const g of figureGallery.filter((f) => f.selected)) {
+        if (!/^data:image\/(png|jpe?g|gif|bmp);base64,/.test(g.dataUrl)) throw new Error(`Figure not embeddable: ${g.caption}`);
+        if (!(g.width > 0 && g.height > 0)) throw new Error(`Figure missing dimensions: ${g.caption}`);
       }
-      // unicode spot-checks
-      const mw = buildStandardManaWhenua(sampleFindings);
-      if (!/Whakatau\\u0101k\\u012B/.test(mw)) throw new Error("Unicode escape missing");
-      // council branch
-      const expectedBranch = council === "Hamilton City Council" ? "He Pou Manawa Ora" : "Waikato District Plan";
-      const cn = buildStandardCouncil(sampleFindings);
-      if (!cn.includes(expectedBranch)) throw new Error("Council branch failed");
-      // categories present
-      const categories = new Set(sampleFindings.map((f) => f.category));
-      const expected = ["wai", "whenua", "whakapapa", "wh\u0101nau", "mauri", "wairua"];
-      for (const c of expected) if (!categories.has(c)) throw new Error(`Missing category: ${c}`);
-      // figures usable
-      const sel = figureGallery.filter((g) => g.selected);
-      if (sel.length === 0) throw new Error("No figures selected");
       // ICMP inference for extra areas
-      const t1 = inferICMP("Waitawhiriwhiri", "Hamilton City Council");
+      const hcc = councilProfile("Hamilton City Council");
+      const t1 = inferICMP("Waitawhiriwhiri", hcc);
       if (!/Waitawhiriwhiri ICMP/.test(t1)) throw new Error("ICMP inference failed for Waitawhiriwhiri");
-      const t2 = inferICMP("Mangakotukutuku", "Hamilton City Council");
+      const t2 = inferICMP("Mangakotukutuku", hcc);
       if (!/Mangakotukutuku ICMP/.test(t2)) throw new Error("ICMP inference failed for Mangakotukutuku");
+      // every council profile resolves an unmatched location to its fallback
+      for (const p of COUNCIL_PROFILES) {
+        if (inferICMP("", p) !== p.icmpFallback) throw new Error(`ICMP fallback missing for ${p.name}`);
+      }
+      // provision links in the built-in content must resolve in the policy catalogue
+      for (const id of [...sampleFindings, ...Object.values(RULES_LIBRARY)].flatMap((f) => f.provisions)) {
+        if (!provisionById(id)) throw new Error(`Unknown policy provision: ${id}`);
+      }
+      // work types match whole words, so these must not raise restriction conflicts
+      for (const [text, type] of [
+        ["Street lighting", "other"],
+        ["Pile driver set-up", "earthworks"],
+        ["Upstream flow survey", "other"],
+        ["Culvert replacement", "instream"],
+      ] as const) {
+        const got = classifyWork(text);
+        if (got !== type) throw new Error(`Work type of "${text}" is ${got}, expected ${type}`);
+      }
       return "All self-checks passed";
     } catch (e: any) {
       return `Test failure: ${e.message || String(e)}`;
@@ -615,6 +533,20 @@ export default function CIAPrototype() {
           Upload your technical documents (EMPs, CMPs, ecology, hydrology, archaeology). Select council. The AI analyses, maps findings to Categories (wai, whenua, whakapapa, wh\u0101nau, mauri, wairua), checks against Te Ture Whaimana and Tai Tumu, Tai Pari, Tai Ao, and drafts two parallel narratives plus consent conditions.
         </p>
 
+        <ProjectSwitcher
+          projects={projects}
+          currentId={project.id}
+          saveState={saveState}
+          onOpen={handleOpenProject}
+          onCreate={() => switchTo(createProject("New CIA project"))}
+          onDuplicate={handleDuplicateProject}
+          onArchive={handleArchiveProject}
+          onDelete={handleDeleteProject}
+          onExport={handleExportProject}
+          onImport={handleImportProject}
+          importError={importError}
+        />
+
         {/* Controls */}
         <div className="mt-8 grid grid-cols-1 gap-4 md:grid-cols-3">
           {/* Project */}
@@ -623,13 +555,13 @@ export default function CIAPrototype() {
               <FileText className="h-5 w-5" />
               <div className="font-semibold">Project</div>
             </div>
-            <input className="mt-3 w-full rounded-xl border px-3 py-2" value={projectName} onChange={(e) => setProjectName(e.target.value)} placeholder="Enter project name" />
-            <input className="mt-3 w-full rounded-xl border px-3 py-2" value={projectLocation} onChange={(e) => setProjectLocation(e.target.value)} placeholder="Enter project location (suburb/area or address)" />
+            <input className="mt-3 w-full rounded-xl border px-3 py-2" value={projectName} onChange={(e) => updateProject({ name: e.target.value })} placeholder="Enter project name" />
+            <input className="mt-3 w-full rounded-xl border px-3 py-2" value={projectLocation} onChange={(e) => updateProject({ location: e.target.value })} placeholder="Enter project location (suburb/area or address)" />
             <div className="mt-2 text-xs text-gray-600">
               Inferred ICMP: <span className="font-medium">{inferredICMP}</span>
             </div>
             <button className="mt-2 rounded-xl border px-3 py-1 text-sm" onClick={handleAutoDetectICMP}>
-              Auto-detect ICMP from location
+              Auto-detect ICMP from location / site
             </button>
           </div>
 
@@ -639,14 +571,23 @@ export default function CIAPrototype() {
               <Info className="h-5 w-5" />
               <div className="font-semibold">Council</div>
             </div>
-            <select className="mt-3 w-full rounded-xl border px-3 py-2" value={council} onChange={(e) => { const val = e.target.value; setCouncil(val); setIncludeHPMO(val === "Hamilton City Council"); }}>
-              <option>Hamilton City Council</option>
-              <option>Waikato District Council</option>
+            <select className="mt-3 w-full rounded-xl border px-3 py-2" value={council} onChange={(e) => { const val = e.target.value; updateProject({ council: val, frameworks: defaultFrameworks(councilProfile(val)) }); }}>
+              {!COUNCIL_PROFILES.some((p) => p.name === council) && <option value={council}>{council}</option>}
+              {COUNCIL_PROFILES.map((p) => (
+                <option key={p.id} value={p.name}>{p.name}</option>
+              ))}
             </select>
-            <div className="mt-3 flex items-center justify-between gap-3 rounded-xl bg-gray-50 p-3">
-              <span>He Pou Manawa Ora</span>
-              <input type="checkbox" checked={includeHPMO} onChange={(e) => setIncludeHPMO(e.target.checked)} disabled={council !== "Hamilton City Council"} />
-            </div>
+            {profile.frameworks.map((fw) => (
+              <div key={fw.id} className="mt-3 flex items-center justify-between gap-3 rounded-xl bg-gray-50 p-3">
+                <span>{fw.label}</span>
+                <input
+                  type="checkbox"
+                  checked={enabledFrameworks.includes(fw.id)}
+                  onChange={(e) => updateProject({ frameworks: e.target.checked ? [...enabledFrameworks, fw.id] : enabledFrameworks.filter((id) => id !== fw.id) })}
+                />
+              </div>
+            ))}
+            <div className="mt-2 text-xs text-gray-600">Policy instruments: {policyInstruments(profile, enabledFrameworks).join("; ")}</div>
           </div>
 
           {/* Status */}
@@ -660,16 +601,54 @@ export default function CIAPrototype() {
                 <CheckCircle2 className="h-4 w-4" /> {status}
               </div>
             </div>
+            <button className="mt-3 rounded-xl border px-3 py-1 text-sm" onClick={handleAnalyse} disabled={ingesting}>
+              Analyse documents
+            </button>
+            <div className="mt-2 text-xs text-gray-600">
+              {topicMatches.length ? "Findings are drafts generated offline from the topic dictionary and rules library." : "Showing demo findings until documents are analysed."}
+            </div>
           </div>
         </div>
 
         {/* ICMP chooser modal */}
+        <SiteLocationPanel
+          site={site}
+          boundaries={icmpBoundaries}
+          result={icmpSpatial}
+          onSiteChange={(next) => {
+            updateProject({ site: next });
+            setIcmpSpatial(null);
+          }}
+          onBoundariesChange={(areas) => {
+            updateProject({ icmpBoundaries: areas });
+            setIcmpSpatial(null);
+          }}
+          onDetect={handleAutoDetectICMP}
+        />
+
+        <div className="mt-4">
+          <SiteLayersPanel
+            sites={heritageSites}
+            footprint={site.footprint}
+            bufferM={siteBufferM}
+            proximity={siteProximity}
+            flags={distanceFlags}
+            onSitesChange={(next) => updateProject({ heritageSites: next })}
+            onBufferChange={(metres) => updateProject({ siteBufferM: metres })}
+            onUpdateFindings={handleProximityFindings}
+          />
+        </div>
+
         {showIcmpModal && (
           <div className="fixed inset-0 z-50 flex items-center justify-center">
             <div className="absolute inset-0 bg-black/40" onClick={() => { setShowIcmpModal(false); setIcmpOptions([]); }} />
             <motion.div initial={{ opacity: 0, scale: 0.96 }} animate={{ opacity: 1, scale: 1 }} transition={{ duration: 0.2 }} className="relative z-10 w-full max-w-lg rounded-2xl bg-white p-6 shadow-2xl">
               <div className="text-lg font-semibold">Multiple ICMP areas matched</div>
-              <p className="mt-1 text-sm text-gray-600">Choose the correct ICMP for <span className="font-medium">{projectLocation || "your location"}</span>.</p>
+              <p className="mt-1 text-sm text-gray-600">
+                {icmpSpatial?.method === "footprint" && icmpSpatial.matches.length > 1
+                  ? "The site footprint crosses catchment boundaries. Choose the ICMP that governs the works."
+                  : <>Choose the correct ICMP for <span className="font-medium">{projectLocation || "your location"}</span>.</>}
+              </p>
               <div className="mt-4">
                 <label className="text-sm">ICMP area</label>
                 <select className="mt-1 w-full rounded-lg border px-3 py-2" value={icmpTemp} onChange={(e) => setIcmpTemp(e.target.value)}>
@@ -680,24 +659,19 @@ export default function CIAPrototype() {
               </div>
               <div className="mt-4 flex justify-end gap-2">
                 <button className="rounded-lg border px-3 py-1" onClick={() => { setShowIcmpModal(false); setIcmpOptions([]); }}>Cancel</button>
-                <button className="rounded-lg border px-3 py-1" onClick={() => { setInferredICMP(icmpTemp); setShowIcmpModal(false); setIcmpOptions([]); }}>Use selected ICMP</button>
+                <button className="rounded-lg border px-3 py-1" onClick={() => { updateProject({ inferredICMP: icmpTemp }); setShowIcmpModal(false); setIcmpOptions([]); }}>Use selected ICMP</button>
               </div>
             </motion.div>
           </div>
         )}
 
         {/* Upload */}
-        <div className="mt-6 rounded-2xl border border-dashed p-6">
-          <div className="flex items-center gap-3">
-            <div className="mx-auto w-fit rounded-full bg-gray-100 p-3">
-              <Upload className="h-6 w-6" />
-            </div>
-            <div>
-              <div className="font-medium">Upload technical documents</div>
-              <div className="text-xs text-gray-500">PDF, DOCX, XLSX - EMPs, CMPs, ecology, hydrology, archaeology</div>
-            </div>
-          </div>
-        </div>
+        <DocumentUploadPanel
+          documents={documents}
+          busy={ingesting}
+          onFiles={handleUpload}
+          onRemove={(id) => updateProject((prev) => ({ documents: prev.documents.filter((d) => d.id !== id) }))}
+        />
 
         {/* Preview / Left: categories, Right: reports */}
         <div className="mt-10 grid grid-cols-1 gap-6 lg:grid-cols-5">
@@ -713,33 +687,44 @@ export default function CIAPrototype() {
                   </tr>
                 </thead>
                 <tbody>
-                  {sampleFindings.map((f, idx) => (
+                  {findings.map((f, idx) => (
                     <tr key={idx} className="border-t">
                       <td className="py-2 font-medium">{f.category}</td>
                       <td className="py-2 pr-2">{f.issue}</td>
-                      <td className="py-2 text-xs text-gray-600">{f.policyLinks.slice(0, 2).join("; ")}</td>
+                      <td className="py-2 text-xs text-gray-600">
+                        {f.provisions.length
+                          ? f.provisions
+                              .map(provisionById)
+                              .map((p, k) => (p ? provisionLabel(p, profile) : f.provisions[k]))
+                              .join("; ")
+                          : f.policyLinks.slice(0, 2).join("; ")}
+                      </td>
                     </tr>
                   ))}
                 </tbody>
               </table>
             </div>
 
-            <div className="rounded-2xl border p-4 shadow-sm">
-              <h3 className="font-semibold">Consent condition library (auto-suggest)</h3>
-              <ul className="mt-2 list-disc pl-5 text-sm">
-                {sampleFindings.flatMap((f) => f.consentClauses).slice(0, 3).map((c, i) => (
-                  <li key={i} className="mb-1">{c}</li>
-                ))}
-                <li>Contractor EMS must include Te Ture Whaimana alignment statement and training module co-designed with mana whenua.</li>
-              </ul>
-            </div>
+            <ConditionLibraryPanel
+              findings={findings}
+              schedule={conditionsSchedule}
+              context={conditionContext(project)}
+              councilId={profile.id}
+              onChange={(next) => updateProject({ conditionsSchedule: next })}
+            />
+
+            <FindingsEditor findings={findings} provisions={provisions} profile={profile} documents={documents} onChange={(next) => updateProject({ findings: next })} />
+
+            <TopicDictionaryPanel topics={topics} matches={topicMatches} onChange={(next) => updateProject({ topics: next })} onReset={() => updateProject({ topics: DEFAULT_TOPICS })} />
 
             {/* Effects tables and triggers per Category */}
             <div className="rounded-2xl border p-4 shadow-sm">
               <h3 className="font-semibold">Effects table (per Category)</h3>
-              {sampleFindings.map((f, i) => (
-                <div key={i} className="mt-4 rounded-xl border p-3">
-                  <div className="font-medium">{f.category.toUpperCase()}</div>
+              {findings.map((f) => (
+                <div key={f.id} className="mt-4 rounded-xl border p-3">
+                  <div className="font-medium">
+                    {f.category.toUpperCase()} <span className="text-xs font-normal text-gray-500">{f.id}</span>
+                  </div>
                   <table className="mt-2 w-full text-sm">
                     <thead className="text-left text-gray-500">
                       <tr>
@@ -751,54 +736,54 @@ export default function CIAPrototype() {
                     </thead>
                     <tbody>
                       <tr className="align-top">
-                        <td className="py-2"><ul className="list-disc pl-4">{f.effects.cultural.map((e, idx) => (<li key={idx}>{e}</li>))}</ul></td>
-                        <td className="py-2"><ul className="list-disc pl-4">{f.effects.social.map((e, idx) => (<li key={idx}>{e}</li>))}</ul></td>
-                        <td className="py-2"><ul className="list-disc pl-4">{f.effects.environmental.map((e, idx) => (<li key={idx}>{e}</li>))}</ul></td>
-                        <td className="py-2"><ul className="list-disc pl-4">{f.effects.spiritual.map((e, idx) => (<li key={idx}>{e}</li>))}</ul></td>
+                        <td className="py-2"><ul className="list-disc pl-4">{f.effects.cultural.map((e, idx) => (<li key={idx}>{e}<SourceRefs sources={itemSources(f, "effects.cultural", e)} /></li>))}</ul></td>
+                        <td className="py-2"><ul className="list-disc pl-4">{f.effects.social.map((e, idx) => (<li key={idx}>{e}<SourceRefs sources={itemSources(f, "effects.social", e)} /></li>))}</ul></td>
+                        <td className="py-2"><ul className="list-disc pl-4">{f.effects.environmental.map((e, idx) => (<li key={idx}>{e}<SourceRefs sources={itemSources(f, "effects.environmental", e)} /></li>))}</ul></td>
+                        <td className="py-2"><ul className="list-disc pl-4">{f.effects.spiritual.map((e, idx) => (<li key={idx}>{e}<SourceRefs sources={itemSources(f, "effects.spiritual", e)} /></li>))}</ul></td>
                       </tr>
                     </tbody>
                   </table>
 
                   <div className="mt-3 rounded-lg bg-gray-50 p-3 text-xs">
                     <div className="font-semibold">Monitoring triggers and actions</div>
-                    <div><span className="font-medium">Metrics:</span> {f.triggers.metrics.join(", ")}</div>
-                    <div><span className="font-medium">Baseline:</span> {f.triggers.baselines}</div>
-                    <div><span className="font-medium">Thresholds:</span> {f.triggers.thresholds.join("; ")}</div>
-                    <div><span className="font-medium">Actions:</span> {f.triggers.actions.join("; ")}</div>
-                    <div><span className="font-medium">Reporting:</span> {f.triggers.reporting}</div>
+                    <div><span className="font-medium">Metrics:</span> {f.triggers.metrics.join(", ")}<SourceRefs sources={fieldSources(f, "triggers.metrics")} /></div>
+                    <div><span className="font-medium">Baseline:</span> {f.triggers.baselines}<SourceRefs sources={fieldSources(f, "triggers.baselines")} /></div>
+                    <div><span className="font-medium">Thresholds:</span> {f.triggers.thresholds.join("; ")}<SourceRefs sources={fieldSources(f, "triggers.thresholds")} /></div>
+                    <div><span className="font-medium">Actions:</span> {f.triggers.actions.join("; ")}<SourceRefs sources={fieldSources(f, "triggers.actions")} /></div>
+                    <div><span className="font-medium">Reporting:</span> {f.triggers.reporting}<SourceRefs sources={fieldSources(f, "triggers.reporting")} /></div>
                   </div>
                 </div>
               ))}
             </div>
 
+            <RegistersPanel projectName={projectName} findings={findings} onChange={(next) => updateProject({ findings: next })} />
+
             {/* Evidence gallery with thumbnails and captions */}
-            <div className="rounded-2xl border p-4 shadow-sm">
-              <div className="flex items-center gap-2">
-                <ImageIcon className="h-5 w-5" />
-                <h3 className="font-semibold">Evidence (select figures to embed inline)</h3>
-              </div>
-              <div className="mt-3 grid grid-cols-2 gap-3 md:grid-cols-4">
-                {figureGallery.map((fig) => (
-                  <label key={fig.id} className={`cursor-pointer rounded-xl border p-2 text-xs ${fig.selected ? "ring-2 ring-black" : ""}`}>
-                    <img src={fig.dataUrl} alt={fig.caption} className="aspect-[4/3] w-full rounded-md border bg-gray-100" />
-                    <div className="mt-2 line-clamp-2">{fig.caption}</div>
-                    <div className="mt-1 flex items-center gap-2">
-                      <input
-                        type="checkbox"
-                        checked={fig.selected}
-                        onChange={(e) => setFigureGallery((prev) => prev.map((g) => (g.id === fig.id ? { ...g, selected: e.target.checked } : g)))}
-                      />
-                      <span>Select</span>
-                    </div>
-                  </label>
-                ))}
-              </div>
-              <div className="mt-2 text-xs text-gray-600">Selected: {selectedFigures.length}</div>
-            </div>
+            <FigureGalleryPanel figures={figureGallery} onChange={(next) => updateProject({ figures: next })} />
           </div>
 
           {/* Right column: report previews and exports */}
           <div className="lg:col-span-3 space-y-6">
+            <div className="rounded-2xl border p-4 shadow-sm">
+              <div className="flex flex-wrap items-center gap-2">
+                <Layers className="h-4 w-4" />
+                <h3 className="font-semibold">Narrative depth</h3>
+                <div className="ml-auto inline-flex gap-1 rounded-xl border p-1 text-sm">
+                  {NARRATIVE_DEPTHS.map((d) => (
+                    <button
+                      key={d.id}
+                      className={`rounded-lg px-3 py-0.5 ${narrativeDepth === d.id ? "bg-gray-100 font-semibold ring-1 ring-black" : ""}`}
+                      onClick={() => updateProject({ narrativeDepth: d.id })}
+                      title={d.description}
+                    >
+                      {d.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <p className="mt-1 text-xs text-gray-600">{NARRATIVE_DEPTHS.find((d) => d.id === narrativeDepth)?.description}. Applies to both previews and their DOCX/PDF exports.</p>
+            </div>
+
             <div className="rounded-2xl border p-4 shadow-sm">
               <div className="flex items-center justify-between">
                 <h2 className="text-xl font-semibold">1) CIA - Mana Whenua Narrative (preview)</h2>
@@ -806,29 +791,57 @@ export default function CIAPrototype() {
                   <button className="inline-flex items-center gap-2 rounded-xl border px-3 py-1 text-sm" onClick={() => setTestResult(runSelfChecks())} title="Run self-checks">
                     <Play className="h-4 w-4" /> Run checks
                   </button>
-                  <button className="inline-flex items-center gap-2 rounded-xl border px-3 py-1 text-sm" onClick={() => exportNarrativeDocx("CIA_Mana_Whenua", manaWhenuaNarrative, selectedFigures)} title="Export as DOCX">
+                  <button className="inline-flex items-center gap-2 rounded-xl border px-3 py-1 text-sm" onClick={() => exportNarrativeDocx("CIA_Mana_Whenua", manaWhenuaNarrative.text, selectedFigures)} disabled={!manaWhenuaNarrative.text} title="Export as DOCX">
                     <FileDown className="h-4 w-4" /> Export DOCX
                   </button>
+                  <button className="inline-flex items-center gap-2 rounded-xl border px-3 py-1 text-sm" onClick={() => exportNarrativePdf("CIA_Mana_Whenua", manaWhenuaNarrative.text, selectedFigures)} disabled={!manaWhenuaNarrative.text} title="Export as PDF">
+                    <FileDown className="h-4 w-4" /> Export PDF
+                  </button>
                 </div>
               </div>
               {testResult && (
                 <div className={`mt-3 rounded-lg p-2 text-xs ${testResult.includes("passed") ? "bg-green-50 text-green-800" : "bg-red-50 text-red-800"}`}>{testResult}</div>
               )}
-              <pre className="mt-3 max-h-80 overflow-auto whitespace-pre-wrap text-sm">{manaWhenuaNarrative}\n\n## Selected Figures (inline)\n{selectedFigures.map((f) => `- ${f.caption}`).join("\n")}</pre>
+              {manaWhenuaNarrative.issues.length ? (
+                <TemplateIssueList issues={manaWhenuaNarrative.issues} />
+              ) : (
+                <pre className="mt-3 max-h-80 overflow-auto whitespace-pre-wrap text-sm">{manaWhenuaNarrative.text}\n\n## Selected Figures (inline)\n{selectedFigures.map((f) => `- ${f.caption}`).join("\n")}</pre>
+              )}
             </div>
 
             <div className="rounded-2xl border p-4 shadow-sm">
               <div className="flex items-center justify-between">
                 <h2 className="text-xl font-semibold">2) CIA - Council/Developer Narrative (preview)</h2>
-                <button className="inline-flex items-center gap-2 rounded-xl border px-3 py-1 text-sm" onClick={() => exportNarrativeDocx("CIA_Council_Developer", councilNarrative, selectedFigures)} title="Export as DOCX">
-                  <FileDown className="h-4 w-4" /> Export DOCX
-                </button>
+                <div className="flex items-center gap-2">
+                  <button className="inline-flex items-center gap-2 rounded-xl border px-3 py-1 text-sm" onClick={() => exportNarrativeDocx("CIA_Council_Developer", councilNarrative.text, selectedFigures)} disabled={!councilNarrative.text} title="Export as DOCX">
+                    <FileDown className="h-4 w-4" /> Export DOCX
+                  </button>
+                  <button className="inline-flex items-center gap-2 rounded-xl border px-3 py-1 text-sm" onClick={() => exportNarrativePdf("CIA_Council_Developer", councilNarrative.text, selectedFigures)} disabled={!councilNarrative.text} title="Export as PDF">
+                    <FileDown className="h-4 w-4" /> Export PDF
+                  </button>
+                </div>
               </div>
-              <pre className="mt-3 max-h-80 overflow-auto whitespace-pre-wrap text-sm">{councilNarrative}\n\n## Selected Figures (inline)\n{selectedFigures.map((f) => `- ${f.caption}`).join("\n")}</pre>
+              {councilNarrative.issues.length ? (
+                <TemplateIssueList issues={councilNarrative.issues} />
+              ) : (
+                <pre className="mt-3 max-h-80 overflow-auto whitespace-pre-wrap text-sm">{councilNarrative.text}\n\n## Selected Figures (inline)\n{selectedFigures.map((f) => `- ${f.caption}`).join("\n")}</pre>
+              )}
             </div>
           </div>
         </div>
 
+        <PolicyCrosswalkPanel findings={findings} provisions={provisions} profile={profile} />
+
+        <NarrativeTemplatePanel
+          organisations={organisations}
+          organisationId={organisationId}
+          input={narrativeInput}
+          depth={narrativeDepth}
+          onSelect={(id) => updateProject({ organisationId: id })}
+          onSave={handleSaveOrganisation}
+          onDelete={handleDeleteOrganisation}
+        />
+
         {/* How it works */}
         <div className="mt-12 rounded-2xl border p-6 shadow-sm">
           <h2 className="text-xl font-semibold">How the AI analysis will work (behind the scenes)</h2>
@@ -836,7 +849,7 @@ export default function CIAPrototype() {
             <li>Ingest and parse your PDFs/DOCs (OCR if needed) to extract structured text, tables, maps, and plan references.</li>
             <li>Identify technical topics (water, land, ecology, archaeology, traffic, noise) and map to Categories (wai, whenua, whakapapa, wh\u0101nau, mauri, wairua).</li>
             <li>Policy crosswalk: compare issues/mitigations to Te Ture Whaimana and Tai Tumu, Tai Pari, Tai Ao; for HCC also compare to He Pou Manawa Ora + Hamilton District Plan; for WDC compare to Waikato District Plan.</li>
-            <li>Generate parallel narratives (25+ pages Standard): mana whenua voice (plain language) and council/developer voice (technical), with inline figures you select.</li>
+            <li>Generate parallel narratives at Brief (2-page hui summary), Standard (25+ pages) or Comprehensive depth (adds effects matrices, the policy crosswalk and appendices): mana whenua voice (plain language) and council/developer voice (technical), with inline figures you select.</li>
             <li>Auto-suggest consent conditions and produce a Cultural Monitoring Programme with council-specific toggles and per-Category tasks.</li>
           </ol>
         </div>
@@ -845,9 +858,14 @@ export default function CIAPrototype() {
         <div className="mt-12 rounded-2xl border p-6 shadow-sm bg-gray-50">
           <div className="flex items-center justify-between">
             <h2 className="text-xl font-semibold">Cultural Monitoring Programme</h2>
-            <button className="rounded-xl border px-3 py-1 text-sm" onClick={() => exportMonitoringDocx(projectName, deriveMonitoringRows(sampleFindings, council, includeHPMO))} title="Export as DOCX">
-              Export DOCX
-            </button>
+            <div className="flex items-center gap-2">
+              <button className="rounded-xl border px-3 py-1 text-sm" onClick={() => exportMonitoringDocx(projectName, monitoringRows)} title="Export as DOCX">
+                Export DOCX
+              </button>
+              <button className="rounded-xl border px-3 py-1 text-sm" onClick={() => exportMonitoringPdf(monitoringRows)} title="Export as PDF">
+                Export PDF
+              </button>
+            </div>
           </div>
           <p className="mt-2 text-sm text-gray-700">Automatically derived from identified issues, policies and triggers.</p>
 
@@ -861,7 +879,7 @@ export default function CIAPrototype() {
               </tr>
             </thead>
             <tbody>
-              {deriveMonitoringRows(sampleFindings, council, includeHPMO).map((r, i) => (
+              {monitoringRows.map((r, i) => (
                 <tr key={i}>
                   <td className="p-2 border">{r.phase}</td>
                   <td className="p-2 border">{r.focus}</td>
@@ -887,7 +905,7 @@ export default function CIAPrototype() {
         {/* Per-Category monitoring tasks */}
         <div className="mt-6 rounded-2xl border p-6 shadow-sm">
           <h3 className="text-lg font-semibold">Per-Category Monitoring Tasks</h3>
-          {sampleFindings.map((f, i) => (
+          {findings.map((f, i) => (
             <div key={i} className="mt-4 rounded-xl border p-3">
               <div className="font-medium">{f.category.toUpperCase()}</div>
               <ul className="mt-2 text-sm list-disc pl-6">
@@ -932,6 +950,51 @@ export default function CIAPrototype() {
             </div>
           ))}
         </div>
+
+        <ProgrammePanel
+          projectName={projectName}
+          programme={programme}
+          restrictions={restrictions}
+          onProgrammeChange={(next) => updateProject({ programme: next })}
+          onRestrictionsChange={(next) => updateProject({ restrictions: next })}
+          onUseDates={(span) => updateProject((prev) => ({ constructionDates: { ...prev.constructionDates, ...span } }))}
+        />
+
+        <MonitoringCalendarPanel
+          projectId={project.id}
+          projectName={projectName}
+          calendar={monitoringCalendar}
+          dates={constructionDates}
+          workingDays={workingDays}
+          onChange={(next) => updateProject({ constructionDates: next })}
+        />
+
+        <CostingPanel projectName={projectName} rates={costRates} estimate={costEstimate} onChange={(next) => updateProject({ costRates: next })} />
+
+        <FieldLogPanel
+          projectId={project.id}
+          entries={fieldLog}
+          monitoringRows={monitoringRows}
+          figures={figureGallery}
+          onEntries={handleFieldEntries}
+          onAddFigure={(figure) => updateProject((prev) => ({ figures: [...prev.figures, figure] }))}
+        />
+
+        <MonitoringDashboard findings={findings} data={monitoringData} />
+
+        <ExceedancePanel findings={findings} data={monitoringData} evaluation={exceedances} onDataChange={(next) => updateProject({ monitoringData: next })} />
+
+        <IncidentPanel
+          projectName={projectName}
+          incidents={incidents}
+          findings={findings}
+          events={exceedances.events}
+          fieldEntries={fieldLog}
+          workingDays={workingDays}
+          onChange={(next) => updateProject({ incidents: next })}
+        />
+
+        <MonitoringReportPanel projectName={projectName} findings={findings} data={monitoringData} evaluation={exceedances} fieldLog={fieldLog} incidents={incidents} />
       </div>
     </div>
   );
@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { Packer } from "docx";
+import { ArrowDown, ArrowUp, Download, Plus, Scale, Search, X } from "lucide-react";
+import { CATEGORIES, type Finding } from "../lib/model";
+import { downloadBlob } from "../lib/download";
+import { buildConditionsScheduleDocument } from "../lib/conditionsExport";
+import {
+  ACTIVITY_TYPES,
+  CONDITION_GROUPS,
+  CONDITION_LIBRARY,
+  PLACEHOLDERS,
+  fillTemplate,
+  findingTemplates,
+  orderedConditions,
+  scheduleFromTemplate,
+  searchConditions,
+  unknownPlaceholders,
+  type ActivityType,
+  type ConditionContext,
+  type ConditionGroup,
+  type ConditionsSchedule,
+  type ScheduledCondition,
+} from "../lib/conditions";
+
+type Props = {
+  findings: Finding[];
+  schedule: ConditionsSchedule;
+  context: ConditionContext;
+  councilId: string;
+  onChange: (schedule: ConditionsSchedule) => void;
+};
+
+// Swaps a condition with its neighbour in the same group
+function moveWithinGroup(list: ScheduledCondition[], id: string, delta: number): ScheduledCondition[] {
+  const from = list.findIndex((c) => c.id === id);
+  if (from < 0) return list;
+  const group = list[from].group;
+  let to = from + delta;
+  while (to >= 0 && to < list.length && list[to].group !== group) to += delta;
+  if (to < 0 || to >= list.length) return list;
+  const next = [...list];
+  [next[from], next[to]] = [next[to], next[from]];
+  return next;
+}
+
+export default function ConditionLibraryPanel({ findings, schedule, context, councilId, onChange }: Props) {
+  const [query, setQuery] = useState("");
+  const [category, setCategory] = useState("");
+  const [activity, setActivity] = useState<ActivityType | "">("");
+
+  const templates = [...CONDITION_LIBRARY, ...findingTemplates(findings)];
+  const results = searchConditions(templates, { query, category, activity, council: councilId });
+  const used = new Set(schedule.conditions.map((c) => c.text));
+  const ordered = orderedConditions(schedule);
+
+  function setConditions(conditions: ScheduledCondition[]) {
+    onChange({ ...schedule, conditions });
+  }
+
+  function patch(id: string, change: Partial<ScheduledCondition>) {
+    setConditions(schedule.conditions.map((c) => (c.id === id ? { ...c, ...change } : c)));
+  }
+
+  async function exportDocx() {
+    try {
+      const blob = await Packer.toBlob(buildConditionsScheduleDocument(schedule, context, findings));
+      downloadBlob(blob, `Conditions_Schedule_${context.projectName.replace(/\s+/g, "_")}.docx`);
+    } catch (e) {
+      console.error(e);
+      alert("DOCX export failed. Check console for details.");
+    }
+  }
+
+  return (
+    <div className="rounded-2xl border p-4 shadow-sm">
+      <div className="flex items-center gap-2">
+        <Scale className="h-4 w-4" />
+        <h3 className="font-semibold">Consent condition library</h3>
+      </div>
+
+      {/* Search and filters */}
+      <div className="mt-2 flex items-center gap-1 rounded-xl border px-2">
+        <Search className="h-4 w-4 text-gray-400" />
+        <input className="w-full py-1 text-sm outline-none" value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search conditions, e.g. koiwi, ESCP, marae" />
+      </div>
+      <div className="mt-2 grid grid-cols-2 gap-2 text-xs">
+        <select className="rounded-lg border px-2 py-1" value={category} onChange={(e) => setCategory(e.target.value)}>
+          <option value="">All categories</option>
+          {CATEGORIES.map((c) => (
+            <option key={c} value={c}>{c}</option>
+          ))}
+        </select>
+        <select className="rounded-lg border px-2 py-1" value={activity} onChange={(e) => setActivity(e.target.value as ActivityType | "")}>
+          <option value="">All activities</option>
+          {ACTIVITY_TYPES.map((a) => (
+            <option key={a.id} value={a.id}>{a.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <ul className="mt-2 max-h-72 space-y-2 overflow-y-auto text-sm">
+        {results.map((t) => (
+          <li key={t.id} className="rounded-lg border p-2">
+            <div className="flex items-start gap-2">
+              <div className="flex-1">
+                <div className="font-medium">{t.title}</div>
+                <div className="mt-0.5 text-xs text-gray-700">{fillTemplate(t.text, context)}</div>
+                <div className="mt-1 flex flex-wrap gap-1 text-[10px] text-gray-500">
+                  <span className="rounded bg-gray-100 px-1">{t.group}</span>
+                  {t.tags.map((tag) => (
+                    <span key={tag} className="rounded bg-gray-50 px-1">{tag}</span>
+                  ))}
+                </div>
+              </div>
+              <button
+                className="inline-flex items-center gap-1 rounded border px-2 text-xs"
+                onClick={() => setConditions([...schedule.conditions, scheduleFromTemplate(t, findings)])}
+                disabled={used.has(t.text)}
+                title="Add to the conditions schedule"
+              >
+                <Plus className="h-3 w-3" /> {used.has(t.text) ? "Added" : "Add"}
+              </button>
+            </div>
+          </li>
+        ))}
+        {!results.length && <li className="text-xs text-gray-500">No conditions match.</li>}
+      </ul>
+
+      {/* Schedule */}
+      <div className="mt-4 flex flex-wrap items-center gap-2">
+        <h4 className="text-sm font-semibold">Conditions schedule</h4>
+        <label className="ml-auto text-xs">
+          Working days{" "}
+          <input
+            type="number"
+            min={1}
+            className="w-14 rounded border px-1"
+            value={schedule.workingDays}
+            onChange={(e) => onChange({ ...schedule, workingDays: Math.max(1, Number(e.target.value) || 1) })}
+          />
+        </label>
+        <button className="inline-flex items-center gap-1 rounded-xl border px-2 py-0.5 text-xs" onClick={exportDocx} disabled={!ordered.length}>
+          <Download className="h-3 w-3" /> Export DOCX
+        </button>
+      </div>
+      <div className="mt-1 text-[10px] text-gray-500">Placeholders: {PLACEHOLDERS.map((p) => `{{${p.key}}}`).join(", ")}</div>
+
+      {ordered.length ? (
+        <ol className="mt-2 space-y-2 text-sm">
+          {ordered.map((c, i) => {
+            const unknown = unknownPlaceholders(c.text);
+            const linked = !c.findingId || findings.some((f) => f.id === c.findingId);
+            return (
+              <li key={c.id} className="rounded-lg border p-2">
+                <div className="flex items-center gap-1">
+                  <span className="font-semibold">{i + 1}.</span>
+                  <input className="flex-1 rounded border px-1 text-xs font-medium" value={c.title} onChange={(e) => patch(c.id, { title: e.target.value })} />
+                  <button className="rounded border p-0.5" onClick={() => setConditions(moveWithinGroup(schedule.conditions, c.id, -1))} title="Move up">
+                    <ArrowUp className="h-3 w-3" />
+                  </button>
+                  <button className="rounded border p-0.5" onClick={() => setConditions(moveWithinGroup(schedule.conditions, c.id, 1))} title="Move down">
+                    <ArrowDown className="h-3 w-3" />
+                  </button>
+                  <button className="rounded border p-0.5" onClick={() => setConditions(schedule.conditions.filter((x) => x.id !== c.id))} title="Remove">
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+                <textarea className="mt-1 w-full rounded border px-2 py-1 text-xs" rows={3} value={c.text} onChange={(e) => patch(c.id, { text: e.target.value })} />
+                {unknown.length > 0 && <div className="text-xs text-red-700">Unknown placeholder(s): {unknown.map((k) => `{{${k}}}`).join(", ")}</div>}
+                <div className="mt-1 text-xs text-gray-600">{fillTemplate(c.text, context)}</div>
+                <div className="mt-1 grid grid-cols-1 gap-1 text-xs sm:grid-cols-3">
+                  <select className="rounded border px-1" value={c.group} onChange={(e) => patch(c.id, { group: e.target.value as ConditionGroup })}>
+                    {CONDITION_GROUPS.map((g) => (
+                      <option key={g} value={g}>{g}</option>
+                    ))}
+                  </select>
+                  <select className={`rounded border px-1 sm:col-span-2 ${linked ? "" : "border-amber-400"}`} value={c.findingId ?? ""} onChange={(e) => patch(c.id, { findingId: e.target.value || null })}>
+                    <option value="">(no justifying finding)</option>
+                    {!linked && <option value={c.findingId ?? ""}>(finding no longer in project)</option>}
+                    {findings.map((f) => (
+                      <option key={f.id} value={f.id}>
+                        {f.category}: {f.issue.slice(0, 70)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      ) : (
+        <div className="mt-2 text-xs text-gray-500">Add conditions from the library to build the schedule.</div>
+      )}
+    </div>
+  );
+}
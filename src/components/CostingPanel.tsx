@@ -0,0 +1,153 @@
+import { Coins, FileSpreadsheet } from "lucide-react";
+import { downloadBlob } from "../lib/download";
+import { COST_RATE_FIELDS, DEFAULT_COST_RATES, formatNzd, type CostEstimate, type CostRates } from "../lib/costing";
+import { buildFundingScheduleXlsx } from "../lib/costingExport";
+
+type Props = {
+  projectName: string;
+  rates: CostRates;
+  estimate: CostEstimate;
+  onChange: (rates: CostRates) => void;
+};
+
+export default function CostingPanel({ projectName, rates, estimate, onChange }: Props) {
+  function exportXlsx() {
+    try {
+      const data = buildFundingScheduleXlsx(estimate, rates, projectName);
+      downloadBlob(new Blob([data], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" }), `Funding_Schedule_${projectName.replace(/\s+/g, "_")}.xlsx`);
+    } catch (e) {
+      console.error(e);
+      alert("XLSX export failed. Check console for details.");
+    }
+  }
+
+  return (
+    <div className="mt-6 rounded-2xl border p-6 shadow-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <Coins className="h-5 w-5" />
+        <h3 className="text-lg font-semibold">Cost estimate and funding schedule</h3>
+        <button className="ml-auto inline-flex items-center gap-1 rounded-xl border px-3 py-1 text-sm" onClick={exportXlsx} disabled={!estimate.lines.length}>
+          <FileSpreadsheet className="h-4 w-4" /> Export XLSX
+        </button>
+      </div>
+      <p className="mt-1 text-xs text-gray-600">
+        Priced from the monitoring calendar's visits plus allowances for storm events, hui, w{"\u0101"}nanga and reporting. The schedule is also appended to the Cultural Monitoring Programme DOCX.
+      </p>
+
+      <div className="mt-3 grid grid-cols-1 gap-4 lg:grid-cols-3">
+        {/* Rates */}
+        <div className="text-xs">
+          <div className="flex items-center">
+            <span className="font-medium">Rates (NZD, excl. GST)</span>
+            <button className="ml-auto rounded-lg border px-2 py-0.5" onClick={() => onChange(DEFAULT_COST_RATES)}>
+              Defaults
+            </button>
+          </div>
+          <div className="mt-2 space-y-1">
+            {COST_RATE_FIELDS.map((f) => (
+              <label key={f.key} className="flex items-center gap-2">
+                <span className="flex-1">{f.label}</span>
+                <input
+                  type="number"
+                  min={0}
+                  step="any"
+                  className="w-20 rounded border px-1 py-0.5 text-right"
+                  value={rates[f.key]}
+                  onChange={(e) => {
+                    const value = Number(e.target.value);
+                    if (Number.isFinite(value) && value >= 0) onChange({ ...rates, [f.key]: value });
+                  }}
+                />
+                <span className="w-14 text-gray-500">{f.unit}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {/* Totals by phase and year */}
+        <div className="lg:col-span-2">
+          {estimate.notes.length > 0 && (
+            <ul className="mb-2 list-disc rounded-lg bg-amber-50 p-2 pl-6 text-xs text-amber-800">
+              {estimate.notes.map((n, i) => (
+                <li key={i}>{n}</li>
+              ))}
+            </ul>
+          )}
+          {estimate.lines.length > 0 && (
+            <>
+              <table className="w-full border text-sm">
+                <thead className="bg-gray-100">
+                  <tr>
+                    <th className="border p-1 text-left">Phase</th>
+                    {estimate.years.map((y) => (
+                      <th key={y} className="border p-1 text-right">
+                        {y}
+                      </th>
+                    ))}
+                    <th className="border p-1 text-right">Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {estimate.phases.map((phase) => {
+                    const byYear = estimate.byPhaseYear.get(phase);
+                    const total = estimate.years.reduce((s, y) => s + (byYear?.get(y) ?? 0), 0);
+                    return (
+                      <tr key={phase}>
+                        <td className="border p-1">{phase}</td>
+                        {estimate.years.map((y) => (
+                          <td key={y} className="border p-1 text-right">
+                            {byYear?.get(y) ? formatNzd(byYear.get(y)!) : "-"}
+                          </td>
+                        ))}
+                        <td className="border p-1 text-right font-medium">{formatNzd(total)}</td>
+                      </tr>
+                    );
+                  })}
+                  <tr className="bg-gray-50 font-medium">
+                    <td className="border p-1">Subtotal</td>
+                    {estimate.years.map((y) => (
+                      <td key={y} className="border p-1 text-right">
+                        {formatNzd(estimate.byYear.get(y) ?? 0)}
+                      </td>
+                    ))}
+                    <td className="border p-1 text-right">{formatNzd(estimate.subtotal)}</td>
+                  </tr>
+                </tbody>
+              </table>
+              <dl className="mt-2 ml-auto grid w-72 grid-cols-2 gap-x-4 text-sm">
+                <dt>Contingency ({rates.contingencyPercent}%)</dt>
+                <dd className="text-right">{formatNzd(estimate.contingency)}</dd>
+                <dt>Total excl. GST</dt>
+                <dd className="text-right">{formatNzd(estimate.totalExGst)}</dd>
+                <dt>GST ({rates.gstPercent}%)</dt>
+                <dd className="text-right">{formatNzd(estimate.gst)}</dd>
+                <dt className="font-semibold">Total incl. GST</dt>
+                <dd className="text-right font-semibold">{formatNzd(estimate.totalInclGst)}</dd>
+              </dl>
+
+              <details className="mt-3 text-xs">
+                <summary className="cursor-pointer font-medium">Line items ({estimate.lines.length})</summary>
+                <table className="mt-2 w-full border">
+                  <tbody>
+                    {estimate.lines.map((l, i) => (
+                      <tr key={i}>
+                        <td className="border p-1">{l.year}</td>
+                        <td className="border p-1">{l.phase}</td>
+                        <td className="border p-1">{l.item}</td>
+                        <td className="border p-1 text-right">
+                          {l.quantity} {l.unit}
+                        </td>
+                        <td className="border p-1 text-right">{formatNzd(l.rate)}</td>
+                        <td className="border p-1 text-right">{formatNzd(l.amount)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </details>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
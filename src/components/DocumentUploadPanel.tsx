@@ -0,0 +1,87 @@
+import { useRef, useState } from "react";
+import { Upload, FileText, AlertTriangle, Trash2 } from "lucide-react";
+import { ACCEPTED_UPLOAD_TYPES, type IngestedDocument } from "../lib/ingest";
+
+type Props = {
+  documents: IngestedDocument[];
+  busy: boolean;
+  onFiles: (files: File[]) => void;
+  onRemove: (id: string) => void;
+};
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+export default function DocumentUploadPanel({ documents, busy, onFiles, onRemove }: Props) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [dragging, setDragging] = useState(false);
+
+  return (
+    <div
+      className={`mt-6 rounded-2xl border border-dashed p-6 ${dragging ? "bg-gray-50 ring-2 ring-black" : ""}`}
+      onDragOver={(e) => { e.preventDefault(); setDragging(true); }}
+      onDragLeave={() => setDragging(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setDragging(false);
+        if (e.dataTransfer.files.length) onFiles(Array.from(e.dataTransfer.files));
+      }}
+    >
+      <div className="flex items-center gap-3">
+        <button type="button" className="mx-auto w-fit rounded-full bg-gray-100 p-3" onClick={() => inputRef.current?.click()} disabled={busy} title="Choose files">
+          <Upload className="h-6 w-6" />
+        </button>
+        <div className="flex-1">
+          <div className="font-medium">Upload technical documents</div>
+          <div className="text-xs text-gray-500">PDF, DOCX, XLSX - EMPs, CMPs, ecology, hydrology, archaeology. Drop files here or click to browse.</div>
+        </div>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept={ACCEPTED_UPLOAD_TYPES}
+          className="hidden"
+          onChange={(e) => {
+            if (e.target.files?.length) onFiles(Array.from(e.target.files));
+            e.target.value = "";
+          }}
+        />
+      </div>
+
+      {documents.length > 0 && (
+        <ul className="mt-4 space-y-2 text-sm">
+          {documents.map((d) => {
+            const headings = d.blocks.filter((b) => b.kind === "heading").length;
+            const tables = d.blocks.filter((b) => b.kind === "table").length;
+            const paragraphs = d.blocks.filter((b) => b.kind === "paragraph").length;
+            return (
+              <li key={d.id} className="rounded-xl border p-3">
+                <div className="flex items-center gap-2">
+                  <FileText className="h-4 w-4" />
+                  <span className="font-medium">{d.fileName}</span>
+                  <span className="text-xs text-gray-500">{d.kind.toUpperCase()} - {formatSize(d.sizeBytes)}</span>
+                  <button type="button" className="ml-auto rounded-lg border p-1" onClick={() => onRemove(d.id)} title="Remove document">
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+                <div className="mt-1 text-xs text-gray-600">
+                  {d.kind === "xlsx" ? `${d.pageCount} sheet(s)` : d.kind === "pdf" ? `${d.pageCount} page(s)` : "1 section"}; {paragraphs} paragraph(s), {headings} heading(s), {tables} table(s)
+                </div>
+                {d.errors.length > 0 && (
+                  <ul className="mt-2 rounded-lg bg-red-50 p-2 text-xs text-red-800">
+                    {d.errors.map((err, i) => (
+                      <li key={i} className="flex items-center gap-1"><AlertTriangle className="h-3 w-3" /> {err}</li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import { useRef, useState } from "react";
+import { Activity, AlertTriangle, Trash2, Upload } from "lucide-react";
+import type { Finding } from "../lib/model";
+import { formatRule, metricInfo } from "../lib/thresholds";
+import { findingRules, mergeReadings, monitoringSites, parseMonitoringCsv, type Evaluation, type MonitoringData } from "../lib/exceedance";
+
+type Props = {
+  findings: Finding[];
+  data: MonitoringData;
+  evaluation: Evaluation;
+  onDataChange: (data: MonitoringData) => void;
+};
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleString("en-NZ", { dateStyle: "medium", timeStyle: "short" });
+}
+
+function formatValue(n: number): string {
+  return Number.isFinite(n) ? String(Number(n.toFixed(2))) : "-";
+}
+
+export default function ExceedancePanel({ findings, data, evaluation, onDataChange }: Props) {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const rules = findingRules(findings);
+  const parsedCount = rules.reduce((n, r) => n + r.parsed.filter((p) => p.ok).length, 0);
+  const totalCount = rules.reduce((n, r) => n + r.parsed.length, 0);
+  const sites = monitoringSites(data.readings);
+  const first = data.readings[0]?.time;
+  const last = data.readings[data.readings.length - 1]?.time;
+
+  async function importFiles(files: File[]) {
+    let readings = data.readings;
+    const problems: string[] = [];
+    const sources = [...data.sources];
+    for (const file of files) {
+      try {
+        const parsed = parseMonitoringCsv(await file.text());
+        readings = mergeReadings(readings, parsed.readings);
+        if (!sources.includes(file.name)) sources.push(file.name);
+        if (parsed.skipped) problems.push(`${file.name}: ${parsed.skipped} row(s) without a readable time or value were skipped`);
+      } catch (e) {
+        problems.push(`${file.name}: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }
+    setErrors(problems);
+    onDataChange({ ...data, readings, sources });
+  }
+
+  return (
+    <div className="mt-6 rounded-2xl border p-6 shadow-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <Activity className="h-5 w-5" />
+        <h3 className="text-lg font-semibold">Trigger thresholds and exceedances</h3>
+        <button className="ml-auto inline-flex items-center gap-1 rounded-xl border px-3 py-1 text-sm" onClick={() => fileRef.current?.click()}>
+          <Upload className="h-4 w-4" /> Import monitoring CSV
+        </button>
+        {data.readings.length > 0 && (
+          <button className="inline-flex items-center gap-1 rounded-xl border px-3 py-1 text-sm" onClick={() => onDataChange({ ...data, readings: [], sources: [] })}>
+            <Trash2 className="h-4 w-4" /> Clear readings
+          </button>
+        )}
+        <input
+          ref={fileRef}
+          type="file"
+          multiple
+          accept=".csv,text/csv"
+          className="hidden"
+          onChange={(e) => {
+            const files = Array.from(e.target.files ?? []);
+            if (files.length) importFiles(files);
+            e.target.value = "";
+          }}
+        />
+      </div>
+      <p className="mt-1 text-xs text-gray-600">
+        CSV with a timestamp (or date and time), an optional site column and any of NTU, TSS, clarity (m) and rainfall (mm/hr). Rows without a site are treated as a catchment rain gauge.
+      </p>
+      {errors.length > 0 && (
+        <ul className="mt-2 list-disc rounded-lg bg-red-50 p-2 pl-6 text-xs text-red-800">
+          {errors.map((e, i) => (
+            <li key={i}>{e}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="mt-3 flex flex-wrap items-center gap-3 text-xs text-gray-700">
+        <span>
+          {data.readings.length
+            ? `${data.readings.length} readings from ${sites.length || 1} site(s), ${formatTime(first)} to ${formatTime(last)}`
+            : "No monitoring data imported"}
+        </span>
+        {data.sources.length > 0 && <span className="text-gray-500">{data.sources.join(", ")}</span>}
+        <label className="ml-auto flex items-center gap-1">
+          Baseline until
+          <input
+            type="date"
+            className="rounded border px-1"
+            value={data.baselineUntil ?? ""}
+            onChange={(e) => onDataChange({ ...data, baselineUntil: e.target.value || null })}
+          />
+        </label>
+        {!data.baselineUntil && <span className="text-gray-500">(first 4 weeks of each site)</span>}
+      </div>
+
+      <div className="mt-4 text-sm font-medium">
+        Thresholds ({parsedCount} of {totalCount} machine-readable)
+      </div>
+      <table className="mt-1 w-full text-xs">
+        <thead className="text-left text-gray-500">
+          <tr>
+            <th className="py-1">Category</th>
+            <th className="py-1">Threshold</th>
+            <th className="py-1">Rule</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rules.flatMap(({ finding, parsed }) =>
+            parsed.map((p, i) => (
+              <tr key={`${finding.id}-${i}`} className="border-t align-top">
+                <td className="py-1 pr-2 font-medium">{finding.category}</td>
+                <td className="py-1 pr-2">{p.ok ? p.rule.source : p.source}</td>
+                <td className={`py-1 ${p.ok ? "text-green-800" : "text-gray-500"}`}>{p.ok ? formatRule(p.rule) : `Checked on site: ${p.error}`}</td>
+              </tr>
+            ))
+          )}
+        </tbody>
+      </table>
+
+      {data.readings.length > 0 && (
+        <>
+          <div className="mt-4 flex items-center gap-2 text-sm font-medium">
+            <AlertTriangle className={`h-4 w-4 ${evaluation.events.length ? "text-red-600" : "text-gray-400"}`} />
+            {evaluation.events.length ? `${evaluation.events.length} exceedance event(s)` : "No exceedances in the imported data"}
+          </div>
+          {evaluation.events.length > 0 && (
+            <div className="mt-1 max-h-96 overflow-auto">
+              <table className="w-full text-xs">
+                <thead className="text-left text-gray-500">
+                  <tr>
+                    <th className="py-1">Start</th>
+                    <th className="py-1">Site</th>
+                    <th className="py-1">Finding</th>
+                    <th className="py-1">Threshold</th>
+                    <th className="py-1 text-right">Duration</th>
+                    <th className="py-1 text-right">Peak / trigger</th>
+                    <th className="py-1 pl-2">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {evaluation.events.map((e) => (
+                    <tr key={e.id} className="border-t align-top">
+                      <td className="py-1 pr-2 whitespace-nowrap">{formatTime(e.start)}</td>
+                      <td className="py-1 pr-2">{e.site || "-"}</td>
+                      <td className="py-1 pr-2">{e.category}</td>
+                      <td className="py-1 pr-2">{e.threshold}</td>
+                      <td className="py-1 text-right">{e.durationH} h</td>
+                      <td className="py-1 text-right whitespace-nowrap">
+                        {formatValue(e.peak.value)} / {formatValue(e.peak.level)} {metricInfo(e.peak.metric).unit}
+                      </td>
+                      <td className="py-1 pl-2">
+                        <ul className="list-disc pl-4">
+                          {e.actions.map((a, i) => (
+                            <li key={i}>{a}</li>
+                          ))}
+                        </ul>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          {evaluation.notes.length > 0 && (
+            <ul className="mt-2 list-disc rounded-lg bg-amber-50 p-2 pl-6 text-xs text-amber-800">
+              {evaluation.notes.map((n, i) => (
+                <li key={i}>{n}</li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
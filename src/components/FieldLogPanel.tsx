@@ -0,0 +1,314 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Camera, CloudOff, ImagePlus, LocateFixed, NotebookPen, OctagonAlert, RefreshCw, Trash2 } from "lucide-react";
+import { CATEGORIES, type MonitoringRow } from "../lib/model";
+import { canvasThumbnail, loadImage, type FigureItem } from "../lib/figures";
+import { queueFieldEntry, listQueuedFieldEntries, removeQueuedFieldEntry } from "../lib/storage";
+import {
+  FIELD_SYNC_URL,
+  FIELD_WEATHER,
+  mergeFieldEntries,
+  newFieldId,
+  photoFigureId,
+  photoToFigure,
+  syncFieldLog,
+  weatherLabel,
+  type FieldLogEntry,
+  type FieldPhoto,
+  type FieldPosition,
+  type FieldWeather,
+} from "../lib/fieldLog";
+
+type Props = {
+  projectId: string;
+  entries: FieldLogEntry[];
+  monitoringRows: MonitoringRow[];
+  figures: FigureItem[];
+  onEntries: (projectId: string, entries: FieldLogEntry[]) => void; // saved here, or synced from the server
+  onAddFigure: (figure: FigureItem) => void;
+};
+
+const AUTHOR_KEY = "cia-field-author";
+
+function rowLabel(row: MonitoringRow): string {
+  return `${row.phase} - ${row.focus}`;
+}
+
+async function photoFromFile(file: File): Promise<FieldPhoto> {
+  const url = URL.createObjectURL(file);
+  try {
+    const img = await loadImage(url);
+    const thumb = canvasThumbnail(img, img.naturalWidth, img.naturalHeight);
+    return { id: newFieldId("photo"), caption: "", ...thumb };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+function formatPosition(p: FieldPosition): string {
+  return `${p.lat.toFixed(5)}, ${p.lng.toFixed(5)}${p.accuracyM != null ? ` (\u00B1${Math.round(p.accuracyM)} m)` : ""}`;
+}
+
+export default function FieldLogPanel({ projectId, entries, monitoringRows, figures, onEntries, onAddFigure }: Props) {
+  const photoRef = useRef<HTMLInputElement>(null);
+  const [category, setCategory] = useState<string>(CATEGORIES[0]);
+  const [monitoringRow, setMonitoringRow] = useState("");
+  const [notes, setNotes] = useState("");
+  const [photos, setPhotos] = useState<FieldPhoto[]>([]);
+  const [position, setPosition] = useState<FieldPosition | null>(null);
+  const [weather, setWeather] = useState<FieldWeather>("fine");
+  const [stopWork, setStopWork] = useState(false);
+  const [author, setAuthor] = useState(() => localStorage.getItem(AUTHOR_KEY) ?? "");
+  const [pending, setPending] = useState<FieldLogEntry[]>([]);
+  const [online, setOnline] = useState(navigator.onLine);
+  const [syncing, setSyncing] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // The parent's callback changes every render; only the project should restart syncing
+  const onEntriesRef = useRef(onEntries);
+  useEffect(() => {
+    onEntriesRef.current = onEntries;
+  });
+
+  const sync = useCallback(async () => {
+    if (!FIELD_SYNC_URL) return;
+    setSyncing(true);
+    try {
+      const result = await syncFieldLog(projectId);
+      setPending(result.pending);
+      setMessage(result.error);
+      if (result.synced.length) onEntriesRef.current(projectId, result.synced);
+    } finally {
+      setSyncing(false);
+    }
+  }, [projectId]);
+
+  // Load this device's outbox (merging anything the project lacks) and sync
+  // whenever the connection comes back. Without a server the project is the only
+  // copy, so entries queued by a build that had one leave the outbox once merged.
+  useEffect(() => {
+    listQueuedFieldEntries(projectId)
+      .then(async (queued) => {
+        if (queued.length) onEntriesRef.current(projectId, queued);
+        if (FIELD_SYNC_URL) {
+          setPending(queued);
+          return;
+        }
+        setPending([]);
+        for (const entry of queued) await removeQueuedFieldEntry(entry.id);
+      })
+      .catch(() => setPending([]));
+    const up = () => {
+      setOnline(true);
+      sync();
+    };
+    const down = () => setOnline(false);
+    window.addEventListener("online", up);
+    window.addEventListener("offline", down);
+    return () => {
+      window.removeEventListener("online", up);
+      window.removeEventListener("offline", down);
+    };
+  }, [projectId, sync]);
+
+  function locate() {
+    if (!("geolocation" in navigator)) {
+      setMessage("This device cannot report its location");
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (pos) => setPosition({ lat: pos.coords.latitude, lng: pos.coords.longitude, accuracyM: pos.coords.accuracy ?? null }),
+      (err) => setMessage(`Location unavailable: ${err.message}`),
+      { enableHighAccuracy: true, timeout: 15000 }
+    );
+  }
+
+  async function addPhotos(files: File[]) {
+    const added: FieldPhoto[] = [];
+    for (const file of files) {
+      try {
+        added.push(await photoFromFile(file));
+      } catch {
+        setMessage(`${file.name} could not be read as an image`);
+      }
+    }
+    setPhotos((prev) => [...prev, ...added]);
+  }
+
+  async function save() {
+    if (!notes.trim() && !photos.length) {
+      setMessage("Add a note or a photo before saving");
+      return;
+    }
+    localStorage.setItem(AUTHOR_KEY, author);
+    const entry: FieldLogEntry = {
+      id: newFieldId("obs"),
+      projectId,
+      observedAt: new Date().toISOString(),
+      category,
+      monitoringRow,
+      notes: notes.trim(),
+      photos,
+      position,
+      weather,
+      stopWork,
+      author: author.trim(),
+      syncedAt: null,
+    };
+    // only a configured server ever drains the outbox
+    if (FIELD_SYNC_URL) {
+      try {
+        await queueFieldEntry(entry);
+      } catch (e) {
+        setMessage(`Entry not saved: ${e instanceof Error ? e.message : String(e)}`);
+        return;
+      }
+      setPending((prev) => [...prev, entry]);
+    }
+    onEntries(projectId, [entry]);
+    setNotes("");
+    setPhotos([]);
+    setStopWork(false);
+    setMessage(null);
+    if (navigator.onLine) sync();
+  }
+
+  const shown = mergeFieldEntries(pending, entries);
+  const inGallery = new Set(figures.map((f) => f.id));
+
+  return (
+    <div className="mt-6 rounded-2xl border p-4 shadow-sm sm:p-6">
+      <div className="flex flex-wrap items-center gap-2">
+        <NotebookPen className="h-5 w-5" />
+        <h3 className="text-lg font-semibold">Cultural monitor field log</h3>
+        <span className={`inline-flex items-center gap-1 rounded-lg px-2 text-xs ${online ? "bg-green-50 text-green-800" : "bg-amber-50 text-amber-800"}`}>
+          {!online && <CloudOff className="h-3 w-3" />}
+          {online ? "Online" : "Offline - entries are kept on this device"}
+        </span>
+        <button
+          className="ml-auto inline-flex items-center gap-1 rounded-xl border px-3 py-1 text-sm"
+          onClick={sync}
+          disabled={syncing || !FIELD_SYNC_URL}
+          title={FIELD_SYNC_URL ? `Sync with ${FIELD_SYNC_URL}` : "No sync server is configured; entries are kept in this project"}
+        >
+          <RefreshCw className={`h-4 w-4 ${syncing ? "animate-spin" : ""}`} /> Sync{pending.length ? ` (${pending.length} waiting)` : ""}
+        </button>
+      </div>
+
+      {/* Entry form: single column on phones */}
+      <div className="mt-4 grid grid-cols-1 gap-3 sm:grid-cols-2">
+        <label className="text-sm">
+          Category
+          <select className="mt-1 w-full rounded-xl border px-3 py-2" value={category} onChange={(e) => setCategory(e.target.value)}>
+            {CATEGORIES.map((c) => (
+              <option key={c} value={c}>{c}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm">
+          Monitoring programme row
+          <select className="mt-1 w-full rounded-xl border px-3 py-2" value={monitoringRow} onChange={(e) => setMonitoringRow(e.target.value)}>
+            <option value="">(general observation)</option>
+            {monitoringRows.map((r, i) => (
+              <option key={i} value={rowLabel(r)}>{rowLabel(r)}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm sm:col-span-2">
+          Notes
+          <textarea className="mt-1 w-full rounded-xl border px-3 py-2" rows={4} value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="What you saw, where, and who you told" />
+        </label>
+        <label className="text-sm">
+          Weather
+          <select className="mt-1 w-full rounded-xl border px-3 py-2" value={weather} onChange={(e) => setWeather(e.target.value as FieldWeather)}>
+            {FIELD_WEATHER.map((w) => (
+              <option key={w.id} value={w.id}>{w.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm">
+          Monitor
+          <input className="mt-1 w-full rounded-xl border px-3 py-2" value={author} onChange={(e) => setAuthor(e.target.value)} placeholder="Your name" />
+        </label>
+      </div>
+
+      <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+        <button className="inline-flex items-center gap-1 rounded-xl border px-3 py-2" onClick={() => photoRef.current?.click()}>
+          <Camera className="h-4 w-4" /> Add photos
+        </button>
+        <input
+          ref={photoRef}
+          type="file"
+          accept="image/*"
+          capture="environment"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            const files = Array.from(e.target.files ?? []);
+            if (files.length) addPhotos(files);
+            e.target.value = "";
+          }}
+        />
+        <button className="inline-flex items-center gap-1 rounded-xl border px-3 py-2" onClick={locate}>
+          <LocateFixed className="h-4 w-4" /> {position ? formatPosition(position) : "Record location"}
+        </button>
+        <label className={`inline-flex items-center gap-2 rounded-xl border px-3 py-2 ${stopWork ? "border-red-400 bg-red-50 text-red-800" : ""}`}>
+          <input type="checkbox" checked={stopWork} onChange={(e) => setStopWork(e.target.checked)} />
+          <OctagonAlert className="h-4 w-4" /> Stop work called
+        </label>
+        <button className="ml-auto rounded-xl bg-black px-4 py-2 text-white" onClick={save}>
+          Save entry
+        </button>
+      </div>
+
+      {photos.length > 0 && (
+        <div className="mt-3 grid grid-cols-3 gap-2 sm:grid-cols-6">
+          {photos.map((p) => (
+            <div key={p.id} className="relative">
+              <img src={p.dataUrl} alt="" className="aspect-square w-full rounded-lg border object-cover" />
+              <button className="absolute right-1 top-1 rounded bg-white/80 p-0.5" onClick={() => setPhotos((prev) => prev.filter((x) => x.id !== p.id))} title="Remove photo">
+                <Trash2 className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      {message && <div className="mt-3 rounded-lg bg-amber-50 p-2 text-xs text-amber-800">{message}</div>}
+
+      {shown.length > 0 && (
+        <div className="mt-5 space-y-3">
+          {shown.map((e) => (
+            <div key={e.id} className={`rounded-xl border p-3 text-sm ${e.stopWork ? "border-red-300" : ""}`}>
+              <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600">
+                <span className="font-medium text-gray-900">{e.category}</span>
+                <span>{new Date(e.observedAt).toLocaleString("en-NZ", { dateStyle: "medium", timeStyle: "short" })}</span>
+                <span>{weatherLabel(e.weather)}</span>
+                {e.author && <span>{e.author}</span>}
+                {e.position && <span>{formatPosition(e.position)}</span>}
+                {e.stopWork && <span className="rounded bg-red-600 px-1.5 text-white">STOP WORK</span>}
+                <span className={`ml-auto rounded px-1.5 ${e.syncedAt ? "bg-green-50 text-green-800" : "bg-amber-50 text-amber-800"}`}>{e.syncedAt ? "synced" : FIELD_SYNC_URL ? "waiting to sync" : "this device only"}</span>
+              </div>
+              {e.monitoringRow && <div className="mt-1 text-xs text-gray-500">{e.monitoringRow}</div>}
+              {e.notes && <div className="mt-1 whitespace-pre-wrap">{e.notes}</div>}
+              {e.photos.length > 0 && (
+                <div className="mt-2 grid grid-cols-3 gap-2 sm:grid-cols-6">
+                  {e.photos.map((p) => (
+                    <div key={p.id} className="text-xs">
+                      <img src={p.dataUrl} alt="" className="aspect-square w-full rounded-lg border object-cover" />
+                      <button
+                        className="mt-1 inline-flex w-full items-center justify-center gap-1 rounded border px-1"
+                        onClick={() => onAddFigure(photoToFigure(e, p))}
+                        disabled={inGallery.has(photoFigureId(p))}
+                      >
+                        <ImagePlus className="h-3 w-3" /> {inGallery.has(photoFigureId(p)) ? "In figures" : "Use as figure"}
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
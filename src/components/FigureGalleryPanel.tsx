@@ -0,0 +1,64 @@
+import { ArrowLeft, ArrowRight, Image as ImageIcon, ListOrdered, Trash2 } from "lucide-react";
+import { moveFigure, renumberFigures, type FigureItem } from "../lib/figures";
+
+type Props = {
+  figures: FigureItem[];
+  onChange: (figures: FigureItem[]) => void;
+};
+
+export default function FigureGalleryPanel({ figures, onChange }: Props) {
+  const selected = figures.filter((f) => f.selected).length;
+
+  function update(id: string, patch: Partial<FigureItem>) {
+    onChange(figures.map((g) => (g.id === id ? { ...g, ...patch } : g)));
+  }
+
+  return (
+    <div className="rounded-2xl border p-4 shadow-sm">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <ImageIcon className="h-5 w-5" />
+          <h3 className="font-semibold">Evidence (select figures to embed inline)</h3>
+        </div>
+        <button className="inline-flex items-center gap-1 rounded-xl border px-3 py-1 text-sm" onClick={() => onChange(renumberFigures(figures))} disabled={figures.length === 0} title="Renumber captions in gallery order">
+          <ListOrdered className="h-4 w-4" /> Renumber
+        </button>
+      </div>
+      {figures.length === 0 && (
+        <div className="mt-3 text-xs text-gray-600">No figures yet. Images and their captions are extracted from uploaded PDF and DOCX reports.</div>
+      )}
+      <div className="mt-3 grid grid-cols-2 gap-3 md:grid-cols-4">
+        {figures.map((fig, i) => (
+          <div key={fig.id} className={`rounded-xl border p-2 text-xs ${fig.selected ? "ring-2 ring-black" : ""}`}>
+            <img src={fig.dataUrl} alt={fig.caption} className="aspect-[4/3] w-full rounded-md border bg-gray-100 object-contain" />
+            <textarea
+              className="mt-2 w-full rounded-md border px-1 py-0.5"
+              rows={2}
+              value={fig.caption}
+              onChange={(e) => update(fig.id, { caption: e.target.value })}
+            />
+            <div className="mt-1 text-gray-500">
+              {fig.sourceFileName ? `${fig.sourceFileName}, p. ${fig.page ?? 1}` : "Added manually"} - {fig.width}x{fig.height}
+            </div>
+            <div className="mt-1 flex items-center gap-1">
+              <label className="flex items-center gap-1">
+                <input type="checkbox" checked={fig.selected} onChange={(e) => update(fig.id, { selected: e.target.checked })} />
+                <span>Select</span>
+              </label>
+              <button className="ml-auto rounded border p-0.5" onClick={() => onChange(moveFigure(figures, fig.id, -1))} disabled={i === 0} title="Move earlier">
+                <ArrowLeft className="h-3 w-3" />
+              </button>
+              <button className="rounded border p-0.5" onClick={() => onChange(moveFigure(figures, fig.id, 1))} disabled={i === figures.length - 1} title="Move later">
+                <ArrowRight className="h-3 w-3" />
+              </button>
+              <button className="rounded border p-0.5" onClick={() => onChange(figures.filter((g) => g.id !== fig.id))} title="Remove figure">
+                <Trash2 className="h-3 w-3" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="mt-2 text-xs text-gray-600">Selected: {selected}</div>
+    </div>
+  );
+}
@@ -0,0 +1,337 @@
+import { useState } from "react";
+import { ArrowDown, ArrowUp, ChevronDown, ChevronRight, ListChecks, Plus, Quote, Search, Trash2, X } from "lucide-react";
+import { CATEGORIES, emptyFinding, moveItem, type CitedField, type Effects, type Finding, type TriggerSpec } from "../lib/model";
+import { issuesAt, validateFinding, type FieldIssue } from "../lib/validation";
+import type { CouncilProfile } from "../lib/councils";
+import { POLICY_PROVISIONS, instrumentName, provisionLabel, provisionsFromLinks, type PolicyProvision } from "../lib/policyCatalogue";
+import type { IngestedDocument } from "../lib/ingest";
+import { citedItems, formatLocation, itemSources, retargetSources, sameSource, searchExcerpts, type SourceLocation } from "../lib/citations";
+import SourceRefs from "./SourceRefs";
+
+type Props = {
+  findings: Finding[];
+  provisions: PolicyProvision[]; // applicable to the council and enabled frameworks
+  profile: CouncilProfile;
+  documents: IngestedDocument[];
+  onChange: (findings: Finding[]) => void;
+};
+
+function FieldMessages({ issues }: { issues: FieldIssue[] }) {
+  if (issues.length === 0) return null;
+  return (
+    <>
+      {issues.map((i, k) => (
+        <div key={k} className={`text-xs ${i.severity === "error" ? "text-red-700" : "text-amber-700"}`}>{i.message}</div>
+      ))}
+    </>
+  );
+}
+
+// Citations for the statements of one field, edited alongside them
+type Citing = {
+  field: CitedField;
+  finding: Finding;
+  documents: IngestedDocument[];
+  onChange: (f: Finding) => void;
+};
+
+function CitePicker({ documents, onPick }: { documents: IngestedDocument[]; onPick: (loc: SourceLocation) => void }) {
+  const [query, setQuery] = useState("");
+  const results = searchExcerpts(documents, query, 6);
+  if (!documents.length) return <div className="mt-1 text-xs text-gray-500">Upload technical documents to cite them.</div>;
+  return (
+    <div className="mt-1 rounded border bg-white p-1">
+      <div className="flex items-center gap-1">
+        <Search className="h-3 w-3 text-gray-400" />
+        <input className="flex-1 px-1 text-xs" value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search the documents for the excerpt..." autoFocus />
+      </div>
+      {query.trim() && !results.length && <div className="mt-1 text-xs text-gray-500">No excerpt contains those words.</div>}
+      {results.map((r, i) => (
+        <button key={i} className="mt-1 block w-full rounded px-1 text-left text-xs hover:bg-gray-100" onClick={() => onPick(r)}>
+          <span className="text-gray-500">{formatLocation(r)}:</span> {r.excerpt}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function ItemCitations({ cite, item }: { cite: Citing; item: string }) {
+  const [picking, setPicking] = useState(false);
+  const { field, finding, documents, onChange } = cite;
+  if (!item.trim()) return null;
+  return (
+    <div className="flex items-start gap-1">
+      <div className="flex-1">
+        <SourceRefs sources={itemSources(finding, field, item)} onRemove={(s) => onChange({ ...finding, sources: finding.sources.filter((x) => !sameSource(x, s)) })} />
+        {picking && (
+          <CitePicker
+            documents={documents}
+            onPick={(loc) => {
+              const ref = { field, item, ...loc };
+              if (!finding.sources.some((x) => sameSource(x, ref))) onChange({ ...finding, sources: [...finding.sources, ref] });
+              setPicking(false);
+            }}
+          />
+        )}
+      </div>
+      <button className="mt-0.5 inline-flex items-center gap-0.5 rounded border px-1 text-[10px]" onClick={() => setPicking(!picking)} title="Cite a document excerpt">
+        <Quote className="h-3 w-3" /> {picking ? "Cancel" : "Cite"}
+      </button>
+    </div>
+  );
+}
+
+function StringListEditor({ label, path, items, issues, cite, onChange }: { label: string; path: string; items: string[]; issues: FieldIssue[]; cite?: Citing; onChange: (items: string[]) => void }) {
+  return (
+    <div className="mt-3">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium">{label}</span>
+        <button className="inline-flex items-center gap-1 rounded border px-2 text-xs" onClick={() => onChange([...items, ""])}>
+          <Plus className="h-3 w-3" /> Add
+        </button>
+      </div>
+      <FieldMessages issues={issuesAt(issues, path)} />
+      {items.map((item, i) => (
+        <div key={i} className="mt-1">
+          <div className="flex items-start gap-1">
+            <textarea
+              className="flex-1 rounded border px-2 py-1 text-xs"
+              rows={1}
+              value={item}
+              onChange={(e) => onChange(items.map((x, k) => (k === i ? e.target.value : x)))}
+            />
+            <button className="rounded border p-0.5" onClick={() => onChange(moveItem(items, i, -1))} disabled={i === 0} title="Move up">
+              <ArrowUp className="h-3 w-3" />
+            </button>
+            <button className="rounded border p-0.5" onClick={() => onChange(moveItem(items, i, 1))} disabled={i === items.length - 1} title="Move down">
+              <ArrowDown className="h-3 w-3" />
+            </button>
+            <button className="rounded border p-0.5" onClick={() => onChange(items.filter((_, k) => k !== i))} title="Remove">
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+          <FieldMessages issues={issuesAt(issues, `${path}.${i}`)} />
+          {cite && <ItemCitations cite={cite} item={item} />}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+type ProvisionPickerProps = {
+  linked: string[];
+  provisions: PolicyProvision[];
+  profile: CouncilProfile;
+  policyLinks: string[];
+  issues: FieldIssue[];
+  onChange: (ids: string[]) => void;
+};
+
+function ProvisionPicker({ linked, provisions, profile, policyLinks, issues, onChange }: ProvisionPickerProps) {
+  const instruments = Array.from(new Set(provisions.map((p) => p.instrumentId)));
+  const suggested = provisionsFromLinks(policyLinks, provisions).filter((id) => !linked.includes(id));
+  return (
+    <div className="mt-3">
+      <div className="flex items-center justify-between gap-1">
+        <span className="text-xs font-medium">Policy provisions</span>
+        {suggested.length > 0 && (
+          <button className="rounded border px-2 text-xs" onClick={() => onChange([...linked, ...suggested])} title="Link the provisions named in the policy links">
+            Link {suggested.length} from policy links
+          </button>
+        )}
+      </div>
+      <FieldMessages issues={issuesAt(issues, "provisions")} />
+      <div className="mt-1 flex flex-wrap gap-1">
+        {linked.map((id) => {
+          const p = POLICY_PROVISIONS.find((x) => x.id === id);
+          const applicable = provisions.some((x) => x.id === id);
+          return (
+            <span key={id} className={`inline-flex items-center gap-1 rounded border px-1 text-xs ${applicable ? "" : "border-dashed text-gray-500"}`} title={p ? p.title : "Not in the catalogue"}>
+              {p ? provisionLabel(p, profile) : id}
+              {!applicable && " (not applicable here)"}
+              <button onClick={() => onChange(linked.filter((x) => x !== id))} title="Unlink">
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          );
+        })}
+      </div>
+      <select
+        className="mt-1 w-full rounded border px-2 py-1 text-xs"
+        value=""
+        onChange={(e) => {
+          if (e.target.value) onChange([...linked, e.target.value]);
+        }}
+      >
+        <option value="">Link a provision...</option>
+        {instruments.map((inst) => (
+          <optgroup key={inst} label={instrumentName(inst, profile)}>
+            {provisions
+              .filter((p) => p.instrumentId === inst && !linked.includes(p.id))
+              .map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.ref} - {p.title}
+                </option>
+              ))}
+          </optgroup>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+type FindingFormProps = {
+  finding: Finding;
+  issues: FieldIssue[];
+  provisions: PolicyProvision[];
+  profile: CouncilProfile;
+  documents: IngestedDocument[];
+  onChange: (f: Finding) => void;
+};
+
+function FindingForm({ finding, issues, provisions, profile, documents, onChange }: FindingFormProps) {
+  // edits to a cited field carry its citations over to the edited statements
+  const retarget = (next: Finding, field: CitedField): Finding => ({ ...next, sources: retargetSources(finding.sources, field, citedItems(finding, field), citedItems(next, field)) });
+  const setEffects = (bucket: keyof Effects, items: string[]) => onChange(retarget({ ...finding, effects: { ...finding.effects, [bucket]: items } }, `effects.${bucket}`));
+  const setTriggers = (field: CitedField, patch: Partial<TriggerSpec>) => onChange(retarget({ ...finding, triggers: { ...finding.triggers, ...patch } }, field));
+  const cite = (field: CitedField): Citing => ({ field, finding, documents, onChange });
+
+  return (
+    <div className="mt-3 text-sm">
+      <label className="text-xs font-medium">Category</label>
+      <select className="mt-1 w-full rounded border px-2 py-1" value={finding.category} onChange={(e) => onChange({ ...finding, category: e.target.value })}>
+        {!(CATEGORIES as readonly string[]).includes(finding.category) && <option value={finding.category}>{finding.category || "(none)"}</option>}
+        {CATEGORIES.map((c) => (
+          <option key={c} value={c}>{c}</option>
+        ))}
+      </select>
+      <FieldMessages issues={issuesAt(issues, "category")} />
+
+      <label className="mt-3 block text-xs font-medium">Issue</label>
+      <textarea className="mt-1 w-full rounded border px-2 py-1 text-xs" rows={2} value={finding.issue} onChange={(e) => onChange({ ...finding, issue: e.target.value })} />
+      <FieldMessages issues={issuesAt(issues, "issue")} />
+
+      <div className="mt-3 rounded-lg bg-gray-50 p-2">
+        <div className="text-xs font-semibold">Effects</div>
+        <FieldMessages issues={issuesAt(issues, "effects")} />
+        <StringListEditor label="Cultural" path="effects.cultural" items={finding.effects.cultural} issues={issues} cite={cite("effects.cultural")} onChange={(v) => setEffects("cultural", v)} />
+        <StringListEditor label="Social" path="effects.social" items={finding.effects.social} issues={issues} cite={cite("effects.social")} onChange={(v) => setEffects("social", v)} />
+        <StringListEditor label="Environmental" path="effects.environmental" items={finding.effects.environmental} issues={issues} cite={cite("effects.environmental")} onChange={(v) => setEffects("environmental", v)} />
+        <StringListEditor label="Spiritual" path="effects.spiritual" items={finding.effects.spiritual} issues={issues} cite={cite("effects.spiritual")} onChange={(v) => setEffects("spiritual", v)} />
+      </div>
+
+      <StringListEditor label="Mitigations" path="mitigations" items={finding.mitigations} issues={issues} cite={cite("mitigations")} onChange={(v) => onChange(retarget({ ...finding, mitigations: v }, "mitigations"))} />
+      <StringListEditor label="Recommendations" path="recommendations" items={finding.recommendations} issues={issues} onChange={(v) => onChange({ ...finding, recommendations: v })} />
+
+      <div className="mt-3 rounded-lg bg-gray-50 p-2">
+        <div className="text-xs font-semibold">Monitoring triggers</div>
+        <StringListEditor label="Metrics" path="triggers.metrics" items={finding.triggers.metrics} issues={issues} cite={cite("triggers.metrics")} onChange={(v) => setTriggers("triggers.metrics", { metrics: v })} />
+        <label className="mt-3 block text-xs font-medium">Baseline</label>
+        <textarea className="mt-1 w-full rounded border px-2 py-1 text-xs" rows={2} value={finding.triggers.baselines} onChange={(e) => setTriggers("triggers.baselines", { baselines: e.target.value })} />
+        <FieldMessages issues={issuesAt(issues, "triggers.baselines")} />
+        <ItemCitations cite={cite("triggers.baselines")} item={finding.triggers.baselines} />
+        <StringListEditor label="Thresholds" path="triggers.thresholds" items={finding.triggers.thresholds} issues={issues} cite={cite("triggers.thresholds")} onChange={(v) => setTriggers("triggers.thresholds", { thresholds: v })} />
+        <StringListEditor label="Actions" path="triggers.actions" items={finding.triggers.actions} issues={issues} cite={cite("triggers.actions")} onChange={(v) => setTriggers("triggers.actions", { actions: v })} />
+        <label className="mt-3 block text-xs font-medium">Reporting</label>
+        <textarea className="mt-1 w-full rounded border px-2 py-1 text-xs" rows={2} value={finding.triggers.reporting} onChange={(e) => setTriggers("triggers.reporting", { reporting: e.target.value })} />
+        <FieldMessages issues={issuesAt(issues, "triggers.reporting")} />
+        <ItemCitations cite={cite("triggers.reporting")} item={finding.triggers.reporting} />
+      </div>
+
+      <StringListEditor label="Policy links" path="policyLinks" items={finding.policyLinks} issues={issues} onChange={(v) => onChange({ ...finding, policyLinks: v })} />
+      <ProvisionPicker
+        linked={finding.provisions}
+        provisions={provisions}
+        profile={profile}
+        policyLinks={finding.policyLinks}
+        issues={issues}
+        onChange={(ids) => onChange({ ...finding, provisions: ids })}
+      />
+      <StringListEditor label="Consent clauses" path="consentClauses" items={finding.consentClauses} issues={issues} onChange={(v) => onChange({ ...finding, consentClauses: v })} />
+      <FieldMessages issues={issuesAt(issues, "sources")} />
+    </div>
+  );
+}
+
+export default function FindingsEditor({ findings, provisions, profile, documents, onChange }: Props) {
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const validation = findings.map((f) => validateFinding(f));
+  const errorCount = validation.flat().filter((i) => i.severity === "error").length;
+  const groups = [...CATEGORIES, ...Array.from(new Set(findings.map((f) => f.category))).filter((c) => !(CATEGORIES as readonly string[]).includes(c))];
+
+  function update(index: number, f: Finding) {
+    onChange(findings.map((x, i) => (i === index ? f : x)));
+  }
+
+  function remove(index: number) {
+    onChange(findings.filter((_, i) => i !== index));
+    setExpanded(null);
+  }
+
+  // reorder within the category: swap with the previous/next finding of the same category
+  function move(index: number, delta: number) {
+    const same = findings.map((f, i) => (f.category === findings[index].category ? i : -1)).filter((i) => i >= 0);
+    const target = same[same.indexOf(index) + delta];
+    if (target == null) return;
+    const next = [...findings];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+    if (expanded === index) setExpanded(target);
+  }
+
+  function add(category: string) {
+    onChange([...findings, emptyFinding(category)]);
+    setExpanded(findings.length);
+  }
+
+  return (
+    <div className="rounded-2xl border p-4 shadow-sm">
+      <div className="flex items-center gap-2">
+        <ListChecks className="h-5 w-5" />
+        <h3 className="font-semibold">Findings workspace</h3>
+        <span className={`ml-auto rounded-lg px-2 text-xs ${errorCount ? "bg-red-50 text-red-800" : "bg-green-50 text-green-800"}`}>
+          {errorCount ? `${errorCount} validation error(s)` : "All findings valid"}
+        </span>
+      </div>
+      {groups.map((category) => {
+        const members = findings.map((f, i) => ({ f, i })).filter(({ f }) => f.category === category);
+        return (
+          <div key={category} className="mt-4">
+            <div className="flex items-center justify-between">
+              <div className="text-sm font-medium">{category.toUpperCase() || "(NO CATEGORY)"} <span className="text-xs text-gray-500">({members.length})</span></div>
+              <button className="inline-flex items-center gap-1 rounded-lg border px-2 text-xs" onClick={() => add(category)}>
+                <Plus className="h-3 w-3" /> Add finding
+              </button>
+            </div>
+            {members.map(({ f, i }, k) => {
+              const issues = validation[i];
+              const errors = issues.filter((x) => x.severity === "error").length;
+              return (
+                <div key={i} className="mt-2 rounded-xl border p-2">
+                  <div className="flex items-center gap-1 text-xs">
+                    <button className="flex flex-1 items-center gap-1 text-left" onClick={() => setExpanded(expanded === i ? null : i)}>
+                      {expanded === i ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+                      <span className="line-clamp-1">{f.issue || "(untitled finding)"}</span>
+                    </button>
+                    {f.generatedBy && <span className="rounded bg-gray-100 px-1 text-gray-600" title={`Generated (${f.generatedBy}); regenerating replaces it`}>auto</span>}
+                    {errors > 0 && <span className="rounded bg-red-50 px-1 text-red-800">{errors}</span>}
+                    <button className="rounded border p-0.5" onClick={() => move(i, -1)} disabled={k === 0} title="Move up">
+                      <ArrowUp className="h-3 w-3" />
+                    </button>
+                    <button className="rounded border p-0.5" onClick={() => move(i, 1)} disabled={k === members.length - 1} title="Move down">
+                      <ArrowDown className="h-3 w-3" />
+                    </button>
+                    <button className="rounded border p-0.5" onClick={() => remove(i)} title="Delete finding">
+                      <Trash2 className="h-3 w-3" />
+                    </button>
+                  </div>
+                  {expanded === i && <FindingForm finding={f} issues={issues} provisions={provisions} profile={profile} documents={documents} onChange={(next) => update(i, next)} />}
+                </div>
+              );
+            })}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
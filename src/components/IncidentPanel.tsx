@@ -0,0 +1,321 @@
+import { useEffect, useState } from "react";
+import { Packer } from "docx";
+import { CheckCircle2, Download, OctagonAlert, Plus, Siren, Trash2 } from "lucide-react";
+import type { Finding } from "../lib/model";
+import type { ExceedanceEvent } from "../lib/exceedance";
+import type { FieldLogEntry } from "../lib/fieldLog";
+import type { WorkingDayOptions } from "../lib/workingDays";
+import { downloadBlob } from "../lib/download";
+import { buildIncidentLogDocument, incidentLogCsv } from "../lib/incidentExport";
+import {
+  INCIDENT_KINDS,
+  formatDeadline,
+  incidentFromExceedance,
+  incidentFindingText,
+  incidentFromFieldEntry,
+  isOverdue,
+  kindLabel,
+  nextDue,
+  openIncident,
+  overdueCount,
+  suggestFinding,
+  type Incident,
+  type IncidentKind,
+} from "../lib/incidents";
+
+type Props = {
+  projectName: string;
+  incidents: Incident[];
+  findings: Finding[];
+  events: ExceedanceEvent[];
+  fieldEntries: FieldLogEntry[];
+  workingDays: WorkingDayOptions;
+  onChange: (incidents: Incident[]) => void;
+};
+
+const SOURCE_LABEL = { action: "Action", reporting: "Reporting", consent: "Consent condition" } as const;
+
+function formatWhen(iso: string): string {
+  return new Date(iso).toLocaleString("en-NZ", { dateStyle: "medium", timeStyle: "short" });
+}
+
+// <input type="datetime-local"> works in local time without a zone
+function toLocalInput(iso: string): string {
+  const d = new Date(iso);
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+// Open incidents first, soonest deadline first
+function byUrgency(a: Incident, b: Incident): number {
+  if (!a.closedAt !== !b.closedAt) return a.closedAt ? 1 : -1;
+  const da = nextDue(a) ?? "\uFFFF";
+  const db = nextDue(b) ?? "\uFFFF";
+  return da.localeCompare(db) || b.openedAt.localeCompare(a.openedAt);
+}
+
+export default function IncidentPanel({ projectName, incidents, findings, events, fieldEntries, workingDays, onChange }: Props) {
+  const [kind, setKind] = useState<IncidentKind>("koiwi");
+  const [title, setTitle] = useState("");
+  const [findingChoice, setFindingChoice] = useState<string | null>(null); // finding id, "" for none; null = suggested for the kind
+  const [openedAt, setOpenedAt] = useState(() => toLocalInput(new Date().toISOString()));
+  const [location, setLocation] = useState("");
+  const [description, setDescription] = useState("");
+  const [stopWork, setStopWork] = useState(true);
+  const [now, setNow] = useState(() => new Date());
+
+  // Re-check deadlines every minute so items turn overdue while the page is open
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(new Date()), 60000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const suggested = suggestFinding(kind, findings);
+  const chosen = findingChoice === null ? suggested : findings.find((f) => f.id === findingChoice) ?? null;
+  const raised = new Set(incidents.map((i) => i.sourceId).filter(Boolean));
+  const unraisedEvents = events.filter((e) => !raised.has(e.id));
+  const unraisedStops = fieldEntries.filter((e) => e.stopWork && !raised.has(e.id));
+  const overdue = incidents.reduce((n, i) => n + overdueCount(i, now), 0);
+
+  function add(incident: Incident) {
+    onChange([incident, ...incidents]);
+  }
+
+  function update(id: string, patch: (i: Incident) => Incident) {
+    onChange(incidents.map((i) => (i.id === id ? patch(i) : i)));
+  }
+
+  function submit() {
+    add(
+      openIncident(
+        {
+          kind,
+          title: title.trim(),
+          category: chosen?.category ?? "",
+          finding: chosen,
+          openedAt: new Date(openedAt).toISOString(),
+          location: location.trim(),
+          description: description.trim(),
+          stopWork,
+        },
+        workingDays
+      )
+    );
+    setTitle("");
+    setLocation("");
+    setDescription("");
+    setFindingChoice(null);
+  }
+
+  async function exportDocx() {
+    try {
+      const blob = await Packer.toBlob(buildIncidentLogDocument([...incidents].sort(byUrgency), findings, projectName, new Date()));
+      downloadBlob(blob, `Incident_Log_${projectName.replace(/\s+/g, "_")}.docx`);
+    } catch (e) {
+      console.error(e);
+      alert("DOCX export failed. Check console for details.");
+    }
+  }
+
+  function exportCsv() {
+    const csv = incidentLogCsv([...incidents].sort(byUrgency), new Date());
+    downloadBlob(new Blob([csv], { type: "text/csv;charset=utf-8" }), `Incident_Log_${projectName.replace(/\s+/g, "_")}.csv`);
+  }
+
+  return (
+    <div className="mt-6 rounded-2xl border p-6 shadow-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <Siren className="h-5 w-5" />
+        <h3 className="text-lg font-semibold">Incidents and stop-work</h3>
+        {overdue > 0 && <span className="rounded-lg bg-red-600 px-2 text-xs text-white">{overdue} overdue</span>}
+        <button className="ml-auto inline-flex items-center gap-1 rounded-xl border px-3 py-1 text-sm" onClick={exportCsv} disabled={!incidents.length}>
+          <Download className="h-4 w-4" /> Export CSV
+        </button>
+        <button className="inline-flex items-center gap-1 rounded-xl border px-3 py-1 text-sm" onClick={exportDocx} disabled={!incidents.length}>
+          <Download className="h-4 w-4" /> Export DOCX
+        </button>
+      </div>
+      <p className="mt-2 text-xs text-gray-600">
+        Each incident opens a checklist from its finding's trigger actions. Due dates count New Zealand working days (public holidays, Matariki, the regional anniversary day and 20 Dec - 10 Jan are excluded).
+      </p>
+
+      {/* New incident */}
+      <div className="mt-4 grid grid-cols-1 gap-3 md:grid-cols-3">
+        <label className="text-sm">
+          Kind
+          <select
+            className="mt-1 w-full rounded-xl border px-3 py-2"
+            value={kind}
+            onChange={(e) => {
+              setKind(e.target.value as IncidentKind);
+              setFindingChoice(null);
+            }}
+          >
+            {INCIDENT_KINDS.map((k) => (
+              <option key={k.id} value={k.id}>{k.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm md:col-span-2">
+          Finding (checklist source)
+          <select className="mt-1 w-full rounded-xl border px-3 py-2" value={chosen?.id ?? ""} onChange={(e) => setFindingChoice(e.target.value)}>
+            <option value="">(none - empty checklist)</option>
+            {findings.map((f) => (
+              <option key={f.id} value={f.id}>
+                {f.category}: {f.issue.slice(0, 90)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm">
+          Title
+          <input className="mt-1 w-full rounded-xl border px-3 py-2" value={title} onChange={(e) => setTitle(e.target.value)} placeholder={kindLabel(kind)} />
+        </label>
+        <label className="text-sm">
+          Opened
+          <input type="datetime-local" className="mt-1 w-full rounded-xl border px-3 py-2" value={openedAt} onChange={(e) => setOpenedAt(e.target.value)} />
+        </label>
+        <label className="text-sm">
+          Location
+          <input className="mt-1 w-full rounded-xl border px-3 py-2" value={location} onChange={(e) => setLocation(e.target.value)} placeholder="Chainage, site or grid reference" />
+        </label>
+        <label className="text-sm md:col-span-3">
+          Description
+          <textarea className="mt-1 w-full rounded-xl border px-3 py-2" rows={2} value={description} onChange={(e) => setDescription(e.target.value)} />
+        </label>
+      </div>
+      <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+        <label className={`inline-flex items-center gap-2 rounded-xl border px-3 py-2 ${stopWork ? "border-red-400 bg-red-50 text-red-800" : ""}`}>
+          <input type="checkbox" checked={stopWork} onChange={(e) => setStopWork(e.target.checked)} />
+          <OctagonAlert className="h-4 w-4" /> Stop work called
+        </label>
+        <button className="ml-auto inline-flex items-center gap-1 rounded-xl bg-black px-4 py-2 text-white" onClick={submit} disabled={!openedAt}>
+          <Plus className="h-4 w-4" /> Open incident
+        </button>
+      </div>
+
+      {/* Exceedances and stop-work field entries not yet raised as incidents */}
+      {(unraisedEvents.length > 0 || unraisedStops.length > 0) && (
+        <div className="mt-4 rounded-xl bg-amber-50 p-3 text-sm">
+          <div className="font-medium text-amber-900">Not yet raised as incidents</div>
+          <ul className="mt-2 space-y-1">
+            {unraisedEvents.map((e) => (
+              <li key={e.id} className="flex flex-wrap items-center gap-2">
+                <span>
+                  {e.category}: {e.threshold}
+                  {e.site ? ` at ${e.site}` : ""} ({formatWhen(e.start)})
+                </span>
+                <button className="ml-auto rounded-lg border bg-white px-2 text-xs" onClick={() => add(incidentFromExceedance(e, findings, workingDays))}>
+                  Open incident
+                </button>
+              </li>
+            ))}
+            {unraisedStops.map((e) => (
+              <li key={e.id} className="flex flex-wrap items-center gap-2">
+                <span>
+                  Stop work logged by {e.author || "a monitor"}: {e.notes.slice(0, 80)} ({formatWhen(e.observedAt)})
+                </span>
+                <button className="ml-auto rounded-lg border bg-white px-2 text-xs" onClick={() => add(incidentFromFieldEntry(e, findings, workingDays))}>
+                  Open incident
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Incident log */}
+      {incidents.length > 0 && (
+        <div className="mt-5 space-y-3">
+          {[...incidents].sort(byUrgency).map((inc) => {
+            const late = overdueCount(inc, now);
+            return (
+              <div key={inc.id} className={`rounded-xl border p-3 text-sm ${late ? "border-red-400" : inc.closedAt ? "bg-gray-50" : ""}`}>
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium">{inc.title}</span>
+                  {inc.stopWork && <span className="rounded bg-red-600 px-1.5 text-xs text-white">STOP WORK</span>}
+                  {late > 0 && <span className="rounded bg-red-100 px-1.5 text-xs text-red-800">{late} overdue</span>}
+                  {inc.closedAt && <span className="rounded bg-green-50 px-1.5 text-xs text-green-800">Closed {formatWhen(inc.closedAt)}</span>}
+                  <span className="ml-auto text-xs text-gray-500">
+                    {kindLabel(inc.kind)} - opened {formatWhen(inc.openedAt)}
+                  </span>
+                  <button
+                    className="inline-flex items-center gap-1 rounded-lg border px-2 text-xs"
+                    onClick={() => update(inc.id, (i) => ({ ...i, closedAt: i.closedAt ? null : new Date().toISOString() }))}
+                  >
+                    <CheckCircle2 className="h-3 w-3" /> {inc.closedAt ? "Reopen" : "Close"}
+                  </button>
+                  <button
+                    className="rounded-lg border p-1"
+                    title="Delete incident"
+                    onClick={() => {
+                      if (confirm(`Delete incident "${inc.title}"?`)) onChange(incidents.filter((i) => i.id !== inc.id));
+                    }}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </button>
+                </div>
+                <div className="mt-1 text-xs text-gray-600">
+                  {[inc.category, inc.location, inc.findingId && `Finding: ${incidentFindingText(inc, findings)}`].filter(Boolean).join(" \u00B7 ")}
+                </div>
+                {inc.description && <div className="mt-1 whitespace-pre-wrap">{inc.description}</div>}
+                {inc.checklist.length > 0 && (
+                  <table className="mt-2 w-full border text-xs">
+                    <thead className="bg-gray-100">
+                      <tr>
+                        <th className="w-8 border p-1"></th>
+                        <th className="border p-1 text-left">Step</th>
+                        <th className="border p-1 text-left">Deadline</th>
+                        <th className="border p-1 text-left">Due</th>
+                        <th className="border p-1 text-left">Note</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {inc.checklist.map((item) => {
+                        const itemLate = !inc.closedAt && isOverdue(item, now);
+                        return (
+                          <tr key={item.id} className={itemLate ? "bg-red-50 text-red-800" : item.doneAt ? "text-gray-500" : ""}>
+                            <td className="border p-1 text-center">
+                              <input
+                                type="checkbox"
+                                checked={!!item.doneAt}
+                                onChange={(e) =>
+                                  update(inc.id, (i) => ({
+                                    ...i,
+                                    checklist: i.checklist.map((c) => (c.id === item.id ? { ...c, doneAt: e.target.checked ? new Date().toISOString() : null } : c)),
+                                  }))
+                                }
+                              />
+                            </td>
+                            <td className={`border p-1 ${item.doneAt ? "line-through" : ""}`}>
+                              {item.text}
+                              <span className="ml-1 text-gray-400">({SOURCE_LABEL[item.source]})</span>
+                            </td>
+                            <td className="border p-1">{item.deadline ? formatDeadline(item.deadline) : "-"}</td>
+                            <td className={`border p-1 ${itemLate ? "font-semibold" : ""}`}>
+                              {item.dueAt ? formatWhen(item.dueAt) : "-"}
+                              {itemLate && " (overdue)"}
+                              {item.doneAt && <div className="text-gray-500">done {formatWhen(item.doneAt)}</div>}
+                            </td>
+                            <td className="border p-1">
+                              <input
+                                className="w-full rounded border px-1"
+                                value={item.note}
+                                onChange={(e) =>
+                                  update(inc.id, (i) => ({ ...i, checklist: i.checklist.map((c) => (c.id === item.id ? { ...c, note: e.target.value } : c)) }))
+                                }
+                              />
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+import { useMemo, useState } from "react";
+import { CalendarDays, ChevronLeft, ChevronRight, CloudRain, Download, Plus, Trash2 } from "lucide-react";
+import { downloadBlob } from "../lib/download";
+import { dayKey, nonWorkingReason, type WorkingDayOptions } from "../lib/workingDays";
+import {
+  CADENCE_LABELS,
+  addMonths,
+  buildMonitoringIcs,
+  monthGrid,
+  newStageGateId,
+  stormRuleText,
+  visitsByDay,
+  type ConstructionDates,
+  type MonitoringCalendar,
+  type MonitorVisit,
+} from "../lib/monitoringCalendar";
+
+type Props = {
+  projectId: string;
+  projectName: string;
+  calendar: MonitoringCalendar;
+  dates: ConstructionDates;
+  workingDays: WorkingDayOptions;
+  onChange: (dates: ConstructionDates) => void;
+};
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+const MAX_CHIPS = 3;
+
+function chipClass(v: MonitorVisit): string {
+  if (v.storm) return "bg-red-100 text-red-800";
+  if (v.stageGate) return "bg-purple-100 text-purple-800";
+  if (/pre-?\s*construction|baseline/i.test(v.phase)) return "bg-blue-100 text-blue-800";
+  if (/close-?\s*out/i.test(v.phase)) return "bg-green-100 text-green-800";
+  return "bg-amber-100 text-amber-800";
+}
+
+function monthTitle(month: string): string {
+  return new Date(`${month}-01T00:00:00`).toLocaleDateString("en-NZ", { month: "long", year: "numeric" });
+}
+
+function formatDay(day: string): string {
+  return new Date(`${day}T00:00:00`).toLocaleDateString("en-NZ", { weekday: "long", day: "numeric", month: "long", year: "numeric" });
+}
+
+export default function MonitoringCalendarPanel({ projectId, projectName, calendar, dates, workingDays, onChange }: Props) {
+  const [month, setMonth] = useState<string | null>(null); // null: follow the construction start
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+  const [gateName, setGateName] = useState("");
+  const [gateDate, setGateDate] = useState("");
+
+  const byDay = useMemo(() => visitsByDay(calendar.visits), [calendar]);
+  const shownMonth = month ?? (dates.start ?? dayKey(new Date())).slice(0, 7);
+  const today = dayKey(new Date());
+  const selectedVisits = selectedDay ? (byDay.get(selectedDay) ?? []) : [];
+
+  function addGate() {
+    if (!gateName.trim() || !gateDate) return;
+    const stageGates = [...dates.stageGates, { id: newStageGateId(), name: gateName.trim(), date: gateDate }].sort((a, b) => a.date.localeCompare(b.date));
+    onChange({ ...dates, stageGates });
+    setGateName("");
+    setGateDate("");
+  }
+
+  function exportIcs() {
+    const ics = buildMonitoringIcs(calendar, { projectId, projectName });
+    downloadBlob(new Blob([ics], { type: "text/calendar;charset=utf-8" }), `${projectName.replace(/\s+/g, "_")}_Monitoring_Calendar.ics`);
+  }
+
+  return (
+    <div className="mt-6 rounded-2xl border p-6 shadow-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <CalendarDays className="h-5 w-5" />
+        <h3 className="text-lg font-semibold">Monitoring calendar</h3>
+        <button
+          className="ml-auto inline-flex items-center gap-1 rounded-xl border px-3 py-1 text-sm"
+          onClick={exportIcs}
+          disabled={!calendar.visits.length && !calendar.stormRules.length}
+          title="Calendar file for monitors and contractors (Outlook, Google, Apple)"
+        >
+          <Download className="h-4 w-4" /> Export .ics
+        </button>
+      </div>
+      <p className="mt-2 text-xs text-gray-600">
+        Visits are generated from the programme frequencies over the construction dates and moved off weekends, public holidays and the Christmas break. Storm-event monitoring is a rainfall rule, not a date.
+      </p>
+
+      {/* Construction dates and stage gates */}
+      <div className="mt-3 grid grid-cols-1 gap-4 md:grid-cols-2">
+        <div className="flex flex-wrap gap-3 text-sm">
+          <label className="block">
+            <span className="text-xs font-medium">Construction start</span>
+            <input type="date" className="mt-1 block rounded-lg border px-2 py-1" value={dates.start ?? ""} onChange={(e) => onChange({ ...dates, start: e.target.value || null })} />
+          </label>
+          <label className="block">
+            <span className="text-xs font-medium">Construction end</span>
+            <input type="date" className="mt-1 block rounded-lg border px-2 py-1" value={dates.end ?? ""} min={dates.start ?? undefined} onChange={(e) => onChange({ ...dates, end: e.target.value || null })} />
+          </label>
+        </div>
+        <div className="text-sm">
+          <div className="text-xs font-medium">Stage gates</div>
+          <ul className="mt-1 space-y-1">
+            {dates.stageGates.map((g) => (
+              <li key={g.id} className="flex items-center gap-2">
+                <span className="w-24 text-xs text-gray-600">{g.date}</span>
+                <span className="flex-1">{g.name}</span>
+                <button className="rounded border p-0.5" onClick={() => onChange({ ...dates, stageGates: dates.stageGates.filter((x) => x.id !== g.id) })} title="Remove stage gate">
+                  <Trash2 className="h-3 w-3" />
+                </button>
+              </li>
+            ))}
+          </ul>
+          <div className="mt-2 flex flex-wrap gap-2">
+            <input className="flex-1 rounded-lg border px-2 py-1" value={gateName} onChange={(e) => setGateName(e.target.value)} placeholder="e.g. Bulk earthworks complete" />
+            <input type="date" className="rounded-lg border px-2 py-1" value={gateDate} onChange={(e) => setGateDate(e.target.value)} />
+            <button className="inline-flex items-center gap-1 rounded-xl border px-2 py-1" onClick={addGate} disabled={!gateName.trim() || !gateDate}>
+              <Plus className="h-4 w-4" /> Add
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {calendar.notes.length > 0 && (
+        <ul className="mt-3 list-disc rounded-lg bg-amber-50 p-2 pl-6 text-xs text-amber-800">
+          {calendar.notes.map((n, i) => (
+            <li key={i}>{n}</li>
+          ))}
+        </ul>
+      )}
+
+      {/* Month view */}
+      <div className="mt-4 flex items-center gap-2">
+        <button className="rounded border p-1" onClick={() => setMonth(addMonths(`${shownMonth}-01`, -1).slice(0, 7))} title="Previous month">
+          <ChevronLeft className="h-4 w-4" />
+        </button>
+        <div className="w-40 text-center font-medium">{monthTitle(shownMonth)}</div>
+        <button className="rounded border p-1" onClick={() => setMonth(addMonths(`${shownMonth}-01`, 1).slice(0, 7))} title="Next month">
+          <ChevronRight className="h-4 w-4" />
+        </button>
+        {dates.start && (
+          <button className="rounded-lg border px-2 py-0.5 text-xs" onClick={() => setMonth(dates.start!.slice(0, 7))}>
+            Construction start
+          </button>
+        )}
+        <span className="ml-auto text-xs text-gray-600">{calendar.visits.length} visit(s) scheduled</span>
+      </div>
+      <div className="mt-2 grid grid-cols-7 gap-px overflow-hidden rounded-lg border bg-gray-200 text-xs">
+        {WEEKDAYS.map((d) => (
+          <div key={d} className="bg-gray-100 p-1 text-center font-medium">
+            {d}
+          </div>
+        ))}
+        {monthGrid(shownMonth)
+          .flat()
+          .map((day) => {
+            const visits = byDay.get(day) ?? [];
+            const closed = nonWorkingReason(day, workingDays);
+            const inMonth = day.startsWith(shownMonth);
+            return (
+              <button
+                key={day}
+                className={`min-h-20 p-1 text-left align-top ${closed ? "bg-gray-50" : "bg-white"} ${inMonth ? "" : "opacity-40"} ${selectedDay === day ? "ring-2 ring-inset ring-black" : ""}`}
+                onClick={() => setSelectedDay(selectedDay === day ? null : day)}
+                title={closed ?? undefined}
+              >
+                <div className={`text-right ${day === today ? "font-bold" : ""}`}>{Number(day.slice(8))}</div>
+                {visits.slice(0, MAX_CHIPS).map((v) => (
+                  <div key={v.id} className={`mt-0.5 truncate rounded px-1 ${chipClass(v)}`} title={`${v.focus} (${CADENCE_LABELS[v.cadence]})`}>
+                    {v.stageGate ?? v.focus}
+                  </div>
+                ))}
+                {visits.length > MAX_CHIPS && <div className="mt-0.5 text-gray-500">+{visits.length - MAX_CHIPS} more</div>}
+              </button>
+            );
+          })}
+      </div>
+
+      {selectedDay && (
+        <div className="mt-3 rounded-lg border p-3 text-sm">
+          <div className="font-medium">
+            {formatDay(selectedDay)}
+            {nonWorkingReason(selectedDay, workingDays) && <span className="ml-2 text-xs text-gray-500">({nonWorkingReason(selectedDay, workingDays)})</span>}
+          </div>
+          {selectedVisits.length ? (
+            <ul className="mt-2 space-y-2">
+              {selectedVisits.map((v) => (
+                <li key={v.id}>
+                  <span className={`rounded px-1 text-xs ${chipClass(v)}`}>{v.stageGate ? `Stage gate: ${v.stageGate}` : CADENCE_LABELS[v.cadence]}</span> <span className="font-medium">{v.focus}</span>
+                  <div className="text-xs text-gray-600">
+                    {v.phase}: {v.role}
+                    {v.storm && ` Rainfall peaked at ${v.storm.peakMmHr} mm/hr${v.storm.site ? ` (${v.storm.site})` : ""}.`}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <div className="mt-1 text-xs text-gray-600">No visits on this day.</div>
+          )}
+        </div>
+      )}
+
+      {/* Storm-event rules */}
+      {calendar.stormRules.length > 0 && (
+        <div className="mt-4">
+          <h4 className="flex items-center gap-1 text-sm font-semibold">
+            <CloudRain className="h-4 w-4" /> Storm-event reminders
+          </h4>
+          <ul className="mt-1 space-y-1 text-sm">
+            {calendar.stormRules.map((r) => (
+              <li key={r.id}>
+                <span className="font-medium">{r.focus}</span>: {stormRuleText(r)}{" "}
+                <span className="text-xs text-gray-500">{r.source ? `From the trigger "${r.source}".` : "Default; no finding sets a rainfall trigger."}</span>
+              </li>
+            ))}
+          </ul>
+          <p className="mt-1 text-xs text-gray-600">Storms in the imported rainfall record appear on the calendar in red. The .ics file carries these rules as to-dos.</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+import { useEffect, useMemo, useState } from "react";
+import { Gauge } from "lucide-react";
+import type { Finding } from "../lib/model";
+import { METRICS, metricInfo, type Metric } from "../lib/thresholds";
+import { baselinePeriod, evaluateExceedances, monitoringSites, type ExceedanceEvent, type MonitoringData } from "../lib/exceedance";
+import { categoryStatuses, filterBySite, thresholdLines, type ThresholdLine, type TrafficLight } from "../lib/dashboard";
+
+type Props = {
+  findings: Finding[];
+  data: MonitoringData;
+};
+
+const WIDTH = 640;
+const HEIGHT = 180;
+const PAD = { left: 44, right: 8, top: 8, bottom: 22 };
+const SITE_COLOURS = ["#2563eb", "#059669", "#7c3aed", "#db2777", "#0891b2", "#ca8a04"];
+
+const LIGHT_STYLE: Record<TrafficLight, { dot: string; tile: string; label: string }> = {
+  red: { dot: "bg-red-600", tile: "border-red-300 bg-red-50", label: "Trigger exceeded" },
+  amber: { dot: "bg-amber-500", tile: "border-amber-300 bg-amber-50", label: "Approaching trigger" },
+  green: { dot: "bg-green-600", tile: "border-green-300 bg-green-50", label: "Within triggers" },
+  grey: { dot: "bg-gray-400", tile: "bg-gray-50", label: "Not measured" },
+};
+
+function siteColour(sites: string[], site: string): string {
+  const i = sites.indexOf(site);
+  return i < 0 ? "#6b7280" : SITE_COLOURS[i % SITE_COLOURS.length];
+}
+
+function formatDay(t: number): string {
+  return new Date(t).toLocaleDateString("en-NZ", { day: "numeric", month: "short" });
+}
+
+type ChartProps = {
+  metric: Metric;
+  data: MonitoringData;
+  sites: string[];
+  lines: ThresholdLine[];
+  events: ExceedanceEvent[];
+};
+
+function MetricChart({ metric, data, sites, lines, events }: ChartProps) {
+  const info = metricInfo(metric);
+  // rainfall may come from a catchment gauge (blank site) rather than each station
+  const keys =
+    metric === "rainfall"
+      ? Array.from(new Set(data.readings.filter((r) => r.values.rainfall !== undefined && (r.site === "" || sites.includes(r.site))).map((r) => r.site)))
+      : sites.length
+        ? sites
+        : [""];
+  const bySite = keys.map((site) => ({
+    site,
+    points: data.readings.filter((r) => r.site === site && r.values[metric] !== undefined).map((r) => ({ t: Date.parse(r.time), v: r.values[metric] as number })),
+  }));
+  const all = bySite.flatMap((s) => s.points);
+  if (!all.length) return null;
+
+  const t0 = all.reduce((m, p) => Math.min(m, p.t), Infinity);
+  const t1 = all.reduce((m, p) => Math.max(m, p.t), -Infinity);
+  const levels = lines.map((l) => l.level);
+  const vMax = Math.max(all.reduce((m, p) => Math.max(m, p.v), 0), ...levels) * 1.1 || 1;
+  const x = (t: number) => PAD.left + ((t - t0) / (t1 - t0 || 1)) * (WIDTH - PAD.left - PAD.right);
+  const y = (v: number) => HEIGHT - PAD.bottom - (v / vMax) * (HEIGHT - PAD.top - PAD.bottom);
+  const baseline = baselinePeriod(data.readings.filter((r) => !sites.length || sites.includes(r.site)), metric, data.baselineUntil);
+  const ticks = Array.from({ length: 5 }, (_, i) => t0 + ((t1 - t0) * i) / 4);
+
+  return (
+    <div className="rounded-xl border p-2">
+      <div className="text-xs font-medium">
+        {info.label} ({info.unit})
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full">
+        {baseline && metric !== "rainfall" && (
+          <>
+            <rect x={x(baseline.start)} y={PAD.top} width={Math.max(1, x(baseline.end) - x(baseline.start))} height={HEIGHT - PAD.top - PAD.bottom} fill="#e5e7eb" />
+            <text x={x(baseline.start) + 4} y={PAD.top + 10} fontSize={9} fill="#6b7280">baseline period</text>
+          </>
+        )}
+        {/* shaded band beyond each trigger level */}
+        {lines.map((l, i) => {
+          const yl = y(l.level);
+          const above = l.comparison.startsWith(">");
+          return (
+            <g key={i}>
+              <rect x={PAD.left} width={WIDTH - PAD.left - PAD.right} y={above ? PAD.top : yl} height={above ? yl - PAD.top : HEIGHT - PAD.bottom - yl} fill="#dc2626" fillOpacity={0.06} />
+              <line x1={PAD.left} x2={WIDTH - PAD.right} y1={yl} y2={yl} stroke="#dc2626" strokeDasharray="4 3" strokeWidth={1} />
+              <text x={WIDTH - PAD.right - 2} y={yl - 2} fontSize={9} textAnchor="end" fill="#b91c1c">
+                {l.site ? `${l.site} ` : ""}
+                {l.comparison} {Number(l.level.toFixed(2))}
+              </text>
+            </g>
+          );
+        })}
+        {events.map((e) => (
+          <rect key={e.id} x={x(Date.parse(e.start))} width={Math.max(2, x(Date.parse(e.end)) - x(Date.parse(e.start)))} y={HEIGHT - PAD.bottom - 4} height={4} fill="#dc2626">
+            <title>{`${e.site || "All sites"}: ${e.threshold}`}</title>
+          </rect>
+        ))}
+        {bySite.map((s) =>
+          s.points.length ? (
+            <polyline
+              key={s.site || "all"}
+              points={s.points.map((p) => `${x(p.t).toFixed(1)},${y(p.v).toFixed(1)}`).join(" ")}
+              fill="none"
+              stroke={siteColour(sites, s.site)}
+              strokeWidth={1.2}
+            />
+          ) : null
+        )}
+        <line x1={PAD.left} x2={PAD.left} y1={PAD.top} y2={HEIGHT - PAD.bottom} stroke="#9ca3af" />
+        <line x1={PAD.left} x2={WIDTH - PAD.right} y1={HEIGHT - PAD.bottom} y2={HEIGHT - PAD.bottom} stroke="#9ca3af" />
+        {[0, 0.5, 1].map((f) => (
+          <text key={f} x={PAD.left - 4} y={y(vMax * f) + 3} fontSize={9} textAnchor="end" fill="#6b7280">
+            {Number((vMax * f).toFixed(1))}
+          </text>
+        ))}
+        {ticks.map((t, i) => (
+          <text key={i} x={x(t)} y={HEIGHT - 6} fontSize={9} textAnchor="middle" fill="#6b7280">
+            {formatDay(t)}
+          </text>
+        ))}
+      </svg>
+    </div>
+  );
+}
+
+export default function MonitoringDashboard({ findings, data }: Props) {
+  const [picked, setPicked] = useState<string | null>(null);
+  const sites = monitoringSites(data.readings);
+  const site = picked && sites.includes(picked) ? picked : null; // a site from another project falls back to all
+  const [now, setNow] = useState(() => new Date());
+  const view = useMemo(() => filterBySite(data, site), [data, site]);
+  const statuses = useMemo(() => categoryStatuses(findings, view, now), [findings, view, now]);
+  const events = useMemo(() => evaluateExceedances(findings, view).events, [findings, view]);
+  const shownSites = site ? [site] : sites;
+
+  // Move the recent window along while the page is open
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(new Date()), 3600000);
+    return () => window.clearInterval(timer);
+  }, []);
+  const metrics = METRICS.map((m) => m.id).filter((m) => view.readings.some((r) => r.values[m] !== undefined));
+
+  return (
+    <div className="mt-6 rounded-2xl border p-6 shadow-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <Gauge className="h-5 w-5" />
+        <h3 className="text-lg font-semibold">Mauri indicator dashboard</h3>
+        {sites.length > 0 && (
+          <select className="ml-auto rounded-xl border px-3 py-1 text-sm" value={site ?? ""} onChange={(e) => setPicked(e.target.value || null)}>
+            <option value="">All sites</option>
+            {sites.map((s) => (
+              <option key={s} value={s}>{s}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <div className="mt-3 grid grid-cols-2 gap-3 md:grid-cols-3">
+        {statuses.map((s) => (
+          <div key={s.category} className={`rounded-xl border p-3 ${LIGHT_STYLE[s.light].tile}`}>
+            <div className="flex items-center gap-2">
+              <span className={`h-3 w-3 rounded-full ${LIGHT_STYLE[s.light].dot}`} title={LIGHT_STYLE[s.light].label} />
+              <span className="font-medium">{s.category}</span>
+              <span className="ml-auto text-xs text-gray-500">{LIGHT_STYLE[s.light].label}</span>
+            </div>
+            <div className="mt-1 text-xs text-gray-700">{s.summary}</div>
+          </div>
+        ))}
+      </div>
+
+      {metrics.length ? (
+        <>
+          {shownSites.length > 1 && (
+            <div className="mt-4 flex flex-wrap gap-3 text-xs">
+              {shownSites.map((s, i) => (
+                <span key={s} className="inline-flex items-center gap-1">
+                  <span className="inline-block h-0.5 w-4" style={{ background: SITE_COLOURS[i % SITE_COLOURS.length] }} /> {s}
+                </span>
+              ))}
+            </div>
+          )}
+          <div className="mt-2 grid grid-cols-1 gap-3 xl:grid-cols-2">
+            {metrics.map((m) => (
+              <MetricChart
+                key={m}
+                metric={m}
+                data={view}
+                sites={shownSites}
+                lines={thresholdLines(findings, view, m)}
+                events={events.filter((e) => e.peak.metric === m)}
+              />
+            ))}
+          </div>
+        </>
+      ) : (
+        <div className="mt-3 text-xs text-gray-600">Import monitoring data below to chart readings against the trigger thresholds.</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+import { useMemo, useState } from "react";
+import { Packer } from "docx";
+import { ChevronLeft, ChevronRight, FileText, NotebookPen } from "lucide-react";
+import type { Finding } from "../lib/model";
+import type { Evaluation, MonitoringData } from "../lib/exceedance";
+import type { TrafficLight } from "../lib/dashboard";
+import { photoToFigure, type FieldLogEntry } from "../lib/fieldLog";
+import type { Incident } from "../lib/incidents";
+import { buildNarrativeDocument } from "../lib/docxRender";
+import { downloadBlob } from "../lib/download";
+import { dayKey } from "../lib/workingDays";
+import {
+  REPORT_KINDS,
+  buildMonitoringReport,
+  buildMonitoringReportBody,
+  periodLabel,
+  reportEvents,
+  reportKindLabel,
+  reportPeriod,
+  reportingCommitments,
+  shiftPeriod,
+  statusLabel,
+  type ReportKind,
+  type ReportPeriod,
+  type ReportVoice,
+} from "../lib/monitoringReport";
+
+type Props = {
+  projectName: string;
+  findings: Finding[];
+  data: MonitoringData;
+  evaluation: Evaluation;
+  fieldLog: FieldLogEntry[];
+  incidents: Incident[];
+};
+
+const LIGHT_CLASS: Record<TrafficLight, string> = {
+  red: "bg-red-100 text-red-800",
+  amber: "bg-amber-100 text-amber-800",
+  green: "bg-green-100 text-green-800",
+  grey: "bg-gray-100 text-gray-600",
+};
+
+// Reports default to the period holding the latest record, not today's
+function latestDay(data: MonitoringData, fieldLog: FieldLogEntry[]): string {
+  const times = [...data.readings.map((r) => r.time), ...fieldLog.map((e) => e.observedAt)];
+  return times.length ? dayKey(new Date(times.reduce((a, b) => (a > b ? a : b)))) : dayKey(new Date());
+}
+
+export default function MonitoringReportPanel({ projectName, findings, data, evaluation, fieldLog, incidents }: Props) {
+  const [chosen, setChosen] = useState<ReportPeriod | null>(null); // null: the quarter of the latest record
+  const [eventId, setEventId] = useState("");
+
+  const period = useMemo(() => chosen ?? reportPeriod("quarterly", latestDay(data, fieldLog)), [chosen, data, fieldLog]);
+  const events = useMemo(() => reportEvents(evaluation.events, incidents), [evaluation.events, incidents]);
+  const report = useMemo(() => buildMonitoringReport({ findings, data, evaluation, fieldLog, incidents }, period), [findings, data, evaluation, fieldLog, incidents, period]);
+  const promised = useMemo(() => reportingCommitments(findings).filter((c) => c.kind), [findings]);
+
+  function setKind(kind: ReportKind) {
+    setEventId("");
+    setChosen(reportPeriod(kind, kind === "event" ? period.end : period.start));
+  }
+
+  function chooseEvent(id: string) {
+    setEventId(id);
+    const event = events.find((e) => e.id === id);
+    if (event) setChosen({ kind: "event", start: event.start, end: event.end });
+  }
+
+  async function exportDocx(voice: ReportVoice) {
+    try {
+      const figures = report.observations.flatMap((e) => e.photos.map((p) => photoToFigure(e, p)));
+      const doc = buildNarrativeDocument({
+        title: `${reportKindLabel(period.kind)} Cultural Monitoring Report`,
+        projectName,
+        subtitle: periodLabel(period),
+        body: buildMonitoringReportBody(report, voice),
+        figures,
+        contents: false,
+      });
+      const audience = voice === "manaWhenua" ? "Mana_Whenua" : "Council";
+      downloadBlob(await Packer.toBlob(doc), `Monitoring_Report_${period.start}_${period.end}_${audience}_${projectName.replace(/\s+/g, "_")}.docx`);
+    } catch (e) {
+      console.error(e);
+      alert("DOCX export failed. Check console for details.");
+    }
+  }
+
+  return (
+    <div className="mt-6 rounded-2xl border p-6 shadow-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <NotebookPen className="h-5 w-5" />
+        <h3 className="text-lg font-semibold">Monitoring reports</h3>
+        <button className="ml-auto inline-flex items-center gap-1 rounded-xl border px-3 py-1 text-sm" onClick={() => exportDocx("manaWhenua")}>
+          <FileText className="h-4 w-4" /> Mana whenua DOCX
+        </button>
+        <button className="inline-flex items-center gap-1 rounded-xl border px-3 py-1 text-sm" onClick={() => exportDocx("council")}>
+          <FileText className="h-4 w-4" /> Council DOCX
+        </button>
+      </div>
+      <p className="mt-1 text-xs text-gray-600">
+        The readings, exceedances, field observations and incidents of one reporting period, summarised per category against the baselines.
+        {promised.length > 0 && ` The findings promise: ${promised.map((c) => c.text).join("; ")}.`}
+      </p>
+
+      {/* Period */}
+      <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+        <select className="rounded-lg border px-2 py-1" value={period.kind} onChange={(e) => setKind(e.target.value as ReportKind)}>
+          {REPORT_KINDS.map((k) => (
+            <option key={k.id} value={k.id}>
+              {k.label}
+            </option>
+          ))}
+        </select>
+        {period.kind === "event" ? (
+          <>
+            <select className="max-w-xs rounded-lg border px-2 py-1" value={eventId} onChange={(e) => chooseEvent(e.target.value)}>
+              <option value="">Choose an exceedance or incident...</option>
+              {events.map((e) => (
+                <option key={e.id} value={e.id}>
+                  {e.label}
+                </option>
+              ))}
+            </select>
+            <input type="date" className="rounded-lg border px-2 py-1" value={period.start} onChange={(e) => e.target.value && setChosen({ ...period, start: e.target.value, end: period.end < e.target.value ? e.target.value : period.end })} />
+            <span>to</span>
+            <input type="date" className="rounded-lg border px-2 py-1" value={period.end} min={period.start} onChange={(e) => e.target.value && setChosen({ ...period, end: e.target.value })} />
+          </>
+        ) : (
+          <>
+            <button className="rounded border p-1" onClick={() => setChosen(shiftPeriod(period, -1))} title="Previous period">
+              <ChevronLeft className="h-4 w-4" />
+            </button>
+            <span className="font-medium">{periodLabel(period)}</span>
+            <button className="rounded border p-1" onClick={() => setChosen(shiftPeriod(period, 1))} title="Next period">
+              <ChevronRight className="h-4 w-4" />
+            </button>
+          </>
+        )}
+      </div>
+
+      {/* Preview */}
+      <div className="mt-3 text-xs text-gray-600">
+        {report.readings} reading(s), {report.categories.reduce((n, c) => n + c.exceedances.length, 0)} exceedance(s), {report.observations.length} field observation(s), {report.openIncidents.length} incident(s) open at
+        the end of the period.
+      </div>
+      <table className="mt-2 w-full border text-sm">
+        <thead className="bg-gray-100">
+          <tr>
+            <th className="border p-1 text-left">Category</th>
+            <th className="border p-1 text-left">Status</th>
+            <th className="border p-1 text-right">Exceedances</th>
+            <th className="border p-1 text-right">Observations</th>
+            <th className="border p-1 text-right">Incidents</th>
+          </tr>
+        </thead>
+        <tbody>
+          {report.categories.map((c) => (
+            <tr key={c.category}>
+              <td className="border p-1">{c.category}</td>
+              <td className="border p-1">
+                <span className={`rounded px-1 text-xs ${LIGHT_CLASS[c.light]}`}>{statusLabel(c.light, "council")}</span>
+              </td>
+              <td className="border p-1 text-right">{c.exceedances.length}</td>
+              <td className="border p-1 text-right">{c.observations.length}</td>
+              <td className="border p-1 text-right">{c.incidents.length}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {report.commitments.length > 0 && (
+        <p className="mt-2 text-xs text-gray-600">
+          Meets the {reportKindLabel(period.kind).toLowerCase()} commitments: {report.commitments.map((c) => `${c.category}: ${c.text}`).join("; ")}.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+import { useMemo, useState } from "react";
+import { ArrowDown, ArrowUp, Building2, Plus, RotateCcw, Trash2, X } from "lucide-react";
+import { moveItem } from "../lib/model";
+import { NARRATIVE_DEPTHS, NARRATIVE_FIELDS, NARRATIVE_VOICES, renderNarrative, type NarrativeDepth, type NarrativeInput, type NarrativeVoice } from "../lib/narrative";
+import { DEFAULT_NARRATIVE_TEMPLATES } from "../lib/narrativeDefaults";
+import { newSectionId, type NarrativeTemplate, type TemplateIssue, type TemplateSection } from "../lib/narrativeTemplate";
+import { createOrganisation, type Organisation } from "../lib/organisations";
+
+type Props = {
+  organisations: Organisation[];
+  organisationId: string | null; // null: the built-in templates
+  input: NarrativeInput;
+  depth: NarrativeDepth;
+  onSelect: (id: string | null) => void;
+  onSave: (organisation: Organisation) => void;
+  onDelete: (id: string) => void;
+};
+
+export function TemplateIssueList({ issues }: { issues: TemplateIssue[] }) {
+  return (
+    <div className="mt-3 rounded-lg bg-red-50 p-2 text-xs text-red-800">
+      <div className="font-semibold">The narrative template has {issues.length} problem(s):</div>
+      <ul className="mt-1 list-disc pl-5">
+        {issues.map((i, k) => (
+          <li key={k}>
+            {i.where}, line {i.line}: {i.message}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default function NarrativeTemplatePanel({ organisations, organisationId, input, depth, onSelect, onSave, onDelete }: Props) {
+  const [voice, setVoice] = useState<NarrativeVoice>("manaWhenua");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [newName, setNewName] = useState("");
+
+  const organisation = organisations.find((o) => o.id === organisationId) ?? null;
+  const template = (organisation?.templates ?? DEFAULT_NARRATIVE_TEMPLATES)[voice];
+  const readOnly = !organisation;
+  const selected = template.sections.find((s) => s.id === selectedId) ?? template.sections[0] ?? null;
+  const preview = useMemo(() => renderNarrative(template, input, depth), [template, input, depth]);
+
+  function setTemplate(next: NarrativeTemplate) {
+    if (!organisation) return;
+    onSave({ ...organisation, templates: { ...organisation.templates, [voice]: next }, updatedAt: new Date().toISOString() });
+  }
+
+  function patchSection(id: string, change: Partial<TemplateSection>) {
+    setTemplate({ ...template, sections: template.sections.map((s) => (s.id === id ? { ...s, ...change } : s)) });
+  }
+
+  function addSection() {
+    const section: TemplateSection = { id: newSectionId(), heading: "New section", body: "", depths: NARRATIVE_DEPTHS.map((d) => d.id) };
+    setTemplate({ ...template, sections: [...template.sections, section] });
+    setSelectedId(section.id);
+  }
+
+  function createOrg() {
+    const name = newName.trim();
+    if (!name) return;
+    const org = createOrganisation(name);
+    onSave(org);
+    onSelect(org.id);
+    setNewName("");
+  }
+
+  return (
+    <div className="mt-12 rounded-2xl border p-6 shadow-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <Building2 className="h-5 w-5" />
+        <h3 className="text-lg font-semibold">Narrative templates</h3>
+        <select className="ml-auto rounded-lg border px-2 py-1 text-sm" value={organisationId ?? ""} onChange={(e) => onSelect(e.target.value || null)}>
+          <option value="">Built-in (read-only)</option>
+          {organisations.map((o) => (
+            <option key={o.id} value={o.id}>
+              {o.name}
+            </option>
+          ))}
+          {organisationId && !organisation && <option value={organisationId}>(organisation not on this device)</option>}
+        </select>
+        {organisation && (
+          <button
+            className="inline-flex items-center gap-1 rounded-xl border px-2 py-1 text-sm"
+            onClick={() => {
+              if (confirm(`Delete the templates for "${organisation.name}"? Projects using them fall back to the built-in templates.`)) onDelete(organisation.id);
+            }}
+          >
+            <Trash2 className="h-4 w-4" /> Delete
+          </button>
+        )}
+        <input className="rounded-lg border px-2 py-1 text-sm" value={newName} onChange={(e) => setNewName(e.target.value)} placeholder="New organisation" />
+        <button className="inline-flex items-center gap-1 rounded-xl border px-2 py-1 text-sm" onClick={createOrg} disabled={!newName.trim()} title="Start from a copy of the built-in templates">
+          <Plus className="h-4 w-4" /> Create
+        </button>
+      </div>
+      <p className="mt-2 text-xs text-gray-600">
+        Templates belong to an organisation and apply to every project that selects it. {readOnly && "The built-in templates are read-only; create an organisation to edit a copy."}
+      </p>
+
+      <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+        {NARRATIVE_VOICES.map((v) => (
+          <button key={v.id} className={`rounded-lg border px-3 py-0.5 ${voice === v.id ? "bg-gray-100 font-semibold ring-1 ring-black" : ""}`} onClick={() => setVoice(v.id)}>
+            {v.label}
+          </button>
+        ))}
+        {organisation && (
+          <button
+            className="ml-auto inline-flex items-center gap-1 rounded-xl border px-2 py-0.5 text-xs"
+            onClick={() => {
+              if (confirm("Replace this voice's template with the built-in one?")) setTemplate(structuredClone(DEFAULT_NARRATIVE_TEMPLATES[voice]));
+            }}
+          >
+            <RotateCcw className="h-3 w-3" /> Reset to built-in
+          </button>
+        )}
+      </div>
+
+      <div className="mt-3 grid grid-cols-1 gap-4 lg:grid-cols-2">
+        {/* Editor */}
+        <div className="space-y-3">
+          <label className="block text-xs font-medium">
+            Title
+            <input className="mt-1 w-full rounded border px-2 py-1 font-mono text-xs" value={template.title} readOnly={readOnly} onChange={(e) => setTemplate({ ...template, title: e.target.value })} />
+          </label>
+
+          <ol className="space-y-1 text-xs">
+            {template.sections.map((s, i) => (
+              <li key={s.id} className={`flex items-center gap-1 rounded-lg border px-2 py-1 ${selected?.id === s.id ? "ring-1 ring-black" : ""}`}>
+                <button className="flex-1 truncate text-left" onClick={() => setSelectedId(s.id)} title={s.heading}>
+                  {i + 1}. {s.heading || "(no heading)"}
+                </button>
+                <span className="text-[10px] text-gray-500">{NARRATIVE_DEPTHS.filter((d) => s.depths.includes(d.id)).map((d) => d.label[0]).join("")}</span>
+                {!readOnly && (
+                  <>
+                    <button className="rounded border p-0.5" onClick={() => setTemplate({ ...template, sections: moveItem(template.sections, i, -1) })} title="Move up">
+                      <ArrowUp className="h-3 w-3" />
+                    </button>
+                    <button className="rounded border p-0.5" onClick={() => setTemplate({ ...template, sections: moveItem(template.sections, i, 1) })} title="Move down">
+                      <ArrowDown className="h-3 w-3" />
+                    </button>
+                    <button className="rounded border p-0.5" onClick={() => setTemplate({ ...template, sections: template.sections.filter((x) => x.id !== s.id) })} title="Remove section">
+                      <X className="h-3 w-3" />
+                    </button>
+                  </>
+                )}
+              </li>
+            ))}
+          </ol>
+          {!readOnly && (
+            <button className="inline-flex items-center gap-1 rounded-xl border px-2 py-0.5 text-xs" onClick={addSection}>
+              <Plus className="h-3 w-3" /> Add section
+            </button>
+          )}
+
+          {selected && (
+            <div className="rounded-lg border p-2">
+              <input
+                className="w-full rounded border px-2 py-1 font-mono text-xs font-medium"
+                value={selected.heading}
+                readOnly={readOnly}
+                onChange={(e) => patchSection(selected.id, { heading: e.target.value })}
+                placeholder="Heading (leave empty for none)"
+              />
+              <div className="mt-1 flex flex-wrap gap-3 text-xs">
+                {NARRATIVE_DEPTHS.map((d) => (
+                  <label key={d.id} className="inline-flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={selected.depths.includes(d.id)}
+                      disabled={readOnly}
+                      onChange={(e) =>
+                        patchSection(selected.id, { depths: NARRATIVE_DEPTHS.map((x) => x.id).filter((x) => (x === d.id ? e.target.checked : selected.depths.includes(x))) })
+                      }
+                    />
+                    {d.label}
+                  </label>
+                ))}
+              </div>
+              <textarea
+                className="mt-1 w-full rounded border px-2 py-1 font-mono text-xs"
+                rows={16}
+                value={selected.body}
+                readOnly={readOnly}
+                onChange={(e) => patchSection(selected.id, { body: e.target.value })}
+              />
+            </div>
+          )}
+
+          <details className="text-xs">
+            <summary className="cursor-pointer font-medium">Fields and syntax</summary>
+            <p className="mt-1 text-gray-600">
+              {"{{field}}"} inserts a value (lists are joined with "; "). {"{{#each findings}}...{{/each}}"} loops; inside, use the item's fields, {"{{this}}"} for a list entry and{" "}
+              {"{{@number}}"}. {'{{#if depth == "brief"}}...{{else}}...{{/if}}'}, {"{{#unless field}}"} and {'{{#if categories has "wai"}}'} choose text. Block tags on their own line
+              leave no blank line behind.
+            </p>
+            <ul className="mt-1 space-y-0.5">
+              {NARRATIVE_FIELDS.map((f) => (
+                <li key={f.key}>
+                  <code>{f.key}</code> <span className="text-gray-500">({f.kind})</span> {f.description}
+                  {f.fields && (
+                    <ul className="ml-4">
+                      {f.fields.map((x) => (
+                        <li key={x.key}>
+                          <code>{x.key}</code> <span className="text-gray-500">({x.kind})</span> {x.description}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </details>
+        </div>
+
+        {/* Live preview against the open project */}
+        <div>
+          <div className="text-xs font-medium">
+            Preview ({NARRATIVE_DEPTHS.find((d) => d.id === depth)?.label}, {NARRATIVE_VOICES.find((v) => v.id === voice)?.label})
+          </div>
+          {preview.issues.length ? (
+            <TemplateIssueList issues={preview.issues} />
+          ) : (
+            <pre className="mt-1 max-h-[36rem] overflow-auto whitespace-pre-wrap rounded-lg bg-gray-50 p-2 text-xs">{preview.text}</pre>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
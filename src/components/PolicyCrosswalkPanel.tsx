@@ -0,0 +1,114 @@
+import { Fragment, useMemo } from "react";
+import { Landmark } from "lucide-react";
+import type { Finding } from "../lib/model";
+import type { CouncilProfile } from "../lib/councils";
+import { ALIGNMENT_LABELS, crosswalk, instrumentName, policyGaps, provisionLabel, type Alignment, type PolicyProvision } from "../lib/policyCatalogue";
+
+type Props = {
+  findings: Finding[];
+  provisions: PolicyProvision[]; // applicable to the council and enabled frameworks
+  profile: CouncilProfile;
+};
+
+const CELL_STYLE: Record<Alignment, { mark: string; className: string }> = {
+  aligned: { mark: "\u25CF", className: "bg-green-50 text-green-700" },
+  partial: { mark: "\u25D0", className: "bg-amber-50 text-amber-700" },
+  none: { mark: "", className: "" },
+};
+
+export default function PolicyCrosswalkPanel({ findings, provisions, profile }: Props) {
+  const rows = useMemo(() => crosswalk(findings, provisions), [findings, provisions]);
+  const gaps = useMemo(() => policyGaps(findings, provisions), [findings, provisions]);
+  const instruments = Array.from(new Set(provisions.map((p) => p.instrumentId)));
+
+  return (
+    <div className="mt-12 rounded-2xl border p-6 shadow-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <Landmark className="h-5 w-5" />
+        <h3 className="text-lg font-semibold">Policy crosswalk</h3>
+        <div className="ml-auto flex gap-3 text-xs">
+          {(["aligned", "partial", "none"] as const).map((a) => (
+            <span key={a} className="inline-flex items-center gap-1">
+              <span className={`inline-block w-5 rounded border text-center ${CELL_STYLE[a].className}`}>{CELL_STYLE[a].mark || "\u00A0"}</span>
+              {ALIGNMENT_LABELS[a]}
+            </span>
+          ))}
+        </div>
+      </div>
+      <p className="mt-2 text-xs text-gray-600">
+        Aligned: the finding links the provision and carries a mitigation plus a consent clause or trigger. Partially: linked without those, or addressed in substance but not linked.
+      </p>
+
+      {findings.length ? (
+        <div className="mt-3 overflow-x-auto">
+          <table className="w-full border text-xs">
+            <thead className="bg-gray-100">
+              <tr>
+                <th className="border p-1 text-left">Provision</th>
+                {findings.map((f, i) => (
+                  <th key={i} className="border p-1" title={f.issue}>
+                    {i + 1}. {f.category}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {instruments.map((inst) => (
+                <Fragment key={inst}>
+                  <tr>
+                    <td colSpan={findings.length + 1} className="border bg-gray-50 p-1 font-semibold">
+                      {instrumentName(inst, profile)}
+                    </td>
+                  </tr>
+                  {rows
+                    .filter((r) => r.provision.instrumentId === inst)
+                    .map((r) => (
+                      <tr key={r.provision.id} className={r.best === "none" ? "text-gray-500" : ""}>
+                        <td className="border p-1">
+                          <span className="font-medium">{r.provision.ref}</span> - {r.provision.title}
+                        </td>
+                        {r.cells.map((c, i) => (
+                          <td key={i} className={`border p-1 text-center ${CELL_STYLE[c].className}`} title={`${findings[i].issue}: ${ALIGNMENT_LABELS[c]}`}>
+                            {CELL_STYLE[c].mark}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="mt-3 text-xs text-gray-600">Add findings to build the crosswalk.</div>
+      )}
+
+      {/* Gap report */}
+      <div className="mt-5 grid grid-cols-1 gap-4 md:grid-cols-2">
+        <div>
+          <h4 className="text-sm font-semibold">Not addressed ({gaps.notAddressed.length})</h4>
+          <p className="text-xs text-gray-600">Provisions relevant to this project's categories ({gaps.categories.join(", ") || "none"}) that no finding addresses.</p>
+          <ul className="mt-2 list-disc pl-5 text-sm">
+            {gaps.notAddressed.map((p) => (
+              <li key={p.id}>
+                <span className="font-medium">{provisionLabel(p, profile)}</span>: {p.title} <span className="text-xs text-gray-500">({p.categories.join(", ")})</span>
+              </li>
+            ))}
+            {!gaps.notAddressed.length && <li className="list-none text-xs text-green-700">Every relevant provision is addressed by at least one finding.</li>}
+          </ul>
+        </div>
+        <div>
+          <h4 className="text-sm font-semibold">Only partially addressed ({gaps.partial.length})</h4>
+          <p className="text-xs text-gray-600">Link these from a finding and back them with a consent clause or trigger.</p>
+          <ul className="mt-2 list-disc pl-5 text-sm">
+            {gaps.partial.map((p) => (
+              <li key={p.id}>
+                <span className="font-medium">{provisionLabel(p, profile)}</span>: {p.title}
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+}
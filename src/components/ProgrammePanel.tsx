@@ -0,0 +1,355 @@
+import { useMemo, useRef, useState } from "react";
+import { Packer } from "docx";
+import { CalendarRange, Download, FileText, Plus, Trash2, Upload } from "lucide-react";
+import { downloadBlob } from "../lib/download";
+import { addDays, addMonths } from "../lib/monitoringCalendar";
+import {
+  DEFAULT_RESTRICTIONS,
+  RESTRICTION_KINDS,
+  WORK_TYPES,
+  findConflicts,
+  formatWindow,
+  newRestrictionId,
+  parseProgramme,
+  programmeSpan,
+  restrictionKindLabel,
+  restrictionOccurrences,
+  workTypeLabel,
+  type ConstructionProgramme,
+  type RestrictionKind,
+  type RestrictionWindow,
+  type WorkType,
+} from "../lib/programme";
+import { buildConflictReportDocument, conflictReportCsv } from "../lib/programmeExport";
+
+type Props = {
+  projectName: string;
+  programme: ConstructionProgramme;
+  restrictions: RestrictionWindow[];
+  onProgrammeChange: (programme: ConstructionProgramme) => void;
+  onRestrictionsChange: (restrictions: RestrictionWindow[]) => void;
+  onUseDates: (span: { start: string; end: string }) => void; // construction dates for the monitoring calendar
+};
+
+const BAND_CLASS: Record<RestrictionKind, string> = {
+  migration: "bg-sky-200",
+  spawning: "bg-teal-200",
+  marae: "bg-purple-200",
+  other: "bg-gray-300",
+};
+
+function formatDay(day: string): string {
+  return new Date(`${day}T00:00:00`).toLocaleDateString("en-NZ", { day: "numeric", month: "short", year: "numeric" });
+}
+
+function dayMs(day: string): number {
+  return Date.parse(`${day}T00:00:00Z`);
+}
+
+export default function ProgrammePanel({ projectName, programme, restrictions, onProgrammeChange, onRestrictionsChange, onUseDates }: Props) {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [name, setName] = useState("");
+  const [kind, setKind] = useState<RestrictionKind>("marae");
+  const [annual, setAnnual] = useState(false);
+  const [start, setStart] = useState("");
+  const [end, setEnd] = useState("");
+
+  const conflicts = useMemo(() => findConflicts(programme.activities, restrictions), [programme.activities, restrictions]);
+  const span = programmeSpan(programme.activities);
+  const conflicted = new Set(conflicts.map((c) => c.activity.id));
+
+  async function importFile(file: File) {
+    try {
+      const parsed = parseProgramme(await file.text(), file.name);
+      if (!parsed.activities.length) throw new Error("no activities with a name, start and finish");
+      onProgrammeChange({ activities: parsed.activities, source: file.name, importedAt: new Date().toISOString() });
+      setErrors(parsed.skipped ? [`${file.name}: ${parsed.skipped} row(s) without a name or readable dates were skipped`] : []);
+    } catch (e) {
+      setErrors([`${file.name}: ${e instanceof Error ? e.message : String(e)}`]);
+    }
+  }
+
+  function setActivityType(id: string, type: WorkType) {
+    onProgrammeChange({ ...programme, activities: programme.activities.map((a) => (a.id === id ? { ...a, type } : a)) });
+  }
+
+  function toggleApplies(w: RestrictionWindow, type: WorkType) {
+    const all = WORK_TYPES.map((t) => t.id);
+    const current = w.appliesTo.length ? w.appliesTo : all;
+    const next = current.includes(type) ? current.filter((t) => t !== type) : all.filter((t) => t === type || current.includes(t));
+    if (!next.length) return; // a window that applies to nothing would silently hide conflicts
+    onRestrictionsChange(restrictions.map((x) => (x.id === w.id ? { ...x, appliesTo: next.length === all.length ? [] : next } : x)));
+  }
+
+  function addRestriction() {
+    if (!name.trim() || !start || !end) return;
+    const restriction: RestrictionWindow = {
+      id: newRestrictionId(),
+      name: name.trim(),
+      kind,
+      annual,
+      start: annual ? start.slice(5) : start,
+      end: annual ? end.slice(5) : end < start ? start : end,
+      appliesTo: [],
+      note: "",
+    };
+    onRestrictionsChange([...restrictions, restriction]);
+    setName("");
+    setStart("");
+    setEnd("");
+  }
+
+  async function exportDocx() {
+    try {
+      const blob = await Packer.toBlob(buildConflictReportDocument(programme, restrictions, conflicts, projectName, new Date()));
+      downloadBlob(blob, `Programme_Conflicts_${projectName.replace(/\s+/g, "_")}.docx`);
+    } catch (e) {
+      console.error(e);
+      alert("DOCX export failed. Check console for details.");
+    }
+  }
+
+  function exportCsv() {
+    downloadBlob(new Blob([conflictReportCsv(conflicts)], { type: "text/csv;charset=utf-8" }), `Programme_Conflicts_${projectName.replace(/\s+/g, "_")}.csv`);
+  }
+
+  // Timeline geometry: the programme span, with activities drawn as [start, end + 1 day)
+  const from = span ? dayMs(span.start) : 0;
+  const total = span ? dayMs(addDays(span.end, 1)) - from : 1;
+  const left = (day: string) => `${Math.max(0, ((dayMs(day) - from) / total) * 100)}%`;
+  const width = (a: string, b: string) => `${Math.max(0.3, ((Math.min(dayMs(addDays(b, 1)), from + total) - Math.max(dayMs(a), from)) / total) * 100)}%`;
+  const months: string[] = [];
+  if (span) for (let m = `${span.start.slice(0, 7)}-01`; m <= span.end; m = addMonths(m, 1)) if (m >= span.start) months.push(m);
+
+  return (
+    <div className="mt-6 rounded-2xl border p-6 shadow-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <CalendarRange className="h-5 w-5" />
+        <h3 className="text-lg font-semibold">Construction programme and restrictions</h3>
+        <button className="ml-auto inline-flex items-center gap-1 rounded-xl border px-3 py-1 text-sm" onClick={() => fileRef.current?.click()}>
+          <Upload className="h-4 w-4" /> Import programme
+        </button>
+        {programme.activities.length > 0 && (
+          <>
+            <button className="inline-flex items-center gap-1 rounded-xl border px-3 py-1 text-sm" onClick={exportDocx}>
+              <FileText className="h-4 w-4" /> Conflicts DOCX
+            </button>
+            <button className="inline-flex items-center gap-1 rounded-xl border px-3 py-1 text-sm" onClick={exportCsv}>
+              <Download className="h-4 w-4" /> Conflicts CSV
+            </button>
+          </>
+        )}
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".csv,.xml,text/csv,application/xml,text/xml"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) importFile(file);
+            e.target.value = "";
+          }}
+        />
+      </div>
+      <p className="mt-1 text-xs text-gray-600">
+        CSV with activity name, start and finish columns (work type and id optional), or an MS Project XML export. Work types are read from the activity and its summary task; correct them below.
+      </p>
+      {errors.length > 0 && (
+        <ul className="mt-2 list-disc rounded-lg bg-red-50 p-2 pl-6 text-xs text-red-800">
+          {errors.map((e, i) => (
+            <li key={i}>{e}</li>
+          ))}
+        </ul>
+      )}
+
+      {span && (
+        <div className="mt-3 flex flex-wrap items-center gap-3 text-xs text-gray-700">
+          <span>
+            {programme.activities.length} activities from {programme.source ?? "the app"}, {formatDay(span.start)} to {formatDay(span.end)}
+          </span>
+          <button className="rounded-lg border px-2 py-0.5" onClick={() => onUseDates(span)} title="Set the monitoring calendar's construction start and end">
+            Use as construction dates
+          </button>
+          <button className="inline-flex items-center gap-1 rounded-lg border px-2 py-0.5" onClick={() => onProgrammeChange({ activities: [], source: null, importedAt: null })}>
+            <Trash2 className="h-3 w-3" /> Clear programme
+          </button>
+          <span className={`ml-auto font-semibold ${conflicts.length ? "text-red-700" : "text-green-700"}`}>
+            {conflicts.length ? `${conflicts.length} conflict(s) across ${conflicted.size} activities` : "No conflicts"}
+          </span>
+        </div>
+      )}
+
+      {/* Timeline */}
+      {span && (
+        <div className="mt-3 overflow-x-auto text-xs">
+          <div className="min-w-[48rem]">
+            <div className="flex">
+              <div className="w-56 shrink-0" />
+              <div className="relative h-5 flex-1 border-b">
+                {months.map((m) => (
+                  <span key={m} className="absolute top-0 border-l pl-1 text-gray-500" style={{ left: left(m) }}>
+                    {new Date(`${m}T00:00:00`).toLocaleDateString("en-NZ", { month: "short", year: "2-digit" })}
+                  </span>
+                ))}
+              </div>
+            </div>
+            {restrictions.map((w) => (
+              <div key={w.id} className="flex items-center">
+                <div className="w-56 shrink-0 truncate pr-2 text-gray-600" title={`${w.name}: ${formatWindow(w)}`}>
+                  {w.name}
+                </div>
+                <div className="relative h-4 flex-1 bg-gray-50">
+                  {restrictionOccurrences(w, span.start, span.end).map((o) => (
+                    <div key={o.start} className={`absolute top-0.5 h-3 rounded-sm ${BAND_CLASS[w.kind]}`} style={{ left: left(o.start), width: width(o.start, o.end) }} />
+                  ))}
+                </div>
+              </div>
+            ))}
+            <div className="my-1 border-t" />
+            {programme.activities.map((a) => (
+              <div key={a.id} className="flex items-center">
+                <div className={`w-56 shrink-0 truncate pr-2 ${conflicted.has(a.id) ? "font-medium text-red-700" : ""}`} title={`${a.name} (${workTypeLabel(a.type)})`}>
+                  {a.ref ? `${a.ref} ` : ""}
+                  {a.name}
+                </div>
+                <div className="relative h-5 flex-1">
+                  <div className="absolute top-1 h-3 rounded-sm bg-gray-400" style={{ left: left(a.start), width: width(a.start, a.end) }} title={`${formatDay(a.start)} - ${formatDay(a.end)}`} />
+                  {conflicts
+                    .filter((c) => c.activity.id === a.id)
+                    .map((c) => (
+                      <div
+                        key={c.id}
+                        className="absolute top-1 h-3 rounded-sm bg-red-600"
+                        style={{ left: left(c.from), width: width(c.from, c.to) }}
+                        title={`${c.restriction.name}: ${formatDay(c.from)} - ${formatDay(c.to)}`}
+                      />
+                    ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Conflict report */}
+      {conflicts.length > 0 && (
+        <table className="mt-4 w-full border text-sm">
+          <thead className="bg-gray-100">
+            <tr>
+              <th className="border p-1 text-left">Activity</th>
+              <th className="border p-1 text-left">Work type</th>
+              <th className="border p-1 text-left">Restriction</th>
+              <th className="border p-1 text-left">Conflict</th>
+              <th className="border p-1">Days</th>
+            </tr>
+          </thead>
+          <tbody>
+            {conflicts.map((c) => (
+              <tr key={c.id}>
+                <td className="border p-1">{c.activity.name}</td>
+                <td className="border p-1">{workTypeLabel(c.activity.type)}</td>
+                <td className="border p-1">
+                  {c.restriction.name} <span className="text-xs text-gray-500">({formatWindow(c.restriction)})</span>
+                </td>
+                <td className="border p-1 text-red-700">
+                  {formatDay(c.from)} - {formatDay(c.to)}
+                </td>
+                <td className="border p-1 text-center">{c.days}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {/* Activities and their work types */}
+      {programme.activities.length > 0 && (
+        <details className="mt-4 text-sm">
+          <summary className="cursor-pointer font-medium">Activities ({programme.activities.length})</summary>
+          <table className="mt-2 w-full border text-xs">
+            <tbody>
+              {programme.activities.map((a) => (
+                <tr key={a.id}>
+                  <td className="border p-1">{a.ref}</td>
+                  <td className="border p-1">{a.name}</td>
+                  <td className="border p-1">
+                    {formatDay(a.start)} - {formatDay(a.end)}
+                  </td>
+                  <td className="border p-1">
+                    <select className="rounded border px-1" value={a.type} onChange={(e) => setActivityType(a.id, e.target.value as WorkType)}>
+                      {WORK_TYPES.map((t) => (
+                        <option key={t.id} value={t.id}>
+                          {t.label}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </details>
+      )}
+
+      {/* Restriction calendar */}
+      <div className="mt-4">
+        <div className="flex items-center gap-2">
+          <h4 className="text-sm font-semibold">Restriction calendar</h4>
+          <button
+            className="ml-auto rounded-lg border px-2 py-0.5 text-xs"
+            onClick={() => {
+              if (confirm("Replace the restriction calendar with the default migration windows?")) onRestrictionsChange(DEFAULT_RESTRICTIONS);
+            }}
+          >
+            Reset to defaults
+          </button>
+        </div>
+        <p className="text-xs text-gray-600">Default migration windows are a starting point; confirm them with mana whenua and the project ecologist. Add marae events and tangihanga as they are known.</p>
+        <ul className="mt-2 space-y-2 text-sm">
+          {restrictions.map((w) => (
+            <li key={w.id} className="rounded-lg border p-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className={`inline-block h-3 w-3 rounded-sm ${BAND_CLASS[w.kind]}`} />
+                <span className="font-medium">{w.name}</span>
+                <span className="text-xs text-gray-600">
+                  {restrictionKindLabel(w.kind)}, {formatWindow(w)}
+                </span>
+                <button className="ml-auto rounded border p-0.5" onClick={() => onRestrictionsChange(restrictions.filter((x) => x.id !== w.id))} title="Remove window">
+                  <Trash2 className="h-3 w-3" />
+                </button>
+              </div>
+              {w.note && <div className="text-xs text-gray-600">{w.note}</div>}
+              <div className="mt-1 flex flex-wrap gap-3 text-xs">
+                <span className="text-gray-500">Applies to:</span>
+                {WORK_TYPES.map((t) => (
+                  <label key={t.id} className="inline-flex items-center gap-1">
+                    <input type="checkbox" checked={!w.appliesTo.length || w.appliesTo.includes(t.id)} onChange={() => toggleApplies(w, t.id)} />
+                    {t.label}
+                  </label>
+                ))}
+              </div>
+            </li>
+          ))}
+        </ul>
+        <div className="mt-2 flex flex-wrap items-end gap-2 text-sm">
+          <input className="flex-1 rounded-lg border px-2 py-1" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Tangihanga at the marae" />
+          <select className="rounded-lg border px-2 py-1" value={kind} onChange={(e) => setKind(e.target.value as RestrictionKind)}>
+            {RESTRICTION_KINDS.map((k) => (
+              <option key={k.id} value={k.id}>
+                {k.label}
+              </option>
+            ))}
+          </select>
+          <input type="date" className="rounded-lg border px-2 py-1" value={start} onChange={(e) => setStart(e.target.value)} title="From" />
+          <input type="date" className="rounded-lg border px-2 py-1" value={end} min={annual ? undefined : start} onChange={(e) => setEnd(e.target.value)} title="To" />
+          <label className="inline-flex items-center gap-1 text-xs">
+            <input type="checkbox" checked={annual} onChange={(e) => setAnnual(e.target.checked)} /> Every year
+          </label>
+          <button className="inline-flex items-center gap-1 rounded-xl border px-2 py-1" onClick={addRestriction} disabled={!name.trim() || !start || !end}>
+            <Plus className="h-4 w-4" /> Add window
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
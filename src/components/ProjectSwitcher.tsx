@@ -0,0 +1,137 @@
+import { useRef, useState } from "react";
+import { Archive, ArchiveRestore, Copy, Download, FolderOpen, Plus, Trash2, Upload } from "lucide-react";
+import type { ProjectSummary } from "../lib/project";
+import { PROJECT_FILE_EXTENSION } from "../lib/projectFile";
+
+type Props = {
+  projects: ProjectSummary[];
+  currentId: string | null;
+  saveState: "saved" | "saving" | "error";
+  onOpen: (id: string) => void;
+  onCreate: () => void;
+  onDuplicate: (id: string) => void;
+  onArchive: (id: string, archived: boolean) => void;
+  onDelete: (id: string) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+  importError: { message: string; issues: string[] } | null;
+};
+
+function formatModified(iso: string): string {
+  const d = new Date(iso);
+  return isNaN(d.getTime()) ? "-" : d.toLocaleString("en-NZ", { dateStyle: "medium", timeStyle: "short" });
+}
+
+export default function ProjectSwitcher({ projects, currentId, saveState, onOpen, onCreate, onDuplicate, onArchive, onDelete, onExport, onImport, importError }: Props) {
+  const importRef = useRef<HTMLInputElement>(null);
+  const [open, setOpen] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
+  const current = projects.find((p) => p.id === currentId);
+  const visible = projects.filter((p) => showArchived || !p.archived);
+
+  return (
+    <div className="mt-6 rounded-2xl border p-4 shadow-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <FolderOpen className="h-5 w-5" />
+        <div className="font-semibold">Projects</div>
+        <div className="text-xs text-gray-600">
+          {current ? `${current.name} - last modified ${formatModified(current.updatedAt)}` : "No project open"}
+        </div>
+        <span className={`rounded-lg px-2 text-xs ${saveState === "error" ? "bg-red-50 text-red-800" : "bg-gray-100 text-gray-700"}`}>
+          {saveState === "saving" ? "Saving..." : saveState === "error" ? "Not saved (storage error)" : "Saved locally"}
+        </span>
+        <div className="ml-auto flex gap-2">
+          <button className="inline-flex items-center gap-1 rounded-xl border px-3 py-1 text-sm" onClick={onCreate}>
+            <Plus className="h-4 w-4" /> New project
+          </button>
+          <button className="inline-flex items-center gap-1 rounded-xl border px-3 py-1 text-sm" onClick={onExport} title={`Export as ${PROJECT_FILE_EXTENSION}`}>
+            <Download className="h-4 w-4" /> Export
+          </button>
+          <button className="inline-flex items-center gap-1 rounded-xl border px-3 py-1 text-sm" onClick={() => importRef.current?.click()} title={`Import a ${PROJECT_FILE_EXTENSION} file`}>
+            <Upload className="h-4 w-4" /> Import
+          </button>
+          <input
+            ref={importRef}
+            type="file"
+            accept={`${PROJECT_FILE_EXTENSION},.json,application/json`}
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImport(file);
+              e.target.value = "";
+            }}
+          />
+          <button className="rounded-xl border px-3 py-1 text-sm" onClick={() => setOpen(!open)}>
+            {open ? "Hide list" : `All projects (${projects.length})`}
+          </button>
+        </div>
+      </div>
+
+      {importError && (
+        <div className="mt-3 rounded-lg bg-red-50 p-2 text-xs text-red-800">
+          <div className="font-medium">Import failed: {importError.message}</div>
+          {importError.issues.length > 0 && (
+            <ul className="mt-1 max-h-40 list-disc overflow-auto pl-5">
+              {importError.issues.map((issue, i) => (
+                <li key={i}>{issue}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {open && (
+        <div className="mt-3">
+          <label className="flex items-center gap-2 text-xs">
+            <input type="checkbox" checked={showArchived} onChange={(e) => setShowArchived(e.target.checked)} /> Show archived
+          </label>
+          <table className="mt-2 w-full text-sm">
+            <thead className="text-left text-gray-500">
+              <tr>
+                <th className="py-1">Project</th>
+                <th className="py-1">Council</th>
+                <th className="py-1">Findings / docs</th>
+                <th className="py-1">Last modified</th>
+                <th className="py-1" />
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map((p) => (
+                <tr key={p.id} className={`border-t ${p.id === currentId ? "font-medium" : ""} ${p.archived ? "text-gray-400" : ""}`}>
+                  <td className="py-1">
+                    <button className="text-left underline-offset-2 hover:underline" onClick={() => onOpen(p.id)} disabled={p.id === currentId}>
+                      {p.name || "(untitled)"}
+                    </button>
+                    {p.archived && <span className="ml-1 text-xs">(archived)</span>}
+                  </td>
+                  <td className="py-1 text-xs">{p.council}</td>
+                  <td className="py-1 text-xs">{p.findingCount} / {p.documentCount}</td>
+                  <td className="py-1 text-xs">{formatModified(p.updatedAt)}</td>
+                  <td className="py-1">
+                    <div className="flex justify-end gap-1">
+                      <button className="rounded border p-0.5" onClick={() => onDuplicate(p.id)} title="Duplicate">
+                        <Copy className="h-3 w-3" />
+                      </button>
+                      <button className="rounded border p-0.5" onClick={() => onArchive(p.id, !p.archived)} title={p.archived ? "Restore" : "Archive"}>
+                        {p.archived ? <ArchiveRestore className="h-3 w-3" /> : <Archive className="h-3 w-3" />}
+                      </button>
+                      <button
+                        className="rounded border p-0.5"
+                        onClick={() => {
+                          if (confirm(`Delete "${p.name}" permanently? This cannot be undone.`)) onDelete(p.id);
+                        }}
+                        title="Delete"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
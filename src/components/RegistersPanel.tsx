@@ -0,0 +1,127 @@
+import { useRef, useState } from "react";
+import { Check, FileSpreadsheet, Upload, X } from "lucide-react";
+import { downloadBlob } from "../lib/download";
+import type { Finding } from "../lib/model";
+import { REGISTER_SHEETS, buildRegistersXlsx, parseRegistersXlsx, type RegisterImport } from "../lib/registers";
+
+type Props = {
+  projectName: string;
+  findings: Finding[];
+  onChange: (findings: Finding[]) => void;
+};
+
+export default function RegistersPanel({ projectName, findings, onChange }: Props) {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [pending, setPending] = useState<(RegisterImport & { fileName: string }) | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  function exportXlsx() {
+    try {
+      const data = buildRegistersXlsx(findings, projectName);
+      downloadBlob(new Blob([data], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" }), `Registers_${projectName.replace(/\s+/g, "_")}.xlsx`);
+    } catch (e) {
+      console.error(e);
+      alert("XLSX export failed. Check console for details.");
+    }
+  }
+
+  async function importFile(file: File) {
+    try {
+      setPending({ ...parseRegistersXlsx(await file.arrayBuffer(), findings), fileName: file.name });
+      setErrors([]);
+    } catch (e) {
+      setPending(null);
+      setErrors([`${file.name}: ${e instanceof Error ? e.message : String(e)}`]);
+    }
+  }
+
+  function apply() {
+    if (!pending) return;
+    onChange(pending.findings);
+    setPending(null);
+  }
+
+  return (
+    <div className="rounded-2xl border p-4 shadow-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <FileSpreadsheet className="h-5 w-5" />
+        <h3 className="font-semibold">Compliance registers</h3>
+        <button className="ml-auto inline-flex items-center gap-1 rounded-xl border px-3 py-1 text-sm" onClick={exportXlsx} disabled={!findings.length}>
+          <FileSpreadsheet className="h-4 w-4" /> Export XLSX
+        </button>
+        <button className="inline-flex items-center gap-1 rounded-xl border px-3 py-1 text-sm" onClick={() => fileRef.current?.click()} disabled={!findings.length}>
+          <Upload className="h-4 w-4" /> Import XLSX
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".xlsx"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) importFile(file);
+            e.target.value = "";
+          }}
+        />
+      </div>
+      <p className="mt-1 text-xs text-gray-600">
+        {Object.values(REGISTER_SHEETS).join(", ")} sheets with an ID on every row and a column for council comments. Re-import the commented workbook to update the findings; rows of findings deleted since the export, or of
+        categories a re-analysis no longer drafts, are reported and skipped.
+      </p>
+
+      {errors.length > 0 && (
+        <ul className="mt-2 list-disc pl-5 text-xs text-red-700">
+          {errors.map((e, i) => (
+            <li key={i}>{e}</li>
+          ))}
+        </ul>
+      )}
+
+      {pending && (
+        <div className="mt-3 rounded-lg border p-3 text-sm">
+          <div className="flex items-center gap-2">
+            <span className="font-medium">{pending.fileName}</span>
+            <span className="text-xs text-gray-600">{pending.changes.length ? `${pending.changes.length} finding(s) change` : "No changes to the findings"}</span>
+            <button className="ml-auto inline-flex items-center gap-1 rounded-xl border px-2 py-0.5 text-xs" onClick={apply} disabled={!pending.changes.length}>
+              <Check className="h-3 w-3" /> Apply
+            </button>
+            <button className="inline-flex items-center gap-1 rounded-xl border px-2 py-0.5 text-xs" onClick={() => setPending(null)}>
+              <X className="h-3 w-3" /> Discard
+            </button>
+          </div>
+          {pending.changes.length > 0 && (
+            <ul className="mt-2 space-y-1 text-xs">
+              {pending.changes.map((c) => (
+                <li key={c.id}>
+                  <span className="font-medium">{c.id}</span> {c.issue}: <span className="text-gray-600">{c.parts.join(", ")}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          {pending.comments.length > 0 && (
+            <div className="mt-2">
+              <div className="text-xs font-medium">Council comments ({pending.comments.length})</div>
+              <ul className="mt-1 space-y-1 text-xs">
+                {pending.comments.map((c, i) => (
+                  <li key={i}>
+                    <span className="text-gray-600">
+                      {c.sheet} {c.id}:
+                    </span>{" "}
+                    {c.text}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {pending.issues.length > 0 && (
+            <ul className="mt-2 list-disc rounded-lg bg-amber-50 p-2 pl-6 text-xs text-amber-800">
+              {pending.issues.map((issue, i) => (
+                <li key={i}>{issue}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+import { useRef, useState } from "react";
+import { Layers, MapPinned, Trash2, Upload } from "lucide-react";
+import { boundsOf, ringPath, viewTransform, type BBox, type LngLat, type Ring, type ViewTransform } from "../lib/geo";
+import { HERITAGE_KINDS, heritageLabel, parseSiteLayer, type HeritageKind, type HeritageSite } from "../lib/siteLayers";
+import type { DistanceFlag, SiteProximity } from "../lib/proximity";
+
+type Props = {
+  sites: HeritageSite[];
+  footprint: Ring | null;
+  bufferM: number;
+  proximity: SiteProximity[];
+  flags: DistanceFlag[];
+  onSitesChange: (sites: HeritageSite[]) => void;
+  onBufferChange: (metres: number) => void;
+  onUpdateFindings: () => void;
+};
+
+const WIDTH = 640;
+const HEIGHT = 400;
+const METRES_PER_DEGREE = 111320;
+
+const BAND_COLOUR: Record<SiteProximity["band"], string> = {
+  inside: "#dc2626",
+  buffer: "#d97706",
+  clear: "#6b7280",
+};
+
+function pixelsPerMetre(view: ViewTransform, bbox: BBox): number {
+  const origin: LngLat = [(bbox[0] + bbox[2]) / 2, (bbox[1] + bbox[3]) / 2];
+  const east: LngLat = [origin[0] + 1000 / (METRES_PER_DEGREE * Math.cos((origin[1] * Math.PI) / 180)), origin[1]];
+  const [x0] = view.toSvg(origin);
+  const [x1] = view.toSvg(east);
+  return Math.abs(x1 - x0) / 1000;
+}
+
+// A round number of metres that spans roughly a fifth of the map
+function scaleBarMetres(pxPerM: number): number {
+  const target = WIDTH / 5 / pxPerM;
+  const magnitude = 10 ** Math.floor(Math.log10(target));
+  return [1, 2, 5, 10].map((m) => m * magnitude).filter((m) => m <= target).pop() ?? magnitude;
+}
+
+export default function SiteLayersPanel({ sites, footprint, bufferM, proximity, flags, onSitesChange, onBufferChange, onUpdateFindings }: Props) {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const layers = Array.from(new Set(sites.map((s) => s.layer)));
+  const byId = new Map(proximity.map((p) => [p.site.id, p]));
+  const affected = proximity.filter((p) => p.band !== "clear").length;
+
+  async function importLayers(files: File[]) {
+    const next = sites.filter((s) => !files.some((f) => f.name === s.layer)); // re-importing a layer replaces it
+    const problems: string[] = [];
+    for (const file of files) {
+      try {
+        const parsed = parseSiteLayer(await file.text(), file.name);
+        if (!parsed.sites.length) problems.push(`${file.name}: no sites found`);
+        if (parsed.skipped) problems.push(`${file.name}: ${parsed.skipped} row(s) with missing or unreadable coordinates were skipped`);
+        next.push(...parsed.sites);
+      } catch (e) {
+        problems.push(`${file.name}: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }
+    setErrors(problems);
+    onSitesChange(next);
+  }
+
+  // Map extent covers the footprint, its buffer and every site
+  const points: LngLat[] = [
+    ...(footprint ?? []),
+    ...sites.flatMap((s) => (s.geometry.type === "point" ? [s.geometry.coordinates] : s.geometry.rings[0] ?? [])),
+  ];
+  const raw = boundsOf(points);
+  const pad = bufferM / METRES_PER_DEGREE;
+  const bbox: BBox | null = raw && [raw[0] - pad, raw[1] - pad, raw[2] + pad, raw[3] + pad];
+  const view = bbox ? viewTransform(bbox, WIDTH, HEIGHT) : null;
+  const pxPerM = view && bbox ? pixelsPerMetre(view, bbox) : 0;
+  const scale = pxPerM ? scaleBarMetres(pxPerM) : 0;
+
+  return (
+    <div className="rounded-2xl border p-4 shadow-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <Layers className="h-5 w-5" />
+        <h3 className="font-semibold">{"W\u0101hi tapu and archaeological sites"}</h3>
+        <button className="ml-auto inline-flex items-center gap-1 rounded-xl border px-3 py-1 text-sm" onClick={() => fileRef.current?.click()}>
+          <Upload className="h-4 w-4" /> Import layer
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          multiple
+          accept=".geojson,.json,.kml,.csv"
+          className="hidden"
+          onChange={(e) => {
+            const files = Array.from(e.target.files ?? []);
+            if (files.length) importLayers(files);
+            e.target.value = "";
+          }}
+        />
+      </div>
+      <p className="mt-1 text-xs text-gray-600">GeoJSON, KML or NZAA-style CSV (latitude/longitude or NZTM easting/northing). The works footprint comes from the site location panel.</p>
+      {errors.length > 0 && (
+        <ul className="mt-2 list-disc rounded-lg bg-red-50 p-2 pl-6 text-xs text-red-800">
+          {errors.map((e, i) => (
+            <li key={i}>{e}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+        <label className="text-xs font-medium">Buffer (m)</label>
+        <input
+          type="number"
+          min={0}
+          step={10}
+          className="w-24 rounded border px-2 py-1"
+          value={bufferM}
+          onChange={(e) => onBufferChange(Math.max(0, Number(e.target.value) || 0))}
+        />
+        {layers.map((layer) => (
+          <span key={layer} className="inline-flex items-center gap-1 rounded-lg bg-gray-100 px-2 text-xs">
+            {layer} ({sites.filter((s) => s.layer === layer).length})
+            <button onClick={() => onSitesChange(sites.filter((s) => s.layer !== layer))} title="Remove layer">
+              <Trash2 className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+        <button className="ml-auto inline-flex items-center gap-1 rounded-xl border px-3 py-1" onClick={onUpdateFindings} disabled={!footprint || sites.length === 0}>
+          <MapPinned className="h-4 w-4" /> Update whenua / wairua findings
+        </button>
+      </div>
+
+      {!footprint && sites.length > 0 && <div className="mt-2 text-xs text-amber-700">Load a works footprint to compute distances and buffers.</div>}
+      {footprint && sites.length > 0 && (
+        <div className="mt-2 text-xs text-gray-700">
+          {affected ? `${affected} of ${sites.length} site(s) inside the footprint or its ${bufferM} m buffer` : `No recorded sites within ${bufferM} m of the footprint`}
+        </div>
+      )}
+
+      {view && (
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="mt-3 w-full rounded-xl border bg-gray-50">
+          {footprint && (
+            <>
+              {/* a round-joined stroke of twice the buffer width draws the buffer zone exactly */}
+              <path d={ringPath(footprint, view)} fill="rgba(217,119,6,0.12)" stroke="rgba(217,119,6,0.12)" strokeWidth={2 * bufferM * pxPerM} strokeLinejoin="round" />
+              <path d={ringPath(footprint, view)} fill="rgba(17,24,39,0.15)" stroke="#111827" strokeWidth={1.5} />
+            </>
+          )}
+          {sites.map((s) => {
+            const colour = BAND_COLOUR[byId.get(s.id)?.band ?? "clear"];
+            if (s.geometry.type === "polygon") {
+              return <path key={s.id} d={s.geometry.rings.map((r) => ringPath(r, view)).join(" ")} fill={colour} fillOpacity={0.3} stroke={colour} fillRule="evenodd" />;
+            }
+            const [x, y] = view.toSvg(s.geometry.coordinates);
+            return (
+              <g key={s.id}>
+                <circle cx={x} cy={y} r={4} fill={colour} stroke="#fff" strokeWidth={1} />
+                <text x={x + 6} y={y - 4} fontSize={9} fill="#374151">{s.siteRef || s.name}</text>
+              </g>
+            );
+          })}
+          {scale > 0 && (
+            <g transform={`translate(12, ${HEIGHT - 14})`}>
+              <rect width={scale * pxPerM} height={4} fill="#111827" />
+              <text y={-4} fontSize={10} fill="#111827">{scale >= 1000 ? `${scale / 1000} km` : `${scale} m`}</text>
+            </g>
+          )}
+        </svg>
+      )}
+
+      {sites.length > 0 && (
+        <div className="mt-3 max-h-64 overflow-auto">
+          <table className="w-full text-xs">
+            <thead className="text-left text-gray-500">
+              <tr>
+                <th className="py-1">Site</th>
+                <th className="py-1">Type</th>
+                <th className="py-1">Layer</th>
+                <th className="py-1 text-right">Distance</th>
+              </tr>
+            </thead>
+            <tbody>
+              {(proximity.length ? proximity.map((p) => p.site) : sites).map((s) => {
+                const p = byId.get(s.id);
+                return (
+                  <tr key={s.id} className="border-t">
+                    <td className="py-1">{s.name}{s.siteRef && s.siteRef !== s.name ? ` (${s.siteRef})` : ""}</td>
+                    <td className="py-1">
+                      <select
+                        className="rounded border px-1"
+                        value={s.kind}
+                        onChange={(e) => onSitesChange(sites.map((x) => (x.id === s.id ? { ...x, kind: e.target.value as HeritageKind } : x)))}
+                        title={heritageLabel(s.kind)}
+                      >
+                        {HERITAGE_KINDS.map((k) => (
+                          <option key={k.id} value={k.id}>{k.label}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="py-1 text-gray-500">{s.layer}</td>
+                    <td className="py-1 text-right" style={{ color: p ? BAND_COLOUR[p.band] : undefined }}>
+                      {p ? (p.band === "inside" ? "inside footprint" : `${p.distanceM} m`) : "-"}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {flags.length > 0 && (
+        <div className="mt-3 rounded-lg bg-amber-50 p-2 text-xs text-amber-800">
+          <div className="font-medium">Findings to check against the site layers</div>
+          <ul className="mt-1 list-disc pl-5">
+            {flags.map((f, i) => (
+              <li key={i}>Finding {f.index + 1}: {f.message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+import { useRef, useState, type MouseEvent } from "react";
+import { Crosshair, Map as MapIcon, Upload, X } from "lucide-react";
+import {
+  boundsOf,
+  closeRing,
+  formatLngLat,
+  geoJsonFeatures,
+  geometryPolygons,
+  parseAreasGeoJson,
+  parseCoordinates,
+  ringPath,
+  viewTransform,
+  type NamedArea,
+} from "../lib/geo";
+import type { SiteGeometry, SpatialIcmpResult } from "../lib/icmpSpatial";
+
+type Props = {
+  site: SiteGeometry;
+  boundaries: NamedArea[];
+  result: SpatialIcmpResult | null;
+  onSiteChange: (site: SiteGeometry) => void;
+  onBoundariesChange: (areas: NamedArea[]) => void;
+  onDetect: () => void;
+};
+
+const WIDTH = 640;
+const HEIGHT = 360;
+const FILLS = ["#dbeafe", "#dcfce7", "#fef9c3", "#fce7f3", "#ede9fe", "#ffedd5", "#e0f2fe", "#f3f4f6"];
+
+const CONFIDENCE_STYLE: Record<SpatialIcmpResult["confidence"], string> = {
+  high: "bg-green-50 text-green-800",
+  medium: "bg-amber-50 text-amber-800",
+  low: "bg-red-50 text-red-800",
+};
+
+function formatDistance(m: number): string {
+  return m >= 1000 ? `${(m / 1000).toFixed(1)} km` : `${m} m`;
+}
+
+export default function SiteLocationPanel({ site, boundaries, result, onSiteChange, onBoundariesChange, onDetect }: Props) {
+  const boundaryRef = useRef<HTMLInputElement>(null);
+  const footprintRef = useRef<HTMLInputElement>(null);
+  const [coords, setCoords] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const allPoints = [
+    ...boundaries.flatMap((a) => a.polygons.flatMap((p) => p[0] ?? [])),
+    ...(site.footprint ?? []),
+    ...(site.point ? [site.point] : []),
+  ];
+  const bbox = boundsOf(allPoints);
+  const view = bbox ? viewTransform(bbox, WIDTH, HEIGHT) : null;
+
+  async function loadBoundaries(file: File) {
+    try {
+      const areas = parseAreasGeoJson(await file.text());
+      onBoundariesChange(areas);
+      setError(null);
+    } catch (e) {
+      setError(`Boundaries not loaded: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  async function loadFootprint(file: File) {
+    try {
+      const polygons = geoJsonFeatures(JSON.parse(await file.text())).flatMap((f) => geometryPolygons(f.geometry));
+      if (!polygons.length) throw new Error("No polygon found");
+      onSiteChange({ ...site, footprint: closeRing(polygons[0][0]) });
+      setError(null);
+    } catch (e) {
+      setError(`Footprint not loaded: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  function applyCoords() {
+    const point = parseCoordinates(coords);
+    if (!point) {
+      setError("Enter decimal degrees, e.g. -37.7870, 175.2793");
+      return;
+    }
+    setError(null);
+    onSiteChange({ ...site, point });
+  }
+
+  function pick(e: MouseEvent<SVGSVGElement>) {
+    if (!view) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * WIDTH;
+    const y = ((e.clientY - rect.top) / rect.height) * HEIGHT;
+    onSiteChange({ ...site, point: view.fromSvg(x, y) });
+  }
+
+  return (
+    <div className="mt-4 rounded-2xl border p-4 shadow-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <MapIcon className="h-5 w-5" />
+        <div className="font-semibold">Site location and ICMP boundaries</div>
+        <span className="text-xs text-gray-600">{boundaries.length ? `${boundaries.length} ICMP boundary area(s) loaded` : "No boundaries loaded - location text is matched instead"}</span>
+        <div className="ml-auto flex gap-2">
+          <button className="inline-flex items-center gap-1 rounded-xl border px-3 py-1 text-sm" onClick={() => boundaryRef.current?.click()}>
+            <Upload className="h-4 w-4" /> ICMP boundaries
+          </button>
+          <button className="inline-flex items-center gap-1 rounded-xl border px-3 py-1 text-sm" onClick={() => footprintRef.current?.click()}>
+            <Upload className="h-4 w-4" /> Site footprint
+          </button>
+          <input ref={boundaryRef} type="file" accept=".geojson,.json,application/geo+json" className="hidden" onChange={(e) => { const f = e.target.files?.[0]; if (f) loadBoundaries(f); e.target.value = ""; }} />
+          <input ref={footprintRef} type="file" accept=".geojson,.json,application/geo+json" className="hidden" onChange={(e) => { const f = e.target.files?.[0]; if (f) loadFootprint(f); e.target.value = ""; }} />
+        </div>
+      </div>
+
+      <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+        <input className="w-64 rounded-xl border px-3 py-1" value={coords} onChange={(e) => setCoords(e.target.value)} placeholder="Latitude, longitude (WGS84)" />
+        <button className="inline-flex items-center gap-1 rounded-xl border px-3 py-1" onClick={applyCoords}>
+          <Crosshair className="h-4 w-4" /> Set point
+        </button>
+        <span className="text-xs text-gray-600">
+          Point: {site.point ? formatLngLat(site.point) : "not set"}
+          {site.footprint ? ` - footprint with ${site.footprint.length - 1} vertices` : ""}
+        </span>
+        {site.point && (
+          <button className="rounded border p-0.5" onClick={() => onSiteChange({ ...site, point: null })} title="Clear point">
+            <X className="h-3 w-3" />
+          </button>
+        )}
+        {site.footprint && (
+          <button className="rounded border px-2 text-xs" onClick={() => onSiteChange({ ...site, footprint: null })}>
+            Clear footprint
+          </button>
+        )}
+        {boundaries.length > 0 && (
+          <button className="rounded border px-2 text-xs" onClick={() => onBoundariesChange([])}>
+            Clear boundaries
+          </button>
+        )}
+        <button className="ml-auto rounded-xl border px-3 py-1" onClick={onDetect}>
+          Detect ICMP
+        </button>
+      </div>
+      {error && <div className="mt-2 rounded-lg bg-red-50 p-2 text-xs text-red-800">{error}</div>}
+
+      {view ? (
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="mt-3 w-full cursor-crosshair rounded-xl border bg-gray-50" onClick={pick}>
+          {boundaries.map((area, i) => (
+            <g key={area.name}>
+              {area.polygons.map((poly, k) => (
+                <path key={k} d={poly.map((ring) => ringPath(ring, view)).join(" ")} fill={FILLS[i % FILLS.length]} fillRule="evenodd" stroke="#6b7280" strokeWidth={1} />
+              ))}
+              {area.polygons[0]?.[0]?.[0] && (
+                <text {...labelAt(area, view)} fontSize={11} textAnchor="middle" fill="#374151">{area.name}</text>
+              )}
+            </g>
+          ))}
+          {site.footprint && <path d={ringPath(site.footprint, view)} fill="rgba(220,38,38,0.2)" stroke="#dc2626" strokeWidth={2} />}
+          {site.point && <circle cx={view.toSvg(site.point)[0]} cy={view.toSvg(site.point)[1]} r={5} fill="#111827" stroke="#fff" strokeWidth={2} />}
+        </svg>
+      ) : (
+        <div className="mt-3 text-xs text-gray-600">Load ICMP boundary GeoJSON (polygons with a name property) to pick the site on the map.</div>
+      )}
+
+      {result && (
+        <div className="mt-3 text-sm">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="font-medium">{result.matches.length ? result.matches.join(", ") : "Outside every loaded catchment"}</span>
+            <span className={`rounded-lg px-2 text-xs ${CONFIDENCE_STYLE[result.confidence]}`}>{result.confidence} confidence</span>
+            <span className="text-xs text-gray-600">
+              by {result.method}
+              {result.boundaryDistanceM != null && ` - ${formatDistance(result.boundaryDistanceM)} to the nearest catchment edge`}
+            </span>
+          </div>
+          {result.neighbours.length > 0 && (
+            <div className="mt-1 text-xs text-gray-600">
+              Neighbouring catchments: {result.neighbours.slice(0, 4).map((n) => `${n.name} (${formatDistance(n.distanceM)})`).join("; ")}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Label each area at the centre of its first polygon's bounding box
+function labelAt(area: NamedArea, view: ReturnType<typeof viewTransform>): { x: number; y: number } {
+  const b = boundsOf(area.polygons[0][0], 0);
+  if (!b) return { x: 0, y: 0 };
+  const [x, y] = view.toSvg([(b[0] + b[2]) / 2, (b[1] + b[3]) / 2]);
+  return { x, y };
+}
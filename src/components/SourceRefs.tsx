@@ -0,0 +1,48 @@
+import { useState } from "react";
+import { FileText, X } from "lucide-react";
+import type { SourceRef } from "../lib/model";
+import { formatLocation } from "../lib/citations";
+
+type Props = {
+  sources: SourceRef[];
+  onRemove?: (source: SourceRef) => void;
+};
+
+// Citation chips for one statement; clicking a chip opens the quoted excerpt
+export default function SourceRefs({ sources, onRemove }: Props) {
+  const [open, setOpen] = useState<number | null>(null);
+  if (!sources.length) return null;
+  const shown = open !== null ? sources[open] : undefined;
+
+  return (
+    <div className="mt-0.5">
+      <div className="flex flex-wrap gap-1">
+        {sources.map((s, i) => (
+          <span key={i} className={`inline-flex items-center gap-0.5 rounded border px-1 text-[10px] text-gray-600 ${open === i ? "bg-gray-100" : ""}`}>
+            <button className="inline-flex items-center gap-0.5" onClick={() => setOpen(open === i ? null : i)} title={formatLocation(s)}>
+              <FileText className="h-3 w-3" />
+              <span className="max-w-[10rem] truncate">{s.fileName}</span>, p. {s.page}
+            </button>
+            {onRemove && (
+              <button
+                onClick={() => {
+                  setOpen(null);
+                  onRemove(s);
+                }}
+                title="Remove citation"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            )}
+          </span>
+        ))}
+      </div>
+      {shown && (
+        <blockquote className="mt-1 border-l-2 pl-2 text-xs text-gray-700">
+          <div className="italic">"{shown.excerpt}"</div>
+          <div className="mt-0.5 text-[10px] text-gray-500">{formatLocation(shown)}</div>
+        </blockquote>
+      )}
+    </div>
+  );
+}
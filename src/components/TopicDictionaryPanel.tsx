@@ -0,0 +1,111 @@
+import { useState } from "react";
+import { BookOpen, Plus, RotateCcw, Trash2 } from "lucide-react";
+import { CATEGORIES, type Category } from "../lib/model";
+import { RULES_LIBRARY, type TopicEntry } from "../lib/rules";
+import type { TopicMatch } from "../lib/analysis";
+
+type Props = {
+  topics: TopicEntry[];
+  matches: TopicMatch[];
+  onChange: (topics: TopicEntry[]) => void;
+  onReset: () => void;
+};
+
+export default function TopicDictionaryPanel({ topics, matches, onChange, onReset }: Props) {
+  const [open, setOpen] = useState(false);
+
+  function update(id: string, patch: Partial<TopicEntry>) {
+    onChange(topics.map((t) => (t.id === id ? { ...t, ...patch } : t)));
+  }
+
+  function addTopic() {
+    let n = topics.length + 1;
+    while (topics.some((t) => t.id === `custom-${n}`)) n += 1;
+    onChange([...topics, { id: `custom-${n}`, label: "New topic", category: "wai", keywords: [] }]);
+  }
+
+  return (
+    <div className="rounded-2xl border p-4 shadow-sm">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <BookOpen className="h-5 w-5" />
+          <h3 className="font-semibold">Topic dictionary and detected topics</h3>
+        </div>
+        <button className="rounded-xl border px-3 py-1 text-sm" onClick={() => setOpen(!open)}>
+          {open ? "Hide dictionary" : "Edit dictionary"}
+        </button>
+      </div>
+
+      {matches.length > 0 ? (
+        <table className="mt-3 w-full text-xs">
+          <thead className="text-left text-gray-500">
+            <tr>
+              <th className="py-1">Topic</th>
+              <th className="py-1">Category</th>
+              <th className="py-1">Hits</th>
+              <th className="py-1">Keywords</th>
+            </tr>
+          </thead>
+          <tbody>
+            {matches.map((m) => (
+              <tr key={m.topicId} className="border-t align-top">
+                <td className="py-1 font-medium">{m.label}</td>
+                <td className="py-1">{m.category}</td>
+                <td className="py-1">{m.hits}</td>
+                <td className="py-1 text-gray-600">{m.keywords.join(", ")}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <div className="mt-2 text-xs text-gray-600">No topics detected yet. Upload documents and run the analysis.</div>
+      )}
+
+      {open && (
+        <div className="mt-4 space-y-3">
+          <div className="text-xs text-gray-600">
+            Keywords are comma separated and matched without macrons or case. End a keyword with * to match word endings (e.g. culvert*).
+          </div>
+          {topics.map((t) => (
+            <div key={t.id} className="rounded-xl border p-3 text-sm">
+              <div className="flex items-center gap-2">
+                <input className="flex-1 rounded-lg border px-2 py-1" value={t.label} onChange={(e) => update(t.id, { label: e.target.value })} />
+                <select className="rounded-lg border px-2 py-1" value={t.category} onChange={(e) => update(t.id, { category: e.target.value as Category })}>
+                  {CATEGORIES.map((c) => (
+                    <option key={c} value={c}>{c}</option>
+                  ))}
+                </select>
+                <button className="rounded-lg border p-1" onClick={() => onChange(topics.filter((x) => x.id !== t.id))} title="Remove topic">
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+              <textarea
+                className="mt-2 w-full rounded-lg border px-2 py-1 text-xs"
+                rows={2}
+                value={t.keywords.join(", ")}
+                onChange={(e) => update(t.id, { keywords: e.target.value.split(",").map((k) => k.trimStart()) })}
+              />
+              <div className="mt-2 flex items-center gap-2 text-xs">
+                <span className="text-gray-600">Draft from rule</span>
+                <select className="rounded-lg border px-2 py-1" value={t.ruleId || t.id} onChange={(e) => update(t.id, { ruleId: e.target.value })}>
+                  {!((t.ruleId || t.id) in RULES_LIBRARY) && <option value={t.ruleId || t.id}>(none - report only)</option>}
+                  {Object.keys(RULES_LIBRARY).map((id) => (
+                    <option key={id} value={id}>{id}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <button className="inline-flex items-center gap-1 rounded-xl border px-3 py-1 text-sm" onClick={addTopic}>
+              <Plus className="h-4 w-4" /> Add topic
+            </button>
+            <button className="inline-flex items-center gap-1 rounded-xl border px-3 py-1 text-sm" onClick={onReset}>
+              <RotateCcw className="h-4 w-4" /> Reset to defaults
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+import { CATEGORIES, CITED_FIELDS, type Finding, type SourceRef } from "./model";
+import { citeFromExcerpts, citedItems, sameSource } from "./citations";
+import type { IngestedDocument } from "./ingest";
+import { DEFAULT_TOPICS, RULES_LIBRARY, type TopicEntry, type TopicRule } from "./rules";
+import { normalizeForMatch } from "./text";
+
+// ---------------------------------------------------------------------------------
+// Rule-based analysis engine. Pure and deterministic: the same corpus and
+// dictionaries always produce the same findings, in the same order. A drafted
+// finding's id comes from its category, so a re-run keeps the ids that other
+// records refer to.
+
+export type TopicSource = {
+  documentId: string;
+  fileName: string;
+  page: number;
+  paragraph: number;
+  excerpt: string;
+};
+
+export type TopicMatch = {
+  topicId: string;
+  ruleId: string;
+  label: string;
+  category: string;
+  hits: number;
+  keywords: string[];
+  sources: TopicSource[];
+};
+
+export type AnalysisResult = {
+  findings: Finding[];
+  matches: TopicMatch[];
+};
+
+export type AnalysisOptions = {
+  topics?: TopicEntry[];
+  rules?: Record<string, TopicRule>;
+  minHits?: number; // keyword hits needed before a topic counts as present
+  maxSourcesPerTopic?: number;
+};
+
+function escapeRegExp(input: string): string {
+  return input.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export function keywordPattern(keyword: string): RegExp {
+  const kw = normalizeForMatch(keyword.trim());
+  const wildcard = kw.endsWith("*");
+  const stem = escapeRegExp(wildcard ? kw.slice(0, -1) : kw).replace(/\s+/g, "\\s+");
+  return new RegExp(`\\b${stem}${wildcard ? "\\w*" : "\\b"}`, "g");
+}
+
+function excerptAround(text: string, index: number, length: number): string {
+  const start = Math.max(0, index - 80);
+  const end = Math.min(text.length, index + length + 120);
+  return `${start > 0 ? "..." : ""}${text.slice(start, end).trim()}${end < text.length ? "..." : ""}`;
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values.filter((v) => v.trim())));
+}
+
+export function matchTopics(documents: IngestedDocument[], topics: TopicEntry[], minHits: number, maxSources: number): TopicMatch[] {
+  const compiled = topics.map((t) => ({ topic: t, patterns: t.keywords.filter((k) => k.trim()).map((k) => ({ keyword: k, re: keywordPattern(k) })) }));
+  const matches: TopicMatch[] = [];
+  for (const { topic, patterns } of compiled) {
+    let hits = 0;
+    const keywords = new Set<string>();
+    const sources: TopicSource[] = [];
+    for (const doc of documents) {
+      for (const block of doc.blocks) {
+        // normalisation only strips combining marks, so indices line up with the NFC text
+        const text = normalizeForMatch(block.text);
+        let first = -1;
+        let firstLength = 0;
+        for (const { keyword, re } of patterns) {
+          re.lastIndex = 0;
+          for (const m of text.matchAll(re)) {
+            hits += 1;
+            keywords.add(keyword);
+            if (first < 0 || m.index < first) {
+              first = m.index;
+              firstLength = m[0].length;
+            }
+          }
+        }
+        if (first >= 0 && sources.length < maxSources) {
+          sources.push({
+            documentId: doc.id,
+            fileName: doc.fileName,
+            page: block.page,
+            paragraph: block.paragraph,
+            excerpt: excerptAround(block.text.normalize("NFC"), first, firstLength),
+          });
+        }
+      }
+    }
+    if (hits >= minHits) {
+      matches.push({ topicId: topic.id, ruleId: topic.ruleId || topic.id, label: topic.label, category: topic.category, hits, keywords: Array.from(keywords).sort(), sources });
+    }
+  }
+  return matches;
+}
+
+type RuleMatch = { rule: TopicRule; sources: TopicSource[] };
+
+// Each statement cites the excerpts of the topic matches whose rules contributed
+// it. Baseline and reporting are joined across rules, so a rule contributes when
+// its text is part of the joined statement.
+function citeRules(f: Finding, matched: RuleMatch[]): SourceRef[] {
+  const refs: SourceRef[] = [];
+  for (const field of CITED_FIELDS) {
+    const joined = field === "triggers.baselines" || field === "triggers.reporting";
+    for (const item of citedItems(f, field)) {
+      for (const { rule, sources } of matched) {
+        const own = citedItems(rule, field);
+        if (!own.some((x) => x === item || (joined && x.trim() && item.includes(x)))) continue;
+        for (const ref of citeFromExcerpts(field, [item], sources)) {
+          if (!refs.some((r) => sameSource(r, ref))) refs.push(ref);
+        }
+      }
+    }
+  }
+  return refs;
+}
+
+// One drafted finding per category, e.g. "finding-whanau"
+function draftedFindingId(category: string): string {
+  return `finding-${normalizeForMatch(category)}`;
+}
+
+function mergeRules(category: string, matched: RuleMatch[]): Finding {
+  const rules = matched.map((m) => m.rule);
+  const finding: Finding = {
+    id: draftedFindingId(category),
+    category,
+    issue: unique(rules.map((r) => r.issue)).join("; "),
+    effects: {
+      cultural: unique(rules.flatMap((r) => r.effects.cultural)),
+      social: unique(rules.flatMap((r) => r.effects.social)),
+      environmental: unique(rules.flatMap((r) => r.effects.environmental)),
+      spiritual: unique(rules.flatMap((r) => r.effects.spiritual)),
+    },
+    mitigations: unique(rules.flatMap((r) => r.mitigations)),
+    recommendations: unique(rules.flatMap((r) => r.recommendations)),
+    triggers: {
+      metrics: unique(rules.flatMap((r) => r.triggers.metrics)),
+      baselines: unique(rules.map((r) => r.triggers.baselines)).join(" "),
+      thresholds: unique(rules.flatMap((r) => r.triggers.thresholds)),
+      actions: unique(rules.flatMap((r) => r.triggers.actions)),
+      reporting: unique(rules.map((r) => r.triggers.reporting)).join(" "),
+    },
+    policyLinks: unique(rules.flatMap((r) => r.policyLinks)),
+    provisions: unique(rules.flatMap((r) => r.provisions)),
+    consentClauses: unique(rules.flatMap((r) => r.consentClauses)),
+    sources: [],
+  };
+  return { ...finding, sources: citeRules(finding, matched) };
+}
+
+export function analyseDocuments(documents: IngestedDocument[], options: AnalysisOptions = {}): AnalysisResult {
+  const topics = options.topics ?? DEFAULT_TOPICS;
+  const rules = options.rules ?? RULES_LIBRARY;
+  const matches = matchTopics(documents, topics, options.minHits ?? 2, options.maxSourcesPerTopic ?? 10);
+
+  const findings: Finding[] = [];
+  for (const category of CATEGORIES) {
+    const matched = matches
+      .filter((m) => m.category === category)
+      .map((m) => ({ rule: rules[m.ruleId], sources: m.sources }))
+      .filter((m): m is RuleMatch => m.rule != null);
+    if (matched.length) findings.push(mergeRules(category, matched));
+  }
+  return { findings, matches };
+}
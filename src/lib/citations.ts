@@ -0,0 +1,200 @@
+import { CITED_FIELDS, type CitedField, type Finding, type SourceRef } from "./model";
+import type { IngestedDocument } from "./ingest";
+import { normalizeForMatch } from "./text";
+
+// ---------------------------------------------------------------------------------
+// Source citations: which ingested document, page and excerpt each effect,
+// mitigation and trigger statement came from. Narratives mark cited statements
+// with [^n] note references and list the numbered sources after the text.
+
+export type SourceLocation = Omit<SourceRef, "field" | "item">;
+
+export const MAX_SOURCES_PER_ITEM = 2;
+
+export const CITED_FIELD_LABELS: Record<CitedField, string> = {
+  "effects.cultural": "Cultural effect",
+  "effects.social": "Social effect",
+  "effects.environmental": "Environmental effect",
+  "effects.spiritual": "Spiritual effect",
+  mitigations: "Mitigation",
+  "triggers.metrics": "Metric",
+  "triggers.baselines": "Baseline",
+  "triggers.thresholds": "Threshold",
+  "triggers.actions": "Action",
+  "triggers.reporting": "Reporting",
+};
+
+export type CitedStatements = Pick<Finding, "effects" | "mitigations" | "triggers">;
+
+// The statements of a cited field; the two free-text trigger fields are one statement each
+export function citedItems(f: CitedStatements, field: CitedField): string[] {
+  switch (field) {
+    case "effects.cultural":
+      return f.effects.cultural;
+    case "effects.social":
+      return f.effects.social;
+    case "effects.environmental":
+      return f.effects.environmental;
+    case "effects.spiritual":
+      return f.effects.spiritual;
+    case "mitigations":
+      return f.mitigations;
+    case "triggers.metrics":
+      return f.triggers.metrics;
+    case "triggers.baselines":
+      return f.triggers.baselines.trim() ? [f.triggers.baselines] : [];
+    case "triggers.thresholds":
+      return f.triggers.thresholds;
+    case "triggers.actions":
+      return f.triggers.actions;
+    case "triggers.reporting":
+      return f.triggers.reporting.trim() ? [f.triggers.reporting] : [];
+  }
+}
+
+export function itemSources(f: Finding, field: CitedField, item: string): SourceRef[] {
+  return f.sources.filter((s) => s.field === field && s.item === item);
+}
+
+export function fieldSources(f: Finding, field: CitedField): SourceRef[] {
+  return f.sources.filter((s) => s.field === field);
+}
+
+function locationKey(s: SourceLocation): string {
+  return `${s.documentId}|${s.page}|${s.paragraph}|${s.excerpt}`;
+}
+
+export function sameSource(a: SourceRef, b: SourceRef): boolean {
+  return a.field === b.field && a.item === b.item && locationKey(a) === locationKey(b);
+}
+
+// ---------------------------------------------------------------------------------
+// Keeping citations attached while statements are edited
+
+// An edited statement takes its citations with it; a statement that was only
+// moved keeps them by text. Citations of statements that are gone are dropped.
+export function retargetSources(sources: SourceRef[], field: CitedField, before: string[], after: string[]): SourceRef[] {
+  const renamed = new Map<string, string>();
+  if (before.length === after.length) {
+    before.forEach((text, i) => {
+      if (text !== after[i] && !after.includes(text)) renamed.set(text, after[i]);
+    });
+  }
+  return sources
+    .map((s) => (s.field === field && renamed.has(s.item) ? { ...s, item: renamed.get(s.item)! } : s))
+    .filter((s) => s.field !== field || after.includes(s.item));
+}
+
+export function pruneSources(f: Finding): Finding {
+  const sources = f.sources.filter((s) => citedItems(f, s.field).includes(s.item));
+  return sources.length === f.sources.length ? f : { ...f, sources };
+}
+
+// ---------------------------------------------------------------------------------
+// Choosing excerpts: the topic match's excerpts ranked by the words they share
+// with the statement. The match itself is the evidence the rule fired, so a
+// statement with no overlapping excerpt still cites the first one.
+
+function significantWords(text: string): Set<string> {
+  return new Set(normalizeForMatch(text).split(/[^a-z0-9]+/).filter((w) => w.length >= 4));
+}
+
+export function citeFromExcerpts(field: CitedField, items: string[], locations: SourceLocation[]): SourceRef[] {
+  if (!locations.length) return [];
+  const words = locations.map((l) => significantWords(l.excerpt));
+  return items.flatMap((item) => {
+    const wanted = significantWords(item);
+    const ranked = locations
+      .map((l, i) => ({ l, i, score: [...wanted].filter((w) => words[i].has(w)).length }))
+      .sort((a, b) => b.score - a.score || a.i - b.i);
+    const best = ranked.filter((r) => r.score > 0).slice(0, MAX_SOURCES_PER_ITEM);
+    return (best.length ? best : ranked.slice(0, 1)).map(({ l }) => ({ field, item, ...l }));
+  });
+}
+
+// Blocks of the ingested documents containing every word of the query, for
+// citing a statement by hand
+export function searchExcerpts(documents: IngestedDocument[], query: string, limit = 8): SourceLocation[] {
+  const words = normalizeForMatch(query).split(/\s+/).filter(Boolean);
+  if (!words.length) return [];
+  const out: SourceLocation[] = [];
+  for (const doc of documents) {
+    for (const block of doc.blocks) {
+      if (block.kind === "heading") continue;
+      const text = normalizeForMatch(block.text);
+      if (!words.every((w) => text.includes(w))) continue;
+      const at = Math.max(0, text.indexOf(words[0]) - 80);
+      const excerpt = block.text.normalize("NFC").replace(/\s+/g, " ").slice(at, at + 240).trim();
+      out.push({
+        documentId: doc.id,
+        fileName: doc.fileName,
+        page: block.page,
+        paragraph: block.paragraph,
+        excerpt: `${at > 0 ? "..." : ""}${excerpt}${at + 240 < block.text.length ? "..." : ""}`,
+      });
+      if (out.length >= limit) return out;
+    }
+  }
+  return out;
+}
+
+// ---------------------------------------------------------------------------------
+// Numbered notes for narratives: one number per distinct document location, so
+// the same excerpt cited twice keeps its number. Templates and depths leave
+// statements out, so the rendered text is renumbered in reading order and only
+// the notes it still references are listed, ahead of the appendices.
+
+export type SourceNote = SourceLocation & { number: number };
+
+export type SourceNotes = { notes: SourceNote[]; numbers: Map<string, number> };
+
+export function sourceNotes(findings: Finding[]): SourceNotes {
+  const notes: SourceNote[] = [];
+  const numbers = new Map<string, number>();
+  for (const f of findings) {
+    for (const field of CITED_FIELDS) {
+      for (const item of citedItems(f, field)) {
+        for (const s of itemSources(f, field, item)) {
+          const key = locationKey(s);
+          if (numbers.has(key)) continue;
+          numbers.set(key, notes.length + 1);
+          notes.push({ documentId: s.documentId, fileName: s.fileName, page: s.page, paragraph: s.paragraph, excerpt: s.excerpt, number: notes.length + 1 });
+        }
+      }
+    }
+  }
+  return { notes, numbers };
+}
+
+// The statement followed by its note references, e.g. "Elevated NTU[^1][^4]"
+export function citeText(notes: SourceNotes, f: Finding, field: CitedField, item: string): string {
+  const refs = [...new Set(itemSources(f, field, item).map((s) => notes.numbers.get(locationKey(s))))].filter((n): n is number => n !== undefined);
+  return `${item}${refs.map((n) => `[^${n}]`).join("")}`;
+}
+
+function quote(excerpt: string): string {
+  return `"${excerpt.replace(/\s+/g, " ").replace(/"/g, "'").trim()}"`;
+}
+
+export function formatLocation(s: SourceLocation): string {
+  return `${s.fileName}, p. ${s.page}, para. ${s.paragraph}`;
+}
+
+export function withSourceReferences(text: string, notes: SourceNotes): string {
+  const byNumber = new Map(notes.notes.map((n) => [n.number, n]));
+  const order = new Map<number, number>();
+  const body = text.replace(/\[\^(\d+)\]/g, (marker, n: string) => {
+    if (!byNumber.has(Number(n))) return marker;
+    if (!order.has(Number(n))) order.set(Number(n), order.size + 1);
+    return `[^${order.get(Number(n))}]`;
+  });
+  if (!order.size) return body;
+  const listed = [...order].map(([n, m]) => {
+    const note = byNumber.get(n)!;
+    return `${m}. **${note.fileName}**, p. ${note.page}, para. ${note.paragraph}: ${quote(note.excerpt)}`;
+  });
+  const references = `## Source References\n${listed.join("\n")}`;
+  const appendix = body.search(/^## Appendix\b/m);
+  if (appendix < 0) return [body.trimEnd(), references].join("\n\n");
+  return [body.slice(0, appendix).trimEnd(), references, body.slice(appendix)].join("\n\n");
+}
@@ -0,0 +1,369 @@
+import type { Category, Finding } from "./model";
+import type { CiaProject } from "./project";
+import { normalizeForMatch } from "./text";
+
+// ---------------------------------------------------------------------------------
+// Consent condition library: templates tagged by category, activity type and
+// council, with {{placeholders}} filled from the project when a condition is
+// scheduled. Councils are CouncilProfile ids; an empty list means any council.
+
+export type ActivityType = "earthworks" | "stormwater" | "instream" | "vegetation" | "roading" | "subdivision";
+
+export const ACTIVITY_TYPES: { id: ActivityType; label: string }[] = [
+  { id: "earthworks", label: "Earthworks" },
+  { id: "stormwater", label: "Stormwater discharge" },
+  { id: "instream", label: "Instream works and culverts" },
+  { id: "vegetation", label: "Vegetation clearance" },
+  { id: "roading", label: "Roading and construction traffic" },
+  { id: "subdivision", label: "Subdivision and land use" },
+];
+
+// Headings of a council conditions schedule, in schedule order
+export const CONDITION_GROUPS = [
+  "General",
+  "Management plans",
+  "Cultural monitoring",
+  "Accidental discovery",
+  "Monitoring and adaptive management",
+  "Reporting",
+  "Review",
+] as const;
+
+export type ConditionGroup = (typeof CONDITION_GROUPS)[number];
+
+export type ConditionTemplate = {
+  id: string;
+  title: string;
+  text: string;
+  group: ConditionGroup;
+  categories: Category[];
+  activities: ActivityType[];
+  councils: string[];
+  tags: string[];
+};
+
+export const PLACEHOLDERS: { key: string; label: string }[] = [
+  { key: "projectName", label: "Project name" },
+  { key: "council", label: "Consent authority" },
+  { key: "icmp", label: "ICMP area" },
+  { key: "workingDays", label: "Response period (working days)" },
+  { key: "bufferMetres", label: "W\u0101hi tapu buffer (m)" },
+];
+
+export type ConditionContext = Record<string, string>; // PLACEHOLDERS key -> value
+
+export const CONDITION_LIBRARY: ConditionTemplate[] = [
+  {
+    id: "general-accordance",
+    title: "General accordance with the CIA",
+    text: "The activity authorised by this consent for {{projectName}} must be undertaken in general accordance with the recommendations of the Cultural Impact Assessment, except where these conditions require otherwise.",
+    group: "General",
+    categories: ["wai", "whenua", "whakapapa", "wh\u0101nau", "mauri", "wairua"],
+    activities: [],
+    councils: [],
+    tags: ["cia", "general"],
+  },
+  {
+    id: "ems-alignment",
+    title: "Te Ture Whaimana alignment in the contractor EMS",
+    text: "The contractor's Environmental Management System must include a Te Ture Whaimana alignment statement and a training module co-designed with mana whenua, and be provided to {{council}} prior to works.",
+    group: "Management plans",
+    categories: ["wai", "mauri"],
+    activities: ["earthworks", "stormwater", "instream"],
+    councils: [],
+    tags: ["te ture whaimana", "ems", "training"],
+  },
+  {
+    id: "escp",
+    title: "Erosion and Sediment Control Plan",
+    text: "Prior to works, the consent holder must submit to {{council}} an Erosion and Sediment Control Plan (ESCP) prepared by a suitably qualified person in consultation with mana whenua, demonstrating compliance with GD05 and avoiding instream works during identified migration windows for tuna and \u012Bnanga.",
+    group: "Management plans",
+    categories: ["wai"],
+    activities: ["earthworks", "instream"],
+    councils: [],
+    tags: ["escp", "gd05", "sediment", "tuna"],
+  },
+  {
+    id: "mauri-monitoring",
+    title: "Mauri Monitoring Programme",
+    text: "The consent holder must establish a Mauri Monitoring Programme co-developed with mana whenua that sets baseline and trigger levels (including NTU and clarity), provides for mahinga kai assessments, and requires adaptive responses within {{workingDays}} working days if triggers are exceeded.",
+    group: "Monitoring and adaptive management",
+    categories: ["wai", "mauri"],
+    activities: ["earthworks", "stormwater", "instream"],
+    councils: [],
+    tags: ["ntu", "clarity", "mahinga kai", "triggers"],
+  },
+  {
+    id: "icmp-consistency",
+    title: "Consistency with the ICMP",
+    text: "Stormwater from {{projectName}} must be managed consistently with the {{icmp}}, including its water quality and quantity objectives, with treatment devices designed in consultation with mana whenua.",
+    group: "Management plans",
+    categories: ["wai", "mauri"],
+    activities: ["stormwater", "subdivision"],
+    councils: ["hcc", "wdc", "waipa"],
+    tags: ["icmp", "stormwater", "treatment"],
+  },
+  {
+    id: "adaptive-management",
+    title: "Adaptive Management Plan with rainfall triggers",
+    text: "Prior to works the consent holder must adopt an Adaptive Management Plan, co-developed with mana whenua, with rainfall-linked triggers and defined corrective actions to be implemented within {{workingDays}} working days of a trigger being reached.",
+    group: "Monitoring and adaptive management",
+    categories: ["mauri", "wai"],
+    activities: ["stormwater", "earthworks"],
+    councils: [],
+    tags: ["storm event", "rainfall", "adaptive management"],
+  },
+  {
+    id: "discovery-protocol",
+    title: "Cultural Discovery Protocol",
+    text: "The consent holder must implement a Cultural Discovery Protocol approved by mana whenua prior to commencement. All staff must be inducted on the protocol and a copy kept on site at all times.",
+    group: "Accidental discovery",
+    categories: ["whenua", "wairua"],
+    activities: ["earthworks", "subdivision"],
+    councils: [],
+    tags: ["k\u014Diwi", "taonga", "discovery", "induction"],
+  },
+  {
+    id: "koiwi-stop-work",
+    title: "Stop work on discovery of k\u014Diwi or taonga",
+    text: "If k\u014Diwi, taonga or archaeological material is discovered, all works within {{bufferMetres}} m of the discovery must cease immediately, the area must be secured, and mana whenua, Heritage New Zealand Pouhere Taonga and {{council}} notified within 1 working day. Works must not resume until mana whenua confirm that tikanga has been completed.",
+    group: "Accidental discovery",
+    categories: ["whenua", "wairua"],
+    activities: ["earthworks", "subdivision", "roading"],
+    councils: [],
+    tags: ["k\u014Diwi", "hnzpt", "stop work", "buffer"],
+  },
+  {
+    id: "wahi-tapu-buffer",
+    title: "W\u0101hi tapu exclusion buffer",
+    text: "No earthworks, stockpiling or machinery movement may occur within {{bufferMetres}} m of a recorded w\u0101hi tapu or urup\u0101 without the written agreement of mana whenua. The buffer must be fenced and shown on all construction drawings.",
+    group: "General",
+    categories: ["whenua", "wairua"],
+    activities: ["earthworks", "roading", "subdivision"],
+    councils: [],
+    tags: ["w\u0101hi tapu", "urup\u0101", "buffer", "fencing"],
+  },
+  {
+    id: "cultural-monitors",
+    title: "Cultural monitors during initial stripping",
+    text: "Mana whenua cultural monitors must be present during initial topsoil stripping and other ground-breaking works. The consent holder must fund their participation and reporting.",
+    group: "Cultural monitoring",
+    categories: ["whenua"],
+    activities: ["earthworks", "subdivision"],
+    councils: [],
+    tags: ["cultural monitor", "stripping", "funding"],
+  },
+  {
+    id: "fish-passage",
+    title: "Fish passage and ecological connectivity",
+    text: "All culverts must provide for the passage of tuna and other native fish in accordance with the New Zealand Fish Passage Guidelines. Designs must be reviewed by mana whenua at least {{workingDays}} working days before construction.",
+    group: "Management plans",
+    categories: ["whakapapa", "wai"],
+    activities: ["instream", "roading"],
+    councils: [],
+    tags: ["culvert", "fish passage", "tuna"],
+  },
+  {
+    id: "riparian-planting",
+    title: "Riparian planting with eco-sourced species",
+    text: "The consent holder must prepare a riparian planting plan using eco-sourced species selected with mana whenua, and maintain the planting until at least 85% survival is achieved.",
+    group: "Management plans",
+    categories: ["whakapapa", "mauri"],
+    activities: ["vegetation", "subdivision", "instream"],
+    councils: [],
+    tags: ["planting", "riparian", "eco-sourced"],
+  },
+  {
+    id: "tmp-marae-access",
+    title: "Traffic Management Plan with marae access windows",
+    text: "The consent holder must prepare and implement a Traffic Management Plan and Communications Plan co-designed with mana whenua, including protected access windows for marae and mechanisms for pausing works during tangihanga and other events.",
+    group: "Management plans",
+    categories: ["wh\u0101nau"],
+    activities: ["roading", "earthworks"],
+    councils: [],
+    tags: ["tmp", "marae", "access", "tangihanga"],
+  },
+  {
+    id: "contact-line",
+    title: "Contact line and incident log",
+    text: "The consent holder must maintain a dedicated contact line and an incident log accessible to mana whenua, and implement corrective actions within {{workingDays}} working days of a substantiated complaint.",
+    group: "Reporting",
+    categories: ["wh\u0101nau"],
+    activities: ["roading", "earthworks"],
+    councils: [],
+    tags: ["complaints", "incident log"],
+  },
+  {
+    id: "viewshafts",
+    title: "Viewshaft protection",
+    text: "Detailed design must retain the identified viewshafts to culturally significant landforms. Photo-simulations must be provided to mana whenua and {{council}} for review before building consent is sought.",
+    group: "Management plans",
+    categories: ["wairua"],
+    activities: ["subdivision"],
+    councils: [],
+    tags: ["viewshaft", "landscape", "photo-simulation"],
+  },
+  {
+    id: "quarterly-reporting",
+    title: "Quarterly monitoring reports",
+    text: "The consent holder must provide quarterly monitoring reports for {{projectName}} to {{council}} and mana whenua, and hold a hui to discuss each report within {{workingDays}} working days of its release.",
+    group: "Reporting",
+    categories: ["wai", "mauri", "wh\u0101nau"],
+    activities: [],
+    councils: [],
+    tags: ["reporting", "hui", "quarterly"],
+  },
+  {
+    id: "incident-notification",
+    title: "Incident notification",
+    text: "Any exceedance of a trigger level, stop-work event or discovery must be notified to mana whenua and {{council}} within 1 working day, with an incident report provided within {{workingDays}} working days.",
+    group: "Reporting",
+    categories: ["wai", "whenua", "mauri"],
+    activities: [],
+    councils: [],
+    tags: ["incident", "notification", "exceedance"],
+  },
+  {
+    id: "wrc-discharge-review",
+    title: "Review of discharge conditions",
+    text: "Waikato Regional Council may review the conditions of this consent annually to deal with any adverse effect on the mauri of the receiving waters, or to give effect to Te Ture Whaimana o Te Awa o Waikato.",
+    group: "Review",
+    categories: ["wai", "mauri"],
+    activities: ["stormwater"],
+    councils: ["wrc"],
+    tags: ["s128 review", "te ture whaimana"],
+  },
+  {
+    id: "review-general",
+    title: "Review of conditions",
+    text: "{{council}} may review the conditions of this consent in accordance with section 128 of the Resource Management Act 1991 to address any adverse effect on cultural values identified through monitoring.",
+    group: "Review",
+    categories: ["wai", "whenua", "whakapapa", "wh\u0101nau", "mauri", "wairua"],
+    activities: [],
+    councils: [],
+    tags: ["s128 review"],
+  },
+];
+
+// ---------------------------------------------------------------------------------
+// Placeholders
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+export function templatePlaceholders(text: string): string[] {
+  return Array.from(new Set(Array.from(text.matchAll(PLACEHOLDER), (m) => m[1])));
+}
+
+export function unknownPlaceholders(text: string): string[] {
+  return templatePlaceholders(text).filter((key) => !PLACEHOLDERS.some((p) => p.key === key));
+}
+
+export function conditionContext(project: CiaProject): ConditionContext {
+  return {
+    projectName: project.name,
+    council: project.council,
+    icmp: project.inferredICMP,
+    workingDays: String(project.conditionsSchedule.workingDays),
+    bufferMetres: String(project.siteBufferM),
+  };
+}
+
+// Unknown placeholders are left in place so they stand out in the schedule
+export function fillTemplate(text: string, context: ConditionContext): string {
+  return text.replace(PLACEHOLDER, (whole, key: string) => (key in context && context[key] !== "" ? context[key] : whole));
+}
+
+// ---------------------------------------------------------------------------------
+// Search
+
+export type ConditionFilters = {
+  query: string;
+  category: string; // "" = any
+  activity: ActivityType | "";
+  council: string; // CouncilProfile id; templates for other councils are hidden
+};
+
+// Clauses already written into findings sit alongside the library templates
+export function findingTemplates(findings: Finding[]): ConditionTemplate[] {
+  return findings.flatMap((f, i) =>
+    f.consentClauses.map((text, j) => ({
+      id: `finding-${i}-${j}`,
+      title: `${f.category}: ${f.issue.slice(0, 60)}`,
+      text,
+      group: "General" as const,
+      categories: [f.category as Category],
+      activities: [],
+      councils: [],
+      tags: ["from findings"],
+    }))
+  );
+}
+
+export function searchConditions(templates: ConditionTemplate[], filters: ConditionFilters): ConditionTemplate[] {
+  const words = normalizeForMatch(filters.query).split(/\s+/).filter(Boolean);
+  return templates.filter((t) => {
+    if (filters.category && !t.categories.includes(filters.category as Category)) return false;
+    if (filters.activity && t.activities.length && !t.activities.includes(filters.activity)) return false;
+    if (t.councils.length && !t.councils.includes(filters.council)) return false;
+    const haystack = normalizeForMatch([t.title, t.text, t.group, ...t.tags].join(" "));
+    return words.every((w) => haystack.includes(w));
+  });
+}
+
+// ---------------------------------------------------------------------------------
+// Conditions schedule: numbered in group order, each tied to the finding that
+// justifies it by the finding's id, so editing its issue keeps the link
+
+export type ScheduledCondition = {
+  id: string;
+  templateId: string | null;
+  group: ConditionGroup;
+  title: string;
+  text: string; // may still contain {{placeholders}}; filled on display and export
+  findingId: string | null; // the justifying finding; null when not linked
+};
+
+export type ConditionsSchedule = {
+  workingDays: number; // fills {{workingDays}}
+  conditions: ScheduledCondition[];
+};
+
+export const DEFAULT_CONDITION_WORKING_DAYS = 10;
+
+export const EMPTY_CONDITIONS_SCHEDULE: ConditionsSchedule = { workingDays: DEFAULT_CONDITION_WORKING_DAYS, conditions: [] };
+
+export function newConditionId(): string {
+  return `cond-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// The finding a template most plausibly rests on: same category, most shared words
+export function justifyingFinding(template: ConditionTemplate, findings: Finding[]): Finding | null {
+  const words = new Set(normalizeForMatch(`${template.text} ${template.tags.join(" ")}`).split(/\W+/).filter((w) => w.length > 3));
+  let best: Finding | null = null;
+  let bestScore = -1;
+  for (const f of findings.filter((x) => template.categories.includes(x.category as Category))) {
+    const text = normalizeForMatch([f.issue, ...f.consentClauses, ...f.triggers.metrics].join(" "));
+    const score = Array.from(words).filter((w) => text.includes(w)).length;
+    if (score > bestScore) {
+      best = f;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+export function scheduleFromTemplate(template: ConditionTemplate, findings: Finding[]): ScheduledCondition {
+  return {
+    id: newConditionId(),
+    templateId: template.id.startsWith("finding-") ? null : template.id,
+    group: template.group,
+    title: template.title,
+    text: template.text,
+    findingId: justifyingFinding(template, findings)?.id ?? null,
+  };
+}
+
+// Group order first, then the order the user arranged within each group
+export function orderedConditions(schedule: ConditionsSchedule): ScheduledCondition[] {
+  return CONDITION_GROUPS.flatMap((g) => schedule.conditions.filter((c) => c.group === g));
+}
@@ -0,0 +1,67 @@
+import { Document as DocxDocument, HeadingLevel, Paragraph, Table, TableCell, TableRow, TextRun, WidthType } from "docx";
+import { coverPage, pageFooter, pageHeader } from "./docxRender";
+import { CONDITION_GROUPS, fillTemplate, orderedConditions, type ConditionContext, type ConditionsSchedule } from "./conditions";
+import type { Finding } from "./model";
+
+// ---------------------------------------------------------------------------------
+// Conditions schedule in the layout councils issue with a decision: conditions
+// numbered continuously under group headings, then a table tying each condition
+// back to the CIA finding that justifies it
+
+function cell(text: string, bold = false): TableCell {
+  return new TableCell({ children: [new Paragraph({ children: [new TextRun({ text, bold })] })] });
+}
+
+export function buildConditionsScheduleDocument(schedule: ConditionsSchedule, context: ConditionContext, findings: Finding[]): DocxDocument {
+  const title = "Schedule of Conditions";
+  const ordered = orderedConditions(schedule);
+  const number = new Map(ordered.map((c, i) => [c.id, i + 1]));
+
+  const body = CONDITION_GROUPS.flatMap((group) => {
+    const inGroup = ordered.filter((c) => c.group === group);
+    if (!inGroup.length) return [];
+    return [
+      new Paragraph({ text: group, heading: HeadingLevel.HEADING_2 }),
+      ...inGroup.map(
+        (c) =>
+          new Paragraph({
+            spacing: { after: 160 },
+            indent: { left: 567, hanging: 567 },
+            children: [new TextRun({ text: `${number.get(c.id)}.\t`, bold: true }), new TextRun({ text: fillTemplate(c.text, context) })],
+          })
+      ),
+    ];
+  });
+
+  const justification = new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [
+      new TableRow({ tableHeader: true, children: [cell("Condition", true), cell("Subject", true), cell("Category", true), cell("CIA finding", true)] }),
+      ...ordered.map((c) => {
+        const finding = findings.find((f) => f.id === c.findingId);
+        const basis = finding ? finding.issue : c.findingId ? "Finding no longer in the assessment" : "Not linked";
+        return new TableRow({
+          children: [cell(String(number.get(c.id))), cell(c.title), cell(finding?.category ?? "-"), cell(basis)],
+        });
+      }),
+    ],
+  });
+
+  return new DocxDocument({
+    title,
+    sections: [
+      { properties: { titlePage: true }, children: coverPage(title, context.projectName, `Consent authority: ${context.council}`) },
+      {
+        headers: { default: pageHeader(context.projectName, title) },
+        footers: { default: pageFooter() },
+        children: [
+          new Paragraph({ text: "Conditions", heading: HeadingLevel.HEADING_1 }),
+          ...(ordered.length ? body : [new Paragraph({ text: "No conditions have been scheduled." })]),
+          new Paragraph({ text: "Basis for Conditions", heading: HeadingLevel.HEADING_1 }),
+          new Paragraph({ text: "Each condition responds to an effect identified in the Cultural Impact Assessment, as set out below." }),
+          justification,
+        ],
+      },
+    ],
+  });
+}
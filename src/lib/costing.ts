@@ -0,0 +1,210 @@
+import type { Cadence, ConstructionDates, MonitoringCalendar } from "./monitoringCalendar";
+
+// ---------------------------------------------------------------------------------
+// Cultural monitoring cost estimate: the dated visits of the monitoring calendar,
+// an allowance for storm events (which cannot be dated in advance), hui and
+// w\u0101nanga, and reporting, priced from the project's rates and totalled per phase
+// and per calendar year. Amounts are NZD excluding GST unless stated.
+
+export type CostRates = {
+  monitorDayRate: number;
+  monitorsPerVisit: number;
+  routineVisitDays: number; // daily to quarterly checks
+  eventVisitDays: number; // one-off, stage-gate and storm visits
+  travelKmPerVisit: number; // return trip
+  mileageRate: number; // per km
+  stormEventsPerYear: number;
+  wanangaPerYear: number;
+  wanangaCost: number; // venue, kai, koha and facilitation
+  huiCount: number; // one-off hui before works start
+  huiCost: number;
+  reportingHoursPerQuarter: number;
+  closeOutReportHours: number;
+  reportingRate: number; // per hour
+  contingencyPercent: number;
+  gstPercent: number;
+};
+
+export const DEFAULT_COST_RATES: CostRates = {
+  monitorDayRate: 650,
+  monitorsPerVisit: 1,
+  routineVisitDays: 0.5,
+  eventVisitDays: 1,
+  travelKmPerVisit: 40,
+  mileageRate: 1.17,
+  stormEventsPerYear: 6,
+  wanangaPerYear: 4,
+  wanangaCost: 2500,
+  huiCount: 2,
+  huiCost: 1200,
+  reportingHoursPerQuarter: 12,
+  closeOutReportHours: 24,
+  reportingRate: 120,
+  contingencyPercent: 10,
+  gstPercent: 15,
+};
+
+// Labels and units for the rates form and the assumptions sheet, in display order
+export const COST_RATE_FIELDS: { key: keyof CostRates; label: string; unit: string }[] = [
+  { key: "monitorDayRate", label: "Monitor day rate", unit: "$/day" },
+  { key: "monitorsPerVisit", label: "Monitors per visit", unit: "people" },
+  { key: "routineVisitDays", label: "Routine visit length", unit: "days" },
+  { key: "eventVisitDays", label: "One-off, stage-gate and storm visit length", unit: "days" },
+  { key: "travelKmPerVisit", label: "Travel per visit (return)", unit: "km" },
+  { key: "mileageRate", label: "Mileage rate", unit: "$/km" },
+  { key: "stormEventsPerYear", label: "Storm events allowed for", unit: "per year" },
+  { key: "wanangaPerYear", label: "W\u0101nanga-a-rohe", unit: "per year" },
+  { key: "wanangaCost", label: "Cost per w\u0101nanga", unit: "$" },
+  { key: "huiCount", label: "Hui before works", unit: "hui" },
+  { key: "huiCost", label: "Cost per hui", unit: "$" },
+  { key: "reportingHoursPerQuarter", label: "Quarterly reporting", unit: "hours" },
+  { key: "closeOutReportHours", label: "Close-out report", unit: "hours" },
+  { key: "reportingRate", label: "Reporting rate", unit: "$/hour" },
+  { key: "contingencyPercent", label: "Contingency", unit: "%" },
+  { key: "gstPercent", label: "GST", unit: "%" },
+];
+
+export type CostLine = {
+  year: number;
+  phase: string;
+  item: string;
+  quantity: number;
+  unit: string;
+  rate: number;
+  amount: number;
+};
+
+export type CostEstimate = {
+  lines: CostLine[];
+  years: number[];
+  phases: string[]; // in programme order
+  byPhaseYear: Map<string, Map<number, number>>;
+  byYear: Map<number, number>;
+  subtotal: number;
+  contingency: number;
+  totalExGst: number;
+  gst: number;
+  totalInclGst: number;
+  notes: string[];
+};
+
+export const PROGRAMME_WIDE = "Programme-wide";
+
+const EVENT_CADENCES: Cadence[] = ["once", "stage-gate", "storm"];
+
+export function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function dayCount(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000) + 1;
+}
+
+// Days of from..to that fall in each calendar year
+function daysPerYear(from: string, to: string): Map<number, number> {
+  const out = new Map<number, number>();
+  for (let y = Number(from.slice(0, 4)); y <= Number(to.slice(0, 4)); y++) {
+    const a = from > `${y}-01-01` ? from : `${y}-01-01`;
+    const b = to < `${y}-12-31` ? to : `${y}-12-31`;
+    out.set(y, dayCount(a, b));
+  }
+  return out;
+}
+
+// Calendar quarters that from..to touches, per year
+function quartersPerYear(from: string, to: string): Map<number, number> {
+  const out = new Map<number, number>();
+  const q = (d: string) => Number(d.slice(0, 4)) * 4 + Math.floor((Number(d.slice(5, 7)) - 1) / 3);
+  for (let i = q(from); i <= q(to); i++) {
+    const year = Math.floor(i / 4);
+    out.set(year, (out.get(year) ?? 0) + 1);
+  }
+  return out;
+}
+
+export function estimateCosts(calendar: MonitoringCalendar, dates: ConstructionDates, rates: CostRates): CostEstimate {
+  const lines: CostLine[] = [];
+  const notes: string[] = [];
+  const add = (year: number, phase: string, item: string, quantity: number, unit: string, rate: number) => {
+    if (quantity > 0) lines.push({ year, phase, item, quantity: round2(quantity), unit, rate, amount: round2(quantity * rate) });
+  };
+  const visitDays = (cadence: Cadence) => (EVENT_CADENCES.includes(cadence) ? rates.eventVisitDays : rates.routineVisitDays);
+
+  // Dated visits, one line per monitoring focus and year, plus their travel
+  const groups = new Map<string, { year: number; phase: string; focus: string; visits: number; days: number }>();
+  for (const v of calendar.visits) {
+    const year = Number(v.date.slice(0, 4));
+    const key = `${year}|${v.rowIndex}`;
+    const g = groups.get(key) ?? { year, phase: v.phase, focus: v.focus, visits: 0, days: 0 };
+    g.visits++;
+    g.days += visitDays(v.cadence);
+    groups.set(key, g);
+  }
+  for (const g of groups.values()) {
+    add(g.year, g.phase, `Monitor visits: ${g.focus} (${g.visits})`, g.days * rates.monitorsPerVisit, "monitor days", rates.monitorDayRate);
+    add(g.year, g.phase, `Travel: ${g.focus}`, g.visits * rates.monitorsPerVisit * rates.travelKmPerVisit, "km", rates.mileageRate);
+  }
+
+  const { start, end } = dates;
+  const works = start && end && end >= start ? { start, end } : null;
+  if (!works) notes.push("Set the construction start and end dates to estimate storm events, w\u0101nanga and reporting.");
+
+  if (works) {
+    const perYear = daysPerYear(works.start, works.end);
+    for (const rule of calendar.stormRules) {
+      for (const [year, days] of perYear) {
+        const recorded = calendar.visits.filter((v) => v.storm && v.rowIndex === rule.rowIndex && v.date.startsWith(`${year}-`)).length;
+        const allowance = Math.max(0, Math.round((rates.stormEventsPerYear * days) / 365) - recorded);
+        add(year, rule.phase, `Storm-event allowance: ${rule.focus} (${allowance})`, allowance * rates.eventVisitDays * rates.monitorsPerVisit, "monitor days", rates.monitorDayRate);
+        add(year, rule.phase, `Travel: ${rule.focus} (storm events)`, allowance * rates.monitorsPerVisit * rates.travelKmPerVisit, "km", rates.mileageRate);
+      }
+    }
+
+    const startYear = Number(works.start.slice(0, 4));
+    add(startYear, PROGRAMME_WIDE, "Hui before works start", rates.huiCount, "hui", rates.huiCost);
+    for (const [year, days] of perYear) {
+      add(year, PROGRAMME_WIDE, "W\u0101nanga-a-rohe", rates.wanangaPerYear > 0 ? Math.max(1, Math.round((rates.wanangaPerYear * days) / 365)) : 0, "w\u0101nanga", rates.wanangaCost);
+    }
+    for (const [year, quarters] of quartersPerYear(works.start, works.end)) {
+      add(year, PROGRAMME_WIDE, `Quarterly monitoring reports (${quarters})`, quarters * rates.reportingHoursPerQuarter, "hours", rates.reportingRate);
+    }
+    add(Number(works.end.slice(0, 4)), PROGRAMME_WIDE, "Close-out report to Council and mana whenua", rates.closeOutReportHours, "hours", rates.reportingRate);
+  }
+  if (!calendar.visits.length) notes.push("No dated visits yet; the monitoring calendar needs construction dates.");
+
+  lines.sort((a, b) => a.year - b.year);
+  const phases: string[] = [];
+  const byPhaseYear = new Map<string, Map<number, number>>();
+  const byYear = new Map<number, number>();
+  for (const l of lines) {
+    if (!phases.includes(l.phase)) phases.push(l.phase);
+    const row = byPhaseYear.get(l.phase) ?? new Map<number, number>();
+    row.set(l.year, round2((row.get(l.year) ?? 0) + l.amount));
+    byPhaseYear.set(l.phase, row);
+    byYear.set(l.year, round2((byYear.get(l.year) ?? 0) + l.amount));
+  }
+  // programme-wide costs last, the rest in the order the calendar produced them
+  phases.sort((a, b) => Number(a === PROGRAMME_WIDE) - Number(b === PROGRAMME_WIDE));
+
+  const subtotal = round2(lines.reduce((s, l) => s + l.amount, 0));
+  const contingency = round2((subtotal * rates.contingencyPercent) / 100);
+  const totalExGst = round2(subtotal + contingency);
+  const gst = round2((totalExGst * rates.gstPercent) / 100);
+  return {
+    lines,
+    years: [...byYear.keys()].sort((a, b) => a - b),
+    phases,
+    byPhaseYear,
+    byYear,
+    subtotal,
+    contingency,
+    totalExGst,
+    gst,
+    totalInclGst: round2(totalExGst + gst),
+    notes,
+  };
+}
+
+export function formatNzd(amount: number): string {
+  return amount.toLocaleString("en-NZ", { style: "currency", currency: "NZD", minimumFractionDigits: 2 });
+}
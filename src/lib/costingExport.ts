@@ -0,0 +1,90 @@
+import { AlignmentType, HeadingLevel, PageBreak, Paragraph, Table, TableCell, TableRow, TextRun, WidthType, type FileChild } from "docx";
+import * as XLSX from "xlsx";
+import { COST_RATE_FIELDS, formatNzd, round2, type CostEstimate, type CostRates } from "./costing";
+
+// ---------------------------------------------------------------------------------
+// Funding schedule: an XLSX workbook (summary by phase and year, line items,
+// rates) for the consent holder's budget, and the same schedule as a DOCX appendix
+// to the Cultural Monitoring Programme
+
+// Phase x year grid with totals, shared by both formats
+function summaryGrid(estimate: CostEstimate): (string | number)[][] {
+  const rows: (string | number)[][] = [["Phase", ...estimate.years.map(String), "Total"]];
+  for (const phase of estimate.phases) {
+    const byYear = estimate.byPhaseYear.get(phase);
+    const amounts = estimate.years.map((y) => byYear?.get(y) ?? 0);
+    rows.push([phase, ...amounts, round2(amounts.reduce((s, a) => s + a, 0))]);
+  }
+  rows.push(["Subtotal", ...estimate.years.map((y) => estimate.byYear.get(y) ?? 0), estimate.subtotal]);
+  return rows;
+}
+
+function totalsRows(estimate: CostEstimate, rates: CostRates): [string, number][] {
+  return [
+    ["Subtotal", estimate.subtotal],
+    [`Contingency (${rates.contingencyPercent}%)`, estimate.contingency],
+    ["Total excluding GST", estimate.totalExGst],
+    [`GST (${rates.gstPercent}%)`, estimate.gst],
+    ["Total including GST", estimate.totalInclGst],
+  ];
+}
+
+export function buildFundingScheduleXlsx(estimate: CostEstimate, rates: CostRates, projectName: string): ArrayBuffer {
+  const wb = XLSX.utils.book_new();
+
+  const summary = XLSX.utils.aoa_to_sheet([
+    [`Cultural monitoring funding schedule - ${projectName}`],
+    ["NZD; line amounts exclude GST"],
+    [],
+    ...summaryGrid(estimate),
+    [],
+    ...totalsRows(estimate, rates),
+  ]);
+  summary["!cols"] = [{ wch: 44 }, ...estimate.years.map(() => ({ wch: 14 })), { wch: 14 }];
+  XLSX.utils.book_append_sheet(wb, summary, "Summary");
+
+  const lines = XLSX.utils.aoa_to_sheet([
+    ["Year", "Phase", "Item", "Quantity", "Unit", "Rate", "Amount"],
+    ...estimate.lines.map((l) => [l.year, l.phase, l.item, l.quantity, l.unit, l.rate, l.amount]),
+  ]);
+  lines["!cols"] = [{ wch: 6 }, { wch: 20 }, { wch: 60 }, { wch: 10 }, { wch: 14 }, { wch: 10 }, { wch: 12 }];
+  XLSX.utils.book_append_sheet(wb, lines, "Line items");
+
+  const assumptions = XLSX.utils.aoa_to_sheet([["Rate", "Value", "Unit"], ...COST_RATE_FIELDS.map((f) => [f.label, rates[f.key], f.unit]), [], ...estimate.notes.map((n) => [n])]);
+  assumptions["!cols"] = [{ wch: 44 }, { wch: 10 }, { wch: 10 }];
+  XLSX.utils.book_append_sheet(wb, assumptions, "Rates");
+
+  return XLSX.write(wb, { type: "array", bookType: "xlsx" }) as ArrayBuffer;
+}
+
+function cell(text: string, bold = false, right = false): TableCell {
+  return new TableCell({ children: [new Paragraph({ alignment: right ? AlignmentType.RIGHT : undefined, children: [new TextRun({ text, bold, size: 18 })] })] });
+}
+
+function table(rows: TableCell[][]): Table {
+  return new Table({ width: { size: 100, type: WidthType.PERCENTAGE }, rows: rows.map((children, i) => new TableRow({ tableHeader: i === 0, children })) });
+}
+
+export function fundingScheduleAppendix(estimate: CostEstimate, rates: CostRates): FileChild[] {
+  const grid = summaryGrid(estimate);
+  const last = grid.length - 1;
+  return [
+    new Paragraph({ children: [new PageBreak()] }),
+    new Paragraph({ text: "Appendix - Funding Schedule", heading: HeadingLevel.HEADING_1 }),
+    new Paragraph({
+      text: "Estimated cost of the cultural monitoring programme for the consent holder to fund, in NZD. Visits follow the monitoring calendar; storm events, w\u0101nanga and reporting are allowances.",
+    }),
+    new Paragraph({ text: "By phase and year", heading: HeadingLevel.HEADING_2 }),
+    table(grid.map((row, i) => row.map((v, j) => cell(typeof v === "number" ? formatNzd(v) : v, i === 0 || i === last || j === row.length - 1, j > 0)))),
+    new Paragraph({ text: "" }),
+    table(totalsRows(estimate, rates).map(([label, amount], i, all) => [cell(label, i === all.length - 1), cell(formatNzd(amount), i === all.length - 1, true)])),
+    new Paragraph({ text: "Line items", heading: HeadingLevel.HEADING_2 }),
+    table([
+      ["Year", "Phase", "Item", "Quantity", "Rate", "Amount"].map((h) => cell(h, true)),
+      ...estimate.lines.map((l) => [cell(String(l.year)), cell(l.phase), cell(l.item), cell(`${l.quantity} ${l.unit}`, false, true), cell(formatNzd(l.rate), false, true), cell(formatNzd(l.amount), false, true)]),
+    ]),
+    new Paragraph({ text: "Rates and allowances", heading: HeadingLevel.HEADING_2 }),
+    table([["Rate", "Value"].map((h) => cell(h, true)), ...COST_RATE_FIELDS.map((f) => [cell(f.label), cell(`${rates[f.key]} ${f.unit}`, false, true)])]),
+    ...estimate.notes.map((n) => new Paragraph({ children: [new TextRun({ text: n, italics: true })] })),
+  ];
+}
@@ -0,0 +1,222 @@
+import type { MonitoringRow } from "./model";
+import { normalizeForMatch } from "./text";
+import type { AnniversaryRegion, WorkingDayOptions } from "./workingDays";
+
+// ---------------------------------------------------------------------------------
+// Council profiles: everything that differs between consenting authorities lives
+// here, so adding a council is a new registry entry rather than another branch in
+// the UI. Projects store the council by name; unknown names get a generic profile.
+
+export type IcmpArea = { name: string; patterns: RegExp[] };
+
+// An optional council framework the user can switch on or off per project
+export type CouncilFramework = {
+  id: string;
+  label: string;
+  defaultEnabled: boolean;
+  policyInstrument: string;
+  monitoringRow: MonitoringRow; // kept in the programme, marked "(disabled)" when off
+};
+
+export type CouncilProfile = {
+  id: string;
+  name: string;
+  icmps: IcmpArea[]; // patterns run against normalizeForMatch(location)
+  icmpFallback: string;
+  policyInstruments: string[];
+  monitoringRows: MonitoringRow[];
+  frameworks: CouncilFramework[];
+  anniversaryRegion: AnniversaryRegion | null; // regional anniversary day that is not a working day
+  narrative: {
+    planReference: string; // "the relevant District Plan" in the mana whenua voice
+    reportingTo: string;
+    monitoringNote?: string; // extra bullet under Monitoring and Adaptive Management
+  };
+};
+
+export const COUNCIL_PROFILES: CouncilProfile[] = [
+  {
+    id: "hcc",
+    name: "Hamilton City Council",
+    icmps: [
+      { name: "Peacocke ICMP", patterns: [/\bpeacocke\b|\bpeacocks\b/] },
+      { name: "Rotokauri ICMP", patterns: [/\brotokauri\b/] },
+      { name: "Te Rapa ICMP", patterns: [/te\s?rapa|\bpukete\b|\bnorthgate\b/] },
+      { name: "Rototuna ICMP", patterns: [/\brototuna\b|\bflagstaff\b|\bchartwell\b/] },
+      { name: "Ruakura ICMP", patterns: [/\bruakura\b|\bhillcrest\b|\bsilverdale\b|\buniversity\b/] },
+      { name: "Waitawhiriwhiri ICMP", patterns: [/waitawhiriwhiri|beerescourt|forest\s*lakes?|frankton|clarkin|bryant/] },
+      { name: "Mangakotukutuku ICMP", patterns: [/mangakotukutuku|glenview|melville|fitzroy|bader|kahikatea|ohaupo/] },
+    ],
+    icmpFallback: "Hamilton City ICMP (area to confirm)",
+    policyInstruments: ["Hamilton District Plan"],
+    monitoringRows: [],
+    frameworks: [
+      {
+        id: "hpmo",
+        label: "He Pou Manawa Ora",
+        defaultEnabled: true,
+        policyInstrument: "He Pou Manawa Ora",
+        monitoringRow: {
+          phase: "During earthworks",
+          focus: "He Pou Manawa Ora engagement checkpoint",
+          role: "Attend engagement checkpoint; confirm cultural measures are active",
+          frequency: "At each stage-gate",
+        },
+      },
+    ],
+    anniversaryRegion: "auckland",
+    narrative: { planReference: "the Hamilton District Plan", reportingTo: "Hamilton City Council" },
+  },
+  {
+    id: "wdc",
+    name: "Waikato District Council",
+    icmps: [
+      { name: "Ng\u0101ruaw\u0101hia ICMP", patterns: [/ngaruawahia|hopuhopu/] },
+      { name: "Huntly ICMP", patterns: [/\bhuntly\b|\brahuipokeka\b/] },
+      { name: "Te Kauwhata ICMP", patterns: [/te\s*kauwhata|waerenga|meremere/] },
+    ],
+    icmpFallback: "Waikato District ICMP (area to confirm)",
+    policyInstruments: ["Waikato District Plan"],
+    monitoringRows: [
+      {
+        phase: "During earthworks",
+        focus: "Waikato District Plan noise/access checks near marae",
+        role: "Check access windows and noise limits with wh\u0101nau",
+        frequency: "Weekly",
+      },
+    ],
+    frameworks: [],
+    anniversaryRegion: "auckland",
+    narrative: { planReference: "the Waikato District Plan", reportingTo: "Waikato District Council" },
+  },
+  {
+    id: "waipa",
+    name: "Waip\u0101 District Council",
+    icmps: [
+      { name: "Cambridge ICMP", patterns: [/\bcambridge\b|\bleamington\b|\bhautapu\b/] },
+      { name: "Te Awamutu ICMP", patterns: [/te\s*awamutu|\bkihikihi\b/] },
+      { name: "Pirongia ICMP", patterns: [/\bpirongia\b/] },
+    ],
+    icmpFallback: "Waip\u0101 District ICMP (area to confirm)",
+    policyInstruments: ["Waip\u0101 District Plan"],
+    monitoringRows: [
+      {
+        phase: "During earthworks",
+        focus: "Waip\u0101 River margins and cultural landscape (maunga viewshafts)",
+        role: "Check riparian setbacks and viewshaft controls with wh\u0101nau",
+        frequency: "Fortnightly",
+      },
+    ],
+    frameworks: [],
+    anniversaryRegion: "auckland",
+    narrative: { planReference: "the Waip\u0101 District Plan", reportingTo: "Waip\u0101 District Council" },
+  },
+  {
+    id: "wrc",
+    name: "Waikato Regional Council",
+    icmps: [
+      { name: "Lower Waikato Zone", patterns: [/huntly|ngaruawahia|tuakau|mercer|port\s*waikato|te\s*kauwhata/] },
+      { name: "Central Waikato Zone", patterns: [/hamilton|cambridge|karapiro|horotiu/] },
+      { name: "Waip\u0101 Zone", patterns: [/waipa|te\s*awamutu|pirongia|otorohanga/] },
+      { name: "Upper Waikato Zone", patterns: [/taupo|tokoroa|putaruru|mangakino|atiamuri/] },
+    ],
+    icmpFallback: "Waikato Regional catchment zone (to confirm)",
+    policyInstruments: ["Waikato Regional Policy Statement", "Waikato Regional Plan"],
+    monitoringRows: [
+      {
+        phase: "During earthworks",
+        focus: "Discharge consent compliance sampling (regional)",
+        role: "Co-observe compliance sampling; confirm results are shared with mana whenua",
+        frequency: "Monthly / storm-event",
+      },
+    ],
+    frameworks: [
+      {
+        id: "pc1",
+        label: "Healthy Rivers / Plan Change 1",
+        defaultEnabled: true,
+        policyInstrument: "Plan Change 1 (Healthy Rivers Wai Ora)",
+        monitoringRow: {
+          phase: "Ecology",
+          focus: "Sediment, nutrient and E. coli attributes against Plan Change 1 targets",
+          role: "Review attribute trends with the ecologist; raise declines at w\u0101nanga",
+          frequency: "Quarterly",
+        },
+      },
+    ],
+    anniversaryRegion: "auckland",
+    narrative: {
+      planReference: "the Waikato Regional Plan",
+      reportingTo: "Waikato Regional Council",
+      monitoringNote: "Regional compliance: exceedance reports copied to the Waikato Regional Council monitoring officer.",
+    },
+  },
+  {
+    id: "otorohanga",
+    name: "\u014Ctorohanga District Council",
+    icmps: [
+      { name: "\u014Ctorohanga Township ICMP", patterns: [/otorohanga/] },
+      { name: "K\u0101whia ICMP", patterns: [/kawhia|aotea/] },
+    ],
+    icmpFallback: "\u014Ctorohanga District ICMP (area to confirm)",
+    policyInstruments: ["\u014Ctorohanga District Plan"],
+    monitoringRows: [
+      {
+        phase: "During earthworks",
+        focus: "Marae and urup\u0101 access during works",
+        role: "Confirm access routes and quiet periods with marae committees",
+        frequency: "Weekly",
+      },
+    ],
+    frameworks: [],
+    anniversaryRegion: "auckland",
+    narrative: { planReference: "the \u014Ctorohanga District Plan", reportingTo: "\u014Ctorohanga District Council" },
+  },
+];
+
+export const DEFAULT_COUNCIL = COUNCIL_PROFILES[0].name;
+
+function genericProfile(name: string): CouncilProfile {
+  return {
+    id: "custom",
+    name,
+    icmps: [],
+    icmpFallback: `${name} ICMP (area to confirm)`,
+    policyInstruments: ["District Plan"],
+    monitoringRows: [],
+    frameworks: [],
+    anniversaryRegion: null,
+    narrative: { planReference: "the relevant District Plan", reportingTo: name || "Council" },
+  };
+}
+
+export function councilProfile(name: string): CouncilProfile {
+  return COUNCIL_PROFILES.find((p) => p.name === name) ?? genericProfile(name);
+}
+
+// Working days as the RMA counts them in this council's region
+export function workingDayOptions(profile: CouncilProfile): WorkingDayOptions {
+  return { region: profile.anniversaryRegion, excludeChristmasBreak: true };
+}
+
+export function defaultFrameworks(profile: CouncilProfile): string[] {
+  return profile.frameworks.filter((f) => f.defaultEnabled).map((f) => f.id);
+}
+
+// Framework instruments (when enabled) first, then the council's own plans
+export function policyInstruments(profile: CouncilProfile, enabled: string[]): string[] {
+  return [...profile.frameworks.filter((f) => enabled.includes(f.id)).map((f) => f.policyInstrument), ...profile.policyInstruments];
+}
+
+// ---------------------------------------------------------------------------------
+// ICMP inference from free-text location
+
+export function inferICMPMatches(location: string, profile: CouncilProfile): string[] {
+  const loc = normalizeForMatch(location);
+  const matches = profile.icmps.filter((area) => area.patterns.some((p) => p.test(loc))).map((a) => a.name);
+  return matches.length ? matches : [profile.icmpFallback];
+}
+
+export function inferICMP(location: string, profile: CouncilProfile): string {
+  return inferICMPMatches(location, profile)[0];
+}
@@ -0,0 +1,117 @@
+import { CATEGORIES, type Finding } from "./model";
+import { metricInfo, parseThreshold, type Condition, type Metric } from "./thresholds";
+import { baselineFor, evaluateExceedances, monitoringSites, thresholdLevel, type ExceedanceEvent, type MonitoringData, type MonitoringReading } from "./exceedance";
+
+// ---------------------------------------------------------------------------------
+// Mauri indicator dashboard: a traffic light per category from the readings of
+// the last week, for the weekly kaitiaki / compliance review
+
+export type TrafficLight = "red" | "amber" | "green" | "grey";
+
+export type CategoryStatus = {
+  category: string;
+  light: TrafficLight;
+  summary: string;
+  events: ExceedanceEvent[]; // in the recent window
+};
+
+export const RECENT_WINDOW_DAYS = 7;
+export const APPROACH_MARGIN = 0.2; // within 20% of a trigger level is amber
+
+const DAY_MS = 86400000;
+
+// A site view keeps the catchment rain gauge (readings without a site)
+export function readingsForSite(readings: MonitoringReading[], site: string | null): MonitoringReading[] {
+  return site ? readings.filter((r) => r.site === site || r.site === "") : readings;
+}
+
+export function filterBySite(data: MonitoringData, site: string | null): MonitoringData {
+  return { ...data, readings: readingsForSite(data.readings, site) };
+}
+
+function latestTime(readings: MonitoringReading[]): number | null {
+  return readings.reduce<number | null>((max, r) => Math.max(max ?? -Infinity, Date.parse(r.time)), null);
+}
+
+// How close the latest value is to the trigger, as a fraction of the level (0 = at it)
+function headroom(c: Condition, value: number, level: number): number {
+  if (level === 0) return Infinity;
+  return c.comparison.startsWith(">") ? (level - value) / Math.abs(level) : (value - level) / Math.abs(level);
+}
+
+function approaching(conditions: Condition[], data: MonitoringData): string | null {
+  const sites = monitoringSites(data.readings);
+  for (const site of sites.length ? sites : [""]) {
+    const readings = sites.length ? data.readings.filter((r) => r.site === site) : data.readings;
+    // rainfall is a condition on the event, not an indicator of harm
+    for (const c of conditions.filter((x) => x.metric !== "rainfall")) {
+      const latest = [...readings].reverse().find((r) => r.values[c.metric] !== undefined);
+      const level = thresholdLevel(c, c.value.kind === "baseline" ? baselineFor(readings, c.metric, data.baselineUntil) : null);
+      if (!latest || level === null) continue;
+      const room = headroom(c, latest.values[c.metric] as number, level);
+      if (room >= 0 && room <= APPROACH_MARGIN) return `${site ? `${site}: ` : ""}${metricInfo(c.metric).label} within ${Math.round(room * 100)}% of its trigger`;
+    }
+  }
+  return null;
+}
+
+// The window ends now, not at the newest reading, so stale data never shows green
+export function categoryStatuses(findings: Finding[], data: MonitoringData, now: Date = new Date()): CategoryStatus[] {
+  const { events } = evaluateExceedances(findings, data);
+  const latest = latestTime(data.readings);
+  const since = now.getTime() - RECENT_WINDOW_DAYS * DAY_MS;
+  const measured = new Set<Metric>(data.readings.flatMap((r) => Object.keys(r.values) as Metric[]));
+
+  return CATEGORIES.map((category) => {
+    const inCategory = findings.filter((f) => f.category === category);
+    if (!inCategory.length) return { category, light: "grey", summary: "No findings", events: [] };
+    const conditions = inCategory.flatMap((f) => f.triggers.thresholds.map(parseThreshold)).flatMap((p) => (p.ok ? p.rule.conditions : []));
+    if (!conditions.length) return { category, light: "grey", summary: "No measurable thresholds - site observation only", events: [] };
+    if (!conditions.some((c) => measured.has(c.metric))) return { category, light: "grey", summary: "No readings for this category's metrics", events: [] };
+    if (latest === null || latest < since) return { category, light: "grey", summary: `No readings in the last ${RECENT_WINDOW_DAYS} days`, events: [] };
+
+    const recent = events.filter((e) => e.category === category && Date.parse(e.end) >= since);
+    if (recent.length) {
+      const sites = Array.from(new Set(recent.map((e) => e.site).filter(Boolean)));
+      return {
+        category,
+        light: "red",
+        summary: `${recent.length} exceedance(s) in the last ${RECENT_WINDOW_DAYS} days${sites.length ? ` at ${sites.join(", ")}` : ""}`,
+        events: recent,
+      };
+    }
+    const near = approaching(conditions, data);
+    if (near) return { category, light: "amber", summary: near, events: [] };
+    return { category, light: "green", summary: `Within triggers for the last ${RECENT_WINDOW_DAYS} days`, events: [] };
+  });
+}
+
+// ---------------------------------------------------------------------------------
+// Chart inputs: trigger levels per metric and site
+
+export type ThresholdLine = { metric: Metric; site: string; level: number; comparison: Condition["comparison"]; source: string };
+
+export function thresholdLines(findings: Finding[], data: MonitoringData, metric: Metric): ThresholdLine[] {
+  const sites = monitoringSites(data.readings);
+  const lines: ThresholdLine[] = [];
+  const seen = new Set<string>();
+  for (const f of findings) {
+    for (const text of f.triggers.thresholds) {
+      const parsed = parseThreshold(text);
+      if (!parsed.ok) continue;
+      for (const c of parsed.rule.conditions.filter((x) => x.metric === metric)) {
+        // absolute levels are the same everywhere; baseline-relative ones differ by site
+        const targets = c.value.kind === "absolute" ? [""] : sites.length ? sites : [""];
+        for (const site of targets) {
+          const readings = site ? data.readings.filter((r) => r.site === site) : data.readings;
+          const level = thresholdLevel(c, c.value.kind === "baseline" ? baselineFor(readings, metric, data.baselineUntil) : null);
+          const key = `${site}|${c.comparison}|${level}`;
+          if (level === null || seen.has(key)) continue;
+          seen.add(key);
+          lines.push({ metric, site, level, comparison: c.comparison, source: text });
+        }
+      }
+    }
+  }
+  return lines;
+}
@@ -0,0 +1,149 @@
+import {
+  AlignmentType,
+  Document as DocxDocument,
+  Footer,
+  Header,
+  HeadingLevel,
+  ImageRun,
+  LevelFormat,
+  PageBreak,
+  PageNumber,
+  Paragraph,
+  Table,
+  TableCell,
+  TableOfContents,
+  TableRow,
+  TextRun,
+  WidthType,
+  type FileChild,
+} from "docx";
+import { dataUrlImageType, docxImageSize, type FigureItem } from "./figures";
+import { parseNarrative, splitTitle, type InlineRun } from "./markdown";
+
+// ---------------------------------------------------------------------------------
+// Narrative markdown -> DOCX paragraphs
+
+const NUMBERED_LIST = "cia-numbered";
+const HEADINGS = [HeadingLevel.HEADING_1, HeadingLevel.HEADING_2, HeadingLevel.HEADING_3];
+
+export function inlineRuns(runs: InlineRun[]): TextRun[] {
+  return runs.map((r) => (r.note ? new TextRun({ text: r.text, superScript: true }) : new TextRun({ text: r.text, bold: r.bold })));
+}
+
+function tableCellOf(text: string, bold: boolean): TableCell {
+  return new TableCell({ children: [new Paragraph({ children: [new TextRun({ text, bold, size: 18 })] })] });
+}
+
+export function markdownToDocx(body: string): FileChild[] {
+  return parseNarrative(body).map((block) => {
+    if (block.kind === "table") {
+      const rows = block.rows.map((r) => new TableRow({ children: r.map((c) => tableCellOf(c, false)) }));
+      if (block.header) rows.unshift(new TableRow({ tableHeader: true, children: block.header.map((c) => tableCellOf(c, true)) }));
+      return new Table({ width: { size: 100, type: WidthType.PERCENTAGE }, rows });
+    }
+    const children = inlineRuns(block.runs);
+    switch (block.kind) {
+      case "heading":
+        return new Paragraph({ heading: HEADINGS[block.level - 1], children });
+      case "bullet":
+        return new Paragraph({ bullet: { level: block.level }, children });
+      case "numbered":
+        return new Paragraph({ numbering: { reference: NUMBERED_LIST, level: 0, instance: block.list }, children });
+      default:
+        return new Paragraph({ children });
+    }
+  });
+}
+
+// ---------------------------------------------------------------------------------
+// Document shell: cover page, table of contents, header/footer with page numbers
+
+export type NarrativeDocOptions = {
+  title: string;
+  projectName: string;
+  subtitle?: string;
+  body: string;
+  figures: FigureItem[];
+  contents?: boolean; // table of contents page, on unless set false (short summaries skip it)
+};
+
+export function figureParagraphs(figures: FigureItem[]): Paragraph[] {
+  return figures.flatMap((f) => {
+    const base64 = f.dataUrl.split(",")[1] || "";
+    const buf = Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+    return [
+      new Paragraph({ text: f.caption, heading: HeadingLevel.HEADING_3 }),
+      new Paragraph({ children: [new ImageRun({ type: dataUrlImageType(f.dataUrl), data: buf, transformation: docxImageSize(f.width, f.height) })] }),
+      ...(f.sourceFileName ? [new Paragraph({ text: `Source: ${f.sourceFileName}, p. ${f.page ?? 1}` })] : []),
+    ];
+  });
+}
+
+export function coverPage(title: string, projectName: string, subtitle?: string): Paragraph[] {
+  const date = new Date().toLocaleDateString("en-NZ", { day: "numeric", month: "long", year: "numeric" });
+  return [
+    new Paragraph({ text: "", spacing: { before: 3000 } }),
+    new Paragraph({ text: title, heading: HeadingLevel.TITLE, alignment: AlignmentType.CENTER }),
+    new Paragraph({ alignment: AlignmentType.CENTER, spacing: { before: 400 }, children: [new TextRun({ text: projectName, size: 32 })] }),
+    ...(subtitle ? [new Paragraph({ alignment: AlignmentType.CENTER, children: [new TextRun({ text: subtitle, italics: true })] })] : []),
+    new Paragraph({ alignment: AlignmentType.CENTER, spacing: { before: 400 }, children: [new TextRun({ text: date })] }),
+  ];
+}
+
+export function pageHeader(projectName: string, title: string): Header {
+  return new Header({
+    children: [new Paragraph({ alignment: AlignmentType.RIGHT, children: [new TextRun({ text: `${projectName} - ${title}`, size: 16, color: "666666" })] })],
+  });
+}
+
+export function pageFooter(): Footer {
+  return new Footer({
+    children: [
+      new Paragraph({
+        alignment: AlignmentType.CENTER,
+        children: [new TextRun({ children: ["Page ", PageNumber.CURRENT, " of ", PageNumber.TOTAL_PAGES], size: 16 })],
+      }),
+    ],
+  });
+}
+
+export const numberingConfig = {
+  config: [
+    {
+      reference: NUMBERED_LIST,
+      levels: [{ level: 0, format: LevelFormat.DECIMAL, text: "%1.", alignment: AlignmentType.START, style: { paragraph: { indent: { left: 720, hanging: 360 } } } }],
+    },
+  ],
+};
+
+export function buildNarrativeDocument({ title, projectName, subtitle, body, figures, contents = true }: NarrativeDocOptions): DocxDocument {
+  const { title: bodyTitle, rest } = splitTitle(body);
+  const displayTitle = bodyTitle ?? title;
+  const main: FileChild[] = [...markdownToDocx(rest)];
+  if (figures.length) {
+    main.push(new Paragraph({ text: "Selected Figures (Inline)", heading: HeadingLevel.HEADING_2 }), ...figureParagraphs(figures));
+  }
+
+  return new DocxDocument({
+    title: displayTitle,
+    features: { updateFields: true }, // Word refreshes the TOC and page count on open
+    numbering: numberingConfig,
+    sections: [
+      { properties: { titlePage: true }, children: coverPage(displayTitle, projectName, subtitle) },
+      {
+        headers: { default: pageHeader(projectName, displayTitle) },
+        footers: { default: pageFooter() },
+        children: [
+          ...(contents
+            ? [
+                new Paragraph({ text: "Contents", heading: HeadingLevel.HEADING_1 }),
+                new TableOfContents("Contents", { hyperlink: true, headingStyleRange: "1-3" }),
+                new Paragraph({ children: [new PageBreak()] }),
+              ]
+            : []),
+          ...main,
+        ],
+      },
+    ],
+  });
+}
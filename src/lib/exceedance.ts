@@ -0,0 +1,306 @@
+import type { Finding } from "./model";
+import { splitCsvLine } from "./siteLayers";
+import { METRICS, metricInfo, parseThreshold, type Comparison, type Condition, type Metric, type ParsedThreshold, type ThresholdRule } from "./thresholds";
+
+// ---------------------------------------------------------------------------------
+// Monitoring time series (NTU, TSS, clarity, rainfall) and the exceedance events
+// found by checking them against the parsed trigger thresholds of each finding
+
+export type MonitoringReading = {
+  time: string; // ISO timestamp
+  site: string; // monitoring station; blank for a catchment rain gauge
+  values: Partial<Record<Metric, number>>;
+};
+
+export type MonitoringData = {
+  readings: MonitoringReading[];
+  sources: string[]; // imported file names
+  baselineUntil: string | null; // ISO date; readings before it form the baseline
+};
+
+export const EMPTY_MONITORING_DATA: MonitoringData = { readings: [], sources: [], baselineUntil: null };
+
+export const DEFAULT_BASELINE_DAYS = 28; // used when no baseline end date is set
+export const FINE_WEATHER_MM_HR = 0.5; // no reading above this in the previous day
+export const FINE_WEATHER_LOOKBACK_H = 24;
+export const MAX_READING_AGE_H = 1; // a value stands for this long after it was read
+
+const HOUR_MS = 3600000;
+
+// ---------------------------------------------------------------------------------
+// CSV import: one row per reading, a timestamp (or date + time), an optional site
+// and any of the metric columns
+
+function header(cell: string): string {
+  return cell.toLowerCase().replace(/\(.*?\)/g, "").replace(/[\s_-]+/g, " ").trim();
+}
+
+function metricColumn(name: string): Metric | null {
+  const h = name.replace(/\b(ntu|mg\/l|mm\/hr|mm|m)$/, "").trim() || name;
+  return METRICS.find((m) => m.aliases.includes(h) || m.id === h)?.id ?? null;
+}
+
+// Accepts ISO timestamps and NZ day-first dates ("14/03/2025 13:30")
+export function parseTimestamp(text: string): Date | null {
+  const t = text.trim();
+  const nz = t.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/);
+  if (nz) {
+    const [, d, mo, y, h = "0", mi = "0", s = "0"] = nz;
+    const date = new Date(Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s));
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+  const date = new Date(t);
+  return t && !Number.isNaN(date.getTime()) ? date : null;
+}
+
+export function parseMonitoringCsv(text: string): { readings: MonitoringReading[]; skipped: number } {
+  const lines = text.split(/\r?\n/).filter((l) => l.trim());
+  if (lines.length < 2) throw new Error("CSV has no data rows");
+  const cols = splitCsvLine(lines[0]).map(header);
+  const timeCol = cols.findIndex((c) => ["timestamp", "datetime", "date time", "time stamp", "reading time"].includes(c));
+  const dateCol = cols.indexOf("date");
+  const clockCol = cols.indexOf("time");
+  const siteCol = cols.findIndex((c) => ["site", "station", "site id", "location", "monitoring site"].includes(c));
+  const metricCols = cols.map((c, i) => ({ metric: metricColumn(c), i })).filter((x): x is { metric: Metric; i: number } => x.metric !== null);
+  if (timeCol < 0 && dateCol < 0) throw new Error("CSV needs a timestamp (or date and time) column");
+  if (!metricCols.length) throw new Error("CSV needs at least one of NTU, TSS, clarity or rainfall");
+
+  const readings: MonitoringReading[] = [];
+  let skipped = 0;
+  for (const line of lines.slice(1)) {
+    const cells = splitCsvLine(line);
+    const stamp = timeCol >= 0 ? cells[timeCol] : `${cells[dateCol] ?? ""} ${clockCol >= 0 ? cells[clockCol] ?? "" : ""}`;
+    const time = parseTimestamp(stamp ?? "");
+    const values: Partial<Record<Metric, number>> = {};
+    for (const { metric, i } of metricCols) {
+      const v = cells[i] === undefined || cells[i] === "" ? NaN : Number(cells[i]);
+      if (Number.isFinite(v)) values[metric] = v;
+    }
+    if (!time || !Object.keys(values).length) {
+      skipped++;
+      continue;
+    }
+    readings.push({ time: time.toISOString(), site: siteCol >= 0 ? cells[siteCol] ?? "" : "", values });
+  }
+  return { readings, skipped };
+}
+
+// Newer imports win where the same site and time appear twice
+export function mergeReadings(existing: MonitoringReading[], incoming: MonitoringReading[]): MonitoringReading[] {
+  const byKey = new Map(existing.map((r) => [`${r.site}|${r.time}`, r]));
+  for (const r of incoming) {
+    const key = `${r.site}|${r.time}`;
+    const prev = byKey.get(key);
+    byKey.set(key, prev ? { ...r, values: { ...prev.values, ...r.values } } : r);
+  }
+  return Array.from(byKey.values()).sort((a, b) => a.time.localeCompare(b.time) || a.site.localeCompare(b.site));
+}
+
+export function monitoringSites(readings: MonitoringReading[]): string[] {
+  return Array.from(new Set(readings.map((r) => r.site).filter(Boolean))).sort();
+}
+
+// ---------------------------------------------------------------------------------
+// Series and baselines
+
+type Point = { t: number; v: number };
+
+function series(readings: MonitoringReading[], metric: Metric): Point[] {
+  return readings
+    .filter((r) => r.values[metric] !== undefined)
+    .map((r) => ({ t: Date.parse(r.time), v: r.values[metric] as number }))
+    .sort((a, b) => a.t - b.t);
+}
+
+function median(values: number[]): number | null {
+  if (!values.length) return null;
+  const s = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(s.length / 2);
+  return s.length % 2 ? s[mid] : (s[mid - 1] + s[mid]) / 2;
+}
+
+function baselineCutoff(points: Point[], baselineUntil: string | null): number | null {
+  if (baselineUntil) return Date.parse(baselineUntil);
+  return points.length ? points[0].t + DEFAULT_BASELINE_DAYS * 24 * HOUR_MS : null;
+}
+
+// Median of the readings before the cutoff
+export function baselineFor(readings: MonitoringReading[], metric: Metric, baselineUntil: string | null): number | null {
+  const points = series(readings, metric);
+  const cutoff = baselineCutoff(points, baselineUntil);
+  return cutoff === null ? null : median(points.filter((p) => p.t < cutoff).map((p) => p.v));
+}
+
+// Time span the baseline is drawn from, for charts
+export function baselinePeriod(readings: MonitoringReading[], metric: Metric, baselineUntil: string | null): { start: number; end: number } | null {
+  const points = series(readings, metric);
+  const cutoff = baselineCutoff(points, baselineUntil);
+  return cutoff === null || !points.length || points[0].t >= cutoff ? null : { start: points[0].t, end: Math.min(cutoff, points[points.length - 1].t) };
+}
+
+// Index of the last point at or before t (points are in time order), or -1
+function indexAt(points: Point[], t: number): number {
+  let lo = 0;
+  let hi = points.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (points[mid].t <= t) {
+      found = mid;
+      lo = mid + 1;
+    } else hi = mid - 1;
+  }
+  return found;
+}
+
+function valueAt(points: Point[], t: number): number | null {
+  const found = points[indexAt(points, t)];
+  return found && t - found.t <= MAX_READING_AGE_H * HOUR_MS ? found.v : null;
+}
+
+function wetWithin(rain: Point[], t: number): boolean {
+  for (let i = indexAt(rain, t); i >= 0 && rain[i].t > t - FINE_WEATHER_LOOKBACK_H * HOUR_MS; i--) {
+    if (rain[i].v > FINE_WEATHER_MM_HR) return true;
+  }
+  return false;
+}
+
+function compare(a: number, comparison: Comparison, b: number): boolean {
+  if (comparison === ">") return a > b;
+  if (comparison === ">=") return a >= b;
+  if (comparison === "<") return a < b;
+  return a <= b;
+}
+
+export function thresholdLevel(c: Condition, baseline: number | null): number | null {
+  if (c.value.kind === "absolute") return c.value.value;
+  if (baseline === null) return null;
+  return c.value.offsetType === "percent" ? baseline * (1 + c.value.offset / 100) : baseline + c.value.offset;
+}
+
+// ---------------------------------------------------------------------------------
+// Evaluation
+
+export type ExceedanceEvent = {
+  id: string;
+  findingId: string;
+  category: string;
+  threshold: string;
+  site: string;
+  start: string;
+  end: string;
+  durationH: number;
+  peak: { metric: Metric; value: number; level: number };
+  actions: string[];
+};
+
+export type FindingRules = { finding: Finding; parsed: ParsedThreshold[] };
+
+export type Evaluation = { events: ExceedanceEvent[]; notes: string[] };
+
+export function findingRules(findings: Finding[]): FindingRules[] {
+  return findings.map((finding) => ({ finding, parsed: finding.triggers.thresholds.map(parseThreshold) }));
+}
+
+type SiteContext = {
+  site: string;
+  readings: MonitoringReading[];
+  rain: Point[]; // the site's own gauge, else every rain reading
+  baselineUntil: string | null;
+};
+
+type Trace = { held: boolean[]; since: number[]; level: number | null; note?: string };
+
+// Per reading time: does the condition hold, counting its duration window, and
+// since when has it held (the start of the exceedance, not of the trigger)
+function conditionTrace(c: Condition, times: number[], ctx: SiteContext): Trace {
+  const points = c.metric === "rainfall" ? ctx.rain : series(ctx.readings, c.metric);
+  const label = metricInfo(c.metric).label.toLowerCase();
+  const none = { held: times.map(() => false), since: times, level: null };
+  if (!points.length) return { ...none, note: `no ${label} readings` };
+  const baseline = c.value.kind === "baseline" ? baselineFor(ctx.readings, c.metric, ctx.baselineUntil) : null;
+  const level = thresholdLevel(c, baseline);
+  if (level === null) return { ...none, note: `no ${label} baseline readings` };
+  const cutoff = c.value.kind === "baseline" ? baselineCutoff(points, ctx.baselineUntil) : null;
+
+  let runStart: number | null = null;
+  const since: number[] = [];
+  const held = times.map((t) => {
+    const v = valueAt(points, t);
+    let ok = v !== null && compare(v, c.comparison, level) && (cutoff === null || t >= cutoff);
+    if (ok && c.weather && ctx.rain.length) {
+      ok = c.weather === "fine" ? !wetWithin(ctx.rain, t) : wetWithin(ctx.rain, t);
+    }
+    runStart = ok ? runStart ?? t : null;
+    since.push(runStart ?? t);
+    if (!ok || !c.duration || runStart === null) return ok;
+    return compare((t - runStart) / HOUR_MS, c.duration.comparison, c.duration.hours);
+  });
+  const note = c.weather && !ctx.rain.length ? `no rainfall readings, so "${c.weather} weather" was not checked` : undefined;
+  return { held, since, level, note };
+}
+
+function evaluateRule(rule: ThresholdRule, finding: Finding, ctx: SiteContext, notes: Set<string>): ExceedanceEvent[] {
+  const times = Array.from(new Set(ctx.readings.map((r) => Date.parse(r.time)))).sort((a, b) => a - b);
+  const traces = rule.conditions.map((c) => conditionTrace(c, times, ctx));
+  traces.forEach((tr) => tr.note && notes.add(`${ctx.site || "All sites"} - "${rule.source}": ${tr.note}`));
+
+  // The peak is reported on the receiving-water metric where a rule also tests rainfall
+  const primary = Math.max(0, rule.conditions.findIndex((c) => c.metric !== "rainfall"));
+  const pc = rule.conditions[primary];
+  const points = pc.metric === "rainfall" ? ctx.rain : series(ctx.readings, pc.metric);
+  const worse = pc.comparison.startsWith("<") ? Math.min : Math.max;
+
+  const events: ExceedanceEvent[] = [];
+  let open: { start: number; end: number } | null = null;
+  const close = () => {
+    if (!open) return;
+    const { start, end } = open;
+    const during = points.filter((p) => p.t >= start && p.t <= end).map((p) => p.v);
+    events.push({
+      id: `${finding.id}-${rule.source}-${ctx.site}-${start}`,
+      findingId: finding.id,
+      category: finding.category,
+      threshold: rule.source,
+      site: ctx.site,
+      start: new Date(start).toISOString(),
+      end: new Date(end).toISOString(),
+      durationH: Math.round(((end - start) / HOUR_MS) * 10) / 10,
+      peak: { metric: pc.metric, value: during.length ? during.reduce((m, v) => worse(m, v)) : NaN, level: traces[primary].level ?? 0 },
+      actions: finding.triggers.actions,
+    });
+    open = null;
+  };
+
+  times.forEach((t, i) => {
+    const hit = rule.match === "all" ? traces.every((tr) => tr.held[i]) : traces.some((tr) => tr.held[i]);
+    if (!hit) return close();
+    // an all-of event starts when the last of its conditions began to hold
+    const start = rule.match === "all" ? Math.max(...traces.map((tr) => tr.since[i])) : Math.min(...traces.filter((tr) => tr.held[i]).map((tr) => tr.since[i]));
+    open = open ? { ...open, end: t } : { start, end: t };
+  });
+  close();
+  return events;
+}
+
+export function evaluateExceedances(findings: Finding[], data: MonitoringData): Evaluation {
+  const notes = new Set<string>();
+  const events: ExceedanceEvent[] = [];
+  if (!data.readings.length) return { events, notes: [] };
+  const sites = monitoringSites(data.readings);
+  const allRain = series(data.readings, "rainfall");
+  const contexts: SiteContext[] = (sites.length ? sites : [""]).map((site) => {
+    const readings = sites.length ? data.readings.filter((r) => r.site === site) : data.readings;
+    const own = series(readings, "rainfall");
+    return { site, readings, rain: own.length ? own : allRain, baselineUntil: data.baselineUntil };
+  });
+
+  for (const { finding, parsed } of findingRules(findings)) {
+    for (const p of parsed) {
+      if (!p.ok) continue;
+      for (const ctx of contexts) events.push(...evaluateRule(p.rule, finding, ctx, notes));
+    }
+  }
+  events.sort((a, b) => a.start.localeCompare(b.start));
+  return { events, notes: Array.from(notes) };
+}
@@ -0,0 +1,140 @@
+import type { FigureItem } from "./figures";
+import { listQueuedFieldEntries, removeQueuedFieldEntry } from "./storage";
+
+// ---------------------------------------------------------------------------------
+// Cultural monitor field log: observations recorded on site go straight into the
+// project and, when a sync server is configured, into an offline outbox that
+// pushes them to it once it is reachable. The server only marks entries synced and shares them with
+// the project's other devices.
+
+export type FieldWeather = "fine" | "overcast" | "light-rain" | "heavy-rain" | "storm" | "wind";
+
+export const FIELD_WEATHER: { id: FieldWeather; label: string }[] = [
+  { id: "fine", label: "Fine" },
+  { id: "overcast", label: "Overcast" },
+  { id: "light-rain", label: "Light rain" },
+  { id: "heavy-rain", label: "Heavy rain" },
+  { id: "storm", label: "Storm event" },
+  { id: "wind", label: "Strong wind" },
+];
+
+export type FieldPhoto = {
+  id: string;
+  dataUrl: string; // downscaled JPEG
+  width: number;
+  height: number;
+  caption: string;
+};
+
+export type FieldPosition = { lat: number; lng: number; accuracyM: number | null };
+
+export type FieldLogEntry = {
+  id: string;
+  projectId: string;
+  observedAt: string; // ISO timestamp of the observation
+  category: string;
+  monitoringRow: string; // "phase - focus" of the monitoring programme row
+  notes: string;
+  photos: FieldPhoto[];
+  position: FieldPosition | null;
+  weather: FieldWeather;
+  stopWork: boolean;
+  author: string;
+  syncedAt: string | null; // set once the sync server has accepted the entry; null while only on this device
+};
+
+export function newFieldId(prefix: string): string {
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function weatherLabel(weather: FieldWeather): string {
+  return FIELD_WEATHER.find((w) => w.id === weather)?.label ?? weather;
+}
+
+// Latest copy of each entry wins; newest observations first
+export function mergeFieldEntries(...lists: FieldLogEntry[][]): FieldLogEntry[] {
+  const byId = new Map<string, FieldLogEntry>();
+  for (const entry of lists.flat()) {
+    const prev = byId.get(entry.id);
+    if (!prev || (entry.syncedAt && !prev.syncedAt)) byId.set(entry.id, entry);
+  }
+  return Array.from(byId.values()).sort((a, b) => b.observedAt.localeCompare(a.observedAt));
+}
+
+// ---------------------------------------------------------------------------------
+// Photos into the figure gallery
+
+export function photoFigureId(photo: FieldPhoto): string {
+  return `field-${photo.id}`;
+}
+
+export function photoToFigure(entry: FieldLogEntry, photo: FieldPhoto): FigureItem {
+  const when = new Date(entry.observedAt).toLocaleDateString("en-NZ", { day: "numeric", month: "short", year: "numeric" });
+  const about = photo.caption || entry.notes.split(/[.\n]/)[0].slice(0, 80) || entry.monitoringRow;
+  return {
+    id: photoFigureId(photo),
+    caption: `Field photo (${entry.category}, ${when}): ${about}`,
+    dataUrl: photo.dataUrl,
+    width: photo.width,
+    height: photo.height,
+    selected: true,
+    sourceFileName: "Cultural monitor field log",
+  };
+}
+
+// ---------------------------------------------------------------------------------
+// Sync with the field log server (server/fieldSyncServer.mjs stands in for it in
+// development). Builds without VITE_FIELD_SYNC_URL have no server and keep the
+// log in the project alone.
+
+export const FIELD_SYNC_URL: string | null = import.meta.env.VITE_FIELD_SYNC_URL ?? (import.meta.env.DEV ? "http://localhost:8787" : null);
+
+function entriesUrl(projectId: string): string {
+  return `${FIELD_SYNC_URL}/api/projects/${encodeURIComponent(projectId)}/field-log`;
+}
+
+export async function pushFieldEntry(entry: FieldLogEntry): Promise<FieldLogEntry> {
+  const res = await fetch(entriesUrl(entry.projectId), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(entry),
+  });
+  if (!res.ok) throw new Error(`Sync server answered ${res.status}`);
+  return (await res.json()) as FieldLogEntry;
+}
+
+export async function pullFieldEntries(projectId: string): Promise<FieldLogEntry[]> {
+  const res = await fetch(entriesUrl(projectId));
+  if (!res.ok) throw new Error(`Sync server answered ${res.status}`);
+  return (await res.json()) as FieldLogEntry[];
+}
+
+export type SyncResult = {
+  synced: FieldLogEntry[]; // accepted now or already held by the server
+  pending: FieldLogEntry[]; // still queued on this device
+  error: string | null;
+};
+
+// Pushes the outbox, then pulls every entry the server holds for the project
+// (including those logged from other devices). Never rejects: failures come
+// back as the error, with whatever is still queued.
+export async function syncFieldLog(projectId: string): Promise<SyncResult> {
+  let queued: FieldLogEntry[] = [];
+  const accepted: FieldLogEntry[] = [];
+  try {
+    queued = await listQueuedFieldEntries(projectId);
+    if (!FIELD_SYNC_URL) return { synced: [], pending: queued, error: null };
+    for (const entry of queued) {
+      accepted.push(await pushFieldEntry(entry));
+      await removeQueuedFieldEntry(entry.id);
+    }
+    const remote = await pullFieldEntries(projectId);
+    return { synced: mergeFieldEntries(accepted, remote), pending: [], error: null };
+  } catch (e) {
+    return {
+      synced: accepted,
+      pending: queued.filter((q) => !accepted.some((a) => a.id === q.id)),
+      error: `Sync failed, entries stay on this device: ${e instanceof Error ? e.message : String(e)}`,
+    };
+  }
+}
@@ -0,0 +1,160 @@
+// ---------------------------------------------------------------------------------
+// Figure extraction helpers: thumbnails, caption detection, gallery numbering
+
+export type ExtractedFigure = {
+  caption: string;
+  dataUrl: string;
+  width: number;
+  height: number;
+  page: number;
+};
+
+export type FigureItem = {
+  id: string;
+  caption: string;
+  dataUrl: string;
+  width: number;
+  height: number;
+  selected: boolean;
+  sourceDocumentId?: string;
+  sourceFileName?: string;
+  page?: number;
+};
+
+const THUMBNAIL_MAX_SIDE = 1200;
+const MIN_FIGURE_SIDE = 64; // smaller images are logos, bullets and rules
+
+export const CAPTION_PATTERN = /^(figure|fig\.?|plate|map|photo(graph)?)\s*\d+[a-z]?\s*[:.-]?\s*/i;
+
+export function isFigureSizeUsable(width: number, height: number): boolean {
+  return width >= MIN_FIGURE_SIDE && height >= MIN_FIGURE_SIDE;
+}
+
+function fitWithin(width: number, height: number, maxSide: number): { width: number; height: number } {
+  const scale = Math.min(1, maxSide / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+export function canvasThumbnail(source: CanvasImageSource, width: number, height: number): { dataUrl: string; width: number; height: number } {
+  const size = fitWithin(width, height, THUMBNAIL_MAX_SIDE);
+  const canvas = document.createElement("canvas");
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, size.width, size.height);
+  ctx.drawImage(source, 0, 0, size.width, size.height);
+  return { dataUrl: canvas.toDataURL("image/jpeg", 0.85), ...size };
+}
+
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Image could not be decoded"));
+    img.src = src;
+  });
+}
+
+// pdf.js hands back either an ImageBitmap or raw pixels (kind 1 = 1bpp grey, 2 = RGB, 3 = RGBA)
+export type PdfImageObject = {
+  width: number;
+  height: number;
+  bitmap?: ImageBitmap;
+  data?: Uint8ClampedArray | Uint8Array;
+  kind?: number;
+};
+
+export function pdfImageToCanvas(img: PdfImageObject): HTMLCanvasElement {
+  const canvas = document.createElement("canvas");
+  canvas.width = img.width;
+  canvas.height = img.height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  if (img.bitmap) {
+    ctx.drawImage(img.bitmap, 0, 0);
+    return canvas;
+  }
+  if (!img.data) throw new Error("Image has no pixel data");
+  const rgba = new Uint8ClampedArray(img.width * img.height * 4);
+  const src = img.data;
+  if (img.kind === 3) {
+    rgba.set(src.subarray(0, rgba.length));
+  } else if (img.kind === 2) {
+    for (let i = 0, j = 0; j < rgba.length; i += 3, j += 4) {
+      rgba[j] = src[i];
+      rgba[j + 1] = src[i + 1];
+      rgba[j + 2] = src[i + 2];
+      rgba[j + 3] = 255;
+    }
+  } else {
+    // 1bpp rows are padded to whole bytes
+    const rowBytes = Math.ceil(img.width / 8);
+    for (let y = 0; y < img.height; y++) {
+      for (let x = 0; x < img.width; x++) {
+        const bit = (src[y * rowBytes + (x >> 3)] >> (7 - (x & 7))) & 1;
+        const j = (y * img.width + x) * 4;
+        rgba[j] = rgba[j + 1] = rgba[j + 2] = bit ? 255 : 0;
+        rgba[j + 3] = 255;
+      }
+    }
+  }
+  ctx.putImageData(new ImageData(rgba, img.width, img.height), 0, 0);
+  return canvas;
+}
+
+export function isCaption(text: string): boolean {
+  return CAPTION_PATTERN.test(text.trim()) && text.length < 300;
+}
+
+export function fallbackCaption(fileName: string, page: number): string {
+  return `Figure from ${fileName}, p. ${page}`;
+}
+
+// ---------------------------------------------------------------------------------
+// Gallery helpers
+
+export function figureFromExtract(fig: ExtractedFigure, doc: { id: string; fileName: string }, index: number): FigureItem {
+  return {
+    id: `${doc.id}-fig-${index + 1}`,
+    caption: fig.caption,
+    dataUrl: fig.dataUrl,
+    width: fig.width,
+    height: fig.height,
+    selected: false,
+    sourceDocumentId: doc.id,
+    sourceFileName: doc.fileName,
+    page: fig.page,
+  };
+}
+
+export function moveFigure(figures: FigureItem[], id: string, delta: number): FigureItem[] {
+  const from = figures.findIndex((f) => f.id === id);
+  const to = from + delta;
+  if (from < 0 || to < 0 || to >= figures.length) return figures;
+  const next = [...figures];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+}
+
+// Rewrites "Figure N:" prefixes to follow gallery order; un-prefixed captions gain one
+export function renumberFigures(figures: FigureItem[]): FigureItem[] {
+  return figures.map((f, i) => ({ ...f, caption: `Figure ${i + 1}: ${f.caption.replace(CAPTION_PATTERN, "").trim()}` }));
+}
+
+// Fits a figure into the DOCX page body while keeping its real aspect ratio
+export function docxImageSize(width: number, height: number, maxWidth = 600, maxHeight = 700): { width: number; height: number } {
+  if (!width || !height) return { width: maxWidth, height: Math.round(maxWidth * 0.66) };
+  const scale = Math.min(maxWidth / width, maxHeight / height, 1);
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+}
+
+export function dataUrlImageType(dataUrl: string): "png" | "jpg" | "gif" | "bmp" {
+  const mime = dataUrl.slice(5, dataUrl.indexOf(";")).toLowerCase();
+  if (mime === "image/png") return "png";
+  if (mime === "image/gif") return "gif";
+  if (mime === "image/bmp") return "bmp";
+  return "jpg";
+}
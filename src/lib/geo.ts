@@ -0,0 +1,223 @@
+// ---------------------------------------------------------------------------------
+// Minimal offline geometry: WGS84 lon/lat positions, polygons as GeoJSON rings.
+// Distances use a local equirectangular projection, which is accurate to well
+// under a metre at catchment scale.
+
+export type LngLat = [number, number]; // GeoJSON order: [longitude, latitude]
+export type Ring = LngLat[];
+export type PolygonRings = Ring[]; // outer ring first, then holes
+
+export type NamedArea = {
+  name: string;
+  polygons: PolygonRings[];
+};
+
+const EARTH_RADIUS_M = 6371008.8;
+
+// ---------------------------------------------------------------------------------
+// GeoJSON reading
+
+type Obj = Record<string, unknown>;
+
+function isObj(v: unknown): v is Obj {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function isPosition(v: unknown): v is LngLat {
+  return Array.isArray(v) && v.length >= 2 && typeof v[0] === "number" && typeof v[1] === "number";
+}
+
+function readRing(v: unknown): Ring | null {
+  if (!Array.isArray(v) || !v.every(isPosition)) return null;
+  return v.map((p) => [p[0], p[1]] as LngLat);
+}
+
+export function geometryPolygons(geometry: unknown): PolygonRings[] {
+  if (!isObj(geometry)) return [];
+  const coords = geometry.coordinates;
+  if (geometry.type === "Polygon" && Array.isArray(coords)) {
+    const rings = coords.map(readRing);
+    return rings.every(Boolean) && rings.length ? [rings as Ring[]] : [];
+  }
+  if (geometry.type === "MultiPolygon" && Array.isArray(coords)) {
+    return coords.flatMap((poly) => geometryPolygons({ type: "Polygon", coordinates: poly }));
+  }
+  if (geometry.type === "GeometryCollection" && Array.isArray(geometry.geometries)) {
+    return geometry.geometries.flatMap(geometryPolygons);
+  }
+  return [];
+}
+
+export function geoJsonFeatures(raw: unknown): { properties: Obj; geometry: unknown }[] {
+  if (!isObj(raw)) throw new Error("Not a GeoJSON object");
+  if (raw.type === "FeatureCollection" && Array.isArray(raw.features)) {
+    return raw.features.filter(isObj).map((f) => ({ properties: isObj(f.properties) ? f.properties : {}, geometry: f.geometry }));
+  }
+  if (raw.type === "Feature") return [{ properties: isObj(raw.properties) ? raw.properties : {}, geometry: raw.geometry }];
+  if (typeof raw.type === "string") return [{ properties: {}, geometry: raw }];
+  throw new Error("Not a GeoJSON object");
+}
+
+const NAME_KEYS = ["name", "Name", "NAME", "icmp", "ICMP", "catchment", "Catchment", "CATCHMENT", "label"];
+
+// One named area per distinct name; features sharing a name are merged
+export function parseAreasGeoJson(text: string, nameKey?: string): NamedArea[] {
+  const features = geoJsonFeatures(JSON.parse(text));
+  const byName = new Map<string, PolygonRings[]>();
+  features.forEach((f, i) => {
+    const polygons = geometryPolygons(f.geometry);
+    if (!polygons.length) return;
+    const key = nameKey ?? NAME_KEYS.find((k) => typeof f.properties[k] === "string" && f.properties[k]);
+    const name = key && typeof f.properties[key] === "string" ? (f.properties[key] as string).trim() : `Area ${i + 1}`;
+    byName.set(name, [...(byName.get(name) ?? []), ...polygons]);
+  });
+  if (!byName.size) throw new Error("No polygon features found");
+  return [...byName].map(([name, polygons]) => ({ name, polygons }));
+}
+
+// ---------------------------------------------------------------------------------
+// Coordinates typed by hand: "-37.78, 175.28" (lat, lng) or "175.28 -37.78" (lng lat)
+
+export function parseCoordinates(input: string): LngLat | null {
+  const nums = (input.match(/-?\d+(?:\.\d+)?/g) ?? []).map(Number);
+  if (nums.length !== 2) return null;
+  const [a, b] = nums;
+  if (Math.abs(a) <= 90 && Math.abs(b) <= 180 && Math.abs(b) > 90) return [b, a];
+  if (Math.abs(b) <= 90 && Math.abs(a) <= 180 && Math.abs(a) > 90) return [a, b];
+  if (Math.abs(a) <= 90 && Math.abs(b) <= 180) return [b, a]; // ambiguous: assume "lat, lng"
+  return null;
+}
+
+export function formatLngLat([lng, lat]: LngLat): string {
+  return `${lat.toFixed(5)}, ${lng.toFixed(5)}`;
+}
+
+// ---------------------------------------------------------------------------------
+// Predicates and measures
+
+function pointInRing([x, y]: LngLat, ring: Ring): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+export function pointInPolygon(point: LngLat, polygon: PolygonRings): boolean {
+  const [outer, ...holes] = polygon;
+  return !!outer && pointInRing(point, outer) && !holes.some((h) => pointInRing(point, h));
+}
+
+export function pointInArea(point: LngLat, area: NamedArea): boolean {
+  return area.polygons.some((p) => pointInPolygon(point, p));
+}
+
+// Project to metres around an origin so planar maths applies locally
+function toLocal(origin: LngLat, p: LngLat): [number, number] {
+  const rad = Math.PI / 180;
+  const x = (p[0] - origin[0]) * rad * EARTH_RADIUS_M * Math.cos(origin[1] * rad);
+  const y = (p[1] - origin[1]) * rad * EARTH_RADIUS_M;
+  return [x, y];
+}
+
+function segmentDistance(p: [number, number], a: [number, number], b: [number, number]): number {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const len2 = dx * dx + dy * dy;
+  const t = len2 ? Math.max(0, Math.min(1, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / len2)) : 0;
+  return Math.hypot(p[0] - (a[0] + t * dx), p[1] - (a[1] + t * dy));
+}
+
+export function distanceMetres(a: LngLat, b: LngLat): number {
+  const [x, y] = toLocal(a, b);
+  return Math.hypot(x, y);
+}
+
+// Distance from a point to the nearest edge of an area (0 on the boundary)
+export function distanceToBoundary(point: LngLat, area: NamedArea): number {
+  let best = Infinity;
+  for (const polygon of area.polygons) {
+    for (const ring of polygon) {
+      for (let i = 0; i < ring.length - 1; i++) {
+        best = Math.min(best, segmentDistance([0, 0], toLocal(point, ring[i]), toLocal(point, ring[i + 1])));
+      }
+    }
+  }
+  return best;
+}
+
+function segmentsCross(a: LngLat, b: LngLat, c: LngLat, d: LngLat): boolean {
+  const orient = (p: LngLat, q: LngLat, r: LngLat) => Math.sign((q[0] - p[0]) * (r[1] - p[1]) - (q[1] - p[1]) * (r[0] - p[0]));
+  return orient(a, b, c) !== orient(a, b, d) && orient(c, d, a) !== orient(c, d, b);
+}
+
+// True when a footprint ring and an area share any ground
+export function ringOverlapsArea(ring: Ring, area: NamedArea): boolean {
+  if (ring.some((p) => pointInArea(p, area))) return true;
+  const footprint: NamedArea = { name: "", polygons: [[ring]] };
+  for (const polygon of area.polygons) {
+    if (polygon[0]?.some((p) => pointInArea(p, footprint))) return true;
+    for (const edge of polygon) {
+      for (let i = 0; i < edge.length - 1; i++) {
+        for (let j = 0; j < ring.length - 1; j++) {
+          if (segmentsCross(edge[i], edge[i + 1], ring[j], ring[j + 1])) return true;
+        }
+      }
+    }
+  }
+  return false;
+}
+
+export function closeRing(ring: Ring): Ring {
+  if (ring.length < 3) return ring;
+  const [first, last] = [ring[0], ring[ring.length - 1]];
+  return first[0] === last[0] && first[1] === last[1] ? ring : [...ring, first];
+}
+
+export function ringCentroid(ring: Ring): LngLat {
+  const pts = ring.length > 1 && ring[0][0] === ring[ring.length - 1][0] && ring[0][1] === ring[ring.length - 1][1] ? ring.slice(0, -1) : ring;
+  const sum = pts.reduce((acc, p) => [acc[0] + p[0], acc[1] + p[1]], [0, 0]);
+  return [sum[0] / pts.length, sum[1] / pts.length];
+}
+
+// ---------------------------------------------------------------------------------
+// SVG view helpers shared by the offline map panels
+
+export type BBox = [number, number, number, number]; // minLng, minLat, maxLng, maxLat
+
+export function boundsOf(points: LngLat[], padRatio = 0.05): BBox | null {
+  if (!points.length) return null;
+  let [minX, minY, maxX, maxY] = [Infinity, Infinity, -Infinity, -Infinity];
+  for (const [x, y] of points) {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  }
+  const pad = Math.max(maxX - minX, maxY - minY, 0.002) * padRatio;
+  return [minX - pad, minY - pad, maxX + pad, maxY + pad];
+}
+
+export type ViewTransform = {
+  toSvg: (p: LngLat) => [number, number];
+  fromSvg: (x: number, y: number) => LngLat;
+};
+
+// Keeps the aspect ratio true at the view's latitude
+export function viewTransform(bbox: BBox, width: number, height: number): ViewTransform {
+  const [minX, minY, maxX, maxY] = bbox;
+  const k = Math.cos((((minY + maxY) / 2) * Math.PI) / 180);
+  const scale = Math.min(width / ((maxX - minX) * k || 1), height / (maxY - minY || 1));
+  const offX = (width - (maxX - minX) * k * scale) / 2;
+  const offY = (height - (maxY - minY) * scale) / 2;
+  return {
+    toSvg: ([x, y]) => [offX + (x - minX) * k * scale, height - offY - (y - minY) * scale],
+    fromSvg: (sx, sy) => [minX + (sx - offX) / (k * scale), minY + (height - offY - sy) / scale],
+  };
+}
+
+export function ringPath(ring: Ring, t: ViewTransform): string {
+  return ring.map((p, i) => `${i ? "L" : "M"}${t.toSvg(p).map((n) => n.toFixed(1)).join(",")}`).join(" ") + " Z";
+}
@@ -0,0 +1,78 @@
+import { distanceToBoundary, pointInArea, ringCentroid, ringOverlapsArea, type LngLat, type NamedArea, type Ring } from "./geo";
+
+// ---------------------------------------------------------------------------------
+// Spatial ICMP inference against locally loaded catchment boundaries. The regex
+// matcher in councils.ts stays the fallback when no boundary covers the site.
+
+export type SiteGeometry = {
+  point: LngLat | null;
+  footprint: Ring | null; // closed outer ring of the works footprint
+};
+
+export type IcmpConfidence = "high" | "medium" | "low";
+
+export type SpatialIcmpResult = {
+  method: "point" | "footprint";
+  matches: string[]; // ICMPs containing the point / overlapped by the footprint
+  confidence: IcmpConfidence;
+  boundaryDistanceM: number | null; // from the point (or footprint centroid) to the nearest catchment edge
+  neighbours: { name: string; distanceM: number }[]; // other catchments, nearest first
+};
+
+export const EDGE_BUFFER_M = 200; // closer than this to an edge is "medium" confidence
+export const NEAR_MISS_M = 500; // outside every catchment but this close: "low"
+
+export const EMPTY_SITE: SiteGeometry = { point: null, footprint: null };
+
+function neighboursOf(point: LngLat, areas: NamedArea[], exclude: string[]) {
+  return areas
+    .filter((a) => !exclude.includes(a.name))
+    .map((a) => ({ name: a.name, distanceM: Math.round(distanceToBoundary(point, a)) }))
+    .sort((a, b) => a.distanceM - b.distanceM);
+}
+
+export function inferIcmpAtPoint(point: LngLat, areas: NamedArea[]): SpatialIcmpResult {
+  const containing = areas.filter((a) => pointInArea(point, a));
+  if (containing.length) {
+    const edge = Math.round(Math.min(...containing.map((a) => distanceToBoundary(point, a))));
+    return {
+      method: "point",
+      matches: containing.map((a) => a.name),
+      // overlapping boundaries are a data problem, so never report those as certain
+      confidence: containing.length === 1 && edge >= EDGE_BUFFER_M ? "high" : "medium",
+      boundaryDistanceM: edge,
+      neighbours: neighboursOf(point, areas, containing.map((a) => a.name)),
+    };
+  }
+  const neighbours = neighboursOf(point, areas, []);
+  const nearest = neighbours[0];
+  return {
+    method: "point",
+    matches: nearest && nearest.distanceM <= NEAR_MISS_M ? [nearest.name] : [],
+    confidence: "low",
+    boundaryDistanceM: nearest ? nearest.distanceM : null,
+    neighbours,
+  };
+}
+
+export function inferIcmpForFootprint(ring: Ring, areas: NamedArea[]): SpatialIcmpResult {
+  const centroid = ringCentroid(ring);
+  const overlapping = areas.filter((a) => ringOverlapsArea(ring, a)).map((a) => a.name);
+  if (!overlapping.length) return { ...inferIcmpAtPoint(centroid, areas), method: "footprint" };
+  const atCentroid = inferIcmpAtPoint(centroid, areas.filter((a) => overlapping.includes(a.name)));
+  return {
+    method: "footprint",
+    matches: overlapping,
+    confidence: overlapping.length === 1 ? atCentroid.confidence : "medium",
+    boundaryDistanceM: atCentroid.boundaryDistanceM,
+    neighbours: neighboursOf(centroid, areas, overlapping),
+  };
+}
+
+// A footprint, when drawn, is more informative than a single point
+export function inferIcmpSpatial(site: SiteGeometry, areas: NamedArea[]): SpatialIcmpResult | null {
+  if (!areas.length) return null;
+  if (site.footprint && site.footprint.length >= 4) return inferIcmpForFootprint(site.footprint, areas);
+  if (site.point) return inferIcmpAtPoint(site.point, areas);
+  return null;
+}
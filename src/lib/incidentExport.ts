@@ -0,0 +1,97 @@
+import { Document as DocxDocument, HeadingLevel, Paragraph, Table, TableCell, TableRow, TextRun, WidthType } from "docx";
+import { coverPage, pageFooter, pageHeader } from "./docxRender";
+import { formatDeadline, incidentFindingText, isOverdue, kindLabel, type ChecklistItem, type Incident } from "./incidents";
+import type { Finding } from "./model";
+
+// ---------------------------------------------------------------------------------
+// Incident log exports for sharing with mana whenua and Council: a CSV with one
+// row per checklist step, and a DOCX log with one section per incident
+
+function formatWhen(iso: string | null): string {
+  return iso ? new Date(iso).toLocaleString("en-NZ", { dateStyle: "medium", timeStyle: "short" }) : "";
+}
+
+function stepStatus(item: ChecklistItem, now: Date): string {
+  if (item.doneAt) return `Done ${formatWhen(item.doneAt)}`;
+  return isOverdue(item, now) ? "OVERDUE" : "Open";
+}
+
+function csvCell(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function incidentLogCsv(incidents: Incident[], now: Date = new Date()): string {
+  const header = ["Incident", "Kind", "Category", "Opened", "Location", "Stop work", "Closed", "Step", "Source", "Deadline", "Due", "Status", "Note"];
+  const rows = incidents.flatMap((inc) => {
+    const base = [inc.title, kindLabel(inc.kind), inc.category, formatWhen(inc.openedAt), inc.location, inc.stopWork ? "Yes" : "No", formatWhen(inc.closedAt)];
+    if (!inc.checklist.length) return [[...base, "", "", "", "", "", ""]];
+    return inc.checklist.map((item) => [
+      ...base,
+      item.text,
+      item.source,
+      item.deadline ? formatDeadline(item.deadline) : "",
+      formatWhen(item.dueAt),
+      stepStatus(item, now),
+      item.note,
+    ]);
+  });
+  return [header, ...rows].map((r) => r.map(csvCell).join(",")).join("\n");
+}
+
+function cell(text: string, bold = false, color?: string): TableCell {
+  return new TableCell({ children: [new Paragraph({ children: [new TextRun({ text, bold, color })] })] });
+}
+
+function checklistTable(incident: Incident, now: Date): Table {
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [
+      new TableRow({ tableHeader: true, children: ["Step", "Deadline", "Due", "Status", "Note"].map((h) => cell(h, true)) }),
+      ...incident.checklist.map(
+        (item) =>
+          new TableRow({
+            children: [
+              cell(item.text),
+              cell(item.deadline ? formatDeadline(item.deadline) : "-"),
+              cell(formatWhen(item.dueAt) || "-"),
+              cell(stepStatus(item, now), isOverdue(item, now), isOverdue(item, now) ? "B91C1C" : undefined),
+              cell(item.note),
+            ],
+          })
+      ),
+    ],
+  });
+}
+
+export function buildIncidentLogDocument(incidents: Incident[], findings: Finding[], projectName: string, now: Date = new Date()): DocxDocument {
+  const title = "Incident and Stop-Work Log";
+  const body = incidents.flatMap((inc) => {
+    const finding = incidentFindingText(inc, findings);
+    return [
+      new Paragraph({ text: inc.title, heading: HeadingLevel.HEADING_2 }),
+      new Paragraph({
+        children: [
+          new TextRun({ text: `${kindLabel(inc.kind)} - ${inc.category || "uncategorised"}. Opened ${formatWhen(inc.openedAt)}` }),
+          new TextRun({ text: inc.closedAt ? `, closed ${formatWhen(inc.closedAt)}.` : ", open." }),
+          ...(inc.stopWork ? [new TextRun({ text: " Stop work called.", bold: true })] : []),
+        ],
+      }),
+      ...(inc.location ? [new Paragraph({ text: `Location: ${inc.location}` })] : []),
+      ...(finding ? [new Paragraph({ text: `Finding: ${finding}` })] : []),
+      ...(inc.description ? [new Paragraph({ text: inc.description })] : []),
+      ...(inc.checklist.length ? [checklistTable(inc, now)] : [new Paragraph({ text: "No response steps recorded." })]),
+    ];
+  });
+
+  return new DocxDocument({
+    title,
+    sections: [
+      { properties: { titlePage: true }, children: coverPage(title, projectName, `${incidents.length} incident(s), exported ${formatWhen(now.toISOString())}`) },
+      {
+        headers: { default: pageHeader(projectName, title) },
+        footers: { default: pageFooter() },
+        children: [new Paragraph({ text: "Incidents", heading: HeadingLevel.HEADING_1 }), ...body],
+      },
+    ],
+  });
+}
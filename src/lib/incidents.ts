@@ -0,0 +1,279 @@
+import type { Finding } from "./model";
+import type { ExceedanceEvent } from "./exceedance";
+import { newFieldId, type FieldLogEntry } from "./fieldLog";
+import { addWorkingDays, dayKey, RMA_WORKING_DAYS, type WorkingDayOptions } from "./workingDays";
+
+// ---------------------------------------------------------------------------------
+// Incidents and stop-work: each incident copies the response steps of the finding
+// it falls under into a checklist, with due dates taken from the deadlines written
+// into the actions, reporting line and consent clauses
+
+export type IncidentKind = "koiwi" | "exceedance" | "access-blocked" | "other";
+
+export const INCIDENT_KINDS: { id: IncidentKind; label: string; category: string; pattern: RegExp | null }[] = [
+  { id: "koiwi", label: "Discovery of k\u014Diwi or taonga", category: "whenua", pattern: /k\u014Diwi|koiwi|taonga|discovery/i },
+  { id: "exceedance", label: "Water quality trigger exceeded (NTU / clarity)", category: "wai", pattern: /ntu|clarity|turbid|sediment/i },
+  { id: "access-blocked", label: "Access to marae or wh\u0101nau blocked", category: "wh\u0101nau", pattern: /access|route|marae/i },
+  { id: "other", label: "Other incident", category: "", pattern: null },
+];
+
+export type Deadline =
+  | { kind: "immediate" }
+  | { kind: "hours"; n: number }
+  | { kind: "days"; n: number }
+  | { kind: "working-days"; n: number };
+
+export type ChecklistSource = "action" | "reporting" | "consent";
+
+export type ChecklistItem = {
+  id: string;
+  text: string;
+  source: ChecklistSource;
+  deadline: Deadline | null;
+  dueAt: string | null; // ISO timestamp; null when the step has no deadline
+  doneAt: string | null;
+  note: string;
+};
+
+export type Incident = {
+  id: string;
+  kind: IncidentKind;
+  title: string;
+  category: string;
+  findingId: string | null; // the finding the checklist came from
+  openedAt: string; // ISO timestamp
+  location: string;
+  description: string;
+  stopWork: boolean;
+  sourceId: string | null; // exceedance event or field log entry that raised it
+  checklist: ChecklistItem[];
+  closedAt: string | null;
+};
+
+export function kindLabel(kind: IncidentKind): string {
+  return INCIDENT_KINDS.find((k) => k.id === kind)?.label ?? kind;
+}
+
+// ---------------------------------------------------------------------------------
+// Deadlines in plain text: "within 1 working day", "within 24h", "within 5 days",
+// "immediate stop-work"
+
+const WORD_NUMBERS: Record<string, number> = { one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, ten: 10, fourteen: 14, twenty: 20 };
+
+const WITHIN = /\bwithin\s+(\d+|[a-z]+)\s*(working\s+days?|business\s+days?|h|hrs?|hours?|days?)\b/i;
+
+export function parseDeadline(text: string): Deadline | null {
+  const m = WITHIN.exec(text);
+  if (m) {
+    const n = /^\d+$/.test(m[1]) ? Number(m[1]) : WORD_NUMBERS[m[1].toLowerCase()];
+    if (n !== undefined) {
+      const unit = m[2].toLowerCase();
+      if (/^(working|business)/.test(unit)) return { kind: "working-days", n };
+      if (unit.startsWith("h")) return { kind: "hours", n };
+      return { kind: "days", n };
+    }
+  }
+  if (/\bimmediate(ly)?\b/i.test(text)) return { kind: "immediate" };
+  return null;
+}
+
+export function formatDeadline(d: Deadline): string {
+  switch (d.kind) {
+    case "immediate":
+      return "Immediately";
+    case "hours":
+      return `${d.n} h`;
+    case "days":
+      return `${d.n} day${d.n === 1 ? "" : "s"}`;
+    default:
+      return `${d.n} working day${d.n === 1 ? "" : "s"}`;
+  }
+}
+
+function endOfDay(day: string): Date {
+  const [y, m, d] = day.split("-").map(Number);
+  return new Date(y, m - 1, d, 23, 59, 59);
+}
+
+// Working-day deadlines fall due at the end of the nth working day after the incident
+export function dueDate(deadline: Deadline, openedAt: string, options: WorkingDayOptions = RMA_WORKING_DAYS): string {
+  const opened = new Date(openedAt);
+  switch (deadline.kind) {
+    case "immediate":
+      return opened.toISOString();
+    case "hours":
+      return new Date(opened.getTime() + deadline.n * 3600000).toISOString();
+    case "days": {
+      const day = new Date(opened.getFullYear(), opened.getMonth(), opened.getDate() + deadline.n);
+      return endOfDay(dayKey(day)).toISOString();
+    }
+    default:
+      return endOfDay(addWorkingDays(dayKey(opened), deadline.n, options)).toISOString();
+  }
+}
+
+// ---------------------------------------------------------------------------------
+// Checklist from a finding
+
+function steps(text: string): string[] {
+  return text
+    .split(/;|\s\+\s/)
+    .map((s) => s.trim().replace(/\.$/, ""))
+    .filter(Boolean);
+}
+
+function sentences(text: string): string[] {
+  return text
+    .split(/(?<=\.)\s+/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+function capitalise(s: string): string {
+  return s.charAt(0).toUpperCase() + s.slice(1);
+}
+
+// Every action step, plus reporting and consent wording that sets a deadline
+export function checklistFor(finding: Finding | null, openedAt: string, options: WorkingDayOptions = RMA_WORKING_DAYS): ChecklistItem[] {
+  if (!finding) return [];
+  const candidates: { text: string; source: ChecklistSource }[] = [
+    ...finding.triggers.actions.flatMap(steps).map((text) => ({ text, source: "action" as const })),
+    ...steps(finding.triggers.reporting)
+      .filter((text) => parseDeadline(text))
+      .map((text) => ({ text, source: "reporting" as const })),
+    ...finding.consentClauses
+      .flatMap(sentences)
+      .flatMap(steps)
+      .filter((text) => parseDeadline(text))
+      .map((text) => ({ text, source: "consent" as const })),
+  ];
+  const seen = new Set<string>();
+  return candidates
+    .filter((c) => {
+      const key = c.text.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map((c) => {
+      const deadline = parseDeadline(c.text);
+      return {
+        id: newFieldId("step"),
+        text: capitalise(c.text),
+        source: c.source,
+        deadline,
+        dueAt: deadline ? dueDate(deadline, openedAt, options) : null,
+        doneAt: null,
+        note: "",
+      };
+    });
+}
+
+// The finding an incident of this kind most likely falls under
+export function suggestFinding(kind: IncidentKind, findings: Finding[], category?: string): Finding | null {
+  const info = INCIDENT_KINDS.find((k) => k.id === kind);
+  const inCategory = findings.filter((f) => f.category === (category ?? info?.category));
+  const text = (f: Finding) => [f.issue, ...f.triggers.thresholds, ...f.triggers.metrics].join(" ");
+  const pattern = info?.pattern;
+  return (pattern && findings.find((f) => pattern.test(text(f)))) || inCategory[0] || null;
+}
+
+// Re-dates open steps, e.g. after the opening time is corrected
+export function rescheduleChecklist(incident: Incident, options: WorkingDayOptions = RMA_WORKING_DAYS): Incident {
+  return {
+    ...incident,
+    checklist: incident.checklist.map((item) => (item.deadline ? { ...item, dueAt: dueDate(item.deadline, incident.openedAt, options) } : item)),
+  };
+}
+
+// ---------------------------------------------------------------------------------
+// Opening incidents
+
+export type IncidentDraft = {
+  kind: IncidentKind;
+  title: string;
+  category: string;
+  finding: Finding | null;
+  openedAt: string;
+  location: string;
+  description: string;
+  stopWork: boolean;
+  sourceId?: string | null;
+};
+
+export function openIncident(draft: IncidentDraft, options: WorkingDayOptions = RMA_WORKING_DAYS): Incident {
+  return {
+    id: newFieldId("inc"),
+    kind: draft.kind,
+    title: draft.title || kindLabel(draft.kind),
+    category: draft.category || draft.finding?.category || "",
+    findingId: draft.finding?.id ?? null,
+    openedAt: draft.openedAt,
+    location: draft.location,
+    description: draft.description,
+    stopWork: draft.stopWork,
+    sourceId: draft.sourceId ?? null,
+    checklist: checklistFor(draft.finding, draft.openedAt, options),
+    closedAt: null,
+  };
+}
+
+// The linked finding's issue for display; empty when the incident has none
+export function incidentFindingText(incident: Incident, findings: Finding[]): string {
+  if (!incident.findingId) return "";
+  return findings.find((f) => f.id === incident.findingId)?.issue ?? "(no longer in the assessment)";
+}
+
+export function incidentFromExceedance(event: ExceedanceEvent, findings: Finding[], options: WorkingDayOptions = RMA_WORKING_DAYS): Incident {
+  const finding = findings.find((f) => f.id === event.findingId) ?? null;
+  return openIncident(
+    {
+      kind: "exceedance",
+      title: `${event.threshold}${event.site ? ` at ${event.site}` : ""}`,
+      category: event.category,
+      finding,
+      openedAt: event.start,
+      location: event.site,
+      description: `Peak ${Number(event.peak.value.toFixed(2))} against a trigger level of ${Number(event.peak.level.toFixed(2))} over ${Math.round(event.durationH)} h.`,
+      stopWork: false,
+      sourceId: event.id,
+    },
+    options
+  );
+}
+
+export function incidentFromFieldEntry(entry: FieldLogEntry, findings: Finding[], options: WorkingDayOptions = RMA_WORKING_DAYS): Incident {
+  const kind = INCIDENT_KINDS.find((k) => k.pattern?.test(entry.notes))?.id ?? "other";
+  const finding = suggestFinding(kind, findings, kind === "other" ? entry.category : undefined);
+  return openIncident(
+    {
+      kind,
+      title: `Stop work: ${entry.notes.split(/[.\n]/)[0].slice(0, 80) || entry.category}`,
+      category: entry.category,
+      finding,
+      openedAt: entry.observedAt,
+      location: entry.position ? `${entry.position.lat.toFixed(5)}, ${entry.position.lng.toFixed(5)}` : entry.monitoringRow,
+      description: entry.notes,
+      stopWork: true,
+      sourceId: entry.id,
+    },
+    options
+  );
+}
+
+// ---------------------------------------------------------------------------------
+// Status
+
+export function isOverdue(item: ChecklistItem, now: Date = new Date()): boolean {
+  return !item.doneAt && item.dueAt !== null && Date.parse(item.dueAt) < now.getTime();
+}
+
+export function overdueCount(incident: Incident, now: Date = new Date()): number {
+  return incident.closedAt ? 0 : incident.checklist.filter((item) => isOverdue(item, now)).length;
+}
+
+// Earliest outstanding deadline, for sorting the log
+export function nextDue(incident: Incident): string | null {
+  const open = incident.checklist.filter((i) => !i.doneAt && i.dueAt).map((i) => i.dueAt as string);
+  return open.length ? open.sort()[0] : null;
+}
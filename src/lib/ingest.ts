@@ -0,0 +1,349 @@
+import * as pdfjs from "pdfjs-dist";
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+import PdfWorkerUrl from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+import mammoth from "mammoth";
+import * as XLSX from "xlsx";
+import {
+  canvasThumbnail,
+  fallbackCaption,
+  isCaption,
+  isFigureSizeUsable,
+  loadImage,
+  pdfImageToCanvas,
+  type ExtractedFigure,
+  type PdfImageObject,
+} from "./figures";
+
+pdfjs.GlobalWorkerOptions.workerSrc = PdfWorkerUrl;
+
+// ---------------------------------------------------------------------------------
+// Document records (the corpus every downstream step reads from)
+export type DocumentKind = "pdf" | "docx" | "xlsx" | "unsupported";
+
+export type DocumentBlock = {
+  kind: "heading" | "paragraph" | "table";
+  text: string; // tables: rows joined with tabs/newlines for searching
+  page: number; // PDF page, XLSX sheet number, DOCX always 1 (no pagination in the file)
+  paragraph: number; // 1-based position of the block within its page
+  level?: number; // headings only
+  rows?: string[][]; // tables only
+  sheet?: string; // XLSX only
+};
+
+export type IngestedDocument = {
+  id: string;
+  fileName: string;
+  kind: DocumentKind;
+  sizeBytes: number;
+  ingestedAt: string;
+  pageCount: number;
+  blocks: DocumentBlock[];
+  figures: ExtractedFigure[];
+  errors: string[];
+};
+
+type ParsedDocument = { pageCount: number; blocks: DocumentBlock[]; figures: ExtractedFigure[] };
+
+export const ACCEPTED_UPLOAD_TYPES = ".pdf,.docx,.xlsx";
+
+export function detectDocumentKind(file: { name: string; type?: string }): DocumentKind {
+  const name = file.name.toLowerCase();
+  if (name.endsWith(".pdf") || file.type === "application/pdf") return "pdf";
+  if (name.endsWith(".docx")) return "docx";
+  if (name.endsWith(".xlsx")) return "xlsx";
+  return "unsupported";
+}
+
+export function documentText(doc: IngestedDocument): string {
+  return doc.blocks.map((b) => b.text).join("\n");
+}
+
+function tableText(rows: string[][]): string {
+  return rows.map((r) => r.join("\t")).join("\n");
+}
+
+function cleanText(input: string): string {
+  return input.replace(/\s+/g, " ").trim();
+}
+
+// ---------------------------------------------------------------------------------
+// PDF: group positioned text runs into lines, then classify lines
+type PdfLine = { y: number; height: number; cells: string[] };
+
+function pdfLines(items: TextItem[]): PdfLine[] {
+  const lines: { y: number; height: number; runs: { x: number; width: number; str: string }[] }[] = [];
+  for (const item of items) {
+    if (!item.str.trim()) continue;
+    const x = item.transform[4] as number;
+    const y = item.transform[5] as number;
+    const height = Math.abs((item.transform[3] as number) || item.height || 0);
+    const line = lines.find((l) => Math.abs(l.y - y) < Math.max(2, height * 0.4));
+    if (line) {
+      line.runs.push({ x, width: item.width, str: item.str });
+      line.height = Math.max(line.height, height);
+    } else {
+      lines.push({ y, height, runs: [{ x, width: item.width, str: item.str }] });
+    }
+  }
+  // PDF y-axis grows upwards, so read top to bottom
+  lines.sort((a, b) => b.y - a.y);
+  return lines.map((l) => {
+    const runs = [...l.runs].sort((a, b) => a.x - b.x);
+    // a gap wider than ~2 characters between runs is treated as a column break
+    const cells: string[] = [];
+    let current = "";
+    let lastEnd = -Infinity;
+    for (const r of runs) {
+      if (current && r.x - lastEnd > l.height * 2) {
+        cells.push(cleanText(current));
+        current = "";
+      }
+      current += (current && r.x - lastEnd > l.height * 0.15 ? " " : "") + r.str;
+      lastEnd = r.x + r.width;
+    }
+    if (current) cells.push(cleanText(current));
+    return { y: l.y, height: l.height, cells };
+  });
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+function classifyPdfPage(lines: PdfLine[], page: number, bodyHeight: number): DocumentBlock[] {
+  const blocks: DocumentBlock[] = [];
+  let paragraph: string[] = [];
+  let table: string[][] = [];
+  let lastY: number | null = null;
+
+  const push = (block: Omit<DocumentBlock, "page" | "paragraph">) => blocks.push({ ...block, page, paragraph: blocks.length + 1 });
+  const flushParagraph = () => {
+    if (paragraph.length) push({ kind: "paragraph", text: cleanText(paragraph.join(" ")) });
+    paragraph = [];
+  };
+  const flushTable = () => {
+    // a single multi-column line is more likely a header/footer than a table
+    if (table.length >= 2) push({ kind: "table", text: tableText(table), rows: table });
+    else if (table.length === 1) paragraph.push(table[0].join(" "));
+    table = [];
+  };
+
+  for (const line of lines) {
+    const text = line.cells.join(" ");
+    const gap = lastY === null ? 0 : lastY - line.y;
+    lastY = line.y;
+    const isHeading =
+      text.length < 120 &&
+      (line.height > bodyHeight * 1.2 || /^(\d+(\.\d+)*\.?|[A-Z]\.)\s+[A-Z][^.]*$/.test(text));
+
+    if (line.cells.length > 1 && !isHeading) {
+      flushParagraph();
+      table.push(line.cells);
+      continue;
+    }
+    flushTable();
+    if (isHeading) {
+      flushParagraph();
+      const depth = (text.match(/^(\d+(\.\d+)*)/)?.[1].split(".").length ?? 0) || (line.height > bodyHeight * 1.5 ? 1 : 2);
+      push({ kind: "heading", text, level: Math.min(depth, 6) });
+      continue;
+    }
+    // a vertical gap of more than ~1.5 lines starts a new paragraph
+    if (gap > line.height * 1.8) flushParagraph();
+    paragraph.push(text);
+  }
+  flushTable();
+  flushParagraph();
+  return blocks;
+}
+
+function pdfObject(page: pdfjs.PDFPageProxy, name: string): Promise<PdfImageObject> {
+  // shared resources live on commonObjs and are prefixed "g_"
+  const store = name.startsWith("g_") ? page.commonObjs : page.objs;
+  return new Promise((resolve) => store.get(name, resolve));
+}
+
+type Thumbnail = { dataUrl: string; width: number; height: number };
+
+async function pdfPageImages(page: pdfjs.PDFPageProxy): Promise<Thumbnail[]> {
+  const ops = await page.getOperatorList();
+  const names: string[] = [];
+  ops.fnArray.forEach((fn, i) => {
+    if (fn === pdfjs.OPS.paintImageXObject || fn === pdfjs.OPS.paintImageXObjectRepeat) {
+      const name = ops.argsArray[i][0];
+      if (typeof name === "string" && !names.includes(name)) names.push(name);
+    }
+  });
+  const thumbs: Thumbnail[] = [];
+  for (const name of names) {
+    const img = await pdfObject(page, name);
+    if (!img || !isFigureSizeUsable(img.width, img.height)) continue;
+    // thumbnail straight away so full-resolution pages are not held in memory
+    thumbs.push(canvasThumbnail(pdfImageToCanvas(img), img.width, img.height));
+  }
+  return thumbs;
+}
+
+function captionsFor(blocks: DocumentBlock[], page: number): string[] {
+  return blocks.filter((b) => b.page === page && b.kind !== "table" && isCaption(b.text)).map((b) => b.text);
+}
+
+async function ingestPdf(data: ArrayBuffer, fileName: string, errors: string[]): Promise<ParsedDocument> {
+  const pdf = await pdfjs.getDocument({ data }).promise;
+  const pages: PdfLine[][] = [];
+  const images: Thumbnail[][] = [];
+  for (let n = 1; n <= pdf.numPages; n++) {
+    try {
+      const page = await pdf.getPage(n);
+      const content = await page.getTextContent();
+      pages.push(pdfLines(content.items.filter((i): i is TextItem => "str" in i)));
+      try {
+        images.push(await pdfPageImages(page));
+      } catch (e) {
+        errors.push(`Page ${n} figures: ${e instanceof Error ? e.message : String(e)}`);
+        images.push([]);
+      }
+    } catch (e) {
+      errors.push(`Page ${n}: ${e instanceof Error ? e.message : String(e)}`);
+      pages.push([]);
+      images.push([]);
+    }
+  }
+  const bodyHeight = median(pages.flat().map((l) => l.height));
+  const blocks = pages.flatMap((lines, i) => classifyPdfPage(lines, i + 1, bodyHeight));
+  if (blocks.length === 0) errors.push("No extractable text (scanned PDF? OCR is not available offline)");
+
+  // captions on a page are paired with that page's images in reading order
+  const figures: ExtractedFigure[] = images.flatMap((thumbs, i) => {
+    const captions = captionsFor(blocks, i + 1);
+    return thumbs.map((thumb, k) => ({
+      ...thumb,
+      caption: captions[k] ?? fallbackCaption(fileName, i + 1),
+      page: i + 1,
+    }));
+  });
+  await pdf.destroy();
+  return { pageCount: pdf.numPages, blocks, figures };
+}
+
+// ---------------------------------------------------------------------------------
+// DOCX: convert to HTML with mammoth, then walk the block-level elements
+function docxBlocks(html: string): { blocks: DocumentBlock[]; images: { src: string; before: number }[] } {
+  const body = new DOMParser().parseFromString(html, "text/html").body;
+  const blocks: DocumentBlock[] = [];
+  const images: { src: string; before: number }[] = [];
+  const push = (block: Omit<DocumentBlock, "page" | "paragraph">) => {
+    if (block.text) blocks.push({ ...block, page: 1, paragraph: blocks.length + 1 });
+  };
+  for (const el of Array.from(body.children)) {
+    const tag = el.tagName.toLowerCase();
+    // "before" is the index of the next block, so captions above or below the image can be found
+    el.querySelectorAll("img").forEach((img) => images.push({ src: img.getAttribute("src") || "", before: blocks.length }));
+    if (/^h[1-6]$/.test(tag)) {
+      push({ kind: "heading", text: cleanText(el.textContent || ""), level: Number(tag[1]) });
+    } else if (tag === "ul" || tag === "ol") {
+      el.querySelectorAll("li").forEach((li) => push({ kind: "paragraph", text: cleanText(li.textContent || "") }));
+    } else if (tag === "table") {
+      const rows = Array.from(el.querySelectorAll("tr")).map((tr) =>
+        Array.from(tr.querySelectorAll("th,td")).map((td) => cleanText(td.textContent || ""))
+      );
+      push({ kind: "table", text: tableText(rows), rows });
+    } else {
+      push({ kind: "paragraph", text: cleanText(el.textContent || "") });
+    }
+  }
+  return { blocks, images };
+}
+
+async function docxFigures(images: { src: string; before: number }[], blocks: DocumentBlock[], fileName: string, errors: string[]): Promise<ExtractedFigure[]> {
+  const figures: ExtractedFigure[] = [];
+  for (const [i, { src, before }] of images.entries()) {
+    const below = blocks[before];
+    const above = blocks[before - 1];
+    const caption = below && isCaption(below.text) ? below.text : above && isCaption(above.text) ? above.text : fallbackCaption(fileName, 1);
+    try {
+      const img = await loadImage(src);
+      if (!isFigureSizeUsable(img.naturalWidth, img.naturalHeight)) continue;
+      figures.push({ ...canvasThumbnail(img, img.naturalWidth, img.naturalHeight), caption, page: 1 });
+    } catch {
+      // EMF/WMF drawings are common in Word reports and cannot be decoded by the browser
+      errors.push(`Image ${i + 1} could not be rendered (${src.slice(5, src.indexOf(";")) || "unknown type"})`);
+    }
+  }
+  return figures;
+}
+
+async function ingestDocx(data: ArrayBuffer, fileName: string, errors: string[]): Promise<ParsedDocument> {
+  const result = await mammoth.convertToHtml(
+    { arrayBuffer: data },
+    {
+      convertImage: mammoth.images.imgElement(async (image) => ({
+        src: `data:${image.contentType};base64,${await image.readAsBase64String()}`,
+      })),
+    }
+  );
+  for (const m of result.messages) {
+    if (m.type === "error") errors.push(m.message);
+  }
+  const { blocks, images } = docxBlocks(result.value);
+  return { pageCount: 1, blocks, figures: await docxFigures(images, blocks, fileName, errors) };
+}
+
+// ---------------------------------------------------------------------------------
+// XLSX: one heading + one table per non-empty sheet
+async function ingestXlsx(data: ArrayBuffer, errors: string[]): Promise<ParsedDocument> {
+  const wb = XLSX.read(data, { type: "array" });
+  const blocks: DocumentBlock[] = [];
+  wb.SheetNames.forEach((sheet, i) => {
+    const rows = XLSX.utils
+      .sheet_to_json<unknown[]>(wb.Sheets[sheet], { header: 1, blankrows: false, defval: "" })
+      .map((r) => r.map((c) => cleanText(String(c ?? ""))));
+    if (rows.length === 0) {
+      errors.push(`Sheet "${sheet}" is empty`);
+      return;
+    }
+    blocks.push({ kind: "heading", text: sheet, level: 1, page: i + 1, paragraph: 1, sheet });
+    blocks.push({ kind: "table", text: tableText(rows), rows, page: i + 1, paragraph: 2, sheet });
+  });
+  return { pageCount: wb.SheetNames.length, blocks, figures: [] };
+}
+
+// ---------------------------------------------------------------------------------
+// Entry point: never throws, parse failures are recorded on the document
+let docCounter = 0;
+
+export async function ingestFile(file: File): Promise<IngestedDocument> {
+  const kind = detectDocumentKind(file);
+  const errors: string[] = [];
+  let parsed: ParsedDocument = { pageCount: 0, blocks: [], figures: [] };
+  try {
+    const data = await file.arrayBuffer();
+    if (kind === "pdf") parsed = await ingestPdf(data, file.name, errors);
+    else if (kind === "docx") parsed = await ingestDocx(data, file.name, errors);
+    else if (kind === "xlsx") parsed = await ingestXlsx(data, errors);
+    else errors.push("Unsupported file type (expected PDF, DOCX or XLSX)");
+  } catch (e) {
+    errors.push(e instanceof Error ? e.message : String(e));
+  }
+  docCounter += 1;
+  return {
+    id: `doc-${Date.now().toString(36)}-${docCounter}`,
+    fileName: file.name,
+    kind,
+    sizeBytes: file.size,
+    ingestedAt: new Date().toISOString(),
+    pageCount: parsed.pageCount,
+    blocks: parsed.blocks,
+    figures: parsed.figures,
+    errors,
+  };
+}
+
+export async function ingestFiles(files: File[]): Promise<IngestedDocument[]> {
+  // sequential on purpose: pdf.js and mammoth are memory hungry on large reports
+  const docs: IngestedDocument[] = [];
+  for (const f of files) docs.push(await ingestFile(f));
+  return docs;
+}
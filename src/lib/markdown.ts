@@ -0,0 +1,103 @@
+// ---------------------------------------------------------------------------------
+// Narrative markdown subset shared by the DOCX and PDF renderers: #/##/### headings,
+// "- " bullets (indent for a nested level), "1. " numbered lists, **bold** runs,
+// "| a | b |" tables (a "|---|" row under the first marks it as the header) and
+// blank-line paragraph breaks.
+
+export type InlineRun = { text: string; bold: boolean; note?: boolean }; // note: a [^n] source reference, text is n
+
+export type NarrativeBlock =
+  | { kind: "heading"; level: 1 | 2 | 3; runs: InlineRun[] }
+  | { kind: "bullet"; level: number; runs: InlineRun[] }
+  | { kind: "numbered"; list: number; index: number; runs: InlineRun[] }
+  | { kind: "table"; header: string[] | null; rows: string[][] }
+  | { kind: "paragraph"; runs: InlineRun[] };
+
+export function parseInline(text: string): InlineRun[] {
+  // split on **bold** markers; odd segments are bold. [^n] note references
+  // become their own runs (the captured number lands on the odd split indices).
+  return text
+    .split(/\*\*/)
+    .flatMap((part, i) => part.split(/\[\^(\d+)\]/).map((t, j) => ({ text: t, bold: i % 2 === 1, ...(j % 2 === 1 && { note: true }) })))
+    .filter((r) => r.text !== "");
+}
+
+function indentLevel(line: string): number {
+  const spaces = line.match(/^\s*/)?.[0].length ?? 0;
+  return Math.min(Math.floor(spaces / 2), 2);
+}
+
+function tableCells(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, "")
+    .replace(/\|$/, "")
+    .split("|")
+    .map((c) => c.trim().replace(/\*\*/g, ""));
+}
+
+// Escapes a value for a table cell; pipes would otherwise split it
+export function tableCell(text: string): string {
+  return text.replace(/\|/g, "/").replace(/\s*\n\s*/g, " ").trim();
+}
+
+export function parseNarrative(body: string): NarrativeBlock[] {
+  const out: NarrativeBlock[] = [];
+  let list = 0;
+  let index = 0;
+  let table: Extract<NarrativeBlock, { kind: "table" }> | null = null;
+
+  for (const raw of body.split("\n")) {
+    const line = raw.trimEnd();
+    const trimmed = line.trim();
+    if (!trimmed) {
+      index = 0;
+      table = null;
+      continue;
+    }
+    if (trimmed.startsWith("|")) {
+      index = 0;
+      const cells = tableCells(trimmed);
+      if (!table) {
+        table = { kind: "table", header: null, rows: [cells] };
+        out.push(table);
+      } else if (!table.header && table.rows.length === 1 && cells.every((c) => /^:?-+:?$/.test(c))) {
+        table.header = table.rows.pop() ?? null;
+      } else {
+        table.rows.push(cells);
+      }
+      continue;
+    }
+    table = null;
+    const heading = trimmed.match(/^(#{1,3})\s+(.*)$/);
+    if (heading) {
+      index = 0;
+      out.push({ kind: "heading", level: heading[1].length as 1 | 2 | 3, runs: parseInline(heading[2]) });
+      continue;
+    }
+    const bullet = line.match(/^\s*[-*]\s+(.*)$/);
+    if (bullet) {
+      out.push({ kind: "bullet", level: indentLevel(line), runs: parseInline(bullet[1]) });
+      continue;
+    }
+    const numbered = trimmed.match(/^\d+\.\s+(.*)$/);
+    if (numbered) {
+      // each run of numbered items restarts at 1
+      if (index === 0) list += 1;
+      index += 1;
+      out.push({ kind: "numbered", list, index, runs: parseInline(numbered[1]) });
+      continue;
+    }
+    out.push({ kind: "paragraph", runs: parseInline(trimmed) });
+  }
+  return out;
+}
+
+// The narrative builders open with a "# Title" line; exports lift it onto the cover
+export function splitTitle(body: string): { title: string | null; rest: string } {
+  const lines = body.split("\n");
+  const idx = lines.findIndex((l) => l.trim() !== "");
+  const m = idx >= 0 ? lines[idx].match(/^#\s+(.*)$/) : null;
+  if (!m) return { title: null, rest: body };
+  return { title: m[1], rest: lines.slice(idx + 1).join("\n") };
+}
@@ -0,0 +1,98 @@
+// ---------------------------------------------------------------------------------
+// Shared data model for findings
+
+export const CATEGORIES = ["wai", "whenua", "whakapapa", "wh\u0101nau", "mauri", "wairua"] as const;
+
+export type Category = (typeof CATEGORIES)[number];
+
+export type TriggerSpec = {
+  metrics: string[];
+  baselines: string;
+  thresholds: string[];
+  actions: string[];
+  reporting: string;
+};
+
+export type Effects = {
+  cultural: string[];
+  social: string[];
+  environmental: string[];
+  spiritual: string[];
+};
+
+// Statements in a finding that can cite a source, as validation-style paths
+export const CITED_FIELDS = [
+  "effects.cultural",
+  "effects.social",
+  "effects.environmental",
+  "effects.spiritual",
+  "mitigations",
+  "triggers.metrics",
+  "triggers.baselines",
+  "triggers.thresholds",
+  "triggers.actions",
+  "triggers.reporting",
+] as const;
+
+export type CitedField = (typeof CITED_FIELDS)[number];
+
+// Where a statement came from: an ingested document, its page and paragraph, and
+// the quoted excerpt. Keyed by the statement's text, so reordering keeps it.
+export type SourceRef = {
+  field: CitedField;
+  item: string;
+  documentId: string;
+  fileName: string;
+  page: number;
+  paragraph: number;
+  excerpt: string;
+};
+
+export type Finding = {
+  id: string; // stable across edits and reordering, so records that point at a finding keep pointing at it
+  category: string; // wai, whenua, whakapapa, wh\u0101nau, mauri, wairua
+  issue: string;
+  effects: Effects;
+  mitigations: string[];
+  recommendations: string[];
+  triggers: TriggerSpec;
+  policyLinks: string[];
+  provisions: string[]; // PolicyProvision ids from the policy catalogue
+  consentClauses: string[];
+  sources: SourceRef[];
+  generatedBy?: string; // set on findings produced by a generator that may regenerate them
+};
+
+export type MonitoringRow = { phase: string; focus: string; role: string; frequency: string };
+
+// ---------------------------------------------------------------------------------
+// Helpers
+
+export function newFindingId(): string {
+  return `finding-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function emptyFinding(category: string): Finding {
+  return {
+    id: newFindingId(),
+    category,
+    issue: "",
+    effects: { cultural: [], social: [], environmental: [], spiritual: [] },
+    mitigations: [],
+    recommendations: [],
+    triggers: { metrics: [], baselines: "", thresholds: [], actions: [], reporting: "" },
+    policyLinks: [],
+    provisions: [],
+    consentClauses: [],
+    sources: [],
+  };
+}
+
+export function moveItem<T>(list: T[], index: number, delta: number): T[] {
+  const to = index + delta;
+  if (index < 0 || index >= list.length || to < 0 || to >= list.length) return list;
+  const next = [...list];
+  const [item] = next.splice(index, 1);
+  next.splice(to, 0, item);
+  return next;
+}
@@ -0,0 +1,38 @@
+import type { Finding, MonitoringRow } from "./model";
+import type { CouncilProfile } from "./councils";
+
+// ---------------------------------------------------------------------------------
+// Monitoring helpers
+export const baseMonitoringPlanRows: MonitoringRow[] = [
+  { phase: "Pre-construction", focus: "Baseline mauri / mudfish / habitat surveys", role: "Attend site walkover; confirm w\u0101hi tapu avoidance; record baseline (photos/notes)", frequency: "One-off" },
+  { phase: "During earthworks", focus: "Sediment discharge (NTU/TSS), discovery protocol readiness", role: "Onsite checks; hold stop-work if tikanga/cultural risk; verify ESCP field controls", frequency: "Daily / storm-event" },
+  { phase: "Ecology", focus: "Mudfish / fish passage; planting survival", role: "Guide methods using tikanga; co-observe with ecologist; confirm safe handling/release", frequency: "Monthly / seasonal" },
+  { phase: "Close-out", focus: "Verify consent conditions delivered; cultural outcomes", role: "Final site check; sign-off report to Council and mana whenua", frequency: "One-off" },
+];
+
+export const CULTURAL_MONITOR_DUTIES = [
+  "Represent mana whenua onsite and act as kaitiaki of w\u0101hi tapu, wai and whenua.",
+  "Hold stop-work authority when tikanga or cultural risk is observed.",
+  "Record observations (photos + narrative) into the CIA dashboard.",
+  "Attend toolbox talks and ensure contractors understand cultural protocols.",
+  "Escalate incident triggers to Project Manager and Council.",
+];
+
+export function deriveMonitoringRows(findings: Finding[], profile: CouncilProfile, enabledFrameworks: string[]): MonitoringRow[] {
+  const rows = [...baseMonitoringPlanRows];
+  const text = findings.map((f) => (f.issue + " " + f.recommendations.join(" ")).toLowerCase()).join(" ");
+  const hasMudfish = /mudfish|\u012Bnanga/.test(text);
+  if (hasMudfish && !rows.find((r) => r.focus.toLowerCase().includes("mudfish"))) {
+    rows.splice(1, 0, {
+      phase: "Pre-construction",
+      focus: "Targeted mudfish presence/absence at drains/wetlands",
+      role: "Assist ecologist; apply tikanga for handling; confirm relocation plan if needed",
+      frequency: "One-off",
+    });
+  }
+  for (const fw of profile.frameworks) {
+    rows.push(enabledFrameworks.includes(fw.id) ? fw.monitoringRow : { ...fw.monitoringRow, frequency: "(disabled)" });
+  }
+  rows.push(...profile.monitoringRows);
+  return rows;
+}
@@ -0,0 +1,378 @@
+import type { Finding, MonitoringRow } from "./model";
+import type { MonitoringData } from "./exceedance";
+import { parseThreshold } from "./thresholds";
+import { dayKey, isWorkingDay, nonWorkingReason, RMA_WORKING_DAYS, type WorkingDayOptions } from "./workingDays";
+
+// ---------------------------------------------------------------------------------
+// Monitoring calendar: the prose frequencies of the monitoring programme ("Weekly",
+// "Daily / storm-event", "At each stage-gate") expanded into dated monitor visits
+// over the construction programme. Storm-event rows do not get dates; they become
+// reminders that fire when rainfall reaches a trigger, and dated visits only for
+// storms already in the imported rainfall record.
+//
+// Dates are local calendar days written "YYYY-MM-DD".
+
+export type StageGate = { id: string; name: string; date: string };
+
+export type ConstructionDates = {
+  start: string | null;
+  end: string | null;
+  stageGates: StageGate[];
+};
+
+export const EMPTY_CONSTRUCTION_DATES: ConstructionDates = { start: null, end: null, stageGates: [] };
+
+export const PRE_CONSTRUCTION_LEAD_DAYS = 10; // working days before the start for pre-construction visits
+export const DEFAULT_STORM_MM_HR = 10; // used when no finding sets a rainfall trigger
+export const STORM_VISIT_WITHIN_H = 24;
+
+export function newStageGateId(): string {
+  return `gate-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export type Cadence = "once" | "daily" | "weekly" | "fortnightly" | "monthly" | "quarterly" | "stage-gate" | "storm";
+
+export const CADENCE_LABELS: Record<Cadence, string> = {
+  once: "One-off",
+  daily: "Daily",
+  weekly: "Weekly",
+  fortnightly: "Fortnightly",
+  monthly: "Monthly",
+  quarterly: "Quarterly",
+  "stage-gate": "Stage-gate",
+  storm: "Storm event",
+};
+
+// Recurring cadences, most frequent first
+const RECURRING: Cadence[] = ["daily", "weekly", "fortnightly", "monthly", "quarterly"];
+
+const FREQUENCY_WORDS: { pattern: RegExp; cadence: Cadence }[] = [
+  { pattern: /one-?off|\bonce\b|single/, cadence: "once" },
+  { pattern: /daily|each day|every day/, cadence: "daily" },
+  { pattern: /fortnight/, cadence: "fortnightly" },
+  { pattern: /weekly|each week|every week/, cadence: "weekly" },
+  { pattern: /monthly|each month|every month/, cadence: "monthly" },
+  { pattern: /quarterly|seasonal/, cadence: "quarterly" },
+  { pattern: /stage[- ]?gate/, cadence: "stage-gate" },
+  { pattern: /storm|rain/, cadence: "storm" },
+];
+
+// "Monthly / seasonal" -> monthly: seasonal checks fall on the monthly visits, so
+// only the most frequent recurring cadence is kept. "(disabled)" -> none.
+export function parseFrequency(text: string): Cadence[] {
+  const found = new Set<Cadence>();
+  for (const part of text.toLowerCase().split(/\/|,|\band\b|\bor\b|\+/)) {
+    if (/disabled/.test(part)) return [];
+    for (const w of FREQUENCY_WORDS) if (w.pattern.test(part)) found.add(w.cadence);
+  }
+  const recurring = RECURRING.find((c) => found.has(c));
+  return [...found].filter((c) => !RECURRING.includes(c) || c === recurring);
+}
+
+type PhaseWindow = "pre" | "works" | "close";
+
+function phaseWindow(phase: string): PhaseWindow {
+  if (/pre-?\s*construction|baseline/i.test(phase)) return "pre";
+  if (/close-?\s*out|post-?\s*construction|completion/i.test(phase)) return "close";
+  return "works";
+}
+
+// ---------------------------------------------------------------------------------
+// Calendar-day arithmetic on "YYYY-MM-DD" keys (UTC avoids daylight-saving jumps)
+
+function fromKey(k: string): Date {
+  const [y, m, d] = k.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+}
+
+function toKey(d: Date): string {
+  return d.toISOString().slice(0, 10);
+}
+
+export function addDays(day: string, n: number): string {
+  return toKey(new Date(fromKey(day).getTime() + n * 86400000));
+}
+
+// Same day of the month, clamped to the month's last day (31 Jan + 1 month = 28/29 Feb)
+export function addMonths(day: string, n: number): string {
+  const d = fromKey(day);
+  const first = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + n, 1));
+  const last = new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth() + 1, 0)).getUTCDate();
+  return toKey(new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth(), Math.min(d.getUTCDate(), last))));
+}
+
+function nextWorkingDay(day: string, options: WorkingDayOptions): string {
+  let d = day;
+  while (!isWorkingDay(d, options)) d = addDays(d, 1);
+  return d;
+}
+
+function previousWorkingDay(day: string, options: WorkingDayOptions): string {
+  let d = day;
+  while (!isWorkingDay(d, options)) d = addDays(d, -1);
+  return d;
+}
+
+function slug(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "").slice(0, 40) || "row";
+}
+
+// ---------------------------------------------------------------------------------
+// Expansion
+
+export type MonitorVisit = {
+  id: string; // stable across rebuilds so re-imported calendars update in place
+  date: string;
+  rowIndex: number;
+  phase: string;
+  focus: string;
+  role: string;
+  cadence: Cadence;
+  stageGate?: string; // gate name for stage-gate visits
+  storm?: { peakMmHr: number; site: string }; // storm visits from the rainfall record
+};
+
+export type StormRule = {
+  id: string;
+  rowIndex: number;
+  phase: string;
+  focus: string;
+  role: string;
+  thresholdMmHr: number;
+  source: string | null; // the finding threshold the value came from; null for the default
+  withinHours: number;
+};
+
+export type MonitoringCalendar = {
+  visits: MonitorVisit[];
+  stormRules: StormRule[];
+  notes: string[];
+};
+
+// The lowest rainfall intensity any finding's trigger names, e.g. ">20 mm/hr with NTU > baseline + 40%"
+export function stormThreshold(findings: Finding[]): { mmHr: number; source: string | null } {
+  let best: { mmHr: number; source: string | null } = { mmHr: DEFAULT_STORM_MM_HR, source: null };
+  for (const f of findings) {
+    for (const text of f.triggers.thresholds) {
+      const parsed = parseThreshold(text);
+      if (!parsed.ok) continue;
+      for (const c of parsed.rule.conditions) {
+        if (c.metric !== "rainfall" || c.value.kind !== "absolute" || c.comparison.startsWith("<")) continue;
+        if (best.source === null || c.value.value < best.mmHr) best = { mmHr: c.value.value, source: text };
+      }
+    }
+  }
+  return best;
+}
+
+// Days in the rainfall record at or above the threshold, with the wettest reading of each
+export function stormDays(data: MonitoringData, thresholdMmHr: number, from: string | null, to: string | null): { date: string; peakMmHr: number; site: string }[] {
+  const days = new Map<string, { date: string; peakMmHr: number; site: string }>();
+  for (const r of data.readings) {
+    const mm = r.values.rainfall;
+    if (mm === undefined || mm < thresholdMmHr) continue;
+    const date = dayKey(new Date(r.time));
+    if ((from && date < from) || (to && date > to)) continue;
+    const seen = days.get(date);
+    if (!seen || mm > seen.peakMmHr) days.set(date, { date, peakMmHr: mm, site: r.site });
+  }
+  return [...days.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+function recurringDates(cadence: Cadence, from: string, to: string, options: WorkingDayOptions): string[] {
+  const out = new Set<string>();
+  if (cadence === "daily") {
+    for (let d = from; d <= to; d = addDays(d, 1)) if (isWorkingDay(d, options)) out.add(d);
+    return [...out];
+  }
+  const step = (d: string, n: number) =>
+    cadence === "weekly" ? addDays(d, 7 * n) : cadence === "fortnightly" ? addDays(d, 14 * n) : addMonths(d, cadence === "monthly" ? n : 3 * n);
+  for (let i = 0, d = from; d <= to; i++, d = step(from, i)) {
+    const visit = nextWorkingDay(d, options);
+    if (visit <= to) out.add(visit);
+  }
+  return [...out];
+}
+
+export function buildMonitoringCalendar(
+  rows: MonitoringRow[],
+  dates: ConstructionDates,
+  findings: Finding[],
+  data: MonitoringData,
+  options: WorkingDayOptions = RMA_WORKING_DAYS
+): MonitoringCalendar {
+  const visits: MonitorVisit[] = [];
+  const stormRules: StormRule[] = [];
+  const notes: string[] = [];
+  const { start, end } = dates;
+  const threshold = stormThreshold(findings);
+  const storms = stormDays(data, threshold.mmHr, start, end);
+
+  if (!start) notes.push("Set the construction start date to schedule visits.");
+  if (start && end && end < start) notes.push("The construction end date is before the start date.");
+  const worksEnd = end && start && end >= start ? end : null;
+  if (start && !worksEnd) notes.push("Without a construction end date, recurring visits are shown for the first 12 months.");
+
+  rows.forEach((row, rowIndex) => {
+    const base = { rowIndex, phase: row.phase, focus: row.focus, role: row.role };
+    const key = slug(row.focus);
+    const window = phaseWindow(row.phase);
+    const cadences = parseFrequency(row.frequency);
+    if (!cadences.length && !/disabled/i.test(row.frequency)) notes.push(`"${row.focus}": frequency "${row.frequency}" is not a schedule; no visits generated.`);
+
+    for (const cadence of cadences) {
+      if (cadence === "storm") {
+        stormRules.push({ ...base, id: `${key}-storm`, thresholdMmHr: threshold.mmHr, source: threshold.source, withinHours: STORM_VISIT_WITHIN_H });
+        for (const s of storms) visits.push({ ...base, id: `${key}-storm-${s.date}`, date: s.date, cadence, storm: { peakMmHr: s.peakMmHr, site: s.site } });
+        continue;
+      }
+      if (cadence === "stage-gate") {
+        if (!dates.stageGates.length) notes.push(`"${row.focus}" runs at each stage-gate; add stage-gate dates to schedule it.`);
+        for (const g of dates.stageGates) {
+          if (g.date) visits.push({ ...base, id: `${key}-${g.id}`, date: g.date, cadence, stageGate: g.name });
+        }
+        continue;
+      }
+      if (!start) continue;
+
+      const until = worksEnd ?? addMonths(start, 12);
+      let from = start;
+      let to = until;
+      if (window === "pre") {
+        // the lead-in ends the last working day before works start
+        from = previousWorkingDay(addDays(start, -1), options);
+        for (let i = 1; i < PRE_CONSTRUCTION_LEAD_DAYS; i++) from = previousWorkingDay(addDays(from, -1), options);
+        to = previousWorkingDay(addDays(start, -1), options);
+      } else if (window === "close") {
+        if (!worksEnd) continue;
+        from = to = previousWorkingDay(worksEnd, options);
+      }
+
+      const days = cadence === "once" ? [window === "works" ? nextWorkingDay(from, options) : from] : recurringDates(cadence, from, to, options);
+      for (const date of days) visits.push({ ...base, id: `${key}-${date}`, date, cadence });
+    }
+  });
+
+  for (const g of dates.stageGates) {
+    const reason = g.date ? nonWorkingReason(g.date, options) : null;
+    if (reason) notes.push(`Stage-gate "${g.name}" falls on a non-working day (${reason}).`);
+  }
+
+  visits.sort((a, b) => a.date.localeCompare(b.date) || a.rowIndex - b.rowIndex);
+  return { visits, stormRules, notes };
+}
+
+export function visitsByDay(visits: MonitorVisit[]): Map<string, MonitorVisit[]> {
+  const out = new Map<string, MonitorVisit[]>();
+  for (const v of visits) {
+    const list = out.get(v.date);
+    if (list) list.push(v);
+    else out.set(v.date, [v]);
+  }
+  return out;
+}
+
+// Monday-first weeks covering the month ("YYYY-MM"), padded with the neighbouring months' days
+export function monthGrid(month: string): string[][] {
+  const first = `${month}-01`;
+  const offset = (fromKey(first).getUTCDay() + 6) % 7;
+  const weeks: string[][] = [];
+  for (let d = addDays(first, -offset); d.slice(0, 7) <= month; ) {
+    const week: string[] = [];
+    for (let i = 0; i < 7; i++, d = addDays(d, 1)) week.push(d);
+    weeks.push(week);
+  }
+  return weeks;
+}
+
+// ---------------------------------------------------------------------------------
+// iCalendar (RFC 5545). Visits are all-day events; storm rules are undated to-dos,
+// since calendars cannot fire on rainfall.
+
+function icsText(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+// Lines longer than 75 octets continue on the next line after a space
+function fold(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let bytes = 0;
+  for (const ch of line) {
+    const n = encoder.encode(ch).length;
+    if (bytes + n > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = "";
+      bytes = 0;
+    }
+    current += ch;
+    bytes += n;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function icsDate(day: string): string {
+  return day.replace(/-/g, "");
+}
+
+function icsStamp(d: Date): string {
+  return d.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+export function stormRuleText(rule: StormRule): string {
+  return `When rainfall reaches ${rule.thresholdMmHr} mm/hr, visit within ${rule.withinHours} hours.`;
+}
+
+export function buildMonitoringIcs(calendar: MonitoringCalendar, meta: { projectId: string; projectName: string }, now: Date = new Date()): string {
+  const stamp = icsStamp(now);
+  const uid = (id: string) => `${id}.${meta.projectId}@cia-prototype`;
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//CIA Prototype//Cultural Monitoring Calendar//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${icsText(`${meta.projectName} - cultural monitoring`)}`,
+  ];
+
+  for (const v of calendar.visits) {
+    const summary = v.storm ? `Storm-event visit: ${v.focus}` : v.stageGate ? `${v.focus} (${v.stageGate})` : `Cultural monitoring: ${v.focus}`;
+    const description = [
+      `Phase: ${v.phase}`,
+      `Role: ${v.role}`,
+      `Frequency: ${CADENCE_LABELS[v.cadence]}`,
+      ...(v.storm ? [`Rainfall peaked at ${v.storm.peakMmHr} mm/hr${v.storm.site ? ` (${v.storm.site})` : ""}.`] : []),
+    ].join("\n");
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${uid(v.id)}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${icsDate(v.date)}`,
+      `DTEND;VALUE=DATE:${icsDate(addDays(v.date, 1))}`,
+      `SUMMARY:${icsText(summary)}`,
+      `DESCRIPTION:${icsText(description)}`,
+      `CATEGORIES:${icsText(v.phase)}`,
+      "TRANSP:TRANSPARENT",
+      "END:VEVENT"
+    );
+  }
+
+  for (const r of calendar.stormRules) {
+    const description = [stormRuleText(r), `Phase: ${r.phase}`, `Role: ${r.role}`, r.source ? `Trigger: ${r.source}` : "Default trigger; no finding sets a rainfall threshold."].join("\n");
+    lines.push(
+      "BEGIN:VTODO",
+      `UID:${uid(r.id)}`,
+      `DTSTAMP:${stamp}`,
+      `SUMMARY:${icsText(`Storm-event reminder: ${r.focus}`)}`,
+      `DESCRIPTION:${icsText(description)}`,
+      `CATEGORIES:${icsText(r.phase)}`,
+      "STATUS:NEEDS-ACTION",
+      "END:VTODO"
+    );
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
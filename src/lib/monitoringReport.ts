@@ -0,0 +1,357 @@
+import { CATEGORIES, type Finding } from "./model";
+import { metricInfo, parseThreshold, type Metric } from "./thresholds";
+import { baselineFor, monitoringSites, type Evaluation, type ExceedanceEvent, type MonitoringData } from "./exceedance";
+import type { TrafficLight } from "./dashboard";
+import type { FieldLogEntry } from "./fieldLog";
+import { isOverdue, kindLabel, nextDue, type Incident } from "./incidents";
+import { addDays, addMonths } from "./monitoringCalendar";
+import { dayKey } from "./workingDays";
+import { tableCell } from "./markdown";
+
+// ---------------------------------------------------------------------------------
+// Periodic monitoring reports: the readings, exceedances, field observations and
+// incidents of one reporting period, summarised per category against the
+// baselines, and written up for mana whenua and for Council. These are the
+// reports the findings' TriggerSpec.reporting lines promise.
+
+export type ReportKind = "monthly" | "quarterly" | "six-monthly" | "event";
+
+export const REPORT_KINDS: { id: ReportKind; label: string; pattern: RegExp }[] = [
+  { id: "monthly", label: "Monthly", pattern: /\bmonthly\b/i },
+  { id: "quarterly", label: "Quarterly", pattern: /\bquarterly\b/i },
+  { id: "six-monthly", label: "Six-monthly", pattern: /\b(six|6)[-\s]?monthly\b|\bhalf[-\s]?year/i },
+  { id: "event", label: "Event", pattern: /\bevent\b|\bincident\b|\bimmediate|\bwithin \d+\s*(h|hours?|days?|working days?)\b/i },
+];
+
+export type ReportVoice = "manaWhenua" | "council";
+
+export type ReportPeriod = { kind: ReportKind; start: string; end: string }; // inclusive YYYY-MM-DD days
+
+export type ReportingCommitment = { category: string; text: string; kind: ReportKind | null };
+
+export function reportKindLabel(kind: ReportKind): string {
+  return REPORT_KINDS.find((k) => k.id === kind)?.label ?? kind;
+}
+
+// One commitment per clause of each finding's reporting line; six-monthly is
+// checked before monthly, which its wording also matches
+export function reportingCommitments(findings: Finding[]): ReportingCommitment[] {
+  const order: ReportKind[] = ["six-monthly", "quarterly", "monthly", "event"];
+  return findings.flatMap((f) =>
+    f.triggers.reporting
+      .split(/;|\.\s+|\s\+\s/)
+      .map((s) => s.trim().replace(/\.$/, ""))
+      .filter(Boolean)
+      .map((text) => ({
+        category: f.category,
+        text,
+        kind: order.find((k) => REPORT_KINDS.find((r) => r.id === k)!.pattern.test(text)) ?? null,
+      }))
+  );
+}
+
+// The calendar month, quarter or half-year containing a day; an event report
+// covers just that day until it is widened
+export function reportPeriod(kind: ReportKind, day: string): ReportPeriod {
+  const year = day.slice(0, 4);
+  const month = Number(day.slice(5, 7));
+  const months = kind === "monthly" ? 1 : kind === "quarterly" ? 3 : kind === "six-monthly" ? 6 : 0;
+  if (!months) return { kind, start: day, end: day };
+  const first = Math.floor((month - 1) / months) * months + 1;
+  const start = `${year}-${String(first).padStart(2, "0")}-01`;
+  return { kind, start, end: addDays(addMonths(start, months), -1) };
+}
+
+// The period before or after, for stepping through periodic reports
+export function shiftPeriod(period: ReportPeriod, delta: number): ReportPeriod {
+  const months = period.kind === "monthly" ? 1 : period.kind === "quarterly" ? 3 : period.kind === "six-monthly" ? 6 : 0;
+  if (!months) return period;
+  return reportPeriod(period.kind, addMonths(period.start, delta * months));
+}
+
+function formatDay(day: string): string {
+  return new Date(`${day}T00:00:00`).toLocaleDateString("en-NZ", { day: "numeric", month: "short", year: "numeric" });
+}
+
+function formatWhen(iso: string): string {
+  return new Date(iso).toLocaleString("en-NZ", { dateStyle: "medium", timeStyle: "short" });
+}
+
+export function periodLabel(period: ReportPeriod): string {
+  const range = period.start === period.end ? formatDay(period.start) : `${formatDay(period.start)} - ${formatDay(period.end)}`;
+  if (period.kind === "quarterly") return `Q${Math.floor((Number(period.start.slice(5, 7)) - 1) / 3) + 1} ${period.start.slice(0, 4)} (${range})`;
+  return range;
+}
+
+// Exceedances and incidents an event report can be written about, newest first
+export type ReportEvent = { id: string; label: string; start: string; end: string };
+
+export function reportEvents(events: ExceedanceEvent[], incidents: Incident[]): ReportEvent[] {
+  const day = (iso: string) => dayKey(new Date(iso));
+  return [
+    ...events.map((e) => ({
+      id: e.id,
+      label: `${formatWhen(e.start)}: ${e.category} exceedance${e.site ? ` at ${e.site}` : ""}`,
+      start: day(e.start),
+      end: day(e.end),
+    })),
+    ...incidents.map((inc) => ({
+      id: inc.id,
+      label: `${formatWhen(inc.openedAt)}: ${inc.title}`,
+      start: day(inc.openedAt),
+      end: day(inc.closedAt ?? inc.openedAt),
+    })),
+  ].sort((a, b) => b.start.localeCompare(a.start));
+}
+
+// ---------------------------------------------------------------------------------
+// Gathering the period's records
+
+export type MetricSummary = {
+  metric: Metric;
+  site: string;
+  readings: number;
+  baseline: number | null; // median of the baseline readings, from the whole record
+  median: number | null;
+  max: number | null;
+};
+
+export type CategoryReport = {
+  category: string;
+  issues: string[];
+  baseline: string; // the findings' baseline commitments
+  thresholds: string[];
+  metrics: MetricSummary[];
+  exceedances: ExceedanceEvent[];
+  observations: FieldLogEntry[];
+  incidents: Incident[];
+  light: TrafficLight;
+};
+
+export type MonitoringReport = {
+  period: ReportPeriod;
+  readings: number;
+  sites: string[];
+  rainfall: MetricSummary[];
+  categories: CategoryReport[];
+  commitments: ReportingCommitment[]; // the ones this kind of report meets
+  openIncidents: Incident[]; // still open at the end of the period
+  observations: FieldLogEntry[];
+};
+
+export type ReportInput = {
+  findings: Finding[];
+  data: MonitoringData;
+  evaluation: Evaluation;
+  fieldLog: FieldLogEntry[];
+  incidents: Incident[];
+};
+
+function median(values: number[]): number | null {
+  if (!values.length) return null;
+  const s = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(s.length / 2);
+  return s.length % 2 ? s[mid] : (s[mid - 1] + s[mid]) / 2;
+}
+
+export function buildMonitoringReport(input: ReportInput, period: ReportPeriod): MonitoringReport {
+  const from = Date.parse(`${period.start}T00:00:00`);
+  const to = Date.parse(`${addDays(period.end, 1)}T00:00:00`);
+  const within = (iso: string) => Date.parse(iso) >= from && Date.parse(iso) < to;
+
+  const readings = input.data.readings.filter((r) => within(r.time));
+  const sites = monitoringSites(readings);
+  const summarise = (metric: Metric): MetricSummary[] =>
+    Array.from(new Set(readings.filter((r) => r.values[metric] !== undefined).map((r) => r.site)))
+      .sort()
+      .map((site) => {
+        const values = readings.filter((r) => r.site === site && r.values[metric] !== undefined).map((r) => r.values[metric] as number);
+        const history = input.data.readings.filter((r) => r.site === site);
+        return { metric, site, readings: values.length, baseline: baselineFor(history, metric, input.data.baselineUntil), median: median(values), max: Math.max(...values) };
+      });
+
+  const exceedances = input.evaluation.events.filter((e) => Date.parse(e.start) < to && Date.parse(e.end) >= from);
+  const observations = input.fieldLog.filter((e) => within(e.observedAt)).sort((a, b) => a.observedAt.localeCompare(b.observedAt));
+  const incidents = input.incidents.filter((inc) => Date.parse(inc.openedAt) < to && (!inc.closedAt || Date.parse(inc.closedAt) >= from));
+
+  const categories = CATEGORIES.flatMap((category): CategoryReport[] => {
+    const findings = input.findings.filter((f) => f.category === category);
+    if (!findings.length) return [];
+    const thresholds = findings.flatMap((f) => f.triggers.thresholds);
+    // rainfall is a condition on an event, reported once for the whole project
+    const metrics = Array.from(new Set(thresholds.map(parseThreshold).flatMap((p) => (p.ok ? p.rule.conditions.map((c) => c.metric) : [])))).filter((m) => m !== "rainfall");
+    const report: Omit<CategoryReport, "light"> = {
+      category,
+      issues: findings.map((f) => f.issue).filter(Boolean),
+      baseline: findings.map((f) => f.triggers.baselines).filter(Boolean).join(" "),
+      thresholds,
+      metrics: metrics.flatMap(summarise),
+      exceedances: exceedances.filter((e) => e.category === category),
+      observations: observations.filter((e) => e.category === category),
+      incidents: incidents.filter((inc) => inc.category === category),
+    };
+    const light: TrafficLight =
+      report.exceedances.length || report.observations.some((e) => e.stopWork) || report.incidents.some((inc) => inc.stopWork)
+        ? "red"
+        : report.incidents.length
+          ? "amber"
+          : report.metrics.length || report.observations.length
+            ? "green"
+            : "grey";
+    return [{ ...report, light }];
+  });
+
+  return {
+    period,
+    readings: readings.length,
+    sites,
+    rainfall: summarise("rainfall"),
+    categories,
+    commitments: reportingCommitments(input.findings).filter((c) => c.kind === period.kind),
+    openIncidents: incidents.filter((inc) => !inc.closedAt || Date.parse(inc.closedAt) >= to),
+    observations,
+  };
+}
+
+// ---------------------------------------------------------------------------------
+// Report bodies (narrative markdown, rendered by docxRender like the CIA)
+
+const STATUS_LABELS: Record<ReportVoice, Record<TrafficLight, string>> = {
+  manaWhenua: { red: "Mauri under pressure", amber: "Needs attention", green: "Mauri holding", grey: "No information this period" },
+  council: { red: "Trigger exceeded or stop work", amber: "Incident recorded", green: "Within triggers", grey: "No monitoring data" },
+};
+
+export function statusLabel(light: TrafficLight, voice: ReportVoice): string {
+  return STATUS_LABELS[voice][light];
+}
+
+function value(v: number | null, metric: Metric): string {
+  return v === null ? "-" : `${Math.round(v * 10) / 10} ${metricInfo(metric).unit}`;
+}
+
+function change(m: MetricSummary): string {
+  if (m.baseline === null || m.median === null || m.baseline === 0) return "-";
+  const pct = Math.round(((m.median - m.baseline) / m.baseline) * 100);
+  return `${pct > 0 ? "+" : ""}${pct}%`;
+}
+
+function row(cells: string[]): string {
+  return `| ${cells.map(tableCell).join(" | ")} |`;
+}
+
+function table(header: string[], rows: string[][]): string {
+  return [row(header), row(header.map(() => "---")), ...rows.map(row)].join("\n");
+}
+
+function metricsTable(metrics: MetricSummary[], voice: ReportVoice): string {
+  const header = voice === "council" ? ["Metric", "Site", "Readings", "Baseline (median)", "Period median", "Period maximum", "Change"] : ["What we measured", "Site", "Baseline", "This period", "Highest", "Change"];
+  return table(
+    header,
+    metrics.map((m) => {
+      const cells = [metricInfo(m.metric).label, m.site || "Catchment", value(m.baseline, m.metric), value(m.median, m.metric), value(m.max, m.metric), change(m)];
+      if (voice === "council") cells.splice(2, 0, String(m.readings));
+      return cells;
+    })
+  );
+}
+
+function exceedanceLine(e: ExceedanceEvent): string {
+  const m = metricInfo(e.peak.metric);
+  return `${formatWhen(e.start)}${e.site ? ` at ${e.site}` : ""}: ${m.label} peaked at ${Math.round(e.peak.value * 10) / 10} ${m.unit} against ${Math.round(e.peak.level * 10) / 10} ${m.unit} for ${e.durationH} h (${e.threshold})`;
+}
+
+function observationLine(e: FieldLogEntry): string {
+  return `${formatWhen(e.observedAt)}${e.author ? `, ${e.author}` : ""}: ${e.notes.replace(/\s*\n\s*/g, " ") || e.monitoringRow}${e.stopWork ? " **Stop work called.**" : ""}`;
+}
+
+function incidentStatus(inc: Incident, now: Date): string {
+  if (inc.closedAt) return `Closed ${formatWhen(inc.closedAt)}`;
+  const overdue = inc.checklist.filter((item) => isOverdue(item, now)).length;
+  const due = nextDue(inc);
+  return `Open${overdue ? `, ${overdue} step(s) overdue` : ""}${due ? `, next step due ${formatWhen(due)}` : ""}`;
+}
+
+// A list is one block; the body's blocks are separated by blank lines
+function bullets(items: string[]): string {
+  return items.map((item) => `- ${item}`).join("\n");
+}
+
+function summaryLines(report: MonitoringReport): string {
+  const exceedances = report.categories.reduce((n, c) => n + c.exceedances.length, 0);
+  const incidents = new Set(report.categories.flatMap((c) => c.incidents.map((i) => i.id))).size;
+  const stopWork = report.observations.filter((e) => e.stopWork).length;
+  return bullets([
+    `${report.readings} reading(s)${report.sites.length ? ` from ${report.sites.join(", ")}` : ""}`,
+    `${exceedances} trigger exceedance(s)`,
+    `${report.observations.length} field observation(s)${stopWork ? `, ${stopWork} with stop work called` : ""}`,
+    `${incidents} incident(s) open during the period, ${report.openIncidents.length} still open at its end`,
+  ]);
+}
+
+export function buildMonitoringReportBody(report: MonitoringReport, voice: ReportVoice, now: Date = new Date()): string {
+  const kind = reportKindLabel(report.period.kind);
+  const label = periodLabel(report.period);
+  const mw = voice === "manaWhenua";
+  const lines: string[] = [
+    mw ? `# P\u016Brongo Aroturuki - ${kind} Cultural Monitoring Report` : `# ${kind} Cultural Monitoring Report`,
+    mw ? "## Te w\u0101 / Reporting period" : "## Reporting period",
+    mw
+      ? `${label}. This p\u016Brongo sets out what the cultural monitors saw and measured, and what the readings say about the mauri of the wai and whenua, for k\u014Drero with wh\u0101nau and at w\u0101nanga.`
+      : `${label}. This report presents the cultural monitoring results for the period against the baselines and trigger thresholds of the Cultural Impact Assessment, with exceedances, field observations and incidents.`,
+    mw ? "## He whakar\u0101popototanga / Summary" : "## Summary",
+    summaryLines(report),
+  ];
+
+  if (!mw) {
+    lines.push(
+      table(
+        ["Category", "Status", "Exceedances", "Observations", "Incidents"],
+        report.categories.map((c) => [c.category, statusLabel(c.light, voice), String(c.exceedances.length), String(c.observations.length), String(c.incidents.length)])
+      )
+    );
+  }
+
+  lines.push(mw ? "## Ng\u0101 take / By category" : "## Results by category");
+  for (const c of report.categories) {
+    lines.push(`### ${c.category.toUpperCase()} - ${statusLabel(c.light, voice)}`);
+    if (c.issues.length) lines.push(`${mw ? "**Te take:**" : "**Issue:**"} ${c.issues.join(" ")}`);
+    if (c.baseline) lines.push(`${mw ? "**T\u012Bmatanga / Baseline:**" : "**Baseline commitment:**"} ${c.baseline}`);
+    if (!mw && c.thresholds.length) lines.push("**Trigger thresholds:**", bullets(c.thresholds));
+    if (c.metrics.length) lines.push(metricsTable(c.metrics, voice));
+    else lines.push(mw ? "No readings for this take this period; see the monitors' observations." : "No instrument readings for this category's metrics in the period.");
+    if (c.exceedances.length) lines.push(mw ? "**When the triggers were crossed:**" : "**Exceedances:**", bullets(c.exceedances.map(exceedanceLine)));
+    if (c.observations.length) lines.push(mw ? "**What the monitors saw:**" : "**Field observations:**", bullets(c.observations.map(observationLine)));
+    if (c.incidents.length) lines.push("**Incidents:**", bullets(c.incidents.map((inc) => `${inc.title} (${kindLabel(inc.kind)}): ${incidentStatus(inc, now)}`)));
+  }
+
+  if (report.rainfall.length) {
+    lines.push(mw ? "## Te ua / Rainfall" : "## Rainfall", metricsTable(report.rainfall, voice));
+  }
+
+  if (!mw && report.categories.some((c) => c.exceedances.length)) {
+    lines.push(
+      "## Exceedance register",
+      table(
+        ["Start", "Category", "Site", "Threshold", "Peak", "Duration", "Actions"],
+        report.categories.flatMap((c) =>
+          c.exceedances.map((e) => [formatWhen(e.start), e.category, e.site || "-", e.threshold, value(e.peak.value, e.peak.metric), `${e.durationH} h`, e.actions.join("; ") || "-"])
+        )
+      )
+    );
+  }
+
+  lines.push(mw ? "## Ng\u0101 mahi ka whai ake / Next steps" : "## Open actions and reporting commitments");
+  if (report.openIncidents.length) {
+    lines.push(bullets(report.openIncidents.map((inc) => `${inc.title}: ${incidentStatus(inc, now)}`)));
+  } else {
+    lines.push(mw ? "- No incidents are still open." : "- No incidents remain open at the end of the period.");
+  }
+  if (report.commitments.length) {
+    lines.push(
+      mw ? `This p\u016Brongo meets these ${kind.toLowerCase()} commitments:` : `This report meets the following ${kind.toLowerCase()} reporting commitments:`,
+      bullets(report.commitments.map((c) => `${c.category}: ${c.text}`))
+    );
+  }
+  if (mw) lines.push("We will bring these results to the next w\u0101nanga and hui so wh\u0101nau can test them against what they see on the awa and whenua.");
+  return lines.join("\n\n");
+}
@@ -0,0 +1,268 @@
+import { CATEGORIES, type Effects, type Finding } from "./model";
+import type { IngestedDocument } from "./ingest";
+import { policyInstruments, type CouncilProfile } from "./councils";
+import { tableCell } from "./markdown";
+import { citeText, sourceNotes, withSourceReferences, type SourceNotes } from "./citations";
+import { ALIGNMENT_LABELS, crosswalk, policyGaps, provisionById, provisionLabel, type Alignment, type PolicyProvision } from "./policyCatalogue";
+import { checkTemplate, renderTemplate, type NarrativeTemplate, type TemplateField, type TemplateIssue, type TemplateRecord } from "./narrativeTemplate";
+import { DEFAULT_NARRATIVE_TEMPLATES } from "./narrativeDefaults";
+
+// ---------------------------------------------------------------------------------
+// Parallel CIA narratives (mana whenua voice and council/developer voice) as
+// narrative markdown, at one of three depths. The wording lives in editable
+// templates (narrativeTemplate.ts); this module supplies the fields they read.
+// The same text feeds the previews and the DOCX/PDF exports. Effects,
+// mitigations and trigger fields carry [^n] references to the document excerpts
+// they cite, listed under Source References at the end.
+
+export type NarrativeDepth = "brief" | "standard" | "comprehensive";
+
+export const NARRATIVE_DEPTHS: { id: NarrativeDepth; label: string; description: string }[] = [
+  { id: "brief", label: "Brief", description: "Two-page summary of key matters and asks, for hui" },
+  { id: "standard", label: "Standard", description: "Full structure with effects, triggers, baselines and reporting per finding" },
+  { id: "comprehensive", label: "Comprehensive", description: "Standard plus effects and trigger matrices, the policy crosswalk and appendices" },
+];
+
+export const DEFAULT_NARRATIVE_DEPTH: NarrativeDepth = "standard";
+
+export function depthLabel(depth: NarrativeDepth): string {
+  return NARRATIVE_DEPTHS.find((d) => d.id === depth)?.label ?? depth;
+}
+
+export type NarrativeInput = {
+  projectName: string;
+  profile: CouncilProfile;
+  frameworks: string[]; // enabled optional council frameworks
+  icmp: string;
+  findings: Finding[];
+  provisions: PolicyProvision[]; // applicable to the council and enabled frameworks
+  conditions: string[]; // filled scheduled conditions; empty falls back to the findings' clauses
+  documents: Pick<IngestedDocument, "id" | "fileName" | "kind" | "pageCount" | "ingestedAt">[];
+};
+
+// ---------------------------------------------------------------------------------
+// Pre-rendered blocks: tables are easier to keep well-formed here than in templates
+
+const EFFECT_KINDS: { key: keyof Effects; label: string }[] = [
+  { key: "cultural", label: "Cultural" },
+  { key: "social", label: "Social" },
+  { key: "environmental", label: "Environmental" },
+  { key: "spiritual", label: "Spiritual" },
+];
+
+const ALIGNMENT_MARKS: Record<Alignment, string> = { aligned: "\u25CF", partial: "\u25D0", none: "" };
+
+function tableRow(cells: string[]): string {
+  return `| ${cells.map(tableCell).join(" | ")} |`;
+}
+
+function table(header: string[], rows: string[][]): string {
+  return [tableRow(header), tableRow(header.map(() => "---")), ...rows.map(tableRow)].join("\n");
+}
+
+function effectsMatrix(findings: Finding[]): string {
+  return table(
+    ["#", "Category", "Issue", ...EFFECT_KINDS.map((k) => k.label)],
+    findings.map((f, i) => [String(i + 1), f.category, f.issue, ...EFFECT_KINDS.map((k) => f.effects[k.key].join("; ") || "-")])
+  );
+}
+
+function triggersMatrix(findings: Finding[]): string {
+  return table(
+    ["#", "Category", "Metrics", "Baseline", "Thresholds", "Actions", "Reporting"],
+    findings.map((f, i) => [
+      String(i + 1),
+      f.category,
+      f.triggers.metrics.join(", ") || "-",
+      f.triggers.baselines || "-",
+      f.triggers.thresholds.join("; ") || "-",
+      f.triggers.actions.join("; ") || "-",
+      f.triggers.reporting || "-",
+    ])
+  );
+}
+
+function crosswalkBlock(input: NarrativeInput): string {
+  const { findings, provisions, profile } = input;
+  const rows = crosswalk(findings, provisions).map((r) => [`${provisionLabel(r.provision, profile)} - ${r.provision.title}`, ...r.cells.map((c) => ALIGNMENT_MARKS[c])]);
+  const gaps = policyGaps(findings, provisions);
+  const list = (ps: PolicyProvision[]) => (ps.length ? ps.map((p) => `- ${provisionLabel(p, profile)}: ${p.title}`).join("\n") : "- None");
+  return [
+    `Columns are the numbered findings. ${ALIGNMENT_MARKS.aligned} ${ALIGNMENT_LABELS.aligned}; ${ALIGNMENT_MARKS.partial} ${ALIGNMENT_LABELS.partial}.`,
+    table(["Provision", ...findings.map((_, i) => String(i + 1))], rows),
+    `**Not addressed** (relevant to ${gaps.categories.join(", ") || "no categories"}):\n${list(gaps.notAddressed)}`,
+    `**Only partially addressed:**\n${list(gaps.partial)}`,
+  ].join("\n\n");
+}
+
+// ---------------------------------------------------------------------------------
+// Template fields
+
+const KEY_CONDITIONS = 5; // listed in a brief; the rest are counted
+
+const FINDING_FIELDS: TemplateField[] = [
+  { key: "category", kind: "text", description: "Category, e.g. wai", values: CATEGORIES },
+  { key: "categoryUpper", kind: "text", description: "Category in capitals" },
+  { key: "issue", kind: "text", description: "The issue" },
+  { key: "effects", kind: "list", description: 'Effects as "Cultural: ..." lines, empty kinds left out' },
+  ...EFFECT_KINDS.map((k): TemplateField => ({ key: `${k.key}Effects`, kind: "list", description: `${k.label} effects` })),
+  { key: "mitigations", kind: "list", description: "Mitigations" },
+  { key: "firstMitigation", kind: "text", description: "The first mitigation" },
+  { key: "recommendations", kind: "list", description: "Recommendations" },
+  { key: "metrics", kind: "list", description: "Monitoring metrics" },
+  { key: "baseline", kind: "text", description: "Baseline" },
+  { key: "thresholds", kind: "list", description: "Trigger thresholds" },
+  { key: "actions", kind: "list", description: "Trigger actions" },
+  { key: "reporting", kind: "text", description: "Reporting" },
+  { key: "policyLinks", kind: "list", description: "Free-text policy links" },
+  { key: "provisions", kind: "list", description: "Linked policy provisions" },
+  { key: "consentClauses", kind: "list", description: "Consent clauses drafted in the finding" },
+];
+
+export const NARRATIVE_FIELDS: TemplateField[] = [
+  { key: "projectName", kind: "text", description: "Project name" },
+  { key: "council", kind: "text", description: "Council name" },
+  { key: "reportingTo", kind: "text", description: "Who monitoring reports go to" },
+  { key: "planReference", kind: "text", description: 'District plan, e.g. "the Hamilton District Plan"' },
+  { key: "monitoringNote", kind: "text", description: "Council-specific monitoring note (may be empty)" },
+  { key: "icmp", kind: "text", description: "ICMP area" },
+  { key: "depth", kind: "text", description: "brief, standard or comprehensive", values: ["brief", "standard", "comprehensive"] },
+  { key: "depthLabel", kind: "text", description: "Depth as shown, e.g. Standard" },
+  { key: "instruments", kind: "list", description: "Policy instruments assessed against" },
+  { key: "categories", kind: "list", description: "Categories with findings" },
+  { key: "findingCount", kind: "text", description: "Number of findings" },
+  { key: "findings", kind: "records", description: "Findings", fields: FINDING_FIELDS },
+  { key: "conditionCount", kind: "text", description: "Number of proposed conditions" },
+  { key: "conditions", kind: "list", description: "Proposed conditions (the schedule, or the findings' clauses)" },
+  { key: "keyConditions", kind: "list", description: `The first ${KEY_CONDITIONS} proposed conditions` },
+  { key: "remainingConditionCount", kind: "text", description: "Conditions beyond the key ones (empty when none)" },
+  {
+    key: "provisionsReferenced",
+    kind: "records",
+    description: "Policy provisions linked from the findings",
+    fields: [
+      { key: "label", kind: "text", description: "Instrument and reference" },
+      { key: "title", kind: "text", description: "Provision title" },
+    ],
+  },
+  {
+    key: "documents",
+    kind: "records",
+    description: "Technical documents ingested",
+    fields: [
+      { key: "fileName", kind: "text", description: "File name" },
+      { key: "kind", kind: "text", description: "PDF, DOCX or XLSX" },
+      { key: "pages", kind: "text", description: 'Page count, e.g. "12 pages"' },
+      { key: "reviewed", kind: "text", description: 'Date ingested, e.g. "3 Mar 2026"' },
+      { key: "citations", kind: "text", description: 'How often the findings cite it, e.g. "cited 4 times" or "not cited"' },
+    ],
+  },
+  { key: "effectsMatrix", kind: "text", description: "Effects matrix table" },
+  { key: "triggersMatrix", kind: "text", description: "Monitoring triggers matrix table" },
+  { key: "crosswalk", kind: "text", description: "Policy crosswalk table with the gap lists" },
+];
+
+function findingRecord(f: Finding, profile: CouncilProfile, notes: SourceNotes): TemplateRecord {
+  const effects = (k: keyof Effects) => f.effects[k].map((e) => citeText(notes, f, `effects.${k}`, e));
+  const mitigations = f.mitigations.map((m) => citeText(notes, f, "mitigations", m));
+  return {
+    category: f.category,
+    categoryUpper: f.category.toUpperCase(),
+    issue: f.issue,
+    effects: EFFECT_KINDS.filter((k) => f.effects[k.key].length).map((k) => `${k.label}: ${effects(k.key).join("; ")}`),
+    ...Object.fromEntries(EFFECT_KINDS.map((k) => [`${k.key}Effects`, effects(k.key)])),
+    mitigations,
+    firstMitigation: mitigations[0] ?? "",
+    recommendations: f.recommendations,
+    metrics: f.triggers.metrics.map((m) => citeText(notes, f, "triggers.metrics", m)),
+    baseline: f.triggers.baselines && citeText(notes, f, "triggers.baselines", f.triggers.baselines),
+    thresholds: f.triggers.thresholds.map((t) => citeText(notes, f, "triggers.thresholds", t)),
+    actions: f.triggers.actions.map((a) => citeText(notes, f, "triggers.actions", a)),
+    reporting: f.triggers.reporting && citeText(notes, f, "triggers.reporting", f.triggers.reporting),
+    policyLinks: f.policyLinks,
+    provisions: f.provisions
+      .map(provisionById)
+      .filter((p): p is PolicyProvision => !!p)
+      .map((p) => provisionLabel(p, profile)),
+    consentClauses: f.consentClauses,
+  };
+}
+
+export function narrativeContext(input: NarrativeInput, depth: NarrativeDepth, notes = sourceNotes(input.findings)): TemplateRecord {
+  const { profile, findings } = input;
+  const conditions = input.conditions.length ? input.conditions : findings.flatMap((f) => f.consentClauses);
+  const referenced = [...new Set(findings.flatMap((f) => f.provisions))].map(provisionById).filter((p): p is PolicyProvision => !!p);
+  const cited = new Map<string, number>();
+  for (const s of findings.flatMap((f) => f.sources)) cited.set(s.documentId, (cited.get(s.documentId) ?? 0) + 1);
+  return {
+    projectName: input.projectName,
+    council: profile.name,
+    reportingTo: profile.narrative.reportingTo,
+    planReference: profile.narrative.planReference,
+    monitoringNote: profile.narrative.monitoringNote ?? "",
+    icmp: input.icmp,
+    depth,
+    depthLabel: depthLabel(depth),
+    instruments: ["Te Ture Whaimana", "Tai Tumu, Tai Pari, Tai Ao EMP", ...policyInstruments(profile, input.frameworks)],
+    categories: [...new Set(findings.map((f) => f.category))],
+    findingCount: String(findings.length),
+    findings: findings.map((f) => findingRecord(f, profile, notes)),
+    conditionCount: String(conditions.length),
+    conditions,
+    keyConditions: conditions.slice(0, KEY_CONDITIONS),
+    remainingConditionCount: conditions.length > KEY_CONDITIONS ? String(conditions.length - KEY_CONDITIONS) : "",
+    provisionsReferenced: referenced.map((p) => ({ label: provisionLabel(p, profile), title: p.title })),
+    documents: input.documents.map((d) => {
+      const count = cited.get(d.id) ?? 0;
+      return {
+        fileName: d.fileName,
+        kind: d.kind.toUpperCase(),
+        pages: `${d.pageCount} page${d.pageCount === 1 ? "" : "s"}`,
+        reviewed: new Date(d.ingestedAt).toLocaleDateString("en-NZ", { day: "numeric", month: "short", year: "numeric" }),
+        citations: count ? `cited ${count} time${count === 1 ? "" : "s"}` : "not cited",
+      };
+    }),
+    effectsMatrix: effectsMatrix(findings),
+    triggersMatrix: triggersMatrix(findings),
+    crosswalk: crosswalkBlock(input),
+  };
+}
+
+// ---------------------------------------------------------------------------------
+// Rendering
+
+export type NarrativeVoice = "manaWhenua" | "council";
+
+export type NarrativeTemplates = Record<NarrativeVoice, NarrativeTemplate>;
+
+export const NARRATIVE_VOICES: { id: NarrativeVoice; label: string }[] = [
+  { id: "manaWhenua", label: "Mana whenua" },
+  { id: "council", label: "Council/developer" },
+];
+
+export type NarrativeResult = { text: string; issues: TemplateIssue[] };
+
+// Never throws: a broken template comes back as its issues with no text
+export function renderNarrative(template: NarrativeTemplate, input: NarrativeInput, depth: NarrativeDepth): NarrativeResult {
+  const issues = checkTemplate(template, NARRATIVE_FIELDS);
+  if (issues.length) return { text: "", issues };
+  return { text: renderCited(template, input, depth), issues: [] };
+}
+
+function renderCited(template: NarrativeTemplate, input: NarrativeInput, depth: NarrativeDepth): string {
+  const notes = sourceNotes(input.findings);
+  return withSourceReferences(renderTemplate(template, narrativeContext(input, depth, notes), depth, NARRATIVE_FIELDS), notes);
+}
+
+export function checkNarrativeTemplate(template: NarrativeTemplate): TemplateIssue[] {
+  return checkTemplate(template, NARRATIVE_FIELDS);
+}
+
+export function buildManaWhenuaNarrative(input: NarrativeInput, depth: NarrativeDepth, template = DEFAULT_NARRATIVE_TEMPLATES.manaWhenua): string {
+  return renderCited(template, input, depth);
+}
+
+export function buildCouncilNarrative(input: NarrativeInput, depth: NarrativeDepth, template = DEFAULT_NARRATIVE_TEMPLATES.council): string {
+  return renderCited(template, input, depth);
+}
+
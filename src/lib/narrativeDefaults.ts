@@ -0,0 +1,251 @@
+import type { NarrativeDepth, NarrativeTemplates } from "./narrative";
+import type { TemplateSection } from "./narrativeTemplate";
+
+// ---------------------------------------------------------------------------------
+// Built-in narrative templates. Organisations start from a copy of these and can
+// return to them at any time.
+
+const ALL: NarrativeDepth[] = ["brief", "standard", "comprehensive"];
+const FULL: NarrativeDepth[] = ["standard", "comprehensive"];
+const BRIEF: NarrativeDepth[] = ["brief"];
+const COMPREHENSIVE: NarrativeDepth[] = ["comprehensive"];
+
+function section(id: string, heading: string, depths: NarrativeDepth[], ...body: string[]): TemplateSection {
+  return { id, heading, depths, body: body.join("\n") };
+}
+
+const ALIGNMENT_BODY =
+  "We checked the mahi against the Vision and Objectives of Te Ture Whaimana, the Waikato-Tainui EMP (Tai Tumu, Tai Pari, Tai Ao), and {{planReference}}. The project is connected to: **{{icmp}}**.";
+
+const NUMBERED_CONDITIONS = ["{{#each conditions}}", "{{@number}}. {{this}}", "{{/each}}"];
+
+const PROVISIONS_APPENDIX = [
+  "{{#if provisionsReferenced}}",
+  "{{#each provisionsReferenced}}",
+  "- **{{label}}:** {{title}}",
+  "{{/each}}",
+  "{{else}}",
+  "No provisions are linked from the findings.",
+  "{{/if}}",
+];
+
+const DOCUMENTS_APPENDIX = [
+  "{{#if documents}}",
+  "Every technical document ingested for this assessment, and how often the findings cite it.",
+  "",
+  "{{#each documents}}",
+  "- **{{fileName}}** ({{kind}}, {{pages}}), reviewed {{reviewed}}; {{citations}}",
+  "{{/each}}",
+  "{{else}}",
+  "No technical documents have been ingested.",
+  "{{/if}}",
+];
+
+export const DEFAULT_NARRATIVE_TEMPLATES: NarrativeTemplates = {
+  manaWhenua: {
+    title: 'CIA - Mana Whenua {{#if depth == "brief"}}Summary for Hui{{else}}Narrative{{/if}} ({{depthLabel}})',
+    sections: [
+      section("mw-project", "Project", ALL, "{{projectName}}"),
+      section(
+        "mw-context",
+        "Whakatau\u0101k\u012B / Context",
+        ALL,
+        'Ko te mana o te awa me te whenua te t\u016B\u0101papa. {{#if depth == "brief"}}This summary sets out the matters we have raised for k\u014Drero at hui. The full assessment sets out the effects, monitoring and conditions behind each one.{{else}}This kaupapa recognises our relationship to wai, whenua, and all living systems. We have assessed the technical reports and translated key matters into plain language for wh\u0101nau.{{/if}}'
+      ),
+      section(
+        "mw-sections",
+        "Sections",
+        FULL,
+        "- Executive Summary",
+        "- Background and Whakapapa",
+        "- Methodology (Kaupapa M\u0101ori, W\u0101nanga)",
+        "- Categories Assessment",
+        '{{#if depth == "comprehensive"}}',
+        "- Effects and Monitoring Matrices",
+        "{{/if}}",
+        "- ICMP and Policy Alignment",
+        '{{#if depth == "comprehensive"}}',
+        "- Policy Crosswalk",
+        "{{/if}}",
+        "- Cultural Monitoring Programme",
+        "- Consent Conditions and Next Steps",
+        '{{#if depth == "comprehensive"}}',
+        "- Appendices",
+        "{{/if}}"
+      ),
+      section(
+        "mw-key-matters",
+        "Ng\u0101 take matua / Key matters",
+        BRIEF,
+        "{{#if findings}}",
+        "{{#each findings}}",
+        "- **{{categoryUpper}}:** {{issue}}{{#if firstMitigation}} Whakatika: {{firstMitigation}}{{/if}}",
+        "{{/each}}",
+        "{{else}}",
+        "- No matters have been recorded yet.",
+        "{{/if}}"
+      ),
+      section(
+        "mw-categories",
+        "Categories - Issues, Mitigations, Recommendations",
+        FULL,
+        "{{#each findings}}",
+        "### {{@number}}. {{categoryUpper}}",
+        "",
+        "**Ng\u0101 take / Issue:** {{issue}}",
+        "",
+        "{{#if effects}}",
+        "**Ng\u0101 p\u0101nga / Effects:**",
+        "{{#each effects}}",
+        "- {{this}}",
+        "{{/each}}",
+        "",
+        "{{/if}}",
+        "**Ng\u0101 whakatika / Mitigations:**",
+        "{{#each mitigations}}",
+        "- {{this}}",
+        "{{/each}}",
+        "",
+        "**Ng\u0101 t\u016Btohunga / Recommendations:**",
+        "{{#each recommendations}}",
+        "- {{this}}",
+        "{{/each}}",
+        "",
+        "**Monitoring triggers (plain):** {{metrics}}",
+        "- What we measure against: {{#if baseline}}{{baseline}}{{else}}to be agreed with mana whenua{{/if}}",
+        "- When we act: {{#if thresholds}}{{thresholds}}{{else}}to be agreed{{/if}}",
+        "- What happens then: {{#if actions}}{{actions}}{{else}}to be agreed{{/if}}",
+        "- How we hear about it: {{#if reporting}}{{reporting}}{{else}}to be agreed{{/if}}",
+        "",
+        "{{/each}}"
+      ),
+      section("mw-effects-matrix", "Ng\u0101 p\u0101nga / Effects Matrix", COMPREHENSIVE, "{{effectsMatrix}}"),
+      section("mw-triggers-matrix", "Monitoring Triggers Matrix", COMPREHENSIVE, "{{triggersMatrix}}"),
+      section("mw-alignment", "Te Ture Whaimana and Tai Tumu, Tai Pari, Tai Ao alignment", ALL, ALIGNMENT_BODY),
+      section("mw-crosswalk", "Policy Crosswalk", COMPREHENSIVE, "{{crosswalk}}"),
+      section(
+        "mw-tikanga",
+        "Tikanga and Participation",
+        FULL,
+        "- Mana whenua monitors present at ground-break.",
+        "- W\u0101nanga-a-rohe, quarterly, to review monitoring and adapt.",
+        "- Cultural discovery protocol: stop-work, karakia, k\u014Drero, record."
+      ),
+      section(
+        "mw-ask",
+        "Ask to Council / Developer",
+        FULL,
+        "Adopt the consent conditions listed and fund the co-governed monitoring programme. Partner early on planting design and mahinga kai."
+      ),
+      section(
+        "mw-asking",
+        "He aha t\u0101 m\u0101tou e tono ana / What we are asking for",
+        BRIEF,
+        "- Mana whenua monitors present at ground-break.",
+        "- Adopt the proposed consent conditions ({{conditionCount}}) and fund the co-governed monitoring programme.",
+        "- W\u0101nanga-a-rohe, quarterly, to review monitoring and adapt."
+      ),
+      section("mw-next-steps", "Ng\u0101 mahi e whai ake nei / Next steps", BRIEF, "- Hui to confirm these matters with wh\u0101nau and hap\u016B.", "- Partner early on planting design and mahinga kai."),
+      section("mw-appendix-provisions", "Appendix A - Policy Provisions Referenced", COMPREHENSIVE, ...PROVISIONS_APPENDIX),
+      section("mw-appendix-conditions", "Appendix B - Proposed Consent Conditions", COMPREHENSIVE, "{{#if conditions}}", ...NUMBERED_CONDITIONS, "{{else}}", "No conditions have been proposed.", "{{/if}}"),
+      section("mw-appendix-documents", "Appendix C - Technical Documents Reviewed", COMPREHENSIVE, ...DOCUMENTS_APPENDIX),
+    ],
+  },
+
+  council: {
+    title: 'CIA - Council/Developer {{#if depth == "brief"}}Summary{{else}}Narrative{{/if}} ({{depthLabel}})',
+    sections: [
+      section("cd-project", "Project", ALL, "{{projectName}}"),
+      section(
+        "cd-scope",
+        "Assessment Scope",
+        ALL,
+        '{{#if depth != "brief"}}',
+        "- Technical reports reviewed: EMPs, CMPs, ESCPs, ecology/archaeology/hydrology.",
+        "{{/if}}",
+        "- Policy instruments: {{instruments}}.",
+        "- ICMP area: **{{icmp}}**.",
+        '{{#if depth == "brief"}}',
+        "- Findings: {{findingCount}}, across {{#if categories}}{{categories}}{{else}}no categories{{/if}}.",
+        "{{/if}}"
+      ),
+      section(
+        "cd-key-findings",
+        "Key Findings",
+        BRIEF,
+        "{{#if findings}}",
+        "{{#each findings}}",
+        "{{@number}}. {{category}} | {{issue}}{{#if firstMitigation}} - Mitigation: {{firstMitigation}}{{/if}}",
+        "{{/each}}",
+        "{{else}}",
+        "No findings have been recorded yet.",
+        "{{/if}}"
+      ),
+      section(
+        "cd-matrix",
+        "Category Matrix (Issues -> Mitigation -> Recommendation -> Policy Link)",
+        FULL,
+        "{{#each findings}}",
+        "{{@number}}. {{category}} | {{issue}}",
+        "{{#if effects}}",
+        "   - Effects:",
+        "{{#each effects}}",
+        "     - {{this}}",
+        "{{/each}}",
+        "{{/if}}",
+        "   - Mitigation: {{mitigations}}",
+        "   - Recommendation: {{recommendations}}",
+        "   - Baseline: {{#if baseline}}{{baseline}}{{else}}Not yet established{{/if}}",
+        "   - Triggers: {{#if metrics}}{{metrics}}{{else}}Not yet set{{/if}}{{#if thresholds}}; {{thresholds}}{{/if}}",
+        "   - Actions: {{#if actions}}{{actions}}{{else}}Not yet set{{/if}}",
+        "   - Reporting: {{#if reporting}}{{reporting}}{{else}}Not yet set{{/if}}",
+        "   - Policy: {{policyLinks}}",
+        "{{#if provisions}}",
+        "   - Provisions: {{provisions}}",
+        "{{/if}}",
+        "{{/each}}"
+      ),
+      section(
+        "cd-conditions",
+        'Proposed Consent Conditions{{#if depth == "standard"}} (extract){{/if}}',
+        ALL,
+        '{{#if depth == "brief"}}',
+        "Conditions proposed: {{conditionCount}}.",
+        "",
+        "{{#each keyConditions}}",
+        "{{@number}}. {{this}}",
+        "{{/each}}",
+        "{{#if remainingConditionCount}}",
+        "",
+        "The remaining {{remainingConditionCount}} are set out in the full assessment.",
+        "{{/if}}",
+        "{{/if}}",
+        '{{#if depth == "standard"}}',
+        ...NUMBERED_CONDITIONS,
+        "{{/if}}",
+        '{{#if depth == "comprehensive"}}',
+        "Conditions proposed: {{conditionCount}}. The full schedule is set out in Appendix B.",
+        "{{/if}}"
+      ),
+      section(
+        "cd-monitoring",
+        '{{#if depth == "brief"}}Monitoring{{else}}Monitoring and Adaptive Management{{/if}}',
+        ALL,
+        '{{#if depth != "brief"}}',
+        "- Baseline: clarity/NTU, macroinvertebrates, mahinga kai presence.",
+        "{{/if}}",
+        "- Triggers: set per-site with mana whenua; actions within 10 working days.",
+        "- Reporting: quarterly hui plus written report for {{reportingTo}} and mana whenua.",
+        "{{#if monitoringNote}}",
+        "- {{monitoringNote}}",
+        "{{/if}}"
+      ),
+      section("cd-effects-matrix", "Effects Matrix", COMPREHENSIVE, "{{effectsMatrix}}"),
+      section("cd-triggers-matrix", "Monitoring Triggers Matrix", COMPREHENSIVE, "{{triggersMatrix}}"),
+      section("cd-crosswalk", "Policy Crosswalk", COMPREHENSIVE, "{{crosswalk}}"),
+      section("cd-appendix-provisions", "Appendix A - Policy Provisions Referenced", COMPREHENSIVE, ...PROVISIONS_APPENDIX),
+      section("cd-appendix-conditions", "Appendix B - Schedule of Proposed Conditions", COMPREHENSIVE, "{{#if conditions}}", ...NUMBERED_CONDITIONS, "{{else}}", "No conditions have been proposed.", "{{/if}}"),
+      section("cd-appendix-documents", "Appendix C - Technical Documents Reviewed", COMPREHENSIVE, ...DOCUMENTS_APPENDIX),
+    ],
+  },
+};
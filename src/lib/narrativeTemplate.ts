@@ -0,0 +1,304 @@
+import type { NarrativeDepth } from "./narrative";
+
+// ---------------------------------------------------------------------------------
+// Narrative template language. A template is a title plus ordered sections, each a
+// heading and a body of narrative markdown with tags:
+//   {{field}}                            value; lists are joined with "; "
+//   {{#each list}} ... {{/each}}         loop; inside: the item's fields, {{this}}, {{@number}}, {{@first}}, {{@last}}
+//   {{#if expr}} ... {{else}} ... {{/if}} and {{#unless expr}} ... {{/unless}}
+//       expr: field | field == "text" | field != "text" | list has "text"
+//   {{! comment}}
+// Block tags alone on a line take the whole line with them, so loops can be laid
+// out one tag per line without leaving blank lines in the output.
+
+export type TemplateSection = {
+  id: string;
+  heading: string;
+  body: string;
+  depths: NarrativeDepth[]; // rendered only at these depths
+};
+
+export type NarrativeTemplate = { title: string; sections: TemplateSection[] };
+
+export type TemplateFieldKind = "text" | "list" | "records";
+
+export type TemplateField = {
+  key: string;
+  kind: TemplateFieldKind;
+  description: string;
+  fields?: TemplateField[]; // item fields of a "records" list
+  values?: readonly string[]; // closed set, checked against literals in conditions
+};
+
+export type TemplateValue = string | string[] | TemplateRecord[];
+export type TemplateRecord = { [key: string]: TemplateValue };
+
+export type TemplateIssue = { where: string; line: number; message: string };
+
+export class TemplateError extends Error {
+  issues: TemplateIssue[];
+
+  constructor(issues: TemplateIssue[]) {
+    super(`Template has ${issues.length} problem(s)`);
+    this.name = "TemplateError";
+    this.issues = issues;
+  }
+}
+
+export function newSectionId(): string {
+  return `sec-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+// ---------------------------------------------------------------------------------
+// Parsing
+
+type Op = "truthy" | "==" | "!=" | "has";
+type Expr = { path: string; op: Op; value: string; negate: boolean };
+
+type Node =
+  | { kind: "text"; text: string }
+  | { kind: "field"; path: string; line: number }
+  | { kind: "each"; path: string; line: number; body: Node[] }
+  | { kind: "if"; expr: Expr; line: number; then: Node[]; otherwise: Node[] };
+
+type Frame = { tag: "each" | "if" | "unless"; line: number; node: Extract<Node, { kind: "each" | "if" }>; inElse: boolean };
+
+type RawIssue = { line: number; message: string };
+
+const TAG = /\{\{([\s\S]*?)\}\}/g;
+const PATH = /^@?\w+$/;
+const EXPR = /^(@?\w+)(?:\s+(==|!=|has)\s+"([^"]*)")?$/;
+const LOOP_VARS = ["@number", "@first", "@last"];
+
+function parseExpr(text: string, negate: boolean): Expr | null {
+  const m = text.match(EXPR);
+  if (!m) return null;
+  return { path: m[1], op: (m[2] as Op | undefined) ?? "truthy", value: m[3] ?? "", negate };
+}
+
+function isBlockTag(inner: string): boolean {
+  return /^[#/!]/.test(inner) || inner === "else";
+}
+
+function parse(source: string, issues: RawIssue[]): Node[] {
+  const root: Node[] = [];
+  const stack: Frame[] = [];
+  let cursor = 0;
+
+  const target = (): Node[] => {
+    const top = stack[stack.length - 1];
+    if (!top) return root;
+    if (top.node.kind === "each") return top.node.body;
+    return top.inElse ? top.node.otherwise : top.node.then;
+  };
+  const lineAt = (index: number) => source.slice(0, index).split("\n").length;
+
+  for (const m of source.matchAll(TAG)) {
+    const start = m.index;
+    const inner = m[1].trim();
+    const line = lineAt(start);
+    let textEnd = start;
+    let next = start + m[0].length;
+
+    // standalone block tag: drop its indentation and line break too
+    if (isBlockTag(inner)) {
+      const lineStart = source.lastIndexOf("\n", start - 1) + 1;
+      const nl = source.indexOf("\n", next);
+      const lineEnd = nl < 0 ? source.length : nl;
+      if (lineStart >= cursor && !source.slice(lineStart, start).trim() && !source.slice(next, lineEnd).trim()) {
+        textEnd = lineStart;
+        next = nl < 0 ? source.length : nl + 1;
+      }
+    }
+    if (textEnd > cursor) target().push({ kind: "text", text: source.slice(cursor, textEnd) });
+    cursor = next;
+
+    if (inner.startsWith("!")) continue;
+    const block = inner.match(/^#(\w+)\s*(.*)$/);
+    if (block) {
+      const [, name, arg] = block;
+      if (name === "each") {
+        if (!PATH.test(arg)) issues.push({ line, message: `{{#each}} needs a list field, e.g. {{#each findings}}` });
+        const node: Node = { kind: "each", path: arg, line, body: [] };
+        target().push(node);
+        stack.push({ tag: "each", line, node, inElse: false });
+      } else if (name === "if" || name === "unless") {
+        const expr = parseExpr(arg, name === "unless");
+        if (!expr) issues.push({ line, message: `Cannot read the condition "${arg}". Use field, field == "text", field != "text" or list has "text"` });
+        const node: Node = { kind: "if", expr: expr ?? { path: "", op: "truthy", value: "", negate: false }, line, then: [], otherwise: [] };
+        target().push(node);
+        stack.push({ tag: name, line, node, inElse: false });
+      } else {
+        issues.push({ line, message: `Unknown block {{#${name}}}; use #each, #if or #unless` });
+      }
+      continue;
+    }
+    if (inner === "else") {
+      const top = stack[stack.length - 1];
+      if (!top || top.tag === "each" || top.inElse) issues.push({ line, message: "{{else}} outside an {{#if}} or {{#unless}} block" });
+      else top.inElse = true;
+      continue;
+    }
+    const close = inner.match(/^\/(\w+)$/);
+    if (close) {
+      const top = stack[stack.length - 1];
+      if (!top) issues.push({ line, message: `{{/${close[1]}}} has no matching opening tag` });
+      else if (top.tag !== close[1]) issues.push({ line, message: `{{/${close[1]}}} closes {{#${top.tag}}} from line ${top.line}` });
+      else stack.pop();
+      continue;
+    }
+    if (PATH.test(inner)) target().push({ kind: "field", path: inner, line });
+    else issues.push({ line, message: `Cannot read the tag {{${inner}}}` });
+  }
+  if (cursor < source.length) target().push({ kind: "text", text: source.slice(cursor) });
+  for (const f of stack) issues.push({ line: f.line, message: `{{#${f.tag}}} is never closed` });
+  return root;
+}
+
+// ---------------------------------------------------------------------------------
+// Checking field references against the field catalogue
+
+type Scope = TemplateField[];
+
+function resolve(path: string, scopes: Scope[]): TemplateField | null {
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    const f = scopes[i].find((x) => x.key === path);
+    if (f) return f;
+  }
+  return null;
+}
+
+// Where a field that is not in scope does exist, to say which loop it belongs in
+function owner(path: string, fields: TemplateField[]): string | null {
+  for (const f of fields) {
+    if (f.fields?.some((x) => x.key === path)) return f.key;
+    const nested = f.fields && owner(path, f.fields);
+    if (nested) return nested;
+  }
+  return null;
+}
+
+function checkNodes(nodes: Node[], scopes: Scope[], all: TemplateField[], issues: RawIssue[]) {
+  const lookup = (path: string, line: number): TemplateField | null => {
+    const found = resolve(path, scopes);
+    if (found) return found;
+    if (path.startsWith("@") && !LOOP_VARS.includes(path)) {
+      issues.push({ line, message: `Unknown loop variable {{${path}}}; use ${LOOP_VARS.map((v) => `{{${v}}}`).join(", ")}` });
+      return null;
+    }
+    if (path.startsWith("@") || path === "this") {
+      issues.push({ line, message: `{{${path}}} is only available inside {{#each}}` });
+      return null;
+    }
+    const parent = owner(path, all);
+    issues.push({ line, message: parent ? `"${path}" is a field of each item in ${parent}; use it inside {{#each ${parent}}}` : `Unknown field "${path}"` });
+    return null;
+  };
+
+  for (const n of nodes) {
+    if (n.kind === "field") {
+      const f = lookup(n.path, n.line);
+      if (f?.kind === "records") issues.push({ line: n.line, message: `"${n.path}" is a list of records; loop over it with {{#each ${n.path}}}` });
+    } else if (n.kind === "each") {
+      if (!PATH.test(n.path)) continue;
+      const f = lookup(n.path, n.line);
+      if (f && f.kind === "text") issues.push({ line: n.line, message: `"${n.path}" is not a list, so it cannot be looped over` });
+      const loop: Scope = LOOP_VARS.map((key) => ({ key, kind: "text", description: "" }));
+      const item: Scope = f?.kind === "records" ? (f.fields ?? []) : [{ key: "this", kind: "text", description: "" }];
+      checkNodes(n.body, [...scopes, [...item, ...loop]], all, issues);
+    } else if (n.kind === "if") {
+      const { path, op, value } = n.expr;
+      if (path) {
+        const f = lookup(path, n.line);
+        if (f && op === "has" && f.kind === "text") issues.push({ line: n.line, message: `"has" needs a list; use == to compare "${path}"` });
+        if (f && (op === "==" || op === "!=") && f.kind !== "text") issues.push({ line: n.line, message: `"${op}" compares text; use has to look inside the list "${path}"` });
+        if (f?.values && op !== "truthy" && !f.values.includes(value)) issues.push({ line: n.line, message: `"${value}" is not a value of ${path} (${f.values.join(", ")})` });
+      }
+      checkNodes(n.then, scopes, all, issues);
+      checkNodes(n.otherwise, scopes, all, issues);
+    }
+  }
+}
+
+function checkSource(source: string, where: string, fields: TemplateField[]): TemplateIssue[] {
+  const raw: RawIssue[] = [];
+  checkNodes(parse(source, raw), [fields], fields, raw);
+  return raw.sort((a, b) => a.line - b.line).map((r) => ({ where, ...r }));
+}
+
+export function checkTemplate(template: NarrativeTemplate, fields: TemplateField[]): TemplateIssue[] {
+  return [
+    ...checkSource(template.title, "Title", fields),
+    ...template.sections.flatMap((s, i) => {
+      const where = `Section ${i + 1} (${s.heading || "untitled"})`;
+      return [...checkSource(s.heading, `${where} heading`, fields), ...checkSource(s.body, where, fields)];
+    }),
+  ];
+}
+
+// ---------------------------------------------------------------------------------
+// Rendering
+
+function lookupValue(path: string, scopes: TemplateRecord[]): TemplateValue {
+  for (let i = scopes.length - 1; i >= 0; i--) if (path in scopes[i]) return scopes[i][path];
+  return "";
+}
+
+function truthy(v: TemplateValue): boolean {
+  return Array.isArray(v) ? v.length > 0 : v.trim() !== "";
+}
+
+function holds(expr: Expr, scopes: TemplateRecord[]): boolean {
+  const v = lookupValue(expr.path, scopes);
+  let result: boolean;
+  if (expr.op === "truthy") result = truthy(v);
+  else if (expr.op === "has") result = Array.isArray(v) && v.some((x) => typeof x === "string" && x === expr.value);
+  else result = (typeof v === "string" && v === expr.value) === (expr.op === "==");
+  return expr.negate ? !result : result;
+}
+
+function renderNodes(nodes: Node[], scopes: TemplateRecord[]): string {
+  return nodes
+    .map((n) => {
+      switch (n.kind) {
+        case "text":
+          return n.text;
+        case "field": {
+          const v = lookupValue(n.path, scopes);
+          return Array.isArray(v) ? v.filter((x): x is string => typeof x === "string").join("; ") : v;
+        }
+        case "each": {
+          const items = lookupValue(n.path, scopes);
+          if (!Array.isArray(items)) return "";
+          return items
+            .map((item, i) => {
+              const loop = { "@number": String(i + 1), "@first": i === 0 ? "true" : "", "@last": i === items.length - 1 ? "true" : "" };
+              return renderNodes(n.body, [...scopes, typeof item === "string" ? { this: item, ...loop } : { ...item, ...loop }]);
+            })
+            .join("");
+        }
+        case "if":
+          return renderNodes(holds(n.expr, scopes) ? n.then : n.otherwise, scopes);
+      }
+    })
+    .join("");
+}
+
+function renderSource(source: string, context: TemplateRecord): string {
+  return renderNodes(parse(source, []), [context]);
+}
+
+// Sections whose body renders empty are left out, heading and all
+export function renderTemplate(template: NarrativeTemplate, context: TemplateRecord, depth: NarrativeDepth, fields: TemplateField[]): string {
+  const issues = checkTemplate(template, fields);
+  if (issues.length) throw new TemplateError(issues);
+  const parts = [`# ${renderSource(template.title, context).trim()}`];
+  for (const s of template.sections) {
+    if (!s.depths.includes(depth)) continue;
+    const body = renderSource(s.body, context).trim();
+    if (!body) continue;
+    const heading = renderSource(s.heading, context).trim();
+    parts.push(heading ? `## ${heading}\n${body}` : body);
+  }
+  return parts.join("\n\n");
+}
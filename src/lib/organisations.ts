@@ -0,0 +1,23 @@
+import type { NarrativeTemplates } from "./narrative";
+import { DEFAULT_NARRATIVE_TEMPLATES } from "./narrativeDefaults";
+
+// ---------------------------------------------------------------------------------
+// Organisations (iwi authorities, consultancies) keep their own narrative templates,
+// stored on this device and shared by every project written in their voice
+
+export type Organisation = {
+  id: string;
+  name: string;
+  templates: NarrativeTemplates;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export function newOrganisationId(): string {
+  return `org-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function createOrganisation(name: string): Organisation {
+  const now = new Date().toISOString();
+  return { id: newOrganisationId(), name, templates: structuredClone(DEFAULT_NARRATIVE_TEMPLATES), createdAt: now, updatedAt: now };
+}
@@ -0,0 +1,339 @@
+import { PDFDocument, rgb, type PDFFont, type PDFImage, type PDFPage } from "pdf-lib";
+import fontkit from "@pdf-lib/fontkit";
+import SansUrl from "dejavu-fonts-ttf/ttf/DejaVuSans.ttf?url";
+import SansBoldUrl from "dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf?url";
+import { canvasThumbnail, dataUrlImageType, loadImage, type FigureItem } from "./figures";
+import { parseNarrative, splitTitle, type InlineRun } from "./markdown";
+import type { MonitoringRow } from "./model";
+
+// ---------------------------------------------------------------------------------
+// Client-side PDF output. The standard PDF fonts are WinAnsi only and cannot draw
+// macrons, so DejaVu Sans is embedded (subset) for every document.
+
+const PAGE_WIDTH = 595.28; // A4 in points
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 56;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const BODY_SIZE = 10;
+const LINE_GAP = 1.4;
+const GREY = rgb(0.4, 0.4, 0.4);
+
+export type PdfMeta = {
+  title: string;
+  projectName: string;
+  location: string;
+  council: string;
+  icmp: string;
+  revision: string; // when the source project was last modified
+};
+
+type Fonts = { regular: PDFFont; bold: PDFFont };
+
+type Cursor = {
+  pdf: PDFDocument;
+  fonts: Fonts;
+  page: PDFPage;
+  y: number;
+};
+
+let fontBytes: Promise<[ArrayBuffer, ArrayBuffer]> | null = null;
+
+function loadFontBytes(): Promise<[ArrayBuffer, ArrayBuffer]> {
+  fontBytes ??= Promise.all(
+    [SansUrl, SansBoldUrl].map(async (url) => {
+      const res = await fetch(url);
+      if (!res.ok) throw new Error(`Font could not be loaded (${res.status})`);
+      return res.arrayBuffer();
+    })
+  ) as Promise<[ArrayBuffer, ArrayBuffer]>;
+  return fontBytes;
+}
+
+async function createPdf(meta: PdfMeta): Promise<Cursor> {
+  const pdf = await PDFDocument.create();
+  pdf.registerFontkit(fontkit);
+  const [regularBytes, boldBytes] = await loadFontBytes();
+  const fonts = { regular: await pdf.embedFont(regularBytes, { subset: true }), bold: await pdf.embedFont(boldBytes, { subset: true }) };
+  pdf.setTitle(meta.title);
+  pdf.setSubject(`${meta.projectName} - ${meta.council}`);
+  pdf.setCreator("CIA Work");
+  pdf.setLanguage("en-NZ");
+  const page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  return { pdf, fonts, page, y: PAGE_HEIGHT - MARGIN };
+}
+
+function newPage(c: Cursor) {
+  c.page = c.pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  c.y = PAGE_HEIGHT - MARGIN;
+}
+
+function ensureSpace(c: Cursor, height: number) {
+  if (c.y - height < MARGIN) newPage(c);
+}
+
+// ---------------------------------------------------------------------------------
+// Text layout: word wrapping across bold/regular runs
+
+type Word = { text: string; font: PDFFont };
+
+function wrapRuns(runs: InlineRun[], fonts: Fonts, size: number, maxWidth: number): Word[][] {
+  const words: Word[] = [];
+  for (const r of runs) {
+    // note references ride on the word before them, as "[n]"
+    const last = words[words.length - 1];
+    if (r.note && last) {
+      last.text += `[${r.text}]`;
+      continue;
+    }
+    for (const text of (r.note ? `[${r.text}]` : r.text).split(/\s+/).filter(Boolean)) words.push({ text, font: r.bold ? fonts.bold : fonts.regular });
+  }
+  const lines: Word[][] = [];
+  let line: Word[] = [];
+  let width = 0;
+  for (const w of words) {
+    const ww = w.font.widthOfTextAtSize(w.text, size);
+    const space = line.length ? fonts.regular.widthOfTextAtSize(" ", size) : 0;
+    if (line.length && width + space + ww > maxWidth) {
+      lines.push(line);
+      line = [];
+      width = 0;
+    }
+    line.push(w);
+    width += (line.length > 1 ? space : 0) + ww;
+  }
+  if (line.length) lines.push(line);
+  return lines;
+}
+
+function drawWords(c: Cursor, line: Word[], x: number, size: number, color = rgb(0, 0, 0)) {
+  const space = c.fonts.regular.widthOfTextAtSize(" ", size);
+  for (const w of line) {
+    c.page.drawText(w.text, { x, y: c.y, size, font: w.font, color });
+    x += w.font.widthOfTextAtSize(w.text, size) + space;
+  }
+}
+
+function writeRuns(c: Cursor, runs: InlineRun[], opts: { size?: number; indent?: number; marker?: string; after?: number; color?: ReturnType<typeof rgb> } = {}) {
+  const size = opts.size ?? BODY_SIZE;
+  const indent = opts.indent ?? 0;
+  const lineHeight = size * LINE_GAP;
+  const lines = wrapRuns(runs, c.fonts, size, CONTENT_WIDTH - indent);
+  lines.forEach((line, i) => {
+    ensureSpace(c, lineHeight);
+    c.y -= lineHeight;
+    if (i === 0 && opts.marker) c.page.drawText(opts.marker, { x: MARGIN + indent - 14, y: c.y, size, font: c.fonts.regular });
+    drawWords(c, line, MARGIN + indent, size, opts.color);
+  });
+  c.y -= opts.after ?? size * 0.5;
+}
+
+function writeText(c: Cursor, text: string, opts: Parameters<typeof writeRuns>[2] & { bold?: boolean } = {}) {
+  writeRuns(c, [{ text, bold: !!opts.bold }], opts);
+}
+
+const HEADING_SIZES = [16, 13, 11];
+
+// Column widths for a narrative table, roughly in proportion to the longest cell
+function tableWidths(rows: string[][]): number[] {
+  const columns = Math.max(...rows.map((r) => r.length));
+  const weights = Array.from({ length: columns }, (_, i) => Math.min(Math.max(...rows.map((r) => (r[i] ?? "").length)), 40) + 4);
+  const total = weights.reduce((a, b) => a + b, 0);
+  return weights.map((w) => w / total);
+}
+
+function writeNarrative(c: Cursor, body: string) {
+  for (const block of parseNarrative(body)) {
+    switch (block.kind) {
+      case "heading": {
+        const size = HEADING_SIZES[block.level - 1];
+        // keep a heading with at least a couple of lines of its section
+        ensureSpace(c, size * 2 + BODY_SIZE * 3);
+        c.y -= size * 0.6;
+        writeRuns(c, block.runs.map((r) => ({ ...r, bold: true })), { size, after: size * 0.3 });
+        break;
+      }
+      case "bullet":
+        writeRuns(c, block.runs, { indent: 18 + block.level * 16, marker: block.level ? "\u2013" : "\u2022", after: 2 });
+        break;
+      case "numbered":
+        writeRuns(c, block.runs, { indent: 20, marker: `${block.index}.`, after: 2 });
+        break;
+      case "table": {
+        const widths = tableWidths(block.header ? [block.header, ...block.rows] : block.rows);
+        const pad = (r: string[]) => widths.map((_, i) => r[i] ?? "");
+        writeTable(c, block.rows.map(pad), { widths, header: block.header ? pad(block.header) : undefined, size: 8 });
+        break;
+      }
+      default:
+        writeRuns(c, block.runs);
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------------
+// Tables (monitoring programme, document control, narrative matrices)
+
+type TableOptions = { widths: number[]; header?: string[]; size?: number; boldFirstColumn?: boolean };
+
+function cellLines(c: Cursor, text: string, width: number, size: number, bold: boolean): Word[][] {
+  const lines = wrapRuns([{ text, bold }], c.fonts, size, width - 8);
+  return lines.length ? lines : [[]];
+}
+
+function drawRow(c: Cursor, cells: string[], opts: TableOptions, header: boolean) {
+  const size = opts.size ?? 9;
+  const lineHeight = size * LINE_GAP;
+  const widths = opts.widths.map((w) => w * CONTENT_WIDTH);
+  const wrapped = cells.map((t, i) => cellLines(c, t, widths[i], size, header || (!!opts.boldFirstColumn && i === 0)));
+  const height = Math.max(...wrapped.map((l) => l.length)) * lineHeight + 8;
+  const top = c.y;
+  let x = MARGIN;
+  wrapped.forEach((lines, i) => {
+    c.page.drawRectangle({
+      x,
+      y: top - height,
+      width: widths[i],
+      height,
+      borderColor: GREY,
+      borderWidth: 0.5,
+      color: header ? rgb(0.93, 0.93, 0.93) : undefined,
+    });
+    c.y = top - 4;
+    for (const line of lines) {
+      c.y -= lineHeight;
+      drawWords(c, line, x + 4, size);
+    }
+    x += widths[i];
+  });
+  c.y = top - height;
+}
+
+function rowHeight(c: Cursor, cells: string[], opts: TableOptions, header: boolean): number {
+  const size = opts.size ?? 9;
+  const widths = opts.widths.map((w) => w * CONTENT_WIDTH);
+  const lines = cells.map((t, i) => cellLines(c, t, widths[i], size, header || (!!opts.boldFirstColumn && i === 0)).length);
+  return Math.max(...lines) * size * LINE_GAP + 8;
+}
+
+function writeTable(c: Cursor, rows: string[][], opts: TableOptions) {
+  const header = opts.header;
+  if (header) {
+    ensureSpace(c, rowHeight(c, header, opts, true) + rowHeight(c, rows[0] ?? header, opts, false));
+    drawRow(c, header, opts, true);
+  }
+  for (const row of rows) {
+    const h = rowHeight(c, row, opts, false);
+    if (c.y - h < MARGIN) {
+      // repeat the header row on each continuation page
+      newPage(c);
+      if (header) drawRow(c, header, opts, true);
+    }
+    drawRow(c, row, opts, false);
+  }
+  c.y -= BODY_SIZE;
+}
+
+function formatDate(d: Date): string {
+  return d.toLocaleDateString("en-NZ", { day: "numeric", month: "long", year: "numeric" });
+}
+
+export function documentControlRows(meta: PdfMeta, issued = new Date()): string[][] {
+  const revision = new Date(meta.revision);
+  return [
+    ["Document", meta.title],
+    ["Project", meta.projectName],
+    ["Location", meta.location || "-"],
+    ["Council", meta.council],
+    ["ICMP", meta.icmp || "Not determined"],
+    ["Source revision", isNaN(revision.getTime()) ? "-" : revision.toLocaleString("en-NZ", { dateStyle: "medium", timeStyle: "short" })],
+    ["Issued", formatDate(issued)],
+    ["Status", "Issued as PDF - changes require a new revision from the CIA workspace"],
+  ];
+}
+
+function writeTitleBlock(c: Cursor, meta: PdfMeta) {
+  c.y -= 80;
+  writeText(c, meta.title, { size: 22, bold: true, after: 8 });
+  writeText(c, meta.projectName, { size: 14, after: 4 });
+  if (meta.location) writeText(c, meta.location, { size: 11, color: GREY, after: 24 });
+  writeText(c, "Document control", { size: 12, bold: true, after: 6 });
+  writeTable(c, documentControlRows(meta), { widths: [0.28, 0.72], boldFirstColumn: true });
+}
+
+// ---------------------------------------------------------------------------------
+// Figures
+
+async function embedFigure(pdf: PDFDocument, f: FigureItem): Promise<PDFImage> {
+  const type = dataUrlImageType(f.dataUrl);
+  let dataUrl = f.dataUrl;
+  // pdf-lib only embeds JPEG and PNG; re-encode anything else through a canvas
+  if (type !== "jpg" && type !== "png") dataUrl = canvasThumbnail(await loadImage(f.dataUrl), f.width, f.height).dataUrl;
+  const bytes = Uint8Array.from(atob(dataUrl.split(",")[1] || ""), (ch) => ch.charCodeAt(0));
+  return dataUrlImageType(dataUrl) === "png" ? pdf.embedPng(bytes) : pdf.embedJpg(bytes);
+}
+
+async function writeFigures(c: Cursor, figures: FigureItem[]) {
+  for (const f of figures) {
+    const image = await embedFigure(c.pdf, f);
+    const scale = Math.min(CONTENT_WIDTH / image.width, 420 / image.height, 1);
+    const w = image.width * scale;
+    const h = image.height * scale;
+    ensureSpace(c, h + 40);
+    writeText(c, f.caption, { bold: true, after: 4 });
+    c.y -= h;
+    c.page.drawImage(image, { x: MARGIN, y: c.y, width: w, height: h });
+    c.y -= 4;
+    if (f.sourceFileName) writeText(c, `Source: ${f.sourceFileName}, p. ${f.page ?? 1}`, { size: 8, color: GREY });
+    c.y -= 8;
+  }
+}
+
+// ---------------------------------------------------------------------------------
+// Running header and "Page X of Y" footer, stamped once the page count is known
+
+function stampPages(c: Cursor, meta: PdfMeta) {
+  const pages = c.pdf.getPages();
+  pages.forEach((page, i) => {
+    const footer = `Page ${i + 1} of ${pages.length}`;
+    const size = 8;
+    page.drawText(footer, { x: PAGE_WIDTH - MARGIN - c.fonts.regular.widthOfTextAtSize(footer, size), y: MARGIN / 2, size, font: c.fonts.regular, color: GREY });
+    page.drawText(meta.title, { x: MARGIN, y: MARGIN / 2, size, font: c.fonts.regular, color: GREY });
+    if (i > 0) page.drawText(meta.projectName, { x: MARGIN, y: PAGE_HEIGHT - MARGIN / 2, size, font: c.fonts.regular, color: GREY });
+  });
+}
+
+// ---------------------------------------------------------------------------------
+// Public builders
+
+export async function buildNarrativePdf(meta: PdfMeta, body: string, figures: FigureItem[]): Promise<Uint8Array> {
+  const { title, rest } = splitTitle(body);
+  const docMeta = { ...meta, title: title ?? meta.title };
+  const c = await createPdf(docMeta);
+  writeTitleBlock(c, docMeta);
+  newPage(c);
+  writeNarrative(c, rest);
+  if (figures.length) {
+    ensureSpace(c, 200);
+    writeText(c, "Selected Figures", { size: 13, bold: true, after: 6 });
+    await writeFigures(c, figures);
+  }
+  stampPages(c, docMeta);
+  return c.pdf.save();
+}
+
+export async function buildMonitoringPdf(meta: PdfMeta, rows: MonitoringRow[], duties: string[]): Promise<Uint8Array> {
+  const c = await createPdf(meta);
+  writeTitleBlock(c, meta);
+  newPage(c);
+  writeText(c, "Timeline & Tasks", { size: 13, bold: true, after: 6 });
+  writeTable(
+    c,
+    rows.map((r) => [r.phase, r.focus, r.role, r.frequency]),
+    { widths: [0.17, 0.3, 0.35, 0.18], header: ["Phase", "Monitoring focus", "Role of Cultural Monitor", "Frequency"] }
+  );
+  ensureSpace(c, 80);
+  writeText(c, "Job Description", { size: 13, bold: true, after: 6 });
+  for (const d of duties) writeRuns(c, [{ text: d, bold: false }], { indent: 18, marker: "\u2022", after: 2 });
+  stampPages(c, meta);
+  return c.pdf.save();
+}
@@ -0,0 +1,193 @@
+import type { Category, Finding } from "./model";
+import type { CouncilProfile } from "./councils";
+import { normalizeForMatch } from "./text";
+
+// ---------------------------------------------------------------------------------
+// Policy crosswalk catalogue: the instruments a CIA is tested against, broken into
+// provisions that findings link to by id. District plan provisions share ids
+// across councils and take the plan name from the council profile.
+
+export type PolicyInstrument = {
+  id: string;
+  name: string;
+  patterns: RegExp[]; // recognise the instrument in free-text policy links
+  councils: string[]; // CouncilProfile ids; empty = every council
+  frameworkId?: string; // only when this council framework is enabled
+  perCouncilName?: boolean; // shown under the council's own plan name
+};
+
+export type PolicyProvision = {
+  id: string;
+  instrumentId: string;
+  ref: string;
+  title: string;
+  categories: Category[];
+  keywords: string[]; // matched on normalizeForMatch text
+};
+
+const DISTRICT_COUNCILS = ["hcc", "wdc", "waipa", "otorohanga", "custom"];
+
+export const POLICY_INSTRUMENTS: PolicyInstrument[] = [
+  { id: "ttw", name: "Te Ture Whaimana o Te Awa o Waikato", patterns: [/te ture whaimana|vision and strategy/], councils: [] },
+  { id: "ttpta", name: "Tai Tumu, Tai Pari, Tai Ao (Waikato-Tainui Environmental Plan)", patterns: [/tai tumu|tai pari|tai ao|waikato-tainui emp/], councils: [] },
+  { id: "hpmo", name: "He Pou Manawa Ora", patterns: [/he pou manawa ora|hpmo/], councils: [], frameworkId: "hpmo" },
+  { id: "hnzpta", name: "Heritage New Zealand Pouhere Taonga Act 2014", patterns: [/pouhere taonga act|hnzpt/], councils: [] },
+  { id: "district-plan", name: "District Plan", patterns: [/district plan/], councils: DISTRICT_COUNCILS, perCouncilName: true },
+  { id: "wrps", name: "Waikato Regional Policy Statement", patterns: [/regional policy statement|\bwrps\b/], councils: ["wrc"] },
+  { id: "wrp", name: "Waikato Regional Plan", patterns: [/regional plan\b/], councils: ["wrc"] },
+];
+
+const ALL: Category[] = ["wai", "whenua", "whakapapa", "wh\u0101nau", "mauri", "wairua"];
+
+export const POLICY_PROVISIONS: PolicyProvision[] = [
+  // Te Ture Whaimana: the Vision and the objectives in section 3.2
+  { id: "ttw-vision", instrumentId: "ttw", ref: "Vision", title: "A future where a healthy Waikato River sustains abundant life and prosperous communities", categories: ALL, keywords: ["vision", "healthy river"] },
+  { id: "ttw-a", instrumentId: "ttw", ref: "Objective (a)", title: "Restoration and protection of the health and wellbeing of the Waikato River", categories: ["wai", "mauri"], keywords: ["health and wellbeing", "objective 1", "water quality"] },
+  { id: "ttw-b", instrumentId: "ttw", ref: "Objective (b)", title: "Restoration and protection of the relationships of Waikato-Tainui with the Waikato River", categories: ["wai", "wairua", "wh\u0101nau"], keywords: ["relationship", "waikato-tainui"] },
+  { id: "ttw-e", instrumentId: "ttw", ref: "Objective (e)", title: "Integrated, holistic and co-ordinated management of natural, physical, cultural and historic resources", categories: ["whenua", "whakapapa"], keywords: ["integrated", "holistic", "co-ordinated"] },
+  { id: "ttw-f", instrumentId: "ttw", ref: "Objective (f)", title: "A precautionary approach to decisions that may have significant adverse effects", categories: ["mauri", "wai"], keywords: ["precaution", "storm", "irreversible"] },
+  { id: "ttw-g", instrumentId: "ttw", ref: "Objective (g)", title: "Recognition and avoidance of adverse cumulative effects", categories: ["wai", "mauri", "whakapapa"], keywords: ["cumulative"] },
+  { id: "ttw-h", instrumentId: "ttw", ref: "Objective (h)", title: "The River should not be required to absorb further degradation", categories: ["wai", "mauri"], keywords: ["degradation", "discharge", "sediment"] },
+  { id: "ttw-i", instrumentId: "ttw", ref: "Objective (i)", title: "Protection and enhancement of significant sites, fisheries, flora and fauna", categories: ["whakapapa", "wai", "whenua"], keywords: ["fisheries", "flora", "fauna", "ecological", "significant sites", "habitat"] },
+  { id: "ttw-k", instrumentId: "ttw", ref: "Objective (k)", title: "Water quality safe to swim in and take food from over the River's length", categories: ["wai"], keywords: ["mahinga kai", "take food", "swim", "clarity"] },
+  { id: "ttw-m", instrumentId: "ttw", ref: "Objective (m)", title: "Application of both m\u0101tauranga M\u0101ori and the latest scientific methods", categories: ["mauri", "wai"], keywords: ["matauranga", "cultural health index", "co-designed monitoring"] },
+
+  // Tai Tumu, Tai Pari, Tai Ao: the issue chapters most CIAs are tested against
+  { id: "ttpta-wai", instrumentId: "ttpta", ref: "Wai", title: "Water quality, quantity and the mauri of waterways", categories: ["wai", "mauri"], keywords: ["wai:", "water quality", "waterway", "stormwater"] },
+  { id: "ttpta-mahinga-kai", instrumentId: "ttpta", ref: "Mahinga kai", title: "Customary fisheries and mahinga kai protection", categories: ["wai", "whakapapa"], keywords: ["mahinga kai", "tuna", "inanga", "fisheries"] },
+  { id: "ttpta-whenua", instrumentId: "ttpta", ref: "Whenua", title: "Land use, soils and earthworks", categories: ["whenua"], keywords: ["whenua:", "soils", "earthworks", "topsoil"] },
+  { id: "ttpta-wahi-tapu", instrumentId: "ttpta", ref: "W\u0101hi tapu", title: "Protection of w\u0101hi tapu, urup\u0101 and cultural heritage", categories: ["whenua", "wairua"], keywords: ["wahi tapu", "urupa", "koiwi", "taonga", "heritage"] },
+  { id: "ttpta-biodiversity", instrumentId: "ttpta", ref: "Indigenous biodiversity", title: "Restoring indigenous biodiversity and ecological connectivity", categories: ["whakapapa"], keywords: ["biodiversity", "whakapapa:", "corridor", "eco-sourced", "intergenerational"] },
+  { id: "ttpta-participation", instrumentId: "ttpta", ref: "Participation", title: "Early and meaningful participation of Waikato-Tainui, marae and wh\u0101nau", categories: ["wh\u0101nau"], keywords: ["participation", "marae", "whanau", "engagement"] },
+  { id: "ttpta-mauri", instrumentId: "ttpta", ref: "Mauri and tikanga", title: "Maintaining mauri and giving effect to tikanga", categories: ["mauri", "wairua"], keywords: ["mauri", "tikanga", "karakia"] },
+  { id: "ttpta-landscape", instrumentId: "ttpta", ref: "Cultural landscapes", title: "Cultural landscapes, maunga and viewshafts", categories: ["wairua"], keywords: ["landscape", "viewshaft", "maunga", "wairua"] },
+
+  // He Pou Manawa Ora: the four pou
+  { id: "hpmo-history", instrumentId: "hpmo", ref: "Pou 1 - History", title: "Celebrating and protecting the history of the city and its M\u0101ori heritage", categories: ["whenua", "wairua"], keywords: ["history", "heritage", "pa site"] },
+  { id: "hpmo-unity", instrumentId: "hpmo", ref: "Pou 2 - Unity", title: "Partnership and participation of mana whenua", categories: ["wh\u0101nau"], keywords: ["partnership", "participation", "co-design"] },
+  { id: "hpmo-prosperity", instrumentId: "hpmo", ref: "Pou 3 - Prosperity", title: "Wellbeing and opportunity for M\u0101ori communities", categories: ["wh\u0101nau"], keywords: ["prosperity", "employment", "funding"] },
+  { id: "hpmo-restoration", instrumentId: "hpmo", ref: "Pou 4 - Restoration", title: "Restoring the natural environment and the mauri of the awa", categories: ["wai", "mauri", "whakapapa"], keywords: ["restoration", "restore", "planting"] },
+
+  // Heritage New Zealand Pouhere Taonga Act 2014
+  { id: "hnzpta-s42", instrumentId: "hnzpta", ref: "s 42 / s 44", title: "Archaeological authority before modifying or destroying an archaeological site", categories: ["whenua", "wairua"], keywords: ["archaeological authority", "archaeolog"] },
+
+  // District plans (named per council)
+  { id: "dp-heritage", instrumentId: "district-plan", ref: "Historic heritage", title: "Historic heritage and sites of significance to M\u0101ori", categories: ["whenua", "wairua"], keywords: ["heritage", "archaeology", "significance to maori"] },
+  { id: "dp-earthworks", instrumentId: "district-plan", ref: "Earthworks", title: "Earthworks, vegetation removal and erosion and sediment control", categories: ["whenua", "wai"], keywords: ["earthworks", "erosion", "sediment control"] },
+  { id: "dp-natural", instrumentId: "district-plan", ref: "Natural environments", title: "Significant natural areas, waterways and riparian margins", categories: ["whakapapa", "wai"], keywords: ["natural", "riparian", "significant natural area"] },
+  { id: "dp-infrastructure", instrumentId: "district-plan", ref: "Three waters", title: "Stormwater and three waters infrastructure", categories: ["wai", "mauri"], keywords: ["infrastructure", "stormwater", "three waters"] },
+  { id: "dp-noise", instrumentId: "district-plan", ref: "Noise and vibration", title: "Construction noise and vibration limits", categories: ["wh\u0101nau"], keywords: ["noise", "vibration"] },
+  { id: "dp-transport", instrumentId: "district-plan", ref: "Transportation", title: "Construction traffic, access and transport effects", categories: ["wh\u0101nau"], keywords: ["traffic", "transport", "access"] },
+  { id: "dp-landscape", instrumentId: "district-plan", ref: "Landscape and amenity", title: "Landscape, amenity and viewshaft objectives and policies", categories: ["wairua"], keywords: ["landscape", "amenity", "viewshaft"] },
+
+  // Regional instruments (Waikato Regional Council)
+  { id: "wrps-te-ture", instrumentId: "wrps", ref: "Integrating framework", title: "Giving effect to Te Ture Whaimana in regional resource management", categories: ["wai", "mauri"], keywords: ["te ture whaimana", "integrat"] },
+  { id: "wrps-freshwater", instrumentId: "wrps", ref: "Fresh water", title: "Maintaining or enhancing fresh water body health", categories: ["wai", "mauri"], keywords: ["fresh water", "freshwater", "water body"] },
+  { id: "wrps-heritage", instrumentId: "wrps", ref: "Historic and cultural heritage", title: "Recognising and protecting historic and cultural heritage", categories: ["whenua", "wairua"], keywords: ["heritage", "wahi tapu"] },
+  { id: "wrp-water", instrumentId: "wrp", ref: "Chapter 3 - Water", title: "Discharges to water and water quality standards", categories: ["wai", "mauri"], keywords: ["discharge", "water quality", "clarity"] },
+  { id: "wrp-land", instrumentId: "wrp", ref: "Chapter 5 - Land and soil", title: "Soil disturbance, earthworks and sediment", categories: ["whenua", "wai"], keywords: ["soil disturbance", "earthworks", "sediment"] },
+];
+
+export function provisionById(id: string): PolicyProvision | undefined {
+  return POLICY_PROVISIONS.find((p) => p.id === id);
+}
+
+function instrument(id: string): PolicyInstrument | undefined {
+  return POLICY_INSTRUMENTS.find((i) => i.id === id);
+}
+
+export function instrumentName(instrumentId: string, profile: CouncilProfile): string {
+  const found = instrument(instrumentId);
+  if (!found) return instrumentId;
+  return found.perCouncilName ? profile.policyInstruments.find((p) => /district plan/i.test(p)) ?? found.name : found.name;
+}
+
+// "Te Ture Whaimana - Objective (k)"
+export function provisionLabel(provision: PolicyProvision, profile: CouncilProfile): string {
+  return `${instrumentName(provision.instrumentId, profile)} - ${provision.ref}`;
+}
+
+export function applicableProvisions(profile: CouncilProfile, enabledFrameworks: string[]): PolicyProvision[] {
+  const instruments = POLICY_INSTRUMENTS.filter(
+    (i) => (!i.councils.length || i.councils.includes(profile.id)) && (!i.frameworkId || enabledFrameworks.includes(i.frameworkId))
+  ).map((i) => i.id);
+  return POLICY_PROVISIONS.filter((p) => instruments.includes(p.instrumentId));
+}
+
+// ---------------------------------------------------------------------------------
+// Free-text policy links -> provision ids (used to upgrade findings saved before
+// the catalogue, and to suggest links while editing)
+
+function keywordHits(provision: PolicyProvision, text: string): number {
+  return provision.keywords.filter((k) => text.includes(normalizeForMatch(k))).length;
+}
+
+export function provisionsFromLinks(links: string[], provisions: PolicyProvision[] = POLICY_PROVISIONS): string[] {
+  const ids = new Set<string>();
+  for (const link of links) {
+    const text = normalizeForMatch(link);
+    const inst = POLICY_INSTRUMENTS.find((i) => i.patterns.some((re) => re.test(text)));
+    if (!inst) continue;
+    const candidates = provisions.filter((p) => p.instrumentId === inst.id);
+    const hits = candidates.filter((p) => keywordHits(p, text) > 0);
+    for (const p of hits.length ? hits : candidates.slice(0, 1)) ids.add(p.id);
+  }
+  return Array.from(ids);
+}
+
+// ---------------------------------------------------------------------------------
+// Crosswalk: how far each finding addresses each provision.
+// aligned = linked, with a mitigation and an enforceable measure (consent clause or
+// trigger threshold); partial = linked without one of those, or addressed in
+// substance (same category, matching terms) without being linked.
+
+export type Alignment = "aligned" | "partial" | "none";
+
+export const ALIGNMENT_LABELS: Record<Alignment, string> = {
+  aligned: "Aligned",
+  partial: "Partially addressed",
+  none: "Not addressed",
+};
+
+function findingText(f: Finding): string {
+  return normalizeForMatch(
+    [f.issue, ...Object.values(f.effects).flat(), ...f.mitigations, ...f.recommendations, ...f.consentClauses, ...f.policyLinks].join(" ")
+  );
+}
+
+export function alignment(finding: Finding, provision: PolicyProvision, text: string = findingText(finding)): Alignment {
+  if (finding.provisions.includes(provision.id)) {
+    const enforceable = finding.consentClauses.length > 0 || finding.triggers.thresholds.length > 0;
+    return finding.mitigations.length > 0 && enforceable ? "aligned" : "partial";
+  }
+  if (provision.categories.includes(finding.category as Category) && keywordHits(provision, text) > 0) return "partial";
+  return "none";
+}
+
+export type CrosswalkRow = { provision: PolicyProvision; cells: Alignment[]; best: Alignment };
+
+export function crosswalk(findings: Finding[], provisions: PolicyProvision[]): CrosswalkRow[] {
+  const texts = findings.map(findingText);
+  return provisions.map((provision) => {
+    const cells = findings.map((f, i) => alignment(f, provision, texts[i]));
+    const best: Alignment = cells.includes("aligned") ? "aligned" : cells.includes("partial") ? "partial" : "none";
+    return { provision, cells, best };
+  });
+}
+
+export type GapReport = {
+  categories: string[]; // categories the project's findings cover
+  notAddressed: PolicyProvision[];
+  partial: PolicyProvision[];
+};
+
+// Provisions relevant to the project's categories that no finding fully addresses
+export function policyGaps(findings: Finding[], provisions: PolicyProvision[]): GapReport {
+  const categories = Array.from(new Set(findings.map((f) => f.category)));
+  const relevant = crosswalk(findings, provisions).filter((r) => r.provision.categories.some((c) => categories.includes(c)));
+  return {
+    categories,
+    notAddressed: relevant.filter((r) => r.best === "none").map((r) => r.provision),
+    partial: relevant.filter((r) => r.best === "partial").map((r) => r.provision),
+  };
+}
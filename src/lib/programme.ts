@@ -0,0 +1,278 @@
+import { parseTimestamp } from "./exceedance";
+import { splitCsvLine } from "./siteLayers";
+import { dayKey } from "./workingDays";
+
+// ---------------------------------------------------------------------------------
+// Construction programme and restriction calendar. The contractor's programme
+// (CSV or MS Project XML) is reduced to dated activities of a work type; each is
+// checked against restriction windows such as tuna migration or marae events, and
+// every overlap is reported as a conflict.
+//
+// Dates are local calendar days written "YYYY-MM-DD"; annual windows use "MM-DD".
+
+export type WorkType = "instream" | "earthworks" | "stripping" | "vegetation" | "haulage" | "other";
+
+// Checked in order: "topsoil stripping" is stripping before it is earthworks.
+// Words match whole (stems at their start), so "Street lighting" is not a tree
+// and a "pile driver" is not a river.
+export const WORK_TYPES: { id: WorkType; label: string; pattern: RegExp | null }[] = [
+  {
+    id: "instream",
+    label: "Instream works",
+    pattern: /\bin-?\s*stream\b|\bculverts?\b|\bchannel|\bstreams?\b|\bwatercourses?\b|\brivers?\b|\boutfalls?\b|\bbridges?\b|\babutments?\b|\bfish pass|\bdiversions?\b|\bdewater|\bbed works\b/,
+  },
+  { id: "stripping", label: "Stripping", pattern: /\bstrip|\btopsoil|\bgrubb/ },
+  { id: "vegetation", label: "Vegetation clearance", pattern: /\bvegetation\b|\bclearance\b|\bclearing\b|\btrees?\b|\bfelling\b|\briparian\b|\bplanting\b/ },
+  { id: "earthworks", label: "Earthworks", pattern: /\bearth ?works?\b|\bexcavat|\bcut\b|\bfill\b|\bbulk\b|\btrench|\bgrading\b|\bembankments?\b|\bsubgrade\b|\bpiles?\b|\bpiling\b/ },
+  { id: "haulage", label: "Haulage and construction traffic", pattern: /\bhaul|\bcartage\b|\btraffic\b|\btrucks?\b|\bdeliver|\bmobilis|\bmobiliz|\broad ?works?\b|\bpaving\b|\bseal/ },
+  { id: "other", label: "Other", pattern: null },
+];
+
+export function workTypeLabel(type: WorkType): string {
+  return WORK_TYPES.find((w) => w.id === type)?.label ?? type;
+}
+
+export function classifyWork(text: string): WorkType {
+  const t = text.toLowerCase();
+  return WORK_TYPES.find((w) => w.pattern?.test(t))?.id ?? "other";
+}
+
+export type ProgrammeActivity = {
+  id: string;
+  ref: string; // task id or WBS code from the source programme
+  name: string;
+  type: WorkType;
+  start: string;
+  end: string;
+};
+
+export type ConstructionProgramme = {
+  activities: ProgrammeActivity[];
+  source: string | null; // imported file name
+  importedAt: string | null;
+};
+
+export const EMPTY_PROGRAMME: ConstructionProgramme = { activities: [], source: null, importedAt: null };
+
+export type RestrictionKind = "migration" | "spawning" | "marae" | "other";
+
+export const RESTRICTION_KINDS: { id: RestrictionKind; label: string }[] = [
+  { id: "migration", label: "Species migration" },
+  { id: "spawning", label: "Spawning" },
+  { id: "marae", label: "Marae event" },
+  { id: "other", label: "Other" },
+];
+
+export type RestrictionWindow = {
+  id: string;
+  name: string;
+  kind: RestrictionKind;
+  annual: boolean; // start/end are "MM-DD" and repeat every year; may wrap over New Year
+  start: string;
+  end: string;
+  appliesTo: WorkType[]; // empty: every work type
+  note: string;
+};
+
+// Starting points for the Waikato; confirm the windows with mana whenua and the project ecologist
+export const DEFAULT_RESTRICTIONS: RestrictionWindow[] = [
+  {
+    id: "tuna-heke",
+    name: "Tuna (eel) downstream migration - heke",
+    kind: "migration",
+    annual: true,
+    start: "02-01",
+    end: "05-31",
+    appliesTo: ["instream"],
+    note: "Adult tuna migrate to sea on dark, wet nights in late summer and autumn.",
+  },
+  {
+    id: "inanga-spawning",
+    name: "\u012Ananga spawning",
+    kind: "spawning",
+    annual: true,
+    start: "02-01",
+    end: "05-31",
+    appliesTo: ["instream", "vegetation"],
+    note: "Spawning in riparian vegetation at the saltwater limit around spring tides.",
+  },
+  {
+    id: "juvenile-upstream",
+    name: "Juvenile fish (whitebait, elvers) upstream migration",
+    kind: "migration",
+    annual: true,
+    start: "08-15",
+    end: "11-30",
+    appliesTo: ["instream"],
+    note: "Keep fish passage open; no barriers or dewatering of the channel.",
+  },
+];
+
+export function newRestrictionId(): string {
+  return `restr-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function restrictionKindLabel(kind: RestrictionKind): string {
+  return RESTRICTION_KINDS.find((k) => k.id === kind)?.label ?? kind;
+}
+
+// ---------------------------------------------------------------------------------
+// Conflicts
+
+export type ProgrammeConflict = {
+  id: string;
+  activity: ProgrammeActivity;
+  restriction: RestrictionWindow;
+  from: string;
+  to: string;
+  days: number; // calendar days of overlap, inclusive
+};
+
+function daysInclusive(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000) + 1;
+}
+
+// Dated occurrences of a window that touch from..to
+export function restrictionOccurrences(w: RestrictionWindow, from: string, to: string): { start: string; end: string }[] {
+  if (!w.annual) return w.start <= to && w.end >= from ? [{ start: w.start, end: w.end }] : [];
+  const out: { start: string; end: string }[] = [];
+  const wraps = w.end < w.start;
+  for (let y = Number(from.slice(0, 4)) - 1; y <= Number(to.slice(0, 4)); y++) {
+    const start = `${y}-${w.start}`;
+    const end = `${wraps ? y + 1 : y}-${w.end}`;
+    if (start <= to && end >= from) out.push({ start, end });
+  }
+  return out;
+}
+
+export function appliesTo(w: RestrictionWindow, type: WorkType): boolean {
+  return !w.appliesTo.length || w.appliesTo.includes(type);
+}
+
+export function findConflicts(activities: ProgrammeActivity[], restrictions: RestrictionWindow[]): ProgrammeConflict[] {
+  const conflicts: ProgrammeConflict[] = [];
+  for (const a of activities) {
+    for (const w of restrictions) {
+      if (!appliesTo(w, a.type)) continue;
+      for (const o of restrictionOccurrences(w, a.start, a.end)) {
+        const from = o.start > a.start ? o.start : a.start;
+        const to = o.end < a.end ? o.end : a.end;
+        conflicts.push({ id: `${a.id}|${w.id}|${from}`, activity: a, restriction: w, from, to, days: daysInclusive(from, to) });
+      }
+    }
+  }
+  return conflicts.sort((x, y) => x.from.localeCompare(y.from) || x.activity.name.localeCompare(y.activity.name));
+}
+
+export function programmeSpan(activities: ProgrammeActivity[]): { start: string; end: string } | null {
+  if (!activities.length) return null;
+  return {
+    start: activities.reduce((m, a) => (a.start < m ? a.start : m), activities[0].start),
+    end: activities.reduce((m, a) => (a.end > m ? a.end : m), activities[0].end),
+  };
+}
+
+// Window dates as people write them: "1 Feb - 31 May (every year)"
+export function formatWindow(w: RestrictionWindow): string {
+  const fmt = (d: string, withYear: boolean) =>
+    new Date(`${w.annual ? `2000-${d}` : d}T00:00:00`).toLocaleDateString("en-NZ", { day: "numeric", month: "short", ...(withYear ? { year: "numeric" } : {}) });
+  return w.annual ? `${fmt(w.start, false)} - ${fmt(w.end, false)} (every year)` : `${fmt(w.start, true)} - ${fmt(w.end, true)}`;
+}
+
+// ---------------------------------------------------------------------------------
+// Import: CSV with a name, start and finish column (type and id optional), or an
+// MS Project XML export. Summary tasks are dropped; their names help classify the
+// tasks beneath them.
+
+// "Mon 2/11/26" (MS Project CSV) -> "2/11/2026"; otherwise as parseTimestamp reads it
+function parseDay(text: string): string | null {
+  const t = text
+    .trim()
+    .replace(/^(mon|tue|wed|thu|fri|sat|sun)[a-z]*\.?\s+/i, "")
+    .replace(/^(\d{1,2}[/.-]\d{1,2}[/.-])(\d{2})(?=$|[ T])/, (_, dayMonth: string, yy: string) => `${dayMonth}20${yy}`);
+  const d = parseTimestamp(t);
+  return d ? dayKey(d) : null;
+}
+
+function activityId(source: string, ref: string, index: number): string {
+  return `${source.replace(/\W+/g, "-").toLowerCase()}-${ref || index + 1}`;
+}
+
+function column(header: string[], names: string[]): number {
+  return header.findIndex((h) => names.includes(h.toLowerCase().replace(/[\s_-]+/g, "")));
+}
+
+export function parseProgrammeCsv(text: string, source: string): { activities: ProgrammeActivity[]; skipped: number } {
+  const lines = text.split(/\r?\n/).filter((l) => l.trim());
+  if (lines.length < 2) throw new Error("CSV has no data rows");
+  const header = splitCsvLine(lines[0]);
+  const col = {
+    ref: column(header, ["id", "taskid", "uid", "wbs", "ref", "activityid"]),
+    name: column(header, ["name", "taskname", "task", "activity", "activityname", "description"]),
+    type: column(header, ["type", "worktype", "activitytype", "category", "kind"]),
+    start: column(header, ["start", "startdate", "from", "begin"]),
+    end: column(header, ["finish", "finishdate", "end", "enddate", "to"]),
+  };
+  if (col.name < 0 || col.start < 0 || col.end < 0) throw new Error("CSV needs activity name, start and finish columns");
+
+  const activities: ProgrammeActivity[] = [];
+  let skipped = 0;
+  lines.slice(1).forEach((line, i) => {
+    const cells = splitCsvLine(line);
+    const name = cells[col.name] ?? "";
+    const start = parseDay(cells[col.start] ?? "");
+    const end = parseDay(cells[col.end] ?? "");
+    if (!name || !start || !end) {
+      skipped++;
+      return;
+    }
+    const ref = col.ref >= 0 ? (cells[col.ref] ?? "") : "";
+    const typeText = col.type >= 0 ? (cells[col.type] ?? "") : "";
+    const type = classifyWork(typeText) !== "other" ? classifyWork(typeText) : classifyWork(name);
+    activities.push({ id: activityId(source, ref, i), ref, name, type, start: start <= end ? start : end, end: start <= end ? end : start });
+  });
+  return { activities, skipped };
+}
+
+export function parseProjectXml(text: string, source: string): { activities: ProgrammeActivity[]; skipped: number } {
+  const xml = new DOMParser().parseFromString(text, "application/xml");
+  if (xml.getElementsByTagName("parsererror").length) throw new Error("MS Project XML could not be parsed");
+  const tasks = Array.from(xml.getElementsByTagName("Task"));
+  if (!tasks.length) throw new Error("No tasks found; export the programme from MS Project as XML");
+
+  const field = (task: Element, tag: string) => {
+    const el = Array.from(task.childNodes).find((n): n is Element => n.nodeType === 1 && (n as Element).tagName === tag);
+    return el?.textContent?.trim() ?? "";
+  };
+  const summaries: string[] = []; // summary task names by outline level
+  const activities: ProgrammeActivity[] = [];
+  let skipped = 0;
+  tasks.forEach((task, i) => {
+    const name = field(task, "Name");
+    const level = Number(field(task, "OutlineLevel")) || 1;
+    if (field(task, "Summary") === "1") {
+      summaries[level] = name;
+      summaries.length = level + 1;
+      return;
+    }
+    if (field(task, "UID") === "0") return; // the project summary task
+    const start = parseDay(field(task, "Start"));
+    const end = parseDay(field(task, "Finish"));
+    if (!name || !start || !end) {
+      skipped++;
+      return;
+    }
+    const parents = summaries.slice(1, level).filter(Boolean).join(" ");
+    const type = classifyWork(name) !== "other" ? classifyWork(name) : classifyWork(parents);
+    const ref = field(task, "WBS") || field(task, "UID");
+    activities.push({ id: activityId(source, ref, i), ref, name, type, start, end: end < start ? start : end });
+  });
+  return { activities, skipped };
+}
+
+export function parseProgramme(text: string, fileName: string): { activities: ProgrammeActivity[]; skipped: number } {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith(".csv")) return parseProgrammeCsv(text, fileName);
+  if (lower.endsWith(".xml")) return parseProjectXml(text, fileName);
+  throw new Error("Use a CSV or an MS Project XML export");
+}
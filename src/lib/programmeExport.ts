@@ -0,0 +1,97 @@
+import { Document as DocxDocument, HeadingLevel, Paragraph, Table, TableCell, TableRow, TextRun, WidthType } from "docx";
+import { coverPage, pageFooter, pageHeader } from "./docxRender";
+import { dayKey } from "./workingDays";
+import { formatWindow, restrictionKindLabel, workTypeLabel, type ConstructionProgramme, type ProgrammeConflict, type RestrictionWindow } from "./programme";
+
+// ---------------------------------------------------------------------------------
+// Programme conflict report: a CSV with one row per conflict for the contractor's
+// planner, and a DOCX with the restriction calendar and conflicts by activity
+
+function formatDay(day: string): string {
+  return new Date(`${day}T00:00:00`).toLocaleDateString("en-NZ", { day: "numeric", month: "short", year: "numeric" });
+}
+
+function csvCell(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function conflictReportCsv(conflicts: ProgrammeConflict[]): string {
+  const header = ["Activity ref", "Activity", "Work type", "Activity start", "Activity finish", "Restriction", "Restriction type", "Window", "Conflict from", "Conflict to", "Days"];
+  const rows = conflicts.map((c) => [
+    c.activity.ref,
+    c.activity.name,
+    workTypeLabel(c.activity.type),
+    c.activity.start,
+    c.activity.end,
+    c.restriction.name,
+    restrictionKindLabel(c.restriction.kind),
+    formatWindow(c.restriction),
+    c.from,
+    c.to,
+    String(c.days),
+  ]);
+  return [header, ...rows].map((r) => r.map(csvCell).join(",")).join("\n");
+}
+
+function cell(text: string, bold = false, color?: string): TableCell {
+  return new TableCell({ children: [new Paragraph({ children: [new TextRun({ text, bold, color })] })] });
+}
+
+function table(header: string[], rows: TableCell[][]): Table {
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [new TableRow({ tableHeader: true, children: header.map((h) => cell(h, true)) }), ...rows.map((children) => new TableRow({ children }))],
+  });
+}
+
+export function buildConflictReportDocument(
+  programme: ConstructionProgramme,
+  restrictions: RestrictionWindow[],
+  conflicts: ProgrammeConflict[],
+  projectName: string,
+  now: Date = new Date()
+): DocxDocument {
+  const title = "Programme Restriction Conflicts";
+  const conflicting = programme.activities.filter((a) => conflicts.some((c) => c.activity.id === a.id));
+
+  const byActivity = conflicting.flatMap((a) => [
+    new Paragraph({ text: `${a.ref ? `${a.ref} ` : ""}${a.name}`, heading: HeadingLevel.HEADING_2 }),
+    new Paragraph({ text: `${workTypeLabel(a.type)}, ${formatDay(a.start)} - ${formatDay(a.end)}.` }),
+    table(
+      ["Restriction", "Window", "Conflict", "Days"],
+      conflicts
+        .filter((c) => c.activity.id === a.id)
+        .map((c) => [cell(c.restriction.name), cell(formatWindow(c.restriction)), cell(`${formatDay(c.from)} - ${formatDay(c.to)}`, true, "B91C1C"), cell(String(c.days))])
+    ),
+  ]);
+
+  return new DocxDocument({
+    title,
+    sections: [
+      {
+        properties: { titlePage: true },
+        children: coverPage(title, projectName, `${conflicts.length} conflict(s) across ${conflicting.length} of ${programme.activities.length} activities, exported ${formatDay(dayKey(now))}`),
+      },
+      {
+        headers: { default: pageHeader(projectName, title) },
+        footers: { default: pageFooter() },
+        children: [
+          new Paragraph({ text: "Restriction calendar", heading: HeadingLevel.HEADING_1 }),
+          table(
+            ["Restriction", "Type", "Window", "Applies to", "Note"],
+            restrictions.map((w) => [
+              cell(w.name),
+              cell(restrictionKindLabel(w.kind)),
+              cell(formatWindow(w)),
+              cell(w.appliesTo.length ? w.appliesTo.map(workTypeLabel).join(", ") : "All works"),
+              cell(w.note),
+            ])
+          ),
+          new Paragraph({ text: "Conflicts by activity", heading: HeadingLevel.HEADING_1 }),
+          new Paragraph({ text: programme.source ? `Programme: ${programme.source}.` : "Programme entered in the app." }),
+          ...(byActivity.length ? byActivity : [new Paragraph({ text: "No activity falls inside a restriction window that applies to it." })]),
+        ],
+      },
+    ],
+  });
+}
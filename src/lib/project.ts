@@ -0,0 +1,154 @@
+import { newFindingId, type Finding } from "./model";
+import type { IngestedDocument } from "./ingest";
+import type { TopicMatch } from "./analysis";
+import type { FigureItem } from "./figures";
+import { DEFAULT_TOPICS, type TopicEntry } from "./rules";
+import { sampleFindings } from "./sampleFindings";
+import { DEFAULT_COUNCIL, councilProfile, defaultFrameworks } from "./councils";
+import type { NamedArea } from "./geo";
+import { EMPTY_SITE, type SiteGeometry } from "./icmpSpatial";
+import type { HeritageSite } from "./siteLayers";
+import { DEFAULT_SITE_BUFFER_M } from "./proximity";
+import { EMPTY_MONITORING_DATA, type MonitoringData } from "./exceedance";
+import type { FieldLogEntry } from "./fieldLog";
+import type { Incident } from "./incidents";
+import { EMPTY_CONDITIONS_SCHEDULE, type ConditionsSchedule } from "./conditions";
+import { provisionsFromLinks } from "./policyCatalogue";
+import { DEFAULT_NARRATIVE_DEPTH, type NarrativeDepth } from "./narrative";
+import { EMPTY_CONSTRUCTION_DATES, type ConstructionDates } from "./monitoringCalendar";
+import { DEFAULT_RESTRICTIONS, EMPTY_PROGRAMME, type ConstructionProgramme, type RestrictionWindow } from "./programme";
+import { DEFAULT_COST_RATES, type CostRates } from "./costing";
+
+// ---------------------------------------------------------------------------------
+// A CIA project: everything the app needs to restore an assessment
+
+export type CiaProject = {
+  id: string;
+  name: string;
+  location: string;
+  council: string;
+  inferredICMP: string;
+  frameworks: string[]; // enabled optional council frameworks (CouncilFramework ids)
+  site: SiteGeometry;
+  icmpBoundaries: NamedArea[];
+  heritageSites: HeritageSite[];
+  siteBufferM: number;
+  monitoringData: MonitoringData;
+  fieldLog: FieldLogEntry[];
+  incidents: Incident[];
+  conditionsSchedule: ConditionsSchedule;
+  narrativeDepth: NarrativeDepth;
+  organisationId: string | null; // whose narrative templates to use; null for the built-in ones
+  constructionDates: ConstructionDates;
+  programme: ConstructionProgramme;
+  restrictions: RestrictionWindow[];
+  costRates: CostRates;
+  documents: IngestedDocument[];
+  findings: Finding[];
+  topics: TopicEntry[];
+  topicMatches: TopicMatch[];
+  figures: FigureItem[];
+  archived: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type ProjectSummary = Pick<CiaProject, "id" | "name" | "council" | "location" | "archived" | "createdAt" | "updatedAt"> & {
+  findingCount: number;
+  documentCount: number;
+};
+
+export function newProjectId(): string {
+  return `proj-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function createProject(name: string, withDemoFindings = false): CiaProject {
+  const now = new Date().toISOString();
+  return {
+    id: newProjectId(),
+    name,
+    location: "",
+    council: DEFAULT_COUNCIL,
+    inferredICMP: "(not set)",
+    frameworks: defaultFrameworks(councilProfile(DEFAULT_COUNCIL)),
+    site: EMPTY_SITE,
+    icmpBoundaries: [],
+    heritageSites: [],
+    siteBufferM: DEFAULT_SITE_BUFFER_M,
+    monitoringData: EMPTY_MONITORING_DATA,
+    fieldLog: [],
+    incidents: [],
+    conditionsSchedule: EMPTY_CONDITIONS_SCHEDULE,
+    narrativeDepth: DEFAULT_NARRATIVE_DEPTH,
+    organisationId: null,
+    constructionDates: EMPTY_CONSTRUCTION_DATES,
+    programme: EMPTY_PROGRAMME,
+    restrictions: DEFAULT_RESTRICTIONS,
+    costRates: DEFAULT_COST_RATES,
+    documents: [],
+    findings: withDemoFindings ? sampleFindings : [],
+    topics: DEFAULT_TOPICS,
+    topicMatches: [],
+    figures: [],
+    archived: false,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// Fills fields added since a record was saved; older records carried a single
+// includeHPMO flag instead of the framework list
+export function upgradeStoredProject(stored: CiaProject & { includeHPMO?: boolean }): CiaProject {
+  const { includeHPMO, ...rest } = stored;
+  return {
+    ...rest,
+    frameworks: Array.isArray(stored.frameworks) ? stored.frameworks : includeHPMO ? ["hpmo"] : [],
+    site: stored.site ?? EMPTY_SITE,
+    icmpBoundaries: stored.icmpBoundaries ?? [],
+    heritageSites: stored.heritageSites ?? [],
+    siteBufferM: stored.siteBufferM ?? DEFAULT_SITE_BUFFER_M,
+    monitoringData: stored.monitoringData ?? EMPTY_MONITORING_DATA,
+    fieldLog: stored.fieldLog ?? [],
+    incidents: stored.incidents ?? [],
+    conditionsSchedule: stored.conditionsSchedule ?? EMPTY_CONDITIONS_SCHEDULE,
+    narrativeDepth: stored.narrativeDepth ?? DEFAULT_NARRATIVE_DEPTH,
+    organisationId: stored.organisationId ?? null,
+    constructionDates: stored.constructionDates ?? EMPTY_CONSTRUCTION_DATES,
+    programme: stored.programme ?? EMPTY_PROGRAMME,
+    restrictions: stored.restrictions ?? DEFAULT_RESTRICTIONS,
+    costRates: stored.costRates ?? DEFAULT_COST_RATES,
+    findings: stored.findings.map((f) => ({
+      ...f,
+      id: f.id ?? newFindingId(),
+      provisions: Array.isArray(f.provisions) ? f.provisions : provisionsFromLinks(f.policyLinks),
+      sources: f.sources ?? [],
+    })),
+  };
+}
+
+export function duplicateProject(project: CiaProject): CiaProject {
+  const now = new Date().toISOString();
+  return { ...structuredClone(project), id: newProjectId(), name: `${project.name} (copy)`, archived: false, createdAt: now, updatedAt: now };
+}
+
+// The switcher list with one project's summary replaced (or added); the same list
+// when nothing in the summary changed, so an autosave re-renders nothing
+export function withSummary(list: ProjectSummary[], summary: ProjectSummary): ProjectSummary[] {
+  const prev = list.find((p) => p.id === summary.id);
+  if (prev && (Object.keys(summary) as (keyof ProjectSummary)[]).every((k) => prev[k] === summary[k])) return list;
+  return [...list.filter((p) => p.id !== summary.id), summary].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export function summariseProject(p: CiaProject): ProjectSummary {
+  return {
+    id: p.id,
+    name: p.name,
+    council: p.council,
+    location: p.location,
+    archived: p.archived,
+    createdAt: p.createdAt,
+    updatedAt: p.updatedAt,
+    findingCount: p.findings.length,
+    documentCount: p.documents.length,
+  };
+}
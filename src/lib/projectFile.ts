@@ -0,0 +1,801 @@
+import { CITED_FIELDS, newFindingId, type CitedField, type Effects, type Finding, type MonitoringRow, type SourceRef, type TriggerSpec } from "./model";
+import type { FigureItem } from "./figures";
+import type { DocumentBlock, DocumentKind, IngestedDocument } from "./ingest";
+import type { TopicEntry } from "./rules";
+import type { LngLat, NamedArea } from "./geo";
+import type { SiteGeometry } from "./icmpSpatial";
+import { HERITAGE_KINDS, type HeritageGeometry, type HeritageKind, type HeritageSite } from "./siteLayers";
+import { DEFAULT_SITE_BUFFER_M } from "./proximity";
+import type { MonitoringData, MonitoringReading } from "./exceedance";
+import { FIELD_WEATHER, type FieldLogEntry, type FieldPhoto, type FieldWeather } from "./fieldLog";
+import { INCIDENT_KINDS, type ChecklistItem, type ChecklistSource, type Deadline, type Incident, type IncidentKind } from "./incidents";
+import { CONDITION_GROUPS, DEFAULT_CONDITION_WORKING_DAYS, type ConditionGroup, type ConditionsSchedule, type ScheduledCondition } from "./conditions";
+import { provisionsFromLinks } from "./policyCatalogue";
+import { DEFAULT_NARRATIVE_DEPTH, NARRATIVE_DEPTHS, type NarrativeDepth } from "./narrative";
+import { METRICS, type Metric } from "./thresholds";
+import { EMPTY_CONSTRUCTION_DATES, type ConstructionDates, type StageGate } from "./monitoringCalendar";
+import {
+  DEFAULT_RESTRICTIONS,
+  RESTRICTION_KINDS,
+  WORK_TYPES,
+  type ConstructionProgramme,
+  type ProgrammeActivity,
+  type RestrictionKind,
+  type RestrictionWindow,
+  type WorkType,
+} from "./programme";
+import { COST_RATE_FIELDS, DEFAULT_COST_RATES, type CostRates } from "./costing";
+import { CATEGORIES } from "./model";
+import { deriveMonitoringRows } from "./monitoring";
+import { councilProfile } from "./councils";
+import { newProjectId, type CiaProject } from "./project";
+
+// ---------------------------------------------------------------------------------
+// Portable project file (.cia.json). One self-contained JSON document: figures
+// travel as data URLs, monitoring rows are a snapshot for readers without the app.
+//
+// Bump PROJECT_FILE_VERSION whenever the layout changes and add a migration from
+// the previous version to MIGRATIONS, so files from older builds keep importing.
+
+export const PROJECT_FILE_FORMAT = "cia-project";
+export const PROJECT_FILE_VERSION = 15;
+export const PROJECT_FILE_EXTENSION = ".cia.json";
+
+export type ProjectFile = {
+  format: typeof PROJECT_FILE_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  project: {
+    id: string;
+    name: string;
+    location: string;
+    createdAt: string;
+    updatedAt: string;
+    council: string;
+    icmp: { inferred: string };
+    frameworks: string[];
+    site: SiteGeometry;
+    icmpBoundaries: NamedArea[];
+    heritageSites: HeritageSite[];
+    siteBufferM: number;
+    monitoringData: MonitoringData;
+    fieldLog: FieldLogEntry[];
+    incidents: Incident[];
+    conditionsSchedule: ConditionsSchedule;
+    narrativeDepth: NarrativeDepth;
+    organisationId: string | null; // templates stay on the device; another install falls back to the built-in ones
+    constructionDates: ConstructionDates;
+    programme: ConstructionProgramme;
+    restrictions: RestrictionWindow[];
+    costRates: CostRates;
+    findings: Finding[];
+    figures: FigureItem[];
+    monitoringRows: MonitoringRow[];
+    documents: IngestedDocument[];
+    topics: TopicEntry[];
+  };
+};
+
+export class ProjectFileError extends Error {
+  issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(message);
+    this.name = "ProjectFileError";
+    this.issues = issues;
+  }
+}
+
+// ---------------------------------------------------------------------------------
+// Export
+
+export function toProjectFile(project: CiaProject): ProjectFile {
+  return {
+    format: PROJECT_FILE_FORMAT,
+    schemaVersion: PROJECT_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    project: {
+      id: project.id,
+      name: project.name,
+      location: project.location,
+      createdAt: project.createdAt,
+      updatedAt: project.updatedAt,
+      council: project.council,
+      icmp: { inferred: project.inferredICMP },
+      frameworks: project.frameworks,
+      site: project.site,
+      icmpBoundaries: project.icmpBoundaries,
+      heritageSites: project.heritageSites,
+      siteBufferM: project.siteBufferM,
+      monitoringData: project.monitoringData,
+      fieldLog: project.fieldLog,
+      incidents: project.incidents,
+      conditionsSchedule: project.conditionsSchedule,
+      narrativeDepth: project.narrativeDepth,
+      organisationId: project.organisationId,
+      constructionDates: project.constructionDates,
+      programme: project.programme,
+      restrictions: project.restrictions,
+      costRates: project.costRates,
+      findings: project.findings,
+      figures: project.figures,
+      monitoringRows: deriveMonitoringRows(project.findings, councilProfile(project.council), project.frameworks),
+      // extracted figures already travel in the gallery
+      documents: project.documents.map((d) => ({ ...d, figures: [] })),
+      topics: project.topics,
+    },
+  };
+}
+
+export function projectFileName(project: CiaProject): string {
+  return `${(project.name || "cia-project").replace(/[^\w\u0100-\u017F-]+/g, "_")}${PROJECT_FILE_EXTENSION}`;
+}
+
+// ---------------------------------------------------------------------------------
+// Strict structural validation. Every problem is collected with its JSON path
+// instead of stopping at the first one, so a malformed file can be fixed in one go.
+
+type Issues = string[];
+type Obj = Record<string, unknown>;
+
+function isObj(v: unknown): v is Obj {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function obj(v: unknown, path: string, issues: Issues): Obj {
+  if (isObj(v)) return v;
+  issues.push(`${path}: expected an object`);
+  return {};
+}
+
+function str(v: unknown, path: string, issues: Issues): string {
+  if (typeof v === "string") return v;
+  issues.push(`${path}: expected a string${v === undefined ? " (missing)" : ""}`);
+  return "";
+}
+
+function num(v: unknown, path: string, issues: Issues): number {
+  if (typeof v === "number" && Number.isFinite(v)) return v;
+  issues.push(`${path}: expected a number${v === undefined ? " (missing)" : ""}`);
+  return 0;
+}
+
+function bool(v: unknown, path: string, issues: Issues): boolean {
+  if (typeof v === "boolean") return v;
+  issues.push(`${path}: expected true or false${v === undefined ? " (missing)" : ""}`);
+  return false;
+}
+
+function arr<T>(v: unknown, path: string, issues: Issues, item: (x: unknown, p: string) => T): T[] {
+  if (!Array.isArray(v)) {
+    issues.push(`${path}: expected a list${v === undefined ? " (missing)" : ""}`);
+    return [];
+  }
+  return v.map((x, i) => item(x, `${path}[${i}]`));
+}
+
+function strings(v: unknown, path: string, issues: Issues): string[] {
+  return arr(v, path, issues, (x, p) => str(x, p, issues));
+}
+
+function optionalStr(v: unknown, path: string, issues: Issues): string | undefined {
+  return v === undefined ? undefined : str(v, path, issues);
+}
+
+function optionalNum(v: unknown, path: string, issues: Issues): number | undefined {
+  return v === undefined ? undefined : num(v, path, issues);
+}
+
+function readEffects(v: unknown, path: string, issues: Issues): Effects {
+  const o = obj(v, path, issues);
+  return {
+    cultural: strings(o.cultural, `${path}.cultural`, issues),
+    social: strings(o.social, `${path}.social`, issues),
+    environmental: strings(o.environmental, `${path}.environmental`, issues),
+    spiritual: strings(o.spiritual, `${path}.spiritual`, issues),
+  };
+}
+
+function readTriggers(v: unknown, path: string, issues: Issues): TriggerSpec {
+  const o = obj(v, path, issues);
+  return {
+    metrics: strings(o.metrics, `${path}.metrics`, issues),
+    baselines: str(o.baselines, `${path}.baselines`, issues),
+    thresholds: strings(o.thresholds, `${path}.thresholds`, issues),
+    actions: strings(o.actions, `${path}.actions`, issues),
+    reporting: str(o.reporting, `${path}.reporting`, issues),
+  };
+}
+
+function readSource(v: unknown, path: string, issues: Issues): SourceRef {
+  const o = obj(v, path, issues);
+  const field = str(o.field, `${path}.field`, issues) as CitedField;
+  if (!CITED_FIELDS.includes(field)) issues.push(`${path}.field: expected one of ${CITED_FIELDS.join(", ")}`);
+  return {
+    field,
+    item: str(o.item, `${path}.item`, issues),
+    documentId: str(o.documentId, `${path}.documentId`, issues),
+    fileName: str(o.fileName, `${path}.fileName`, issues),
+    page: num(o.page, `${path}.page`, issues),
+    paragraph: num(o.paragraph, `${path}.paragraph`, issues),
+    excerpt: str(o.excerpt, `${path}.excerpt`, issues),
+  };
+}
+
+function readFinding(v: unknown, path: string, issues: Issues): Finding {
+  const o = obj(v, path, issues);
+  return {
+    id: str(o.id, `${path}.id`, issues),
+    category: str(o.category, `${path}.category`, issues),
+    issue: str(o.issue, `${path}.issue`, issues),
+    effects: readEffects(o.effects, `${path}.effects`, issues),
+    mitigations: strings(o.mitigations, `${path}.mitigations`, issues),
+    recommendations: strings(o.recommendations, `${path}.recommendations`, issues),
+    triggers: readTriggers(o.triggers, `${path}.triggers`, issues),
+    policyLinks: strings(o.policyLinks, `${path}.policyLinks`, issues),
+    provisions: strings(o.provisions, `${path}.provisions`, issues),
+    consentClauses: strings(o.consentClauses, `${path}.consentClauses`, issues),
+    sources: arr(o.sources, `${path}.sources`, issues, (x, p) => readSource(x, p, issues)),
+    generatedBy: optionalStr(o.generatedBy, `${path}.generatedBy`, issues),
+  };
+}
+
+function readFigure(v: unknown, path: string, issues: Issues): FigureItem {
+  const o = obj(v, path, issues);
+  const dataUrl = str(o.dataUrl, `${path}.dataUrl`, issues);
+  if (dataUrl && !/^data:image\/[\w.+-]+;base64,/.test(dataUrl)) issues.push(`${path}.dataUrl: expected a base64 image data URL`);
+  return {
+    id: str(o.id, `${path}.id`, issues),
+    caption: str(o.caption, `${path}.caption`, issues),
+    dataUrl,
+    width: num(o.width, `${path}.width`, issues),
+    height: num(o.height, `${path}.height`, issues),
+    selected: bool(o.selected, `${path}.selected`, issues),
+    sourceDocumentId: optionalStr(o.sourceDocumentId, `${path}.sourceDocumentId`, issues),
+    sourceFileName: optionalStr(o.sourceFileName, `${path}.sourceFileName`, issues),
+    page: optionalNum(o.page, `${path}.page`, issues),
+  };
+}
+
+function readMonitoringRow(v: unknown, path: string, issues: Issues): MonitoringRow {
+  const o = obj(v, path, issues);
+  return {
+    phase: str(o.phase, `${path}.phase`, issues),
+    focus: str(o.focus, `${path}.focus`, issues),
+    role: str(o.role, `${path}.role`, issues),
+    frequency: str(o.frequency, `${path}.frequency`, issues),
+  };
+}
+
+const DOCUMENT_KINDS: DocumentKind[] = ["pdf", "docx", "xlsx", "unsupported"];
+const BLOCK_KINDS: DocumentBlock["kind"][] = ["heading", "paragraph", "table"];
+
+function readBlock(v: unknown, path: string, issues: Issues): DocumentBlock {
+  const o = obj(v, path, issues);
+  const kind = str(o.kind, `${path}.kind`, issues) as DocumentBlock["kind"];
+  if (!BLOCK_KINDS.includes(kind)) issues.push(`${path}.kind: expected one of ${BLOCK_KINDS.join(", ")}`);
+  return {
+    kind,
+    text: str(o.text, `${path}.text`, issues),
+    page: num(o.page, `${path}.page`, issues),
+    paragraph: num(o.paragraph, `${path}.paragraph`, issues),
+    level: optionalNum(o.level, `${path}.level`, issues),
+    rows: o.rows === undefined ? undefined : arr(o.rows, `${path}.rows`, issues, (r, p) => strings(r, p, issues)),
+    sheet: optionalStr(o.sheet, `${path}.sheet`, issues),
+  };
+}
+
+function readDocument(v: unknown, path: string, issues: Issues): IngestedDocument {
+  const o = obj(v, path, issues);
+  const kind = str(o.kind, `${path}.kind`, issues) as DocumentKind;
+  if (!DOCUMENT_KINDS.includes(kind)) issues.push(`${path}.kind: expected one of ${DOCUMENT_KINDS.join(", ")}`);
+  return {
+    id: str(o.id, `${path}.id`, issues),
+    fileName: str(o.fileName, `${path}.fileName`, issues),
+    kind,
+    sizeBytes: num(o.sizeBytes, `${path}.sizeBytes`, issues),
+    ingestedAt: str(o.ingestedAt, `${path}.ingestedAt`, issues),
+    pageCount: num(o.pageCount, `${path}.pageCount`, issues),
+    blocks: arr(o.blocks, `${path}.blocks`, issues, (b, p) => readBlock(b, p, issues)),
+    figures: [],
+    errors: strings(o.errors, `${path}.errors`, issues),
+  };
+}
+
+function readTopic(v: unknown, path: string, issues: Issues): TopicEntry {
+  const o = obj(v, path, issues);
+  const category = str(o.category, `${path}.category`, issues);
+  if (!(CATEGORIES as readonly string[]).includes(category)) issues.push(`${path}.category: unknown category "${category}"`);
+  return {
+    id: str(o.id, `${path}.id`, issues),
+    label: str(o.label, `${path}.label`, issues),
+    category: category as TopicEntry["category"],
+    keywords: strings(o.keywords, `${path}.keywords`, issues),
+    ruleId: optionalStr(o.ruleId, `${path}.ruleId`, issues),
+  };
+}
+
+function readPosition(v: unknown, path: string, issues: Issues): LngLat {
+  if (Array.isArray(v) && v.length >= 2 && v.every((n) => typeof n === "number" && Number.isFinite(n))) return [v[0], v[1]];
+  issues.push(`${path}: expected [longitude, latitude]`);
+  return [0, 0];
+}
+
+function readRing(v: unknown, path: string, issues: Issues): LngLat[] {
+  return arr(v, path, issues, (x, p) => readPosition(x, p, issues));
+}
+
+function readSite(v: unknown, path: string, issues: Issues): SiteGeometry {
+  const o = obj(v, path, issues);
+  return {
+    point: o.point == null ? null : readPosition(o.point, `${path}.point`, issues),
+    footprint: o.footprint == null ? null : readRing(o.footprint, `${path}.footprint`, issues),
+  };
+}
+
+function readArea(v: unknown, path: string, issues: Issues): NamedArea {
+  const o = obj(v, path, issues);
+  return {
+    name: str(o.name, `${path}.name`, issues),
+    polygons: arr(o.polygons, `${path}.polygons`, issues, (poly, pp) => arr(poly, pp, issues, (ring, rp) => readRing(ring, rp, issues))),
+  };
+}
+
+const HERITAGE_KIND_IDS = HERITAGE_KINDS.map((k) => k.id);
+
+function readHeritageSite(v: unknown, path: string, issues: Issues): HeritageSite {
+  const o = obj(v, path, issues);
+  const kind = str(o.kind, `${path}.kind`, issues) as HeritageKind;
+  if (!HERITAGE_KIND_IDS.includes(kind)) issues.push(`${path}.kind: expected one of ${HERITAGE_KIND_IDS.join(", ")}`);
+  const g = obj(o.geometry, `${path}.geometry`, issues);
+  const geometry: HeritageGeometry =
+    g.type === "polygon"
+      ? { type: "polygon", rings: arr(g.rings, `${path}.geometry.rings`, issues, (r, p) => readRing(r, p, issues)) }
+      : { type: "point", coordinates: readPosition(g.coordinates, `${path}.geometry.coordinates`, issues) };
+  if (g.type !== "point" && g.type !== "polygon") issues.push(`${path}.geometry.type: expected point or polygon`);
+  return {
+    id: str(o.id, `${path}.id`, issues),
+    name: str(o.name, `${path}.name`, issues),
+    kind,
+    siteRef: optionalStr(o.siteRef, `${path}.siteRef`, issues),
+    layer: str(o.layer, `${path}.layer`, issues),
+    geometry,
+  };
+}
+
+const METRIC_IDS = METRICS.map((m) => m.id);
+
+function readReading(v: unknown, path: string, issues: Issues): MonitoringReading {
+  const o = obj(v, path, issues);
+  const raw = obj(o.values, `${path}.values`, issues);
+  const values: Partial<Record<Metric, number>> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (!METRIC_IDS.includes(key as Metric)) issues.push(`${path}.values.${key}: expected one of ${METRIC_IDS.join(", ")}`);
+    else values[key as Metric] = num(value, `${path}.values.${key}`, issues);
+  }
+  const time = str(o.time, `${path}.time`, issues);
+  if (time && Number.isNaN(Date.parse(time))) issues.push(`${path}.time: expected an ISO timestamp`);
+  return { time, site: str(o.site, `${path}.site`, issues), values };
+}
+
+function readMonitoringData(v: unknown, path: string, issues: Issues): MonitoringData {
+  const o = obj(v, path, issues);
+  return {
+    readings: arr(o.readings, `${path}.readings`, issues, (r, p) => readReading(r, p, issues)),
+    sources: strings(o.sources, `${path}.sources`, issues),
+    baselineUntil: o.baselineUntil == null ? null : str(o.baselineUntil, `${path}.baselineUntil`, issues),
+  };
+}
+
+function readPhoto(v: unknown, path: string, issues: Issues): FieldPhoto {
+  const o = obj(v, path, issues);
+  const dataUrl = str(o.dataUrl, `${path}.dataUrl`, issues);
+  if (dataUrl && !/^data:image\/[\w.+-]+;base64,/.test(dataUrl)) issues.push(`${path}.dataUrl: expected a base64 image data URL`);
+  return {
+    id: str(o.id, `${path}.id`, issues),
+    dataUrl,
+    width: num(o.width, `${path}.width`, issues),
+    height: num(o.height, `${path}.height`, issues),
+    caption: str(o.caption, `${path}.caption`, issues),
+  };
+}
+
+const WEATHER_IDS = FIELD_WEATHER.map((w) => w.id);
+
+function readFieldEntry(v: unknown, path: string, issues: Issues): FieldLogEntry {
+  const o = obj(v, path, issues);
+  const weather = str(o.weather, `${path}.weather`, issues) as FieldWeather;
+  if (!WEATHER_IDS.includes(weather)) issues.push(`${path}.weather: expected one of ${WEATHER_IDS.join(", ")}`);
+  let position: FieldLogEntry["position"] = null;
+  if (o.position != null) {
+    const p = obj(o.position, `${path}.position`, issues);
+    position = {
+      lat: num(p.lat, `${path}.position.lat`, issues),
+      lng: num(p.lng, `${path}.position.lng`, issues),
+      accuracyM: p.accuracyM == null ? null : num(p.accuracyM, `${path}.position.accuracyM`, issues),
+    };
+  }
+  return {
+    id: str(o.id, `${path}.id`, issues),
+    projectId: str(o.projectId, `${path}.projectId`, issues),
+    observedAt: str(o.observedAt, `${path}.observedAt`, issues),
+    category: str(o.category, `${path}.category`, issues),
+    monitoringRow: str(o.monitoringRow, `${path}.monitoringRow`, issues),
+    notes: str(o.notes, `${path}.notes`, issues),
+    photos: arr(o.photos, `${path}.photos`, issues, (x, p) => readPhoto(x, p, issues)),
+    position,
+    weather,
+    stopWork: bool(o.stopWork, `${path}.stopWork`, issues),
+    author: str(o.author, `${path}.author`, issues),
+    syncedAt: o.syncedAt == null ? null : str(o.syncedAt, `${path}.syncedAt`, issues),
+  };
+}
+
+const INCIDENT_KIND_IDS = INCIDENT_KINDS.map((k) => k.id);
+const CHECKLIST_SOURCES: ChecklistSource[] = ["action", "reporting", "consent"];
+
+function readDeadline(v: unknown, path: string, issues: Issues): Deadline | null {
+  if (v == null) return null;
+  const o = obj(v, path, issues);
+  if (o.kind === "immediate") return { kind: "immediate" };
+  if (o.kind === "hours" || o.kind === "days" || o.kind === "working-days") return { kind: o.kind, n: num(o.n, `${path}.n`, issues) };
+  issues.push(`${path}.kind: expected immediate, hours, days or working-days`);
+  return null;
+}
+
+function readChecklistItem(v: unknown, path: string, issues: Issues): ChecklistItem {
+  const o = obj(v, path, issues);
+  const source = str(o.source, `${path}.source`, issues) as ChecklistSource;
+  if (!CHECKLIST_SOURCES.includes(source)) issues.push(`${path}.source: expected one of ${CHECKLIST_SOURCES.join(", ")}`);
+  return {
+    id: str(o.id, `${path}.id`, issues),
+    text: str(o.text, `${path}.text`, issues),
+    source,
+    deadline: readDeadline(o.deadline, `${path}.deadline`, issues),
+    dueAt: o.dueAt == null ? null : str(o.dueAt, `${path}.dueAt`, issues),
+    doneAt: o.doneAt == null ? null : str(o.doneAt, `${path}.doneAt`, issues),
+    note: str(o.note, `${path}.note`, issues),
+  };
+}
+
+function readIncident(v: unknown, path: string, issues: Issues): Incident {
+  const o = obj(v, path, issues);
+  const kind = str(o.kind, `${path}.kind`, issues) as IncidentKind;
+  if (!INCIDENT_KIND_IDS.includes(kind)) issues.push(`${path}.kind: expected one of ${INCIDENT_KIND_IDS.join(", ")}`);
+  return {
+    id: str(o.id, `${path}.id`, issues),
+    kind,
+    title: str(o.title, `${path}.title`, issues),
+    category: str(o.category, `${path}.category`, issues),
+    findingId: o.findingId == null ? null : str(o.findingId, `${path}.findingId`, issues),
+    openedAt: str(o.openedAt, `${path}.openedAt`, issues),
+    location: str(o.location, `${path}.location`, issues),
+    description: str(o.description, `${path}.description`, issues),
+    stopWork: bool(o.stopWork, `${path}.stopWork`, issues),
+    sourceId: o.sourceId == null ? null : str(o.sourceId, `${path}.sourceId`, issues),
+    checklist: arr(o.checklist, `${path}.checklist`, issues, (x, p) => readChecklistItem(x, p, issues)),
+    closedAt: o.closedAt == null ? null : str(o.closedAt, `${path}.closedAt`, issues),
+  };
+}
+
+function readScheduledCondition(v: unknown, path: string, issues: Issues): ScheduledCondition {
+  const o = obj(v, path, issues);
+  const group = str(o.group, `${path}.group`, issues) as ConditionGroup;
+  if (!CONDITION_GROUPS.includes(group)) issues.push(`${path}.group: expected one of ${CONDITION_GROUPS.join(", ")}`);
+  return {
+    id: str(o.id, `${path}.id`, issues),
+    templateId: o.templateId == null ? null : str(o.templateId, `${path}.templateId`, issues),
+    group,
+    title: str(o.title, `${path}.title`, issues),
+    text: str(o.text, `${path}.text`, issues),
+    findingId: o.findingId == null ? null : str(o.findingId, `${path}.findingId`, issues),
+  };
+}
+
+function readConditionsSchedule(v: unknown, path: string, issues: Issues): ConditionsSchedule {
+  const o = obj(v, path, issues);
+  return {
+    workingDays: num(o.workingDays, `${path}.workingDays`, issues),
+    conditions: arr(o.conditions, `${path}.conditions`, issues, (x, p) => readScheduledCondition(x, p, issues)),
+  };
+}
+
+function readNarrativeDepth(v: unknown, path: string, issues: Issues): NarrativeDepth {
+  const depth = str(v, path, issues) as NarrativeDepth;
+  if (!NARRATIVE_DEPTHS.some((d) => d.id === depth)) issues.push(`${path}: expected one of ${NARRATIVE_DEPTHS.map((d) => d.id).join(", ")}`);
+  return depth;
+}
+
+const DAY = /^\d{4}-\d{2}-\d{2}$/;
+
+function day(v: unknown, path: string, issues: Issues): string {
+  const s = str(v, path, issues);
+  if (s && !DAY.test(s)) issues.push(`${path}: expected a YYYY-MM-DD date`);
+  return s;
+}
+
+function readStageGate(v: unknown, path: string, issues: Issues): StageGate {
+  const o = obj(v, path, issues);
+  return { id: str(o.id, `${path}.id`, issues), name: str(o.name, `${path}.name`, issues), date: day(o.date, `${path}.date`, issues) };
+}
+
+function readConstructionDates(v: unknown, path: string, issues: Issues): ConstructionDates {
+  const o = obj(v, path, issues);
+  return {
+    start: o.start == null ? null : day(o.start, `${path}.start`, issues),
+    end: o.end == null ? null : day(o.end, `${path}.end`, issues),
+    stageGates: arr(o.stageGates, `${path}.stageGates`, issues, (x, p) => readStageGate(x, p, issues)),
+  };
+}
+
+function workType(v: unknown, path: string, issues: Issues): WorkType {
+  const type = str(v, path, issues) as WorkType;
+  if (!WORK_TYPES.some((w) => w.id === type)) issues.push(`${path}: expected one of ${WORK_TYPES.map((w) => w.id).join(", ")}`);
+  return type;
+}
+
+function readActivity(v: unknown, path: string, issues: Issues): ProgrammeActivity {
+  const o = obj(v, path, issues);
+  return {
+    id: str(o.id, `${path}.id`, issues),
+    ref: str(o.ref, `${path}.ref`, issues),
+    name: str(o.name, `${path}.name`, issues),
+    type: workType(o.type, `${path}.type`, issues),
+    start: day(o.start, `${path}.start`, issues),
+    end: day(o.end, `${path}.end`, issues),
+  };
+}
+
+function readProgramme(v: unknown, path: string, issues: Issues): ConstructionProgramme {
+  const o = obj(v, path, issues);
+  return {
+    activities: arr(o.activities, `${path}.activities`, issues, (x, p) => readActivity(x, p, issues)),
+    source: o.source == null ? null : str(o.source, `${path}.source`, issues),
+    importedAt: o.importedAt == null ? null : str(o.importedAt, `${path}.importedAt`, issues),
+  };
+}
+
+function readRestriction(v: unknown, path: string, issues: Issues): RestrictionWindow {
+  const o = obj(v, path, issues);
+  const kind = str(o.kind, `${path}.kind`, issues) as RestrictionKind;
+  if (!RESTRICTION_KINDS.some((k) => k.id === kind)) issues.push(`${path}.kind: expected one of ${RESTRICTION_KINDS.map((k) => k.id).join(", ")}`);
+  const annual = bool(o.annual, `${path}.annual`, issues);
+  const date = (x: unknown, p: string) => {
+    if (!annual) return day(x, p, issues);
+    const s = str(x, p, issues);
+    if (s && !/^\d{2}-\d{2}$/.test(s)) issues.push(`${p}: expected an MM-DD date for an annual window`);
+    return s;
+  };
+  return {
+    id: str(o.id, `${path}.id`, issues),
+    name: str(o.name, `${path}.name`, issues),
+    kind,
+    annual,
+    start: date(o.start, `${path}.start`),
+    end: date(o.end, `${path}.end`),
+    appliesTo: arr(o.appliesTo, `${path}.appliesTo`, issues, (x, p) => workType(x, p, issues)),
+    note: str(o.note, `${path}.note`, issues),
+  };
+}
+
+function readCostRates(v: unknown, path: string, issues: Issues): CostRates {
+  const o = obj(v, path, issues);
+  const rates = { ...DEFAULT_COST_RATES };
+  for (const { key } of COST_RATE_FIELDS) rates[key] = num(o[key], `${path}.${key}`, issues);
+  return rates;
+}
+
+function readCurrent(raw: Obj): { file: ProjectFile; issues: Issues } {
+  const issues: Issues = [];
+  const p = obj(raw.project, "project", issues);
+  const icmp = obj(p.icmp, "project.icmp", issues);
+  const file: ProjectFile = {
+    format: PROJECT_FILE_FORMAT,
+    schemaVersion: PROJECT_FILE_VERSION,
+    exportedAt: str(raw.exportedAt, "exportedAt", issues),
+    project: {
+      id: str(p.id, "project.id", issues),
+      name: str(p.name, "project.name", issues),
+      location: str(p.location, "project.location", issues),
+      createdAt: str(p.createdAt, "project.createdAt", issues),
+      updatedAt: str(p.updatedAt, "project.updatedAt", issues),
+      council: str(p.council, "project.council", issues),
+      icmp: { inferred: str(icmp.inferred, "project.icmp.inferred", issues) },
+      frameworks: strings(p.frameworks, "project.frameworks", issues),
+      site: readSite(p.site, "project.site", issues),
+      icmpBoundaries: arr(p.icmpBoundaries, "project.icmpBoundaries", issues, (v, path) => readArea(v, path, issues)),
+      heritageSites: arr(p.heritageSites, "project.heritageSites", issues, (v, path) => readHeritageSite(v, path, issues)),
+      siteBufferM: num(p.siteBufferM, "project.siteBufferM", issues),
+      monitoringData: readMonitoringData(p.monitoringData, "project.monitoringData", issues),
+      fieldLog: arr(p.fieldLog, "project.fieldLog", issues, (v, path) => readFieldEntry(v, path, issues)),
+      incidents: arr(p.incidents, "project.incidents", issues, (v, path) => readIncident(v, path, issues)),
+      conditionsSchedule: readConditionsSchedule(p.conditionsSchedule, "project.conditionsSchedule", issues),
+      narrativeDepth: readNarrativeDepth(p.narrativeDepth, "project.narrativeDepth", issues),
+      organisationId: p.organisationId == null ? null : str(p.organisationId, "project.organisationId", issues),
+      constructionDates: readConstructionDates(p.constructionDates, "project.constructionDates", issues),
+      programme: readProgramme(p.programme, "project.programme", issues),
+      restrictions: arr(p.restrictions, "project.restrictions", issues, (v, path) => readRestriction(v, path, issues)),
+      costRates: readCostRates(p.costRates, "project.costRates", issues),
+      findings: arr(p.findings, "project.findings", issues, (v, path) => readFinding(v, path, issues)),
+      figures: arr(p.figures, "project.figures", issues, (v, path) => readFigure(v, path, issues)),
+      monitoringRows: arr(p.monitoringRows, "project.monitoringRows", issues, (v, path) => readMonitoringRow(v, path, issues)),
+      documents: arr(p.documents, "project.documents", issues, (v, path) => readDocument(v, path, issues)),
+      topics: arr(p.topics, "project.topics", issues, (v, path) => readTopic(v, path, issues)),
+    },
+  };
+  // exceedance events and anything else pointing at a finding look it up by id
+  const findingIds = file.project.findings.map((f) => f.id);
+  findingIds.forEach((id, i) => {
+    if (!id) issues.push(`project.findings[${i}].id: expected a non-empty id`);
+    else if (findingIds.indexOf(id) !== i) issues.push(`project.findings[${i}].id: "${id}" is used by another finding`);
+  });
+  return { file, issues };
+}
+
+// ---------------------------------------------------------------------------------
+// Migrations: MIGRATIONS[n] upgrades a raw version-n file to version n + 1
+
+const MIGRATIONS: Record<number, (raw: Obj) => Obj> = {
+  // v2: the He Pou Manawa Ora flag became a list of enabled council frameworks
+  1: (raw) => {
+    const project = isObj(raw.project) ? raw.project : {};
+    const icmp = isObj(project.icmp) ? project.icmp : {};
+    const { includeHPMO, ...rest } = icmp;
+    return { ...raw, project: { ...project, icmp: rest, frameworks: includeHPMO === true ? ["hpmo"] : [] } };
+  },
+  // v3: site point/footprint and ICMP boundary polygons for spatial inference
+  2: (raw) => {
+    const project = isObj(raw.project) ? raw.project : {};
+    return { ...raw, project: { ...project, site: { point: null, footprint: null }, icmpBoundaries: [] } };
+  },
+  // v4: imported w\u0101hi tapu / archaeological site layers and the works buffer
+  3: (raw) => {
+    const project = isObj(raw.project) ? raw.project : {};
+    return { ...raw, project: { ...project, heritageSites: [], siteBufferM: DEFAULT_SITE_BUFFER_M } };
+  },
+  // v5: imported monitoring time series for exceedance checks, and a persisted id
+  // per finding that exceedance events refer to
+  4: (raw) => {
+    const project = isObj(raw.project) ? raw.project : {};
+    const findings = Array.isArray(project.findings) ? project.findings : [];
+    return {
+      ...raw,
+      project: {
+        ...project,
+        monitoringData: { readings: [], sources: [], baselineUntil: null },
+        findings: findings.map((f) => (isObj(f) ? { ...f, id: newFindingId() } : f)),
+      },
+    };
+  },
+  // v6: cultural monitor field log
+  5: (raw) => {
+    const project = isObj(raw.project) ? raw.project : {};
+    return { ...raw, project: { ...project, fieldLog: [] } };
+  },
+  // v7: incident and stop-work log
+  6: (raw) => {
+    const project = isObj(raw.project) ? raw.project : {};
+    return { ...raw, project: { ...project, incidents: [] } };
+  },
+  // v8: consent conditions schedule
+  7: (raw) => {
+    const project = isObj(raw.project) ? raw.project : {};
+    return { ...raw, project: { ...project, conditionsSchedule: { workingDays: DEFAULT_CONDITION_WORKING_DAYS, conditions: [] } } };
+  },
+  // v9: findings link policy catalogue provisions, seeded from their free-text policy links
+  8: (raw) => {
+    const project = isObj(raw.project) ? raw.project : {};
+    const findings = Array.isArray(project.findings) ? project.findings : [];
+    return {
+      ...raw,
+      project: {
+        ...project,
+        findings: findings.map((f) => {
+          if (!isObj(f)) return f;
+          const links = Array.isArray(f.policyLinks) ? f.policyLinks.filter((l): l is string => typeof l === "string") : [];
+          return { ...f, provisions: provisionsFromLinks(links) };
+        }),
+      },
+    };
+  },
+  // v10: narrative depth (brief / standard / comprehensive)
+  9: (raw) => {
+    const project = isObj(raw.project) ? raw.project : {};
+    return { ...raw, project: { ...project, narrativeDepth: DEFAULT_NARRATIVE_DEPTH } };
+  },
+  // v11: organisation whose narrative templates the project uses
+  10: (raw) => {
+    const project = isObj(raw.project) ? raw.project : {};
+    return { ...raw, project: { ...project, organisationId: null } };
+  },
+  // v12: construction start/end and stage-gate dates for the monitoring calendar
+  11: (raw) => {
+    const project = isObj(raw.project) ? raw.project : {};
+    return { ...raw, project: { ...project, constructionDates: EMPTY_CONSTRUCTION_DATES } };
+  },
+  // v13: imported construction programme and the restriction calendar it is checked against
+  12: (raw) => {
+    const project = isObj(raw.project) ? raw.project : {};
+    return { ...raw, project: { ...project, programme: { activities: [], source: null, importedAt: null }, restrictions: DEFAULT_RESTRICTIONS } };
+  },
+  // v14: rates for the cultural monitoring cost estimate
+  13: (raw) => {
+    const project = isObj(raw.project) ? raw.project : {};
+    return { ...raw, project: { ...project, costRates: DEFAULT_COST_RATES } };
+  },
+  // v15: findings cite the document excerpts their statements came from
+  14: (raw) => {
+    const project = isObj(raw.project) ? raw.project : {};
+    const findings = Array.isArray(project.findings) ? project.findings : [];
+    return { ...raw, project: { ...project, findings: findings.map((f) => (isObj(f) ? { ...f, sources: [] } : f)) } };
+  },
+};
+
+function migrate(raw: Obj, from: number): Obj {
+  let current = raw;
+  for (let v = from; v < PROJECT_FILE_VERSION; v++) {
+    const step = MIGRATIONS[v];
+    if (!step) throw new ProjectFileError(`No migration from schema version ${v} to ${v + 1}`);
+    current = { ...step(current), schemaVersion: v + 1 };
+  }
+  return current;
+}
+
+// ---------------------------------------------------------------------------------
+// Import
+
+export function parseProjectFile(text: string): ProjectFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new ProjectFileError(`Not valid JSON: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  if (!isObj(raw) || raw.format !== PROJECT_FILE_FORMAT) {
+    throw new ProjectFileError(`Not a CIA project file (expected "format": "${PROJECT_FILE_FORMAT}")`);
+  }
+  const version = raw.schemaVersion;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    throw new ProjectFileError("Missing or invalid schemaVersion");
+  }
+  if (version > PROJECT_FILE_VERSION) {
+    throw new ProjectFileError(`File uses schema version ${version}, this app reads up to ${PROJECT_FILE_VERSION}. Update the app to open it.`);
+  }
+  const { file, issues } = readCurrent(migrate(raw, version));
+  if (issues.length) throw new ProjectFileError(`Project file has ${issues.length} problem(s)`, issues);
+  return file;
+}
+
+export function projectFromFile(file: ProjectFile, options: { keepId: boolean }): CiaProject {
+  const p = file.project;
+  return {
+    id: options.keepId && p.id ? p.id : newProjectId(),
+    name: p.name,
+    location: p.location,
+    council: p.council,
+    inferredICMP: p.icmp.inferred,
+    frameworks: p.frameworks,
+    site: p.site,
+    icmpBoundaries: p.icmpBoundaries,
+    heritageSites: p.heritageSites,
+    siteBufferM: p.siteBufferM,
+    monitoringData: p.monitoringData,
+    fieldLog: p.fieldLog,
+    incidents: p.incidents,
+    conditionsSchedule: p.conditionsSchedule,
+    narrativeDepth: p.narrativeDepth,
+    organisationId: p.organisationId,
+    constructionDates: p.constructionDates,
+    programme: p.programme,
+    restrictions: p.restrictions,
+    costRates: p.costRates,
+    documents: p.documents,
+    findings: p.findings,
+    topics: p.topics,
+    topicMatches: [],
+    figures: p.figures,
+    archived: false,
+    createdAt: p.createdAt || new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,163 @@
+import { distanceToBoundary, pointInArea, ringOverlapsArea, type NamedArea, type Ring } from "./geo";
+import { heritageLabel, type HeritageSite } from "./siteLayers";
+import { newFindingId, type Finding } from "./model";
+
+// ---------------------------------------------------------------------------------
+// Proximity of recorded sites to the works footprint, and the whenua/wairua
+// findings that follow from it
+
+export const DEFAULT_SITE_BUFFER_M = 200;
+export const PROXIMITY_GENERATOR = "site-proximity";
+
+export type ProximityBand = "inside" | "buffer" | "clear";
+
+export type SiteProximity = {
+  site: HeritageSite;
+  distanceM: number; // 0 when the site touches or lies within the footprint
+  band: ProximityBand;
+};
+
+function siteArea(site: HeritageSite): NamedArea {
+  return { name: site.name, polygons: site.geometry.type === "polygon" ? [site.geometry.rings] : [] };
+}
+
+export function distanceToFootprint(site: HeritageSite, footprint: Ring): number {
+  const works: NamedArea = { name: "footprint", polygons: [[footprint]] };
+  if (site.geometry.type === "point") {
+    const p = site.geometry.coordinates;
+    return pointInArea(p, works) ? 0 : distanceToBoundary(p, works);
+  }
+  const area = siteArea(site);
+  if (ringOverlapsArea(footprint, area)) return 0;
+  const outer = site.geometry.rings[0] ?? [];
+  return Math.min(...outer.map((p) => distanceToBoundary(p, works)), ...footprint.map((p) => distanceToBoundary(p, area)));
+}
+
+export function analyseProximity(sites: HeritageSite[], footprint: Ring | null, bufferM: number): SiteProximity[] {
+  if (!footprint || footprint.length < 4) return [];
+  return sites
+    .map((site) => {
+      const distanceM = Math.round(distanceToFootprint(site, footprint));
+      const band: ProximityBand = distanceM === 0 ? "inside" : distanceM <= bufferM ? "buffer" : "clear";
+      return { site, distanceM, band };
+    })
+    .sort((a, b) => a.distanceM - b.distanceM);
+}
+
+// ---------------------------------------------------------------------------------
+// Findings
+
+function describe(p: SiteProximity): string {
+  const ref = p.site.siteRef ? ` (${p.site.siteRef})` : "";
+  const where = p.band === "inside" ? "within the works footprint" : `${p.distanceM} m from the works footprint`;
+  return `${heritageLabel(p.site.kind)} "${p.site.name}"${ref} ${where}`;
+}
+
+function listOf(items: SiteProximity[]): string {
+  const shown = items.slice(0, 3).map(describe);
+  return items.length > 3 ? `${shown.join("; ")}; and ${items.length - 3} more` : shown.join("; ");
+}
+
+// Generated findings carry generatedBy so a re-run replaces them instead of piling up
+export function proximityFindings(results: SiteProximity[], bufferM: number): Finding[] {
+  const affected = results.filter((r) => r.band !== "clear");
+  const findings: Finding[] = [];
+
+  if (affected.length) {
+    const inside = affected.filter((r) => r.band === "inside").length;
+    findings.push({
+      id: newFindingId(),
+      category: "whenua",
+      issue: `${affected.length} recorded site(s) within ${bufferM} m of works: ${listOf(affected)}`,
+      effects: {
+        cultural: ["Risk of damage to w\u0101hi tapu and archaeological sites recorded near the works"],
+        social: ["Delays and conflict if a discovery occurs without an agreed process"],
+        environmental: inside ? ["Ground disturbance directly over recorded sites"] : [],
+        spiritual: [],
+      },
+      mitigations: [
+        `Exclusion fencing and a ${bufferM} m cultural buffer marked on construction drawings before works start.`,
+        "Cultural discovery protocol with immediate stop-work and notification process.",
+      ],
+      recommendations: [
+        inside ? "Redesign or seek an Archaeological Authority (HNZPT) before works inside recorded site extents." : "Confirm site extents on the ground with mana whenua and the project archaeologist.",
+        "Include the site layer and buffers in contractor inductions.",
+      ],
+      triggers: {
+        metrics: ["Buffer encroachments", "Monitor hours on-site within buffer"],
+        baselines: `Sites recorded in imported layers; nearest at ${affected[0].distanceM} m.`,
+        thresholds: ["Any earthworks inside a marked buffer without a monitor present"],
+        actions: ["Stop work in the buffer; notify mana whenua and HNZPT; reinstate fencing before resuming"],
+        reporting: "Encroachments reported within 24h; buffer inspections in the monthly summary.",
+      },
+      policyLinks: ["Heritage New Zealand Pouhere Taonga Act 2014 - Archaeological Authority", "District Plan - Heritage and Archaeology provisions"],
+      provisions: ["hnzpta-s42", "dp-heritage", "ttpta-wahi-tapu"],
+      consentClauses: [
+        `No earthworks within ${bufferM} m of the recorded sites listed in the CIA without a mana whenua cultural monitor present.`,
+      ],
+      sources: [],
+      generatedBy: PROXIMITY_GENERATOR,
+    });
+  }
+
+  const sacred = affected.filter((r) => r.site.kind === "urupa" || r.site.kind === "wahi-tapu");
+  if (sacred.length) {
+    findings.push({
+      id: newFindingId(),
+      category: "wairua",
+      issue: `Works near urup\u0101 / w\u0101hi tapu: ${listOf(sacred)}`,
+      effects: {
+        cultural: ["Mamae for wh\u0101nau connected to the urup\u0101 and w\u0101hi tapu"],
+        social: [],
+        environmental: [],
+        spiritual: ["Tapu of the site affected by nearby works; tikanga responses required"],
+      },
+      mitigations: ["Karakia and tikanga-led blessing before works start near the site.", "Restrict night works, noise and vehicle access beside the site."],
+      recommendations: ["Agree access, viewing and r\u0101hui arrangements with the wh\u0101nau and marae connected to the site."],
+      triggers: {
+        metrics: ["Karakia held before works in the buffer", "Complaints from wh\u0101nau"],
+        baselines: `Nearest urup\u0101 / w\u0101hi tapu at ${sacred[0].distanceM} m.`,
+        thresholds: ["Any disturbance within the marked buffer of an urup\u0101 or w\u0101hi tapu"],
+        actions: ["Stop work; notify mana whenua; tikanga-led process before resuming"],
+        reporting: "Reported to mana whenua within 24h.",
+      },
+      policyLinks: ["Tai Tumu, Tai Pari, Tai Ao EMP - W\u0101hi tapu"],
+      provisions: ["ttpta-wahi-tapu"],
+      consentClauses: [],
+      sources: [],
+      generatedBy: PROXIMITY_GENERATOR,
+    });
+  }
+  return findings;
+}
+
+export function replaceProximityFindings(findings: Finding[], generated: Finding[]): Finding[] {
+  return [...findings.filter((f) => f.generatedBy !== PROXIMITY_GENERATOR), ...generated];
+}
+
+// ---------------------------------------------------------------------------------
+// Flags: hand-written whenua/wairua findings that quote a distance the layers contradict
+
+export type DistanceFlag = { index: number; claimedM: number; message: string };
+
+const DISTANCE_CLAIM = /within\s+(\d+(?:\.\d+)?)\s*(k?m)\b/gi;
+
+export function flagDistanceClaims(findings: Finding[], results: SiteProximity[]): DistanceFlag[] {
+  const nearest = results[0];
+  if (!nearest) return [];
+  const flags: DistanceFlag[] = [];
+  findings.forEach((f, index) => {
+    if (f.generatedBy === PROXIMITY_GENERATOR || !["whenua", "wairua"].includes(f.category)) return;
+    const text = [f.issue, ...f.mitigations, ...f.recommendations, f.triggers.baselines].join(" ");
+    for (const m of text.matchAll(DISTANCE_CLAIM)) {
+      const claimedM = Number(m[1]) * (m[2].toLowerCase() === "km" ? 1000 : 1);
+      const within = results.filter((r) => r.distanceM <= claimedM).length;
+      if (within === 0) {
+        flags.push({ index, claimedM, message: `States "within ${m[1]} ${m[2]}" but the nearest recorded site is ${nearest.distanceM} m from the footprint` });
+      } else {
+        flags.push({ index, claimedM, message: `States "within ${m[1]} ${m[2]}": ${within} recorded site(s) are, nearest ${describe(nearest)}` });
+      }
+    }
+  });
+  return flags;
+}
@@ -0,0 +1,240 @@
+import * as XLSX from "xlsx";
+import { CITED_FIELDS, type Effects, type Finding, type TriggerSpec } from "./model";
+import { citedItems, retargetSources } from "./citations";
+
+// ---------------------------------------------------------------------------------
+// Compliance registers: the findings' effects, triggers and consent clauses as a
+// multi-sheet XLSX workbook for council compliance teams, and the re-import of
+// that workbook once council has commented on it.
+//
+// Row IDs hang off each finding's persisted id (finding-wai-CUL-1 for the first
+// cultural effect of the drafted wai finding), so they survive deletions,
+// reordering and a re-analysis that drafts the same category again between an
+// export and its re-import. Rows naming a finding the project no longer has are
+// reported, never matched to another finding.
+
+export const REGISTER_SHEETS = {
+  findings: "Findings",
+  effects: "Effects",
+  triggers: "Triggers",
+  conditions: "Consent conditions",
+} as const;
+
+const EFFECT_DIMENSIONS: { key: keyof Effects; label: string; code: string }[] = [
+  { key: "cultural", label: "Cultural", code: "CUL" },
+  { key: "social", label: "Social", code: "SOC" },
+  { key: "environmental", label: "Environmental", code: "ENV" },
+  { key: "spiritual", label: "Spiritual", code: "SPI" },
+];
+
+const COMMENT = "Council comment";
+
+// List fields travel as one item per line within a cell
+function joinLines(items: string[]): string {
+  return items.join("\n");
+}
+
+function splitLines(cell: string): string[] {
+  return cell
+    .split(/\r?\n/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+// ---------------------------------------------------------------------------------
+// Export
+
+export function buildRegistersXlsx(findings: Finding[], projectName: string): ArrayBuffer {
+  const ids = findings.map((f) => f.id);
+  const wb = XLSX.utils.book_new();
+  wb.Props = { Title: `Compliance registers - ${projectName}` };
+
+  const sheet = (name: string, header: string[], rows: string[][], widths: number[]) => {
+    const ws = XLSX.utils.aoa_to_sheet([header, ...rows]);
+    ws["!cols"] = widths.map((wch) => ({ wch }));
+    ws["!autofilter"] = { ref: XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: rows.length, c: header.length - 1 } }) };
+    XLSX.utils.book_append_sheet(wb, ws, name);
+  };
+
+  sheet(
+    REGISTER_SHEETS.findings,
+    ["ID", "Category", "Issue", COMMENT],
+    findings.map((f, i) => [ids[i], f.category, f.issue, ""]),
+    [26, 12, 80, 40]
+  );
+  sheet(
+    REGISTER_SHEETS.effects,
+    ["ID", "Finding", "Category", "Dimension", "Effect", COMMENT],
+    findings.flatMap((f, i) =>
+      EFFECT_DIMENSIONS.flatMap((d) => f.effects[d.key].map((text, k) => [`${ids[i]}-${d.code}-${k + 1}`, ids[i], f.category, d.label, text, ""]))
+    ),
+    [32, 26, 12, 14, 80, 40]
+  );
+  sheet(
+    REGISTER_SHEETS.triggers,
+    ["ID", "Finding", "Category", "Metrics", "Baseline", "Thresholds", "Actions", "Reporting", COMMENT],
+    findings.map((f, i) => [
+      `${ids[i]}-T`,
+      ids[i],
+      f.category,
+      joinLines(f.triggers.metrics),
+      f.triggers.baselines,
+      joinLines(f.triggers.thresholds),
+      joinLines(f.triggers.actions),
+      f.triggers.reporting,
+      "",
+    ]),
+    [28, 26, 12, 36, 40, 50, 50, 40, 40]
+  );
+  sheet(
+    REGISTER_SHEETS.conditions,
+    ["ID", "Finding", "Category", "Condition", COMMENT],
+    findings.flatMap((f, i) => f.consentClauses.map((text, k) => [`${ids[i]}-C${k + 1}`, ids[i], f.category, text, ""])),
+    [30, 26, 12, 100, 40]
+  );
+
+  return XLSX.write(wb, { type: "array", bookType: "xlsx" }) as ArrayBuffer;
+}
+
+// ---------------------------------------------------------------------------------
+// Re-import. Each register replaces the matching part of every finding in scope,
+// in row order: a deleted row removes the item, a new row (with its Finding filled
+// in) adds one. Findings listed on the Findings sheet are in scope; without that
+// sheet, the findings the registers mention. Everything else is left alone.
+// Source citations follow their statements through edits, as in the editor.
+
+export type RegisterComment = { sheet: string; id: string; text: string };
+
+export type RegisterChange = { id: string; issue: string; parts: string[] };
+
+export type RegisterImport = {
+  findings: Finding[];
+  changes: RegisterChange[];
+  comments: RegisterComment[];
+  issues: string[];
+};
+
+type SheetRow = { line: number; cells: Record<string, string> };
+
+// Rows keyed by lower-case header, so reordered columns still import
+function readSheet(wb: XLSX.WorkBook, name: string): SheetRow[] | null {
+  const ws = wb.Sheets[name];
+  if (!ws) return null;
+  const [header = [], ...rows] = XLSX.utils.sheet_to_json<unknown[]>(ws, { header: 1, blankrows: false, defval: "" });
+  const keys = header.map((h) => String(h ?? "").trim().toLowerCase());
+  return rows.map((r, i) => ({
+    line: i + 2,
+    cells: Object.fromEntries(keys.map((k, j) => [k, String(r[j] ?? "").trim()])),
+  }));
+}
+
+export function parseRegistersXlsx(data: ArrayBuffer, findings: Finding[]): RegisterImport {
+  const wb = XLSX.read(data, { type: "array" });
+  const sheets = {
+    findings: readSheet(wb, REGISTER_SHEETS.findings),
+    effects: readSheet(wb, REGISTER_SHEETS.effects),
+    triggers: readSheet(wb, REGISTER_SHEETS.triggers),
+    conditions: readSheet(wb, REGISTER_SHEETS.conditions),
+  };
+  if (!sheets.findings && !sheets.effects && !sheets.triggers && !sheets.conditions) {
+    throw new Error(`no register sheets (expected ${Object.values(REGISTER_SHEETS).join(", ")})`);
+  }
+
+  const ids = findings.map((f) => f.id);
+  const index = new Map(ids.map((id, i) => [id, i]));
+  // longest first, so an ID prefix never resolves to a shorter finding id it happens to start with
+  const byLength = [...ids].sort((a, b) => b.length - a.length);
+  const issues: string[] = [];
+  const comments: RegisterComment[] = [];
+  const seenIds = new Set<string>();
+
+  // The finding a row belongs to, from its Finding column or else its ID prefix
+  const owner = (sheet: string, row: SheetRow): string | null => {
+    const id = row.cells["id"] ?? "";
+    if (id) {
+      if (seenIds.has(`${sheet}|${id}`)) issues.push(`${sheet} row ${row.line}: ID ${id} appears more than once`);
+      seenIds.add(`${sheet}|${id}`);
+    }
+    if (row.cells[COMMENT.toLowerCase()]) comments.push({ sheet, id: id || `row ${row.line}`, text: row.cells[COMMENT.toLowerCase()] });
+    const fid = row.cells["finding"] || (sheet === REGISTER_SHEETS.findings ? id : byLength.find((f) => id.startsWith(`${f}-`))) || "";
+    if (!fid) {
+      issues.push(`${sheet} row ${row.line}: ${id ? `ID ${id} belongs to no finding in this project` : "no finding ID"}; skipped`);
+      return null;
+    }
+    if (!index.has(fid)) {
+      issues.push(`${sheet} row ${row.line}: finding ${fid} is not in this project (re-analysed or deleted since the export?); skipped`);
+      return null;
+    }
+    return fid;
+  };
+
+  const next = findings.map((f) => ({ ...f }));
+  const scope = new Set<string>();
+  const byFinding = <T>(sheet: string, rows: SheetRow[] | null, read: (row: SheetRow) => T | null): Map<string, T[]> | null => {
+    if (!rows) return null;
+    const out = new Map<string, T[]>();
+    for (const row of rows) {
+      const fid = owner(sheet, row);
+      if (!fid) continue;
+      if (!sheets.findings) scope.add(fid);
+      const value = read(row);
+      if (value !== null) out.set(fid, [...(out.get(fid) ?? []), value]);
+    }
+    return out;
+  };
+
+  const listed = byFinding(REGISTER_SHEETS.findings, sheets.findings, (row) => row.cells["issue"] ?? "");
+  for (const [fid, [issue]] of listed ?? []) {
+    scope.add(fid);
+    if (issue) next[index.get(fid)!].issue = issue;
+  }
+
+  const effects = byFinding(REGISTER_SHEETS.effects, sheets.effects, (row) => {
+    const label = (row.cells["dimension"] ?? "").toLowerCase();
+    const dimension = EFFECT_DIMENSIONS.find((d) => d.label.toLowerCase() === label || d.code.toLowerCase() === label);
+    if (!dimension) {
+      issues.push(`${REGISTER_SHEETS.effects} row ${row.line}: dimension "${row.cells["dimension"] ?? ""}" is not Cultural, Social, Environmental or Spiritual; skipped`);
+      return null;
+    }
+    return row.cells["effect"] ? { key: dimension.key, text: row.cells["effect"] } : null;
+  });
+  const triggers = byFinding(REGISTER_SHEETS.triggers, sheets.triggers, (row): TriggerSpec => ({
+    metrics: splitLines(row.cells["metrics"] ?? ""),
+    baselines: row.cells["baseline"] ?? "",
+    thresholds: splitLines(row.cells["thresholds"] ?? ""),
+    actions: splitLines(row.cells["actions"] ?? ""),
+    reporting: row.cells["reporting"] ?? "",
+  }));
+  const conditions = byFinding(REGISTER_SHEETS.conditions, sheets.conditions, (row) => row.cells["condition"] || null);
+
+  for (const fid of scope) {
+    const f = next[index.get(fid)!];
+    if (effects) {
+      const items = effects.get(fid) ?? [];
+      f.effects = Object.fromEntries(EFFECT_DIMENSIONS.map((d) => [d.key, items.filter((e) => e.key === d.key).map((e) => e.text)])) as Effects;
+    }
+    if (triggers) {
+      const rows = triggers.get(fid) ?? [];
+      if (rows.length > 1) issues.push(`${REGISTER_SHEETS.triggers}: finding ${fid} has ${rows.length} rows; the first is used`);
+      f.triggers = rows[0] ?? { metrics: [], baselines: "", thresholds: [], actions: [], reporting: "" };
+    }
+    if (conditions) f.consentClauses = conditions.get(fid) ?? [];
+    // reworded statements keep their citations; removed ones drop them
+    const before = findings[index.get(fid)!];
+    for (const field of CITED_FIELDS) f.sources = retargetSources(f.sources, field, citedItems(before, field), citedItems(f, field));
+  }
+
+  const changes: RegisterChange[] = [];
+  findings.forEach((before, i) => {
+    const after = next[i];
+    const parts = [
+      before.issue !== after.issue && "issue",
+      JSON.stringify(before.effects) !== JSON.stringify(after.effects) && "effects",
+      JSON.stringify(before.triggers) !== JSON.stringify(after.triggers) && "triggers",
+      JSON.stringify(before.consentClauses) !== JSON.stringify(after.consentClauses) && "consent conditions",
+    ].filter((p): p is string => Boolean(p));
+    if (parts.length) changes.push({ id: ids[i], issue: after.issue, parts });
+  });
+
+  return { findings: next, changes, comments, issues };
+}
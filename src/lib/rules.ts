@@ -0,0 +1,279 @@
+import type { Category, Effects, TriggerSpec } from "./model";
+
+// ---------------------------------------------------------------------------------
+// Topic dictionary: keywords found in technical reports -> Category.
+// Keywords are matched on diacritic-stripped, lower-cased text, so "urupa" also
+// matches "urup\u0101". A trailing "*" matches any word ending ("archaeolog*").
+export type TopicEntry = {
+  id: string;
+  label: string;
+  category: Category;
+  keywords: string[];
+  ruleId?: string; // rules library entry to draft from; defaults to id
+};
+
+export const DEFAULT_TOPICS: TopicEntry[] = [
+  { id: "sediment", label: "Sediment and water quality", category: "wai", keywords: ["sediment*", "ntu", "tss", "turbidity", "clarity", "escp", "gd05", "suspended solids"] },
+  { id: "mahinga-kai", label: "Mahinga kai and fish", category: "wai", keywords: ["mahinga kai", "tuna", "inanga", "eel*", "whitebait", "kai gathering"] },
+  { id: "archaeology", label: "Urup\u0101, w\u0101hi tapu and archaeology", category: "whenua", keywords: ["urupa", "koiwi", "wahi tapu", "wahi tupuna", "archaeolog*", "midden*", "pa site", "hnzpt"] },
+  { id: "soils", label: "Topsoil and earthworks", category: "whenua", keywords: ["topsoil", "stripping", "earthwork*", "cut and fill", "soil*"] },
+  { id: "connectivity", label: "Culverts and ecological corridors", category: "whakapapa", keywords: ["culvert*", "fish passage", "corridor*", "riparian", "mudfish", "habitat*", "connectivity"] },
+  { id: "traffic", label: "Traffic and marae access", category: "wh\u0101nau", keywords: ["traffic", "tmp", "marae", "access", "haul route*", "tangihanga"] },
+  { id: "noise", label: "Noise, vibration and dust", category: "wh\u0101nau", keywords: ["noise", "vibration", "laeq", "dust"] },
+  { id: "stormwater", label: "Storm events and overflows", category: "mauri", keywords: ["stormwater", "storm event*", "rainfall", "overflow*", "spill*", "first flush", "flood*"] },
+  { id: "viewshafts", label: "Viewshafts and landscape", category: "wairua", keywords: ["viewshaft*", "sightline*", "vista*", "landscape", "visual amenity", "photo-simulation*"] },
+];
+
+// ---------------------------------------------------------------------------------
+// Rules library: draft content for each topic. Lists are merged per Category
+// (in dictionary order) when several topics in the same Category are matched.
+export type TopicRule = {
+  issue: string;
+  effects: Effects;
+  mitigations: string[];
+  recommendations: string[];
+  triggers: TriggerSpec;
+  policyLinks: string[];
+  provisions: string[];
+  consentClauses: string[];
+};
+
+export const RULES_LIBRARY: Record<string, TopicRule> = {
+  sediment: {
+    issue: "Potential degradation of mauri and clarity in receiving waters due to earthworks sediment discharges",
+    effects: {
+      cultural: ["Mauri of the awa diminished; disruption to mahinga kai practices"],
+      social: ["Community concern over river health; trust impacts"],
+      environmental: ["Elevated NTU and TSS; smothering of habitat; fish passage stress"],
+      spiritual: ["Tapu/noa balance affected where discharges occur near w\u0101hi tapu"],
+    },
+    mitigations: ["Install staged sediment retention ponds sized to GD05 guidance; monitor turbidity (NTU) daily."],
+    recommendations: ["Embed Te Ture Whaimana vision-objectives as assessment criteria in contractor EMS (Environmental Management System)."],
+    triggers: {
+      metrics: ["NTU (turbidity)", "TSS (mg/L)", "Visual clarity (m)"],
+      baselines: "Establish 4-week pre-works baseline for NTU/clarity and cultural health index (CHI) with mana whenua.",
+      thresholds: ["NTU > baseline + 25% for >24h", "Clarity < 1.6 m during fine weather"],
+      actions: [
+        "Stop high-risk works; inspect ESCP; deploy additional treatment within 24h",
+        "Notify mana whenua and Council within 1 working day",
+      ],
+      reporting: "Quarterly report + dashboard; immediate incident reports when thresholds tripped.",
+    },
+    policyLinks: [
+      "Te Ture Whaimana - Vision and Objective 1 (health and wellbeing of the Waikato River)",
+      "Tai Tumu, Tai Pari, Tai Ao EMP - Wai: water quality, mahinga kai protection",
+    ],
+    provisions: ["ttw-a", "ttw-h", "ttpta-wai", "dp-earthworks"],
+    consentClauses: [
+      "Prior to works, the consent holder must submit an Erosion and Sediment Control Plan (ESCP) prepared by a suitably qualified person, demonstrating compliance with GD05.",
+    ],
+  },
+  "mahinga-kai": {
+    issue: "Disturbance to mahinga kai species and their seasonal movements",
+    effects: {
+      cultural: ["Reduced ability for wh\u0101nau to gather kai safely"],
+      social: ["Loss of intergenerational knowledge transfer at kai gathering sites"],
+      environmental: ["Stress on tuna/\u012Bnanga populations during migration"],
+      spiritual: ["Diminished connection to the awa as a source of sustenance"],
+    },
+    mitigations: ["No instream works during tuna migration periods; implement 25 m riparian buffer in sensitive reaches."],
+    recommendations: ["Co-design mahinga kai monitoring with mana whenua; quarterly w\u0101nanga to review data and adaptive actions."],
+    triggers: {
+      metrics: ["Mahinga kai presence/abundance (tuna/\u012Bnanga)"],
+      baselines: "Pre-works mahinga kai survey with mana whenua.",
+      thresholds: ["Any exceedance at mahinga kai sites"],
+      actions: ["Hold hui within 5 working days to agree corrective actions"],
+      reporting: "Seasonal mahinga kai summary to mana whenua.",
+    },
+    policyLinks: ["Tai Tumu, Tai Pari, Tai Ao EMP - Wai: water quality, mahinga kai protection"],
+    provisions: ["ttw-k", "ttpta-mahinga-kai"],
+    consentClauses: [
+      "Avoid instream works during identified migration windows for tuna/\u012Bnanga; establish a Mauri Monitoring Programme co-developed with mana whenua that provides for mahinga kai assessments.",
+    ],
+  },
+  archaeology: {
+    issue: "Disturbance of known or unrecorded urup\u0101, w\u0101hi tapu or archaeological sites near the works",
+    effects: {
+      cultural: ["Risk to w\u0101hi tapu/w\u0101hi t\u016Bpuna; mamae if disturbance occurs"],
+      social: ["Project delays and conflict if discovery process unclear"],
+      environmental: [],
+      spiritual: ["Tapu breach potential requiring tikanga responses"],
+    },
+    mitigations: ["Cultural discovery protocol with immediate stop-work and notification process."],
+    recommendations: [
+      "Archaeological Authority (HNZPT) pre-works; mana whenua monitors present during initial ground-breaking.",
+      "GIS mapping layer for w\u0101hi tapu/w\u0101hi t\u016Bpuna integrated into contractor inductions.",
+    ],
+    triggers: {
+      metrics: ["Protocol drills completed", "Monitor hours on-site", "Incidents recorded"],
+      baselines: "Zero harm baseline (no unauthorised ground disturbance).",
+      thresholds: ["Any suspected k\u014Diwi or taonga triggers stop-work"],
+      actions: [
+        "Immediate stop-work; protect area; notify mana whenua, HNZPT, Police (if k\u014Diwi)",
+        "Undertake tikanga-led process; update methodology before resuming",
+      ],
+      reporting: "Incident log shared within 24h; monthly summary including training and inductions.",
+    },
+    policyLinks: [
+      "Tai Tumu, Tai Pari, Tai Ao EMP - Whenua: protection of w\u0101hi tapu, soils, and landscapes",
+      "District Plan - Heritage and Archaeology provisions",
+    ],
+    provisions: ["ttpta-wahi-tapu", "hnzpta-s42", "dp-heritage"],
+    consentClauses: [
+      "Implement a Cultural Discovery Protocol approved by mana whenua prior to commencement; all staff to be inducted and protocol kept onsite at all times.",
+      "Require mana whenua cultural monitors to be present during initial stripping; consent holder to fund participation and reporting.",
+    ],
+  },
+  soils: {
+    issue: "Loss of topsoil and soil productivity through stripping and earthworks",
+    effects: {
+      cultural: ["Loss of whenua as a living taonga"],
+      social: [],
+      environmental: ["Erosion risk; reduced soil productivity if not salvaged"],
+      spiritual: [],
+    },
+    mitigations: ["Topsoil salvage and reuse plan to support revegetation with taonga species."],
+    recommendations: ["Stage stripping to minimise exposed areas ahead of forecast rain."],
+    triggers: {
+      metrics: ["Exposed area (ha)", "Topsoil stockpile volume (m3)"],
+      baselines: "Pre-works soil survey and stockpile plan.",
+      thresholds: ["Exposed area exceeds staged limit"],
+      actions: ["Stabilise exposed areas before further stripping"],
+      reporting: "Monthly earthworks summary.",
+    },
+    policyLinks: ["Tai Tumu, Tai Pari, Tai Ao EMP - Whenua: protection of w\u0101hi tapu, soils, and landscapes"],
+    provisions: ["ttpta-whenua", "dp-earthworks"],
+    consentClauses: ["Prepare a Topsoil Management Plan providing for salvage, stockpiling and reuse on site."],
+  },
+  connectivity: {
+    issue: "Fragmentation of ecological corridors reducing connectivity for taonga species",
+    effects: {
+      cultural: ["Disruption to whakapapa relationships among species and habitats"],
+      social: ["Loss of local amenity and learning opportunities for rangatahi"],
+      environmental: ["Barrier to fish passage; edge effects increase predators/weeds"],
+      spiritual: ["Diminished wairua of place if connections severed"],
+    },
+    mitigations: ["Design wildlife-friendly culverts and fish passage; stage works to maintain connectivity."],
+    recommendations: [
+      "Planting palette guided by whakapapa of place (locally-sourced eco-sourced taonga species); 3-year establishment and pest control.",
+    ],
+    triggers: {
+      metrics: ["Fish passage scores (NIWA tool)", "Survival of plantings (%)", "Predator trap-catch"],
+      baselines: "Pre-works fish passage survey and habitat mapping.",
+      thresholds: ["Fish passage score < baseline", "Plant survival <85%"],
+      actions: ["Remediate culverts; replace failed plantings; intensify pest control"],
+      reporting: "Six-monthly ecological report + w\u0101nanga walkthrough.",
+    },
+    policyLinks: [
+      "Te Ture Whaimana - enhancement of ecological integrity",
+      "Tai Tumu, Tai Pari, Tai Ao EMP - Whakapapa: intergenerational stewardship",
+    ],
+    provisions: ["ttw-i", "ttpta-biodiversity"],
+    consentClauses: ["Fish passage to meet NIWA fish passage assessment tool thresholds; as-built certification prior to operation."],
+  },
+  traffic: {
+    issue: "Construction traffic affecting marae access, tangihanga, and daily wh\u0101nau life",
+    effects: {
+      cultural: ["Disruption to marae protocols and ability to host kaupapa including tangihanga"],
+      social: ["Increased stress; reduced community cohesion if engagement is weak"],
+      environmental: [],
+      spiritual: ["Disturbance to wairua during significant wh\u0101nau events"],
+    },
+    mitigations: ["Traffic Management Plan (TMP) with marae input; avoid peak event times"],
+    recommendations: [
+      "Co-design communications plan with mana whenua; 2-week lookahead notices",
+      "Identify protected access windows around known marae events/tangihanga",
+    ],
+    triggers: {
+      metrics: ["Number of complaints", "Access block incidents"],
+      baselines: "Pre-works access mapping with wh\u0101nau.",
+      thresholds: [">2 substantiated access incidents/month"],
+      actions: ["Adjust work hours/routing", "H\u016Btu w\u0101nanga within 5 working days to agree changes"],
+      reporting: "Monthly community report; real-time hotline with log shared to mana whenua.",
+    },
+    policyLinks: ["Tai Tumu, Tai Pari, Tai Ao EMP - Wh\u0101nau and participation"],
+    provisions: ["ttpta-participation", "dp-transport"],
+    consentClauses: [
+      "Prepare and implement a TMP and Communications Plan co-designed with mana whenua, including protected access windows for marae and mechanisms for event-time pauses.",
+    ],
+  },
+  noise: {
+    issue: "Construction noise, vibration and dust affecting nearby wh\u0101nau and marae",
+    effects: {
+      cultural: [],
+      social: ["Disturbance to daily life and rest for nearby wh\u0101nau"],
+      environmental: ["Dust and vibration affecting nearby sensitive receivers"],
+      spiritual: [],
+    },
+    mitigations: ["Construction Noise and Vibration Management Plan; onsite dust suppression"],
+    recommendations: ["Share noise monitoring results with mana whenua monthly"],
+    triggers: {
+      metrics: ["LAeq dB", "Number of complaints"],
+      baselines: "Pre-works ambient noise survey.",
+      thresholds: ["Noise exceeds plan limits"],
+      actions: ["Deploy additional acoustic barriers"],
+      reporting: "Monthly community report.",
+    },
+    policyLinks: ["Applicable District Plan - Noise/traffic rules and engagement requirements"],
+    provisions: ["dp-noise"],
+    consentClauses: ["Maintain a dedicated contact line and incident log accessible to mana whenua; implement corrective actions within 5 working days."],
+  },
+  stormwater: {
+    issue: "Residual effects risk during storm events despite controls",
+    effects: {
+      cultural: ["Perceived degradation of mauri during heavy rain events"],
+      social: ["Community anxiety following spill/overflow rumours"],
+      environmental: ["Pulse loads of sediments and contaminants"],
+      spiritual: ["Loss of balance (tapu/noa) when incidents occur"],
+    },
+    mitigations: [
+      "Adaptive management triggers linked to rainfall intensity thresholds",
+      "Contingency spill kits and overflow prevention measures",
+    ],
+    recommendations: [
+      "Integrate mauri indicators in dashboard with traffic-light triggers",
+      "Run post-event w\u0101nanga to agree remediation and learning",
+    ],
+    triggers: {
+      metrics: ["Rainfall (mm/hr)", "NTU spikes", "Incident count"],
+      baselines: "Event-based baseline using first-flush data",
+      thresholds: [">20 mm/hr with NTU > baseline + 40%", "Any overflow"],
+      actions: ["Suspend exposed works; stand-up response team; notify within 24h"],
+      reporting: "Event summary within 5 days; quarterly trend analysis with mana whenua.",
+    },
+    policyLinks: [
+      "Te Ture Whaimana - maintaining and enhancing the mauri of the Waikato River",
+      "Tai Tumu, Tai Pari, Tai Ao EMP - Mauri",
+    ],
+    provisions: ["ttw-f", "ttpta-mauri", "dp-infrastructure"],
+    consentClauses: [
+      "Adopt an Adaptive Management Plan with rainfall-linked triggers and defined corrective actions; co-develop with mana whenua and submit prior to works.",
+    ],
+  },
+  viewshafts: {
+    issue: "Loss of sense of place at w\u0101hi t\u016Bpuna vista and culturally sensitive viewshafts",
+    effects: {
+      cultural: ["Erosion of identity where viewshafts are compromised"],
+      social: ["Reduced pride and connection to place"],
+      environmental: ["Visual amenity effects; vegetation structure changes"],
+      spiritual: ["Disruption to wairua associated with the site"],
+    },
+    mitigations: ["Cultural design review panel with mana whenua; protect key sightlines"],
+    recommendations: ["Develop a viewshaft protection plan and culturally anchored design palette"],
+    triggers: {
+      metrics: ["Design gate approvals", "Non-conformance count"],
+      baselines: "Pre-works photo-simulations agreed with mana whenua",
+      thresholds: ["Any deviation from agreed sightline envelope"],
+      actions: ["Iterate design to restore sightlines; additional planting/screening"],
+      reporting: "Design review minutes; pre/post photo-comparisons filed with CIA updates.",
+    },
+    policyLinks: [
+      "Tai Tumu, Tai Pari, Tai Ao EMP - Wairua and landscapes",
+      "District Plan - Landscape/amenity objectives and policies",
+    ],
+    provisions: ["ttpta-landscape", "dp-landscape"],
+    consentClauses: [
+      "Establish a Cultural Design Review Panel with decision checkpoints at concept, developed, and pre-construction stages; implement agreed viewshaft protection measures.",
+    ],
+  },
+};
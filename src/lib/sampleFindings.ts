@@ -0,0 +1,268 @@
+import type { Finding } from "./model";
+
+// Demo findings for the Te Awa prototype project (shown until documents are analysed)
+export const sampleFindings: Finding[] = [
+  {
+    id: "sample-wai-1",
+    category: "wai",
+    issue:
+      "Potential degradation of mauri and clarity in tributary due to earthworks sediment discharges",
+    effects: {
+      cultural: [
+        "Mauri of the awa diminished; disruption to mahinga kai practices",
+        "Reduced ability for wh\u0101nau to gather kai safely",
+      ],
+      social: ["Community concern over river health; trust impacts"],
+      environmental: [
+        "Elevated NTU and TSS; smothering of habitat; fish passage stress",
+      ],
+      spiritual: [
+        "Tapu/noa balance affected where discharges occur near w\u0101hi tapu",
+      ],
+    },
+    mitigations: [
+      "Install staged sediment retention ponds sized to Hamilton District Plan GD05 guidance; monitor turbidity (NTU) daily.",
+      "No instream works during tuna migration periods; implement 25 m riparian buffer in sensitive reaches.",
+    ],
+    recommendations: [
+      "Co-design mahinga kai monitoring with mana whenua; quarterly w\u0101nanga to review data and adaptive actions.",
+      "Embed Te Ture Whaimana vision-objectives as assessment criteria in contractor EMS (Environmental Management System).",
+    ],
+    triggers: {
+      metrics: [
+        "NTU (turbidity)",
+        "TSS (mg/L)",
+        "E. coli (cfu/100 mL)",
+        "Visual clarity (m)",
+        "Mahinga kai presence/abundance (tuna/\u012Bnanga)",
+      ],
+      baselines:
+        "Establish 4-week pre-works baseline for NTU/clarity and cultural health index (CHI) with mana whenua.",
+      thresholds: [
+        "NTU > baseline + 25% for >24h",
+        "Clarity < 1.6 m during fine weather",
+        "Any exceedance at mahinga kai sites",
+      ],
+      actions: [
+        "Stop high-risk works; inspect ESCP; deploy additional treatment within 24h",
+        "Notify mana whenua and Council within 1 working day",
+        "Hold hui within 5 working days to agree corrective actions",
+      ],
+      reporting:
+        "Quarterly report + dashboard; immediate incident reports when thresholds tripped.",
+    },
+    policyLinks: [
+      "Te Ture Whaimana - Vision and Objective 1 (health and wellbeing of the Waikato River)",
+      "Tai Tumu, Tai Pari, Tai Ao EMP - Wai: water quality, mahinga kai protection",
+      "Hamilton District Plan - 25.14 Infrastructure; erosion/sediment control standards",
+    ],
+    provisions: ["ttw-a", "ttw-h", "ttw-k", "ttpta-wai", "ttpta-mahinga-kai", "dp-earthworks"],
+    consentClauses: [
+      "Prior to works, the consent holder must submit an Erosion and Sediment Control Plan (ESCP) prepared by a suitably qualified person, demonstrating compliance with GD05 and avoiding instream works during identified migration windows for tuna/\u012Bnanga.",
+      "Establish a Mauri Monitoring Programme co-developed with mana whenua that sets baseline and trigger levels (including NTU and clarity), provides for mahinga kai assessments, and requires adaptive responses within 10 working days if triggers are exceeded.",
+    ],
+    sources: [],
+  },
+  {
+    id: "sample-whenua-1",
+    category: "whenua",
+    issue:
+      "Loss of topsoil and disturbance of known urup\u0101 risk area within 200 m of works",
+    effects: {
+      cultural: [
+        "Risk to w\u0101hi tapu/w\u0101hi t\u016Bpuna; mamae if disturbance occurs",
+      ],
+      social: ["Project delays and conflict if discovery process unclear"],
+      environmental: ["Erosion risk; reduced soil productivity if not salvaged"],
+      spiritual: ["Tapu breach potential requiring tikanga responses"],
+    },
+    mitigations: [
+      "Cultural discovery protocol with immediate stop-work and notification process.",
+      "Topsoil salvage and reuse plan to support revegetation with taonga species.",
+    ],
+    recommendations: [
+      "Archaeological Authority (HNZPT) pre-works; mana whenua monitors present during initial ground-breaking.",
+      "GIS mapping layer for w\u0101hi tapu/w\u0101hi t\u016Bpuna integrated into contractor inductions.",
+    ],
+    triggers: {
+      metrics: ["Protocol drills completed", "Monitor hours on-site", "Incidents recorded"],
+      baselines: "Zero harm baseline (no unauthorised ground disturbance).",
+      thresholds: ["Any suspected k\u014Diwi or taonga triggers stop-work"],
+      actions: [
+        "Immediate stop-work; protect area; notify mana whenua, HNZPT, Police (if k\u014Diwi)",
+        "Undertake tikanga-led process; update methodology before resuming",
+      ],
+      reporting:
+        "Incident log shared within 24h; monthly summary including training and inductions.",
+    },
+    policyLinks: [
+      "Tai Tumu, Tai Pari, Tai Ao EMP - Whenua: protection of w\u0101hi tapu, soils, and landscapes",
+      "Hamilton/Waikato District Plan - Heritage and Archaeology provisions",
+    ],
+    provisions: ["ttpta-whenua", "ttpta-wahi-tapu", "hnzpta-s42", "dp-heritage"],
+    consentClauses: [
+      "Implement a Cultural Discovery Protocol approved by mana whenua prior to commencement; all staff to be inducted and protocol kept onsite at all times.",
+      "Require mana whenua cultural monitors to be present during initial stripping; consent holder to fund participation and reporting.",
+    ],
+    sources: [],
+  },
+  {
+    id: "sample-whakapapa-1",
+    category: "whakapapa",
+    issue:
+      "Fragmentation of ecological corridors reducing connectivity for taonga species",
+    effects: {
+      cultural: [
+        "Disruption to whakapapa relationships among species and habitats",
+      ],
+      social: [
+        "Loss of local amenity and learning opportunities for rangatahi",
+      ],
+      environmental: [
+        "Barrier to fish passage; edge effects increase predators/weeds",
+      ],
+      spiritual: ["Diminished wairua of place if connections severed"],
+    },
+    mitigations: [
+      "Design wildlife-friendly culverts and fish passage; stage works to maintain connectivity.",
+    ],
+    recommendations: [
+      "Planting palette guided by whakapapa of place (locally-sourced eco-sourced taonga species); 3-year establishment and pest control.",
+    ],
+    triggers: {
+      metrics: [
+        "Fish passage scores (NIWA tool)",
+        "Survival of plantings (%)",
+        "Predator trap-catch",
+      ],
+      baselines: "Pre-works fish passage survey and habitat mapping.",
+      thresholds: ["Fish passage score < baseline", "Plant survival <85%"],
+      actions: [
+        "Remediate culverts; replace failed plantings; intensify pest control",
+      ],
+      reporting: "Six-monthly ecological report + w\u0101nanga walkthrough.",
+    },
+    policyLinks: [
+      "Te Ture Whaimana - enhancement of ecological integrity",
+      "Tai Tumu, Tai Pari, Tai Ao EMP - Whakapapa: intergenerational stewardship",
+    ],
+    provisions: ["ttw-i", "ttpta-biodiversity"],
+    consentClauses: [
+      "Fish passage to meet NIWA fish passage assessment tool thresholds; as-built certification prior to operation.",
+    ],
+    sources: [],
+  },
+  {
+    id: "sample-whanau-1",
+    category: "wh\u0101nau",
+    issue:
+      "Construction traffic and noise affecting marae access, tangihanga, and daily wh\u0101nau life",
+    effects: {
+      cultural: [
+        "Disruption to marae protocols and ability to host kaupapa including tangihanga",
+      ],
+      social: [
+        "Increased stress; reduced community cohesion if engagement is weak",
+      ],
+      environmental: ["Dust and vibration affecting nearby sensitive receivers"],
+      spiritual: ["Disturbance to wairua during significant wh\u0101nau events"],
+    },
+    mitigations: [
+      "Traffic Management Plan (TMP) with marae input; avoid peak event times",
+      "Construction Noise and Vibration Management Plan; onsite dust suppression",
+    ],
+    recommendations: [
+      "Co-design communications plan with mana whenua; 2-week lookahead notices",
+      "Identify protected access windows around known marae events/tangihanga",
+    ],
+    triggers: {
+      metrics: ["LAeq dB", "Number of complaints", "Access block incidents"],
+      baselines: "Pre-works ambient noise survey and access mapping with wh\u0101nau.",
+      thresholds: [">2 substantiated access incidents/month", "Noise exceeds plan limits"],
+      actions: [
+        "Adjust work hours/routing; deploy additional acoustic barriers",
+        "H\u016Btu w\u0101nanga within 5 working days to agree changes",
+      ],
+      reporting: "Monthly community report; real-time hotline with log shared to mana whenua.",
+    },
+    policyLinks: [
+      "Tai Tumu, Tai Pari, Tai Ao EMP - Wh\u0101nau and participation",
+      "Applicable District Plan - Noise/traffic rules and engagement requirements",
+    ],
+    provisions: ["ttpta-participation", "dp-noise", "dp-transport"],
+    consentClauses: [
+      "Prepare and implement a TMP and Communications Plan co-designed with mana whenua, including protected access windows for marae and mechanisms for event-time pauses.",
+      "Maintain a dedicated contact line and incident log accessible to mana whenua; implement corrective actions within 5 working days.",
+    ],
+    sources: [],
+  },
+  {
+    id: "sample-mauri-1",
+    category: "mauri",
+    issue: "Residual effects risk during storm events despite controls",
+    effects: {
+      cultural: ["Perceived degradation of mauri during heavy rain events"],
+      social: ["Community anxiety following spill/overflow rumours"],
+      environmental: ["Pulse loads of sediments and contaminants"],
+      spiritual: ["Loss of balance (tapu/noa) when incidents occur"],
+    },
+    mitigations: [
+      "Adaptive management triggers linked to rainfall intensity thresholds",
+      "Contingency spill kits and overflow prevention measures",
+    ],
+    recommendations: [
+      "Integrate mauri indicators in dashboard with traffic-light triggers",
+      "Run post-event w\u0101nanga to agree remediation and learning",
+    ],
+    triggers: {
+      metrics: ["Rainfall (mm/hr)", "NTU spikes", "Incident count"],
+      baselines: "Event-based baseline using first-flush data",
+      thresholds: [">20 mm/hr with NTU > baseline + 40%", "Any overflow"],
+      actions: ["Suspend exposed works; stand-up response team; notify within 24h"],
+      reporting: "Event summary within 5 days; quarterly trend analysis with mana whenua.",
+    },
+    policyLinks: [
+      "Te Ture Whaimana - maintaining and enhancing the mauri of the Waikato River",
+      "Tai Tumu, Tai Pari, Tai Ao EMP - Mauri",
+    ],
+    provisions: ["ttw-f", "ttpta-mauri"],
+    consentClauses: [
+      "Adopt an Adaptive Management Plan with rainfall-linked triggers and defined corrective actions; co-develop with mana whenua and submit prior to works.",
+    ],
+    sources: [],
+  },
+  {
+    id: "sample-wairua-1",
+    category: "wairua",
+    issue:
+      "Loss of sense of place at w\u0101hi t\u016Bpuna vista and culturally sensitive viewshafts",
+    effects: {
+      cultural: ["Erosion of identity where viewshafts are compromised"],
+      social: ["Reduced pride and connection to place"],
+      environmental: ["Visual amenity effects; vegetation structure changes"],
+      spiritual: ["Disruption to wairua associated with the site"],
+    },
+    mitigations: [
+      "Cultural design review panel with mana whenua; protect key sightlines",
+    ],
+    recommendations: [
+      "Develop a viewshaft protection plan and culturally anchored design palette",
+    ],
+    triggers: {
+      metrics: ["Design gate approvals", "Non-conformance count"],
+      baselines: "Pre-works photo-simulations agreed with mana whenua",
+      thresholds: ["Any deviation from agreed sightline envelope"],
+      actions: ["Iterate design to restore sightlines; additional planting/screening"],
+      reporting: "Design review minutes; pre/post photo-comparisons filed with CIA updates.",
+    },
+    policyLinks: [
+      "Tai Tumu, Tai Pari, Tai Ao EMP - Wairua and landscapes",
+      "District Plan - Landscape/amenity objectives and policies",
+    ],
+    provisions: ["ttpta-landscape", "dp-landscape"],
+    consentClauses: [
+      "Establish a Cultural Design Review Panel with decision checkpoints at concept, developed, and pre-construction stages; implement agreed viewshaft protection measures.",
+    ],
+    sources: [],
+  },
+];
@@ -0,0 +1,10 @@
+// ---------------------------------------------------------------------------------
+// Service worker registration (production builds only: the dev server's module
+// graph changes on every edit and must not be served from a cache)
+
+export function registerServiceWorker(): void {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register("/sw.js").catch((e) => console.warn("Service worker not registered", e));
+  });
+}
@@ -0,0 +1,247 @@
+import { geoJsonFeatures, geometryPolygons, closeRing, type LngLat, type PolygonRings } from "./geo";
+
+// ---------------------------------------------------------------------------------
+// W\u0101hi tapu and archaeological site layers: GeoJSON, KML or NZAA-style CSV
+
+export type HeritageKind = "urupa" | "wahi-tapu" | "archaeological" | "other";
+
+export const HERITAGE_KINDS: { id: HeritageKind; label: string }[] = [
+  { id: "urupa", label: "Urup\u0101" },
+  { id: "wahi-tapu", label: "W\u0101hi tapu" },
+  { id: "archaeological", label: "Archaeological site" },
+  { id: "other", label: "Other recorded site" },
+];
+
+export type HeritageGeometry = { type: "point"; coordinates: LngLat } | { type: "polygon"; rings: PolygonRings };
+
+export type HeritageSite = {
+  id: string;
+  name: string;
+  kind: HeritageKind;
+  siteRef?: string; // e.g. NZAA site number S14/123
+  layer: string; // source file name
+  geometry: HeritageGeometry;
+};
+
+export function heritageLabel(kind: HeritageKind): string {
+  return HERITAGE_KINDS.find((k) => k.id === kind)?.label ?? kind;
+}
+
+// Classifies free-text site types ("Urupa", "Pa", "Midden/oven", "wahi tapu")
+export function classifyHeritage(text: string): HeritageKind {
+  const t = text.toLowerCase().normalize("NFD").replace(/\p{Diacritic}/gu, "");
+  if (/urupa|burial|koiwi|cemetery/.test(t)) return "urupa";
+  if (/wahi\s*tapu|tapu|maunga|puna|taniwha/.test(t)) return "wahi-tapu";
+  if (/\bpa\b|midden|oven|pit|terrace|kainga|garden|archaeolog|nzaa|artefact|findspot/.test(t)) return "archaeological";
+  return "other";
+}
+
+function siteId(layer: string, index: number): string {
+  return `${layer.replace(/\W+/g, "-").toLowerCase()}-${index + 1}`;
+}
+
+function propText(props: Record<string, unknown>, keys: string[]): string | undefined {
+  for (const k of Object.keys(props)) {
+    if (keys.includes(k.toLowerCase()) && props[k] != null && String(props[k]).trim()) return String(props[k]).trim();
+  }
+  return undefined;
+}
+
+const NAME_KEYS = ["name", "sitename", "site_name", "title", "label"];
+const TYPE_KEYS = ["type", "sitetype", "site_type", "kind", "category", "class"];
+const REF_KEYS = ["nzaa", "siteid", "site_id", "site_number", "sitenumber", "ref", "id"];
+
+// ---------------------------------------------------------------------------------
+// GeoJSON
+
+export function parseSitesGeoJson(text: string, layer: string): HeritageSite[] {
+  const features = geoJsonFeatures(JSON.parse(text));
+  const sites: HeritageSite[] = [];
+  features.forEach((f, i) => {
+    const geom = f.geometry as { type?: string; coordinates?: unknown } | null;
+    const name = propText(f.properties, NAME_KEYS) ?? `Site ${i + 1}`;
+    const typeText = propText(f.properties, TYPE_KEYS) ?? name;
+    const base = { id: siteId(layer, i), name, kind: classifyHeritage(typeText), siteRef: propText(f.properties, REF_KEYS), layer };
+    if (geom?.type === "Point" && Array.isArray(geom.coordinates) && typeof geom.coordinates[0] === "number") {
+      sites.push({ ...base, geometry: { type: "point", coordinates: [geom.coordinates[0], geom.coordinates[1] as number] } });
+      return;
+    }
+    for (const rings of geometryPolygons(geom)) sites.push({ ...base, id: `${base.id}-${sites.length}`, geometry: { type: "polygon", rings } });
+  });
+  return sites;
+}
+
+// ---------------------------------------------------------------------------------
+// KML (Placemark with Point or Polygon)
+
+function kmlCoords(text: string): LngLat[] {
+  return text
+    .trim()
+    .split(/\s+/)
+    .map((t) => t.split(",").map(Number))
+    .filter((c) => c.length >= 2 && c.every(Number.isFinite))
+    .map((c) => [c[0], c[1]] as LngLat);
+}
+
+export function parseSitesKml(text: string, layer: string): HeritageSite[] {
+  const xml = new DOMParser().parseFromString(text, "application/xml");
+  if (xml.getElementsByTagName("parsererror").length) throw new Error("KML could not be parsed");
+  const sites: HeritageSite[] = [];
+  Array.from(xml.getElementsByTagName("Placemark")).forEach((pm, i) => {
+    const name = pm.getElementsByTagName("name")[0]?.textContent?.trim() || `Site ${i + 1}`;
+    const description = pm.getElementsByTagName("description")[0]?.textContent ?? "";
+    const data = Object.fromEntries(
+      Array.from(pm.getElementsByTagName("Data")).map((d) => [d.getAttribute("name") ?? "", d.getElementsByTagName("value")[0]?.textContent ?? ""])
+    );
+    const base = { name, kind: classifyHeritage(`${propText(data, TYPE_KEYS) ?? ""} ${name} ${description}`), siteRef: propText(data, REF_KEYS), layer };
+    const point = pm.getElementsByTagName("Point")[0];
+    if (point) {
+      const [c] = kmlCoords(point.getElementsByTagName("coordinates")[0]?.textContent ?? "");
+      if (c) sites.push({ ...base, id: siteId(layer, sites.length), geometry: { type: "point", coordinates: c } });
+    }
+    for (const poly of Array.from(pm.getElementsByTagName("Polygon"))) {
+      const rings = [...Array.from(poly.getElementsByTagName("outerBoundaryIs")), ...Array.from(poly.getElementsByTagName("innerBoundaryIs"))]
+        .map((b) => closeRing(kmlCoords(b.getElementsByTagName("coordinates")[0]?.textContent ?? "")))
+        .filter((r) => r.length >= 4);
+      if (rings.length) sites.push({ ...base, id: siteId(layer, sites.length), geometry: { type: "polygon", rings } });
+    }
+  });
+  return sites;
+}
+
+// ---------------------------------------------------------------------------------
+// NZAA-style CSV: a site number, a site type and either latitude/longitude or
+// NZTM2000 easting/northing (ArchSite exports use NZTM)
+
+export function splitCsvLine(line: string): string[] {
+  const out: string[] = [];
+  let cur = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cur += '"';
+        i++;
+      } else if (ch === '"') quoted = false;
+      else cur += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ",") {
+      out.push(cur.trim());
+      cur = "";
+    } else cur += ch;
+  }
+  out.push(cur.trim());
+  return out;
+}
+
+// NZTM2000 (transverse Mercator on GRS80) to WGS84 longitude/latitude
+export function nztmToLngLat(easting: number, northing: number): LngLat {
+  const a = 6378137;
+  const f = 1 / 298.257222101;
+  const k0 = 0.9996;
+  const lon0 = (173 * Math.PI) / 180;
+  const e2 = 2 * f - f * f;
+  const ep2 = e2 / (1 - e2);
+  const x = easting - 1600000;
+  const m = (northing - 10000000) / k0;
+  const mu = m / (a * (1 - e2 / 4 - (3 * e2 * e2) / 64 - (5 * e2 ** 3) / 256));
+  const e1 = (1 - Math.sqrt(1 - e2)) / (1 + Math.sqrt(1 - e2));
+  const phi1 =
+    mu +
+    ((3 * e1) / 2 - (27 * e1 ** 3) / 32) * Math.sin(2 * mu) +
+    ((21 * e1 * e1) / 16 - (55 * e1 ** 4) / 32) * Math.sin(4 * mu) +
+    ((151 * e1 ** 3) / 96) * Math.sin(6 * mu) +
+    ((1097 * e1 ** 4) / 512) * Math.sin(8 * mu);
+  const sin1 = Math.sin(phi1);
+  const cos1 = Math.cos(phi1);
+  const tan1 = Math.tan(phi1);
+  const n1 = a / Math.sqrt(1 - e2 * sin1 * sin1);
+  const t1 = tan1 * tan1;
+  const c1 = ep2 * cos1 * cos1;
+  const r1 = (a * (1 - e2)) / Math.pow(1 - e2 * sin1 * sin1, 1.5);
+  const d = x / (n1 * k0);
+  const lat =
+    phi1 -
+    ((n1 * tan1) / r1) *
+      ((d * d) / 2 - ((5 + 3 * t1 + 10 * c1 - 4 * c1 * c1 - 9 * ep2) * d ** 4) / 24 + ((61 + 90 * t1 + 298 * c1 + 45 * t1 * t1 - 252 * ep2 - 3 * c1 * c1) * d ** 6) / 720);
+  const lon = lon0 + (d - ((1 + 2 * t1 + c1) * d ** 3) / 6 + ((5 - 2 * c1 + 28 * t1 - 3 * c1 * c1 + 8 * ep2 + 24 * t1 * t1) * d ** 5) / 120) / cos1;
+  return [(lon * 180) / Math.PI, (lat * 180) / Math.PI];
+}
+
+// Generous NZTM2000 extents of mainland New Zealand and the near islands
+const NZTM_EASTING: [number, number] = [1000000, 2200000];
+const NZTM_NORTHING: [number, number] = [4700000, 6300000];
+
+function within(value: number, [min, max]: [number, number]): boolean {
+  return value >= min && value <= max;
+}
+
+// A blank cell is missing, not zero
+function coordinate(cell: string | undefined): number {
+  return cell?.trim() ? Number(cell) : NaN;
+}
+
+// An "x"/"y" pair is often NZTM rather than degrees, so out-of-range degrees
+// are read as easting/northing when they fit; null when neither fits
+function csvCoords(first: number, second: number, latLng: boolean): LngLat | null {
+  if (!Number.isFinite(first) || !Number.isFinite(second)) return null;
+  if (latLng && within(second, [-90, 90]) && within(first, [-180, 180])) return [first, second];
+  if (within(first, NZTM_EASTING) && within(second, NZTM_NORTHING)) return nztmToLngLat(first, second);
+  return null;
+}
+
+function column(header: string[], names: string[]): number {
+  return header.findIndex((h) => names.includes(h.toLowerCase().replace(/[\s_-]+/g, "")));
+}
+
+export function parseSitesCsv(text: string, layer: string): { sites: HeritageSite[]; skipped: number } {
+  const lines = text.split(/\r?\n/).filter((l) => l.trim());
+  if (lines.length < 2) throw new Error("CSV has no data rows");
+  const header = splitCsvLine(lines[0]);
+  const col = {
+    ref: column(header, ["nzaa", "siteid", "sitenumber", "nzaasitenumber", "sitenum", "id"]),
+    name: column(header, ["name", "sitename", "title"]),
+    type: column(header, ["type", "sitetype", "kind", "category"]),
+    lat: column(header, ["lat", "latitude", "y"]),
+    lng: column(header, ["lng", "lon", "long", "longitude", "x"]),
+    easting: column(header, ["easting", "nztmeasting", "nztme", "e"]),
+    northing: column(header, ["northing", "nztmnorthing", "nztmn", "n"]),
+  };
+  const hasLatLng = col.lat >= 0 && col.lng >= 0;
+  if (!hasLatLng && (col.easting < 0 || col.northing < 0)) throw new Error("CSV needs latitude/longitude or NZTM easting/northing columns");
+
+  const sites: HeritageSite[] = [];
+  let skipped = 0;
+  lines.slice(1).forEach((line, i) => {
+    const cells = splitCsvLine(line);
+    const coords = hasLatLng
+      ? csvCoords(coordinate(cells[col.lng]), coordinate(cells[col.lat]), true)
+      : csvCoords(coordinate(cells[col.easting]), coordinate(cells[col.northing]), false);
+    if (!coords) {
+      skipped++;
+      return;
+    }
+    const ref = col.ref >= 0 ? cells[col.ref] : undefined;
+    const typeText = col.type >= 0 ? cells[col.type] : "";
+    const name = (col.name >= 0 && cells[col.name]) || [ref, typeText].filter(Boolean).join(" ") || `Site ${i + 1}`;
+    sites.push({
+      id: siteId(layer, i),
+      name,
+      kind: classifyHeritage(`${typeText} ${name} ${ref ?? ""}`),
+      siteRef: ref || undefined,
+      layer,
+      geometry: { type: "point", coordinates: coords },
+    });
+  });
+  return { sites, skipped };
+}
+
+// skipped counts CSV rows without usable coordinates
+export function parseSiteLayer(text: string, fileName: string): { sites: HeritageSite[]; skipped: number } {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith(".kml")) return { sites: parseSitesKml(text, fileName), skipped: 0 };
+  if (lower.endsWith(".csv")) return parseSitesCsv(text, fileName);
+  if (lower.endsWith(".geojson") || lower.endsWith(".json")) return { sites: parseSitesGeoJson(text, fileName), skipped: 0 };
+  throw new Error("Use GeoJSON, KML or CSV");
+}
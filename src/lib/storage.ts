@@ -0,0 +1,119 @@
+import { summariseProject, upgradeStoredProject, type CiaProject, type ProjectSummary } from "./project";
+import type { FieldLogEntry } from "./fieldLog";
+import type { Organisation } from "./organisations";
+
+// ---------------------------------------------------------------------------------
+// IndexedDB persistence (works offline, no backend)
+
+const DB_NAME = "cia-work";
+const DB_VERSION = 3;
+const PROJECTS = "projects";
+const SUMMARIES = "project-summaries"; // switcher rows, so listing never reads the documents and figures
+const FIELD_OUTBOX = "field-outbox"; // v2: field log entries waiting to sync
+const ORGANISATIONS = "organisations"; // v3: per-organisation narrative templates
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(PROJECTS)) db.createObjectStore(PROJECTS, { keyPath: "id" });
+        if (!db.objectStoreNames.contains(SUMMARIES)) db.createObjectStore(SUMMARIES, { keyPath: "id" });
+        if (!db.objectStoreNames.contains(FIELD_OUTBOX)) db.createObjectStore(FIELD_OUTBOX, { keyPath: "id" });
+        if (!db.objectStoreNames.contains(ORGANISATIONS)) db.createObjectStore(ORGANISATIONS, { keyPath: "id" });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error ?? new Error("IndexedDB unavailable"));
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function request<T>(store: string, mode: IDBTransactionMode, run: (s: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return openDb().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const tx = db.transaction(store, mode);
+        const req = run(tx.objectStore(store));
+        tx.oncomplete = () => resolve(req.result);
+        tx.onerror = () => reject(tx.error ?? req.error);
+        tx.onabort = () => reject(tx.error ?? new Error("Transaction aborted"));
+      })
+  );
+}
+
+// Writes several stores in one transaction, so a project and its summary never disagree
+function transact(stores: string[], run: (tx: IDBTransaction) => void): Promise<void> {
+  return openDb().then(
+    (db) =>
+      new Promise<void>((resolve, reject) => {
+        const tx = db.transaction(stores, "readwrite");
+        run(tx);
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error ?? new Error("Transaction aborted"));
+      })
+  );
+}
+
+export async function listProjects(): Promise<ProjectSummary[]> {
+  const all = await request<ProjectSummary[]>(SUMMARIES, "readonly", (s) => s.getAll());
+  return all.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function loadProject(id: string): Promise<CiaProject | undefined> {
+  const stored = await request<CiaProject | undefined>(PROJECTS, "readonly", (s) => s.get(id));
+  return stored && upgradeStoredProject(stored);
+}
+
+export async function saveProject(project: CiaProject): Promise<void> {
+  await transact([PROJECTS, SUMMARIES], (tx) => {
+    tx.objectStore(PROJECTS).put(project);
+    tx.objectStore(SUMMARIES).put(summariseProject(project));
+  });
+}
+
+export async function deleteProject(id: string): Promise<void> {
+  await transact([PROJECTS, SUMMARIES], (tx) => {
+    tx.objectStore(PROJECTS).delete(id);
+    tx.objectStore(SUMMARIES).delete(id);
+  });
+}
+
+// ---------------------------------------------------------------------------------
+// Field log outbox
+
+export async function queueFieldEntry(entry: FieldLogEntry): Promise<void> {
+  await request(FIELD_OUTBOX, "readwrite", (s) => s.put(entry));
+}
+
+export async function listQueuedFieldEntries(projectId: string): Promise<FieldLogEntry[]> {
+  const all = await request<FieldLogEntry[]>(FIELD_OUTBOX, "readonly", (s) => s.getAll());
+  return all.filter((e) => e.projectId === projectId);
+}
+
+export async function removeQueuedFieldEntry(id: string): Promise<void> {
+  await request(FIELD_OUTBOX, "readwrite", (s) => s.delete(id));
+}
+
+// ---------------------------------------------------------------------------------
+// Organisations
+
+export async function listOrganisations(): Promise<Organisation[]> {
+  const all = await request<Organisation[]>(ORGANISATIONS, "readonly", (s) => s.getAll());
+  return all.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function saveOrganisation(organisation: Organisation): Promise<void> {
+  await request(ORGANISATIONS, "readwrite", (s) => s.put(organisation));
+}
+
+export async function deleteOrganisation(id: string): Promise<void> {
+  await request(ORGANISATIONS, "readwrite", (s) => s.delete(id));
+}
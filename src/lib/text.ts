@@ -0,0 +1,7 @@
+export function normalizeForMatch(input: string): string {
+  // strip diacritics and lower-case for robust matching
+  return (input || "")
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/\p{Diacritic}/gu, "");
+}
@@ -0,0 +1,199 @@
+// ---------------------------------------------------------------------------------
+// Trigger threshold language. TriggerSpec.thresholds stay free text in findings;
+// parseThreshold turns the ones that name a measurable metric into rules, e.g.
+//
+//   NTU > baseline + 25% for >24h
+//   Clarity < 1.6 m during fine weather
+//   >20 mm/hr with NTU > baseline + 40%
+//
+// Clause   := [metric] comparison value [unit] [for duration] [qualifier]
+// Value    := number | "baseline" [(+|-) number [% | unit]]
+// Compound := clauses joined by "with" / "and" / "while" (all) or "or" (any)
+
+export type Metric = "ntu" | "tss" | "clarity" | "rainfall";
+
+export type Comparison = ">" | ">=" | "<" | "<=";
+
+export type ThresholdValue =
+  | { kind: "absolute"; value: number }
+  | { kind: "baseline"; offset: number; offsetType: "percent" | "absolute" };
+
+export type Duration = { comparison: Comparison; hours: number };
+
+export type WeatherQualifier = "fine" | "wet";
+
+export type Condition = {
+  metric: Metric;
+  comparison: Comparison;
+  value: ThresholdValue;
+  duration?: Duration;
+  weather?: WeatherQualifier;
+};
+
+export type ThresholdRule = {
+  source: string;
+  match: "all" | "any";
+  conditions: Condition[];
+};
+
+export type ParsedThreshold = { ok: true; rule: ThresholdRule } | { ok: false; source: string; error: string };
+
+export const METRICS: { id: Metric; label: string; unit: string; aliases: string[] }[] = [
+  { id: "ntu", label: "Turbidity", unit: "NTU", aliases: ["ntu", "turbidity"] },
+  { id: "tss", label: "Total suspended solids", unit: "mg/L", aliases: ["tss", "total suspended solids", "suspended solids", "suspended sediment"] },
+  { id: "clarity", label: "Water clarity", unit: "m", aliases: ["clarity", "water clarity", "visual clarity", "black disc", "black disc clarity"] },
+  { id: "rainfall", label: "Rainfall intensity", unit: "mm/hr", aliases: ["rainfall", "rain", "rainfall intensity", "rain intensity"] },
+];
+
+export function metricInfo(metric: Metric) {
+  return METRICS.find((m) => m.id === metric) ?? METRICS[0];
+}
+
+// Unit spellings seen in consent conditions, mapped to the metric they imply
+const UNITS: { pattern: RegExp; metric: Metric; scale: number }[] = [
+  { pattern: /^ntu$/, metric: "ntu", scale: 1 },
+  { pattern: /^(mg\/l|g\/m3|g\/m\u00B3)$/, metric: "tss", scale: 1 },
+  { pattern: /^m$/, metric: "clarity", scale: 1 },
+  { pattern: /^cm$/, metric: "clarity", scale: 0.01 },
+  { pattern: /^mm\/(hr|h|hour)$/, metric: "rainfall", scale: 1 },
+];
+
+const COMPARISONS: { pattern: RegExp; comparison: Comparison }[] = [
+  { pattern: /^(>=|\u2265|=>|at least|not less than)\s*/, comparison: ">=" },
+  { pattern: /^(<=|\u2264|=<|at most|not more than)\s*/, comparison: "<=" },
+  { pattern: /^(>|exceeds|above|more than|greater than|over)\s*/, comparison: ">" },
+  { pattern: /^(<|below|less than|under)\s*/, comparison: "<" },
+];
+
+const WEATHER: { pattern: RegExp; weather: WeatherQualifier }[] = [
+  { pattern: /\s*(during|in)\s+(fine|dry)\s+weather$/, weather: "fine" },
+  { pattern: /\s*(during|in)\s+(wet weather|rain(fall)?|storm( events?)?)$/, weather: "wet" },
+];
+
+const DURATION = /\s*for\s*(>=|>|\u2265|at least|more than|over)?\s*(\d+(?:\.\d+)?)\s*(h|hr|hrs|hours?|min|mins|minutes?|d|days?)$/;
+
+function unitScale(unit: string): { metric: Metric; scale: number } | null {
+  const u = unit.trim().toLowerCase();
+  const hit = UNITS.find((x) => x.pattern.test(u));
+  return hit ? { metric: hit.metric, scale: hit.scale } : null;
+}
+
+function durationHours(amount: number, unit: string): number {
+  if (unit.startsWith("m")) return amount / 60;
+  if (unit.startsWith("d")) return amount * 24;
+  return amount;
+}
+
+function readComparison(text: string): { comparison: Comparison; rest: string } | null {
+  for (const c of COMPARISONS) {
+    const m = text.match(c.pattern);
+    if (m) return { comparison: c.comparison, rest: text.slice(m[0].length) };
+  }
+  return null;
+}
+
+// Finds the metric named at the start of a clause, longest alias first
+function readMetric(text: string): { metric: Metric | null; rest: string } {
+  const aliases = METRICS.flatMap((m) => m.aliases.map((a) => ({ metric: m.id, alias: a }))).sort((a, b) => b.alias.length - a.alias.length);
+  for (const { metric, alias } of aliases) {
+    if (text.startsWith(alias) && !/[a-z]/.test(text.charAt(alias.length))) return { metric, rest: text.slice(alias.length).trim() };
+  }
+  return { metric: null, rest: text };
+}
+
+function parseClause(raw: string): Condition | string {
+  let text = raw.trim().toLowerCase();
+  let weather: WeatherQualifier | undefined;
+  let duration: Duration | undefined;
+
+  for (const w of WEATHER) {
+    if (w.pattern.test(text)) {
+      weather = w.weather;
+      text = text.replace(w.pattern, "");
+    }
+  }
+  const d = text.match(DURATION);
+  if (d) {
+    const word = d[1] ?? ">=";
+    duration = { comparison: word === ">" || word === "more than" || word === "over" ? ">" : ">=", hours: durationHours(Number(d[2]), d[3]) };
+    text = text.slice(0, d.index).trim();
+  }
+
+  const named = readMetric(text);
+  const cmp = readComparison(named.rest);
+  if (!cmp) return named.metric ? `no comparison after "${metricInfo(named.metric).label}"` : `no measurable metric in "${raw.trim()}"`;
+
+  const value = cmp.rest.trim();
+  const baseline = value.match(/^baseline(?:\s*([+-])\s*(\d+(?:\.\d+)?)\s*(%|[a-z][a-z/\d\u00B3]*)?)?$/);
+  const absolute = value.match(/^(\d+(?:\.\d+)?)\s*([a-z][a-z/\d\u00B3]*)?$/);
+  let metric = named.metric;
+  let parsed: ThresholdValue;
+
+  if (baseline) {
+    const unit = baseline[3];
+    const sign = baseline[1] === "-" ? -1 : 1;
+    const amount = baseline[2] ? sign * Number(baseline[2]) : 0;
+    if (unit && unit !== "%") {
+      const u = unitScale(unit);
+      if (!u) return `unknown unit "${unit}"`;
+      metric = metric ?? u.metric;
+      parsed = { kind: "baseline", offset: amount * u.scale, offsetType: "absolute" };
+    } else {
+      parsed = { kind: "baseline", offset: amount, offsetType: unit === "%" ? "percent" : "absolute" };
+    }
+  } else if (absolute) {
+    let amount = Number(absolute[1]);
+    if (absolute[2]) {
+      const u = unitScale(absolute[2]);
+      if (!u) return `unknown unit "${absolute[2]}"`;
+      if (metric && u.metric !== metric) return `unit "${absolute[2]}" does not fit ${metricInfo(metric).label}`;
+      metric = u.metric;
+      amount *= u.scale;
+    }
+    parsed = { kind: "absolute", value: amount };
+  } else {
+    return named.metric ? `cannot read the value "${value}"` : `no measurable metric in "${raw.trim()}"`;
+  }
+
+  if (!metric) return `no metric or unit to tell what "${raw.trim()}" measures`;
+  return { metric, comparison: cmp.comparison, value: parsed, duration, weather };
+}
+
+export function parseThreshold(source: string): ParsedThreshold {
+  const text = source.trim();
+  if (!text) return { ok: false, source, error: "empty threshold" };
+  const anyOf = /\s+or\s+/i.test(text);
+  const clauses = text.split(anyOf ? /\s+or\s+/i : /\s+(?:with|and|while|when)\s+/i);
+  const conditions: Condition[] = [];
+  for (const clause of clauses) {
+    const c = parseClause(clause);
+    if (typeof c === "string") return { ok: false, source, error: c };
+    conditions.push(c);
+  }
+  return { ok: true, rule: { source, match: anyOf ? "any" : "all", conditions } };
+}
+
+// ---------------------------------------------------------------------------------
+// Display
+
+function formatNumber(n: number): string {
+  return Number.isInteger(n) ? String(n) : String(Number(n.toFixed(3)));
+}
+
+export function formatCondition(c: Condition): string {
+  const unit = metricInfo(c.metric).unit;
+  const value =
+    c.value.kind === "absolute"
+      ? `${formatNumber(c.value.value)} ${unit}`
+      : c.value.offset === 0
+        ? "baseline"
+        : `baseline ${c.value.offset < 0 ? "-" : "+"} ${formatNumber(Math.abs(c.value.offset))}${c.value.offsetType === "percent" ? "%" : ` ${unit}`}`;
+  const parts = [`${metricInfo(c.metric).label} ${c.comparison} ${value}`];
+  if (c.duration) parts.push(`for ${c.duration.comparison} ${formatNumber(c.duration.hours)} h`);
+  if (c.weather) parts.push(c.weather === "fine" ? "in fine weather" : "in wet weather");
+  return parts.join(" ");
+}
+
+export function formatRule(rule: ThresholdRule): string {
+  return rule.conditions.map(formatCondition).join(rule.match === "all" ? " AND " : " OR ");
+}
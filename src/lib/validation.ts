@@ -0,0 +1,56 @@
+import { CATEGORIES, type Finding } from "./model";
+
+// ---------------------------------------------------------------------------------
+// Finding validation. Paths use dot notation ("triggers.thresholds.1") so the
+// editor can show each message next to the field it belongs to.
+
+export type FieldIssue = {
+  path: string;
+  message: string;
+  severity: "error" | "warning";
+};
+
+const EFFECT_BUCKETS = ["cultural", "social", "environmental", "spiritual"] as const;
+
+function checkList(issues: FieldIssue[], path: string, label: string, list: string[], required: "error" | "warning" | null) {
+  if (list.length === 0 && required) issues.push({ path, message: `Add at least one ${label}`, severity: required });
+  list.forEach((item, i) => {
+    if (!item.trim()) issues.push({ path: `${path}.${i}`, message: `Empty ${label}`, severity: "error" });
+  });
+}
+
+export function validateFinding(f: Finding): FieldIssue[] {
+  const issues: FieldIssue[] = [];
+  if (!(CATEGORIES as readonly string[]).includes(f.category)) {
+    issues.push({ path: "category", message: `Unknown category "${f.category}"`, severity: "error" });
+  }
+  if (!f.issue.trim()) issues.push({ path: "issue", message: "Issue is required", severity: "error" });
+
+  for (const bucket of EFFECT_BUCKETS) checkList(issues, `effects.${bucket}`, `${bucket} effect`, f.effects[bucket], null);
+  if (EFFECT_BUCKETS.every((b) => f.effects[b].length === 0)) {
+    issues.push({ path: "effects", message: "Record at least one effect", severity: "error" });
+  }
+
+  checkList(issues, "mitigations", "mitigation", f.mitigations, "error");
+  checkList(issues, "recommendations", "recommendation", f.recommendations, "warning");
+
+  checkList(issues, "triggers.metrics", "metric", f.triggers.metrics, "error");
+  if (!f.triggers.baselines.trim()) issues.push({ path: "triggers.baselines", message: "Baseline is missing", severity: "error" });
+  checkList(issues, "triggers.thresholds", "threshold", f.triggers.thresholds, "error");
+  checkList(issues, "triggers.actions", "action", f.triggers.actions, "error");
+  if (!f.triggers.reporting.trim()) issues.push({ path: "triggers.reporting", message: "Reporting requirement is missing", severity: "warning" });
+
+  checkList(issues, "policyLinks", "policy link", f.policyLinks, "warning");
+  if (f.provisions.length === 0) issues.push({ path: "provisions", message: "Link at least one policy provision", severity: "warning" });
+  checkList(issues, "consentClauses", "consent clause", f.consentClauses, "warning");
+  if (f.sources.length === 0) issues.push({ path: "sources", message: "No statement cites a source document yet", severity: "warning" });
+  return issues;
+}
+
+export function validateFindings(findings: Finding[]): { index: number; issues: FieldIssue[] }[] {
+  return findings.map((f, index) => ({ index, issues: validateFinding(f) })).filter((r) => r.issues.length > 0);
+}
+
+export function issuesAt(issues: FieldIssue[], path: string): FieldIssue[] {
+  return issues.filter((i) => i.path === path);
+}
@@ -0,0 +1,184 @@
+// ---------------------------------------------------------------------------------
+// New Zealand working days. Follows the RMA s2 definition used in consent
+// conditions: not a weekend, not a national public holiday (Mondayised where the
+// Holidays Act says so), not the regional anniversary day, and not 20 December to
+// 10 January inclusive.
+//
+// Dates are local calendar days written "YYYY-MM-DD".
+
+export type AnniversaryRegion = "auckland" | "wellington" | "canterbury" | "otago";
+
+export const ANNIVERSARY_REGIONS: { id: AnniversaryRegion; label: string }[] = [
+  { id: "auckland", label: "Auckland Anniversary (observed in Waikato, Northland, Bay of Plenty and Gisborne)" },
+  { id: "wellington", label: "Wellington Anniversary" },
+  { id: "canterbury", label: "Canterbury Anniversary" },
+  { id: "otago", label: "Otago Anniversary" },
+];
+
+export type Holiday = { date: string; name: string };
+
+export type WorkingDayOptions = {
+  region: AnniversaryRegion | null;
+  excludeChristmasBreak: boolean; // RMA: 20 Dec - 10 Jan are not working days
+};
+
+export const RMA_WORKING_DAYS: WorkingDayOptions = { region: "auckland", excludeChristmasBreak: true };
+
+// Te K\u0101hui o Matariki Public Holiday Act 2022, Schedule 1
+const MATARIKI: Record<number, string> = {
+  2022: "06-24", 2023: "07-14", 2024: "06-28", 2025: "06-20", 2026: "07-10", 2027: "06-25", 2028: "07-14",
+  2029: "07-06", 2030: "06-21", 2031: "07-11", 2032: "07-02", 2033: "06-24", 2034: "07-07", 2035: "06-29",
+  2036: "07-18", 2037: "07-10", 2038: "06-25", 2039: "07-15", 2040: "07-06", 2041: "07-19", 2042: "07-11",
+  2043: "07-03", 2044: "06-24", 2045: "07-07", 2046: "06-29", 2047: "07-19", 2048: "07-03", 2049: "06-25",
+  2050: "07-15", 2051: "06-30", 2052: "06-21",
+};
+
+// ---------------------------------------------------------------------------------
+// Calendar helpers (UTC arithmetic on calendar days avoids daylight-saving jumps)
+
+export function dayKey(d: Date): string {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+function utc(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function key(d: Date): string {
+  return d.toISOString().slice(0, 10);
+}
+
+function fromKey(k: string): Date {
+  const [y, m, d] = k.split("-").map(Number);
+  return utc(y, m, d);
+}
+
+function plusDays(d: Date, n: number): Date {
+  return new Date(d.getTime() + n * 86400000);
+}
+
+// weekday: 0 = Sunday ... 6 = Saturday
+function nthWeekday(year: number, month: number, weekday: number, n: number): Date {
+  const first = utc(year, month, 1);
+  return plusDays(first, ((weekday - first.getUTCDay() + 7) % 7) + (n - 1) * 7);
+}
+
+function mondayNearest(year: number, month: number, day: number): Date {
+  const d = utc(year, month, day);
+  const offset = [1, 0, -1, -2, -3, 3, 2][d.getUTCDay()]; // Sun..Sat
+  return plusDays(d, offset);
+}
+
+// Single holidays on a weekend move to the following Monday
+function mondayised(d: Date): Date {
+  const dow = d.getUTCDay();
+  return dow === 6 ? plusDays(d, 2) : dow === 0 ? plusDays(d, 1) : d;
+}
+
+// Paired holidays (25/26 Dec, 1/2 Jan) move past the weekend together
+function mondayisedPair(first: Date): [Date, Date] {
+  const dow = first.getUTCDay();
+  if (dow === 6) return [plusDays(first, 2), plusDays(first, 3)];
+  if (dow === 0) return [plusDays(first, 2), plusDays(first, 1)];
+  if (dow === 5) return [first, plusDays(first, 3)];
+  return [first, plusDays(first, 1)];
+}
+
+function easterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return utc(year, month, day);
+}
+
+function anniversary(year: number, region: AnniversaryRegion, easterMonday: string): Holiday {
+  if (region === "auckland") return { date: key(mondayNearest(year, 1, 29)), name: "Auckland Anniversary Day" };
+  if (region === "wellington") return { date: key(mondayNearest(year, 1, 22)), name: "Wellington Anniversary Day" };
+  if (region === "otago") {
+    // moves to the Tuesday when it falls on Easter Monday
+    const d = mondayNearest(year, 3, 23);
+    return { date: key(key(d) === easterMonday ? plusDays(d, 1) : d), name: "Otago Anniversary Day" };
+  }
+  // Canterbury: Show Day, the second Friday after the first Tuesday of November
+  return { date: key(plusDays(nthWeekday(year, 11, 2, 1), 10)), name: "Canterbury Anniversary Day" };
+}
+
+export function nzPublicHolidays(year: number, region: AnniversaryRegion | null): Holiday[] {
+  const easter = easterSunday(year);
+  const [newYear, dayAfter] = mondayisedPair(utc(year, 1, 1));
+  const [christmas, boxing] = mondayisedPair(utc(year, 12, 25));
+  const holidays: Holiday[] = [
+    { date: key(newYear), name: "New Year's Day" },
+    { date: key(dayAfter), name: "Day after New Year's Day" },
+    { date: key(mondayised(utc(year, 2, 6))), name: "Waitangi Day" },
+    { date: key(plusDays(easter, -2)), name: "Good Friday" },
+    { date: key(plusDays(easter, 1)), name: "Easter Monday" },
+    { date: key(mondayised(utc(year, 4, 25))), name: "Anzac Day" },
+    { date: key(nthWeekday(year, 6, 1, 1)), name: year >= 2023 ? "King's Birthday" : "Queen's Birthday" },
+    { date: key(nthWeekday(year, 10, 1, 4)), name: "Labour Day" },
+    { date: key(christmas), name: "Christmas Day" },
+    { date: key(boxing), name: "Boxing Day" },
+  ];
+  if (MATARIKI[year]) holidays.push({ date: `${year}-${MATARIKI[year]}`, name: "Matariki" });
+  if (region) holidays.push(anniversary(year, region, key(plusDays(easter, 1))));
+  return holidays.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+const holidayCache = new Map<string, Map<string, string>>();
+
+function holidaysFor(year: number, region: AnniversaryRegion | null): Map<string, string> {
+  const cacheKey = `${year}|${region ?? ""}`;
+  let found = holidayCache.get(cacheKey);
+  if (!found) {
+    found = new Map(nzPublicHolidays(year, region).map((h) => [h.date, h.name]));
+    holidayCache.set(cacheKey, found);
+  }
+  return found;
+}
+
+// Why a day is not a working day, or null when it is one
+export function nonWorkingReason(day: string, options: WorkingDayOptions = RMA_WORKING_DAYS): string | null {
+  const d = fromKey(day);
+  const dow = d.getUTCDay();
+  if (dow === 0 || dow === 6) return "Weekend";
+  const holiday = holidaysFor(d.getUTCFullYear(), options.region).get(day);
+  if (holiday) return holiday;
+  const md = day.slice(5);
+  if (options.excludeChristmasBreak && (md >= "12-20" || md <= "01-10")) return "Christmas / New Year break (20 Dec - 10 Jan)";
+  return null;
+}
+
+export function isWorkingDay(day: string, options: WorkingDayOptions = RMA_WORKING_DAYS): boolean {
+  return nonWorkingReason(day, options) === null;
+}
+
+// The nth working day after `day` (the day itself never counts)
+export function addWorkingDays(day: string, n: number, options: WorkingDayOptions = RMA_WORKING_DAYS): string {
+  let d = fromKey(day);
+  let remaining = n;
+  while (remaining > 0) {
+    d = plusDays(d, 1);
+    if (isWorkingDay(key(d), options)) remaining--;
+  }
+  return key(d);
+}
+
+// Working days after `from` up to and including `to`
+export function workingDaysBetween(from: string, to: string, options: WorkingDayOptions = RMA_WORKING_DAYS): number {
+  let count = 0;
+  for (let d = plusDays(fromKey(from), 1); key(d) <= to; d = plusDays(d, 1)) {
+    if (isWorkingDay(key(d), options)) count++;
+  }
+  return count;
+}